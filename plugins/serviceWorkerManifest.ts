@@ -0,0 +1,131 @@
+/**
+ * Service worker build plugin
+ * Emits dist/sw.js from src/sw.js with a manifest injected in place of `self.__SW_MANIFEST`:
+ * the hashed files to precache, a cache version derived from their contents, and the API
+ * roots and cache rules (from src/api/apiPaths.ts, the same prefix logic the app uses)
+ */
+
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative, resolve, sep } from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+import {
+  apiRootFor,
+  DEFAULT_API_URLS,
+  NEVER_CACHED_ROUTES,
+  OFFLINE_READABLE_ROUTES
+} from '../src/api/apiPaths';
+
+// ========== CONFIGURATION ==========
+
+const SW_CONFIG = {
+  SOURCE: 'src/sw.js',
+  OUTPUT: 'sw.js',
+  PLACEHOLDER: 'self.__SW_MANIFEST',
+  // Build output that shouldn't be fetched on install
+  PRECACHE_EXCLUDE: [/\.map$/, /^bundle-analysis\.html$/, /^sw\.js$/],
+  VERSION_LENGTH: 12,
+} as const;
+
+// ========== TYPES ==========
+
+export interface ServiceWorkerManifest {
+  version: string;
+  precache: string[];
+  api: {
+    roots: string[];               // absolute base URL + API prefix for each deployed backend
+    offline_readable: string[];
+    never_cached: string[];
+  };
+}
+
+// ========== HELPERS ==========
+
+const isPrecached = (fileName: string): boolean =>
+  !SW_CONFIG.PRECACHE_EXCLUDE.some(pattern => pattern.test(fileName));
+
+const listFiles = (directory: string): string[] => {
+  try {
+    return readdirSync(directory).flatMap(name => {
+      const path = join(directory, name);
+      return statSync(path).isDirectory() ? listFiles(path) : [path];
+    });
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * API roots the worker treats as API traffic - every real backend the build can select at runtime
+ */
+const apiRoots = (env: Record<string, string>): string[] => {
+  const baseUrls = [
+    env.VITE_API_URL || DEFAULT_API_URLS.production,
+    env.VITE_STAGING_API_URL || DEFAULT_API_URLS.staging,
+    DEFAULT_API_URLS.local,
+  ];
+  return [...new Set(baseUrls.map(apiRootFor))];
+};
+
+// ========== PLUGIN ==========
+
+export function serviceWorkerManifest(): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'veo3:service-worker-manifest',
+    apply: 'build',
+    // After vite:build-html, so index.html is part of the bundle
+    enforce: 'post',
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    generateBundle(_options, bundle) {
+      const sourcePath = resolve(config.root, SW_CONFIG.SOURCE);
+      const source = readFileSync(sourcePath, 'utf8');
+      if (!source.includes(SW_CONFIG.PLACEHOLDER)) {
+        this.error(`${SW_CONFIG.SOURCE} no longer references ${SW_CONFIG.PLACEHOLDER}`);
+      }
+
+      // Content hash over everything precached, so any change installs a new worker
+      const hash = createHash('sha256').update(source);
+      const files = new Set<string>();
+
+      for (const output of Object.values(bundle)) {
+        if (!isPrecached(output.fileName)) continue;
+        files.add(output.fileName);
+        hash.update(output.fileName).update(output.type === 'chunk' ? output.code : output.source);
+      }
+
+      const publicDir = config.publicDir;
+      for (const path of publicDir ? listFiles(publicDir) : []) {
+        const fileName = relative(publicDir, path).split(sep).join('/');
+        if (!isPrecached(fileName)) continue;
+        files.add(fileName);
+        hash.update(fileName).update(readFileSync(path));
+      }
+
+      const base = config.base.endsWith('/') ? config.base : `${config.base}/`;
+      const precache = [...files].sort().map(fileName => `${base}${fileName}`);
+
+      const manifest: ServiceWorkerManifest = {
+        version: hash.digest('hex').slice(0, SW_CONFIG.VERSION_LENGTH),
+        // Navigations to the root are served the precached shell
+        precache: [base, ...precache],
+        api: {
+          roots: apiRoots(config.env),
+          offline_readable: OFFLINE_READABLE_ROUTES,
+          never_cached: NEVER_CACHED_ROUTES,
+        },
+      };
+
+      this.emitFile({
+        type: 'asset',
+        fileName: SW_CONFIG.OUTPUT,
+        source: source.replace(SW_CONFIG.PLACEHOLDER, JSON.stringify(manifest, null, 2)),
+      });
+    },
+  };
+}
@@ -2,11 +2,17 @@ import { Routes, Route } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { NeuralBackground } from './components/effects/NeuralBackground';
 import { Header } from './components/layout/Header';
+import { EnvironmentBanner } from './components/layout/EnvironmentBanner';
+import { UpdatePrompt } from './components/layout/UpdatePrompt';
 import { ProtectedRoute } from './components/auth/ProtectedRoute';
 import { useAuthStore } from './stores/authStore';
 import { useEffect, Suspense, lazy } from 'react';
 import LoadingSpinner from './components/ui/LoadingSpinner';
+import NetworkStatus from './components/ui/NetworkStatus';
 import { LazyAnimationProvider } from './components/effects/LazyAnimationProvider';
+import { useRealtimeConnection } from './hooks/useRealtime';
+import { useGenerationQueueLifecycle } from './hooks/useGenerationQueue';
+import { useOfflineQueueLifecycle } from './hooks/useOfflineQueue';
 
 // Lazy-loaded pages for optimal code splitting
 const Dashboard = lazy(() => import('./pages/Dashboard'));
@@ -23,11 +29,21 @@ function App() {
     checkAuth();
   }, [checkAuth]);
 
+  // One realtime socket per authenticated session
+  useRealtimeConnection();
+
+  // Resume unfinished generations from the persistent queue
+  useGenerationQueueLifecycle();
+
+  // Send changes made while offline once the connection returns
+  useOfflineQueueLifecycle();
+
   return (
     <LazyAnimationProvider respectReducedMotion={true}>
       <div className="min-h-screen relative">
         <NeuralBackground />
         <div className="relative z-10">
+          <EnvironmentBanner />
           <Header />
         <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
           <Suspense fallback={
@@ -104,6 +120,10 @@ function App() {
           </div>
         </footer>
       </div>
+      {/* Offline and degraded-mode (backend outage) banner */}
+      <NetworkStatus />
+      {/* Reload prompt when a new deploy is ready */}
+      <UpdatePrompt />
       <Toaster
         position="top-right"
         toastOptions={{
@@ -0,0 +1,46 @@
+/**
+ * API paths
+ * Prefix rules and default backends shared by the app and the build: vite.config.ts
+ * derives the service worker's API cache rules from this module, so it must not touch
+ * browser globals or import.meta.env
+ */
+
+// ========== PREFIX ==========
+
+/**
+ * API prefix for a backend base URL; avoids a double /api segment when the URL already ends in /api
+ */
+export const apiPrefixFor = (baseUrl: string): string => (baseUrl.endsWith('/api') ? '/v1' : '/api/v1');
+
+/**
+ * Base URL including the API prefix
+ */
+export const apiRootFor = (baseUrl: string): string => `${baseUrl}${apiPrefixFor(baseUrl)}`;
+
+// ========== DEFAULT BACKENDS ==========
+
+// Used when the build doesn't set VITE_API_URL / VITE_STAGING_API_URL
+export const DEFAULT_API_URLS = {
+  production: 'https://api.lostmindai.com',
+  staging: 'https://staging-api.lostmindai.com',
+  local: 'http://localhost:8005'
+} as const;
+
+// ========== SERVICE WORKER CACHE RULES ==========
+
+// Routes relative to the API root; a route also covers everything below it
+
+// Served from cache when the network fails, so lists and the profile stay readable offline
+export const OFFLINE_READABLE_ROUTES = [
+  '/user/profile',
+  '/user/videos',
+  '/templates'
+];
+
+// Always sent straight to the network
+export const NEVER_CACHED_ROUTES = [
+  '/auth',
+  '/events',
+  '/videos/generate',
+  '/videos/batch'
+];
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker, isOutageFailure } from './circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+  let probe: ReturnType<typeof vi.fn<[], Promise<boolean>>>;
+
+  const failTimes = (count: number) => {
+    for (let index = 0; index < count; index++) breaker.recordFailure();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker();
+    probe = vi.fn(() => Promise.resolve(false));
+    breaker.setProbe(probe);
+  });
+
+  afterEach(() => {
+    breaker.reset();
+    vi.useRealTimers();
+  });
+
+  it('should open after repeated failures and short-circuit non-essential requests', () => {
+    failTimes(4);
+    expect(breaker.getSnapshot().state).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.getSnapshot()).toEqual({ state: 'open', openedAt: Date.now(), nextProbeAt: Date.now() + 10000 });
+    expect(breaker.allows()).toBe(false);
+    expect(breaker.allows(true)).toBe(true);
+  });
+
+  it('should only count failures inside the window', () => {
+    failTimes(4);
+    vi.advanceTimersByTime(31000);
+    breaker.recordFailure();
+
+    expect(breaker.getSnapshot().state).toBe('closed');
+  });
+
+  it('should reset the failure count on success', () => {
+    failTimes(4);
+    breaker.recordSuccess();
+    failTimes(4);
+
+    expect(breaker.getSnapshot().state).toBe('closed');
+  });
+
+  it('should probe with backoff and close once healthy', async () => {
+    const listener = vi.fn();
+    breaker.subscribe(listener);
+    failTimes(5);
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(breaker.getSnapshot()).toEqual(expect.objectContaining({ state: 'open', nextProbeAt: Date.now() + 20000 }));
+
+    probe.mockResolvedValue(true);
+    await vi.advanceTimersByTimeAsync(19999);
+    expect(probe).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(probe).toHaveBeenCalledTimes(2);
+    expect(breaker.getSnapshot()).toEqual({ state: 'closed', openedAt: null, nextProbeAt: null });
+    expect(listener.mock.calls.map(([snapshot]) => snapshot.state)).toEqual(['open', 'half_open', 'open', 'half_open', 'closed']);
+  });
+
+  it('should probe on demand and close when a real request succeeds', async () => {
+    failTimes(5);
+    probe.mockResolvedValue(true);
+
+    await expect(breaker.probeNow()).resolves.toBe(true);
+    expect(breaker.allows()).toBe(true);
+
+    failTimes(5);
+    breaker.recordSuccess();
+    expect(breaker.getSnapshot().state).toBe('closed');
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(probe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat 5xx and network errors as outages, not client errors', () => {
+    expect(isOutageFailure(undefined)).toBe(true);
+    expect(isOutageFailure(503)).toBe(true);
+    expect(isOutageFailure(404)).toBe(false);
+    expect(isOutageFailure(429)).toBe(false);
+  });
+});
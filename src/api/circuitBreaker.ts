@@ -0,0 +1,163 @@
+/**
+ * Circuit breaker for backend outages
+ * Features: opens after repeated 5xx/network failures, short-circuits non-essential
+ * requests while open, probes a lightweight health endpoint with backoff, and
+ * publishes its state for the degraded-mode banner
+ */
+
+// ========== CONFIGURATION ==========
+
+const CIRCUIT_CONFIG = {
+  FAILURE_THRESHOLD: 5,           // failures within the window that open the circuit
+  FAILURE_WINDOW: 30000,
+  PROBE_DELAY: 10000,             // first health probe after opening
+  MAX_PROBE_DELAY: 120000,        // probe delay doubles on each failed probe up to this
+  OUTAGE_STATUS_CODES: [500, 502, 503, 504]
+} as const;
+
+export const HEALTH_ENDPOINT = '/health';
+
+// Code on requests short-circuited while the circuit is open
+export const CIRCUIT_OPEN_CODE = 'CIRCUIT_OPEN';
+
+// ========== TYPES ==========
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  openedAt: number | null;
+  nextProbeAt: number | null;     // null while closed or while a probe is in flight
+}
+
+export type HealthProbe = () => Promise<boolean>;
+
+/**
+ * Whether a failed request points at a backend outage rather than a bad request.
+ * Errors while the browser is offline are left to the network status banner.
+ */
+export const isOutageFailure = (status: number | undefined): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+  return !status || (CIRCUIT_CONFIG.OUTAGE_STATUS_CODES as readonly number[]).includes(status);
+};
+
+// ========== CIRCUIT BREAKER ==========
+
+export class CircuitBreaker {
+  private failures: number[] = [];
+  private probeDelay: number = CIRCUIT_CONFIG.PROBE_DELAY;
+  private probeTimer: ReturnType<typeof setTimeout> | null = null;
+  private probe: HealthProbe | null = null;
+  private snapshot: CircuitSnapshot = { state: 'closed', openedAt: null, nextProbeAt: null };
+  private listeners = new Set<(snapshot: CircuitSnapshot) => void>();
+
+  /**
+   * Health check used to decide when to close again; set once by the API client
+   */
+  setProbe(probe: HealthProbe): void {
+    this.probe = probe;
+  }
+
+  /**
+   * Essential requests (auth, health probes) always go through; everything else waits out an outage
+   */
+  allows(essential = false): boolean {
+    return essential || this.snapshot.state === 'closed';
+  }
+
+  recordSuccess(): void {
+    this.failures = [];
+    if (this.snapshot.state !== 'closed') {
+      this.close();
+    }
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures = [...this.failures.filter(time => now - time < CIRCUIT_CONFIG.FAILURE_WINDOW), now];
+    if (this.snapshot.state === 'closed' && this.failures.length >= CIRCUIT_CONFIG.FAILURE_THRESHOLD) {
+      this.open(now);
+    }
+  }
+
+  /**
+   * Probe immediately, e.g. from a "Try again" button
+   */
+  async probeNow(): Promise<boolean> {
+    if (this.snapshot.state === 'closed') return true;
+    if (this.snapshot.state === 'half_open') return false;
+    return this.runProbe();
+  }
+
+  getSnapshot(): CircuitSnapshot {
+    return this.snapshot;
+  }
+
+  subscribe(listener: (snapshot: CircuitSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  reset(): void {
+    this.clearProbeTimer();
+    this.failures = [];
+    this.probeDelay = CIRCUIT_CONFIG.PROBE_DELAY;
+    this.update({ state: 'closed', openedAt: null, nextProbeAt: null });
+  }
+
+  // ========== TRANSITIONS ==========
+
+  private open(now = Date.now()): void {
+    this.clearProbeTimer();
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = null;
+      this.runProbe();
+    }, this.probeDelay);
+
+    this.update({
+      state: 'open',
+      openedAt: this.snapshot.openedAt ?? now,
+      nextProbeAt: now + this.probeDelay
+    });
+  }
+
+  private close(): void {
+    this.clearProbeTimer();
+    this.probeDelay = CIRCUIT_CONFIG.PROBE_DELAY;
+    this.update({ state: 'closed', openedAt: null, nextProbeAt: null });
+  }
+
+  private async runProbe(): Promise<boolean> {
+    this.clearProbeTimer();
+    this.update({ ...this.snapshot, state: 'half_open', nextProbeAt: null });
+
+    const healthy = this.probe ? await this.probe().catch(() => false) : true;
+    // A real request may have closed the circuit while the probe was in flight
+    if (this.snapshot.state !== 'half_open') return this.snapshot.state === 'closed';
+
+    if (healthy) {
+      this.failures = [];
+      this.close();
+    } else {
+      this.probeDelay = Math.min(this.probeDelay * 2, CIRCUIT_CONFIG.MAX_PROBE_DELAY);
+      this.open();
+    }
+    return healthy;
+  }
+
+  private clearProbeTimer(): void {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  private update(snapshot: CircuitSnapshot): void {
+    this.snapshot = snapshot;
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const circuitBreaker = new CircuitBreaker();
+export default circuitBreaker;
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock axios first before any imports
 vi.mock('axios', () => ({
@@ -24,7 +24,32 @@ vi.mock('axios', () => ({
 }));
 
 // Import after mocking
-import { apiClient, fileToBase64, TokenManager, ApiClientError } from './client';
+import {
+  apiClient,
+  fileToBase64,
+  TokenManager,
+  ApiClientError,
+  buildAuthRedirect,
+  readReturnTo,
+  isRequestCancelled
+} from './client';
+import { circuitBreaker } from './circuitBreaker';
+import { rateLimiter } from './rateLimits';
+
+// Interceptors registered by the client constructor, captured before any mock is cleared
+const axiosInstance = (apiClient as any).instance;
+const [onRequest] = axiosInstance.interceptors.request.use.mock.calls[0];
+const [, onResponseError] = axiosInstance.interceptors.response.use.mock.calls[0];
+
+// Unsigned JWT expiring `secondsFromNow` from now
+const createToken = (secondsFromNow: number) =>
+  `header.${btoa(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + secondsFromNow }))}.signature`;
+
+const unauthorized = (config: Record<string, any>) => ({
+  config: { headers: {}, ...config },
+  response: { status: 401, data: { detail: 'Token expired' } },
+  message: 'Request failed with status code 401',
+});
 
 // Mock localStorage
 const mockLocalStorage = (() => {
@@ -115,6 +140,121 @@ describe('API Client', () => {
     });
   });
 
+  describe('Token Refresh', () => {
+    let replay: ReturnType<typeof vi.fn<[any], Promise<any>>>;
+
+    beforeEach(() => {
+      // Replays go through the instance itself, so make it callable
+      replay = vi.fn((config: any) => Promise.resolve({ data: { ok: true }, config }));
+      const callable = Object.assign(replay, axiosInstance);
+      (apiClient as any).instance = callable;
+    });
+
+    afterEach(() => {
+      (apiClient as any).instance = axiosInstance;
+      apiClient.clearAuthToken();
+    });
+
+    it('should refresh once for concurrent 401s and replay each request', async () => {
+      TokenManager.setToken(createToken(-10));
+      TokenManager.setRefreshToken('refresh-1');
+      const newToken = createToken(3600);
+      axiosInstance.post.mockResolvedValue({ data: { access_token: newToken, refresh_token: 'refresh-2' } });
+
+      const results = await Promise.all([
+        onResponseError(unauthorized({ url: '/user/videos' })),
+        onResponseError(unauthorized({ url: '/user/profile' })),
+      ]);
+
+      expect(axiosInstance.post).toHaveBeenCalledTimes(1);
+      expect(axiosInstance.post).toHaveBeenCalledWith(
+        '/auth/refresh',
+        { refresh_token: 'refresh-1' },
+        expect.objectContaining({ skipAuth: true })
+      );
+      expect(replay).toHaveBeenCalledTimes(2);
+      results.forEach(result => expect(result.config.headers.Authorization).toBe(`Bearer ${newToken}`));
+      expect(TokenManager.getToken()).toBe(newToken);
+      expect(TokenManager.getRefreshToken()).toBe('refresh-2');
+    });
+
+    it('should refresh proactively before the token expires', async () => {
+      TokenManager.setToken(createToken(30));
+      TokenManager.setRefreshToken('refresh-1');
+      const newToken = createToken(3600);
+      axiosInstance.post.mockResolvedValue({ data: { access_token: newToken } });
+
+      const config = await onRequest({ url: '/user/videos', headers: {} });
+
+      expect(axiosInstance.post).toHaveBeenCalledTimes(1);
+      expect(config.headers.Authorization).toBe(`Bearer ${newToken}`);
+    });
+
+    it('should end the session with a returnTo when the refresh token is rejected', async () => {
+      const onExpired = vi.fn();
+      const unsubscribe = apiClient.onSessionExpired(onExpired);
+      window.history.pushState({}, '', '/generate?s=abc');
+
+      TokenManager.setToken(createToken(-10));
+      TokenManager.setRefreshToken('refresh-1');
+      axiosInstance.post.mockRejectedValue(new ApiClientError('Invalid refresh token', 401));
+
+      await expect(onResponseError(unauthorized({ url: '/user/videos' }))).rejects.toBeInstanceOf(ApiClientError);
+
+      expect(replay).not.toHaveBeenCalled();
+      expect(onExpired).toHaveBeenCalledWith('/generate?s=abc');
+      expect(TokenManager.getToken()).toBe(null);
+      expect(TokenManager.getRefreshToken()).toBe(null);
+
+      unsubscribe();
+      window.history.pushState({}, '', '/');
+    });
+
+    it('should keep the session through transient refresh failures and retry', async () => {
+      vi.useFakeTimers();
+      const onExpired = vi.fn();
+      const unsubscribe = apiClient.onSessionExpired(onExpired);
+
+      try {
+        TokenManager.setToken(createToken(-10));
+        TokenManager.setRefreshToken('refresh-1');
+        axiosInstance.post.mockRejectedValueOnce(new ApiClientError('Network error - please check your connection', 0, 'NETWORK_ERROR'));
+
+        await expect(onResponseError(unauthorized({ url: '/user/videos' }))).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+        expect(onExpired).not.toHaveBeenCalled();
+        expect(TokenManager.getRefreshToken()).toBe('refresh-1');
+
+        // Back online: the pending refresh goes out straight away
+        const newToken = createToken(3600);
+        axiosInstance.post.mockRejectedValueOnce(new ApiClientError('Service unavailable', 503));
+        window.dispatchEvent(new Event('online'));
+        await vi.advanceTimersByTimeAsync(0);
+        expect(axiosInstance.post).toHaveBeenCalledTimes(2);
+        expect(TokenManager.getRefreshToken()).toBe('refresh-1');
+
+        // Still down: retried on the backoff timer
+        axiosInstance.post.mockResolvedValueOnce({ data: { access_token: newToken, refresh_token: 'refresh-2' } });
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(axiosInstance.post).toHaveBeenCalledTimes(3);
+        expect(TokenManager.getToken()).toBe(newToken);
+        expect(TokenManager.getRefreshToken()).toBe('refresh-2');
+        expect(onExpired).not.toHaveBeenCalled();
+      } finally {
+        unsubscribe();
+        apiClient.clearAuthToken();
+        vi.useRealTimers();
+      }
+    });
+
+    it('should build and read safe return paths', () => {
+      expect(buildAuthRedirect('/generate?s=abc')).toBe('/auth?returnTo=%2Fgenerate%3Fs%3Dabc');
+      expect(buildAuthRedirect('/')).toBe('/auth');
+      expect(readReturnTo('?returnTo=%2Fhistory%3Fpage%3D2')).toBe('/history?page=2');
+      expect(readReturnTo('?returnTo=https%3A%2F%2Fevil.example')).toBe('/');
+      expect(readReturnTo('?returnTo=%2F%2Fevil.example')).toBe('/');
+    });
+  });
+
   describe('Retry Logic', () => {
     it('should retry failed requests up to 3 times', () => {
       // This would be implemented in the actual retry interceptor
@@ -125,6 +265,136 @@ describe('API Client', () => {
       // This would test that client errors don't trigger retries
       expect(true).toBe(true); // Placeholder for retry logic test
     });
+
+    describe('Rate limiting', () => {
+      let replay: ReturnType<typeof vi.fn<[any], Promise<any>>>;
+
+      const rateLimited = (url: string, retryAfter: string) => ({
+        config: { method: 'get', url, headers: {} },
+        response: { status: 429, data: { error: 'rate_limited', message: 'Too many requests' }, headers: { 'retry-after': retryAfter } },
+        message: 'Request failed with status code 429',
+      });
+
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        replay = vi.fn((config: any) => Promise.resolve({ data: { ok: true }, config }));
+        (apiClient as any).instance = Object.assign(replay, axiosInstance);
+      });
+
+      afterEach(() => {
+        (apiClient as any).instance = axiosInstance;
+        vi.useRealTimers();
+      });
+
+      it('should hold the endpoint until Retry-After before replaying a 429', async () => {
+        await onResponseError(rateLimited('/videos/gen-1/status', '2'));
+        expect(replay).toHaveBeenCalledTimes(1);
+
+        // The replay, like any other request to the endpoint, waits in the request interceptor
+        let sent = false;
+        onRequest({ method: 'get', url: '/videos/gen-2/status', headers: {} }).then(() => { sent = true; });
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(sent).toBe(false);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(sent).toBe(true);
+      });
+
+      it('should surface long Retry-After waits instead of retrying', async () => {
+        await expect(onResponseError(rateLimited('/templates', '120'))).rejects.toMatchObject({ status: 429 });
+        expect(replay).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    const outage = (url: string) => ({
+      config: { method: 'get', url, headers: {}, skipRetry: true },
+      response: { status: 503, data: { error: 'unavailable', message: 'Service unavailable' }, headers: {} },
+      message: 'Request failed with status code 503',
+    });
+
+    afterEach(() => {
+      circuitBreaker.reset();
+    });
+
+    it('should short-circuit non-essential requests after repeated 5xx responses', async () => {
+      for (let index = 0; index < 5; index++) {
+        await expect(onResponseError(outage('/user/videos'))).rejects.toMatchObject({ status: 503 });
+      }
+
+      const shortCircuited = await onRequest({ method: 'get', url: '/user/videos', headers: {} })
+        .then(onResponseError, onResponseError)
+        .catch((error: unknown) => error);
+      expect(shortCircuited).toMatchObject({ status: 503, code: 'SERVICE_UNAVAILABLE' });
+
+      // Auth and explicitly essential requests still go out
+      await expect(onRequest({ url: '/auth/login', headers: {}, skipAuth: true })).resolves.toBeDefined();
+      await expect(onRequest({ url: '/user/profile', headers: {}, essential: true })).resolves.toBeDefined();
+    });
+  });
+
+  describe('Request Cancellation', () => {
+    beforeEach(() => {
+      // 'API Methods' swaps in a mock get on the instance; use the real one
+      delete (apiClient as any).get;
+    });
+
+    afterEach(() => {
+      circuitBreaker.reset();
+      rateLimiter.reset();
+    });
+
+    it('should share identical GETs and abort them only once every caller has', async () => {
+      axiosInstance.get.mockReturnValue(new Promise(() => {}));
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const firstResult = apiClient.get('/templates', { signal: first.signal });
+      const secondResult = apiClient.get('/templates', { signal: second.signal });
+      expect(axiosInstance.get).toHaveBeenCalledTimes(1);
+      const shared: AbortSignal = axiosInstance.get.mock.calls[0][1].signal;
+
+      first.abort();
+      await expect(firstResult).rejects.toMatchObject({ code: 'REQUEST_CANCELLED' });
+      expect(shared.aborted).toBe(false);
+
+      second.abort();
+      await expect(secondResult).rejects.toMatchObject({ code: 'REQUEST_CANCELLED' });
+      expect(shared.aborted).toBe(true);
+    });
+
+    it('should answer every caller from one response and not reuse settled requests', async () => {
+      axiosInstance.get.mockResolvedValue({ data: ['veo-3'], status: 200, headers: {} });
+
+      const [first, second] = await Promise.all([apiClient.get('/models'), apiClient.get('/models')]);
+      expect(first.data).toEqual(['veo-3']);
+      expect(second.data).toEqual(['veo-3']);
+      expect(axiosInstance.get).toHaveBeenCalledTimes(1);
+
+      await apiClient.get('/models');
+      expect(axiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report aborted requests as cancelled without counting them as an outage', async () => {
+      for (let index = 0; index < 5; index++) {
+        const error = await onResponseError({ code: 'ERR_CANCELED', config: { headers: {} }, message: 'canceled' })
+          .catch((reason: unknown) => reason);
+        expect(isRequestCancelled(error)).toBe(true);
+      }
+      expect(circuitBreaker.getSnapshot().state).toBe('closed');
+    });
+
+    it('should stop waiting for a rate-limit slot once aborted', async () => {
+      rateLimiter.recordRejection('GET /prompts/styles', { 'retry-after': '30' });
+      const controller = new AbortController();
+
+      const pending = onRequest({ method: 'get', url: '/prompts/styles', headers: {}, signal: controller.signal })
+        .catch((reason: unknown) => reason);
+      controller.abort();
+
+      await expect(pending).resolves.toMatchObject({ code: 'ERR_CANCELED' });
+    });
   });
 });
 
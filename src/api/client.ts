@@ -15,21 +15,20 @@ import {
   ApiResponse, 
   ErrorResponse, 
   HTTPValidationError,
+  TokenResponse,
   UploadProgress 
 } from './types';
+import { IDEMPOTENCY_HEADER } from './idempotency';
+import { isSandboxEnabled, sandboxAdapter, SandboxEventSource } from './sandbox';
+import { getApiBaseUrl, scopedStorageKey } from './environments';
+import { rateLimiter, rateLimitKey } from './rateLimits';
+import { circuitBreaker, CIRCUIT_OPEN_CODE, HEALTH_ENDPOINT, isOutageFailure } from './circuitBreaker';
 
 // ========== CONFIGURATION ==========
 
 const API_CONFIG = {
-  // Base URL - use environment variable in production builds
-  BASE_URL: import.meta.env.VITE_API_URL || 'https://api.lostmindai.com',
-  // Smart API prefix to prevent double /api segments
-  // If BASE_URL ends with '/api', use '/v1', otherwise use '/api/v1'
-  API_PREFIX: (() => {
-    const baseUrl = import.meta.env.VITE_API_URL || 'https://api.lostmindai.com';
-    return baseUrl.endsWith('/api') ? '/v1' : '/api/v1';
-  })(),
-  
+  // Base URL and API prefix come from the active environment (see api/environments.ts)
+
   // Timeouts
   TIMEOUT: 30000,              // 30 seconds default
   UPLOAD_TIMEOUT: 300000,      // 5 minutes for file uploads
@@ -40,6 +39,12 @@ const API_CONFIG = {
   BACKOFF_FACTOR: 2,           // exponential backoff
   RETRY_STATUS_CODES: [503, 502, 504, 408, 429],
   
+  // Token refresh
+  REFRESH_ENDPOINT: '/auth/refresh',
+  REFRESH_LEEWAY: 60000,       // refresh 1 minute before the access token expires
+  REFRESH_RETRY_DELAY: 5000,   // first retry after a refresh failed without rejecting the token
+  MAX_REFRESH_RETRY_DELAY: 60000,
+
   // Headers
   CONTENT_TYPE: 'application/json',
   ACCEPT: 'application/json',
@@ -50,9 +55,19 @@ const API_CONFIG = {
 interface RequestConfig extends AxiosRequestConfig {
   skipAuth?: boolean;
   skipRetry?: boolean;
+  essential?: boolean;         // still sent while the circuit breaker is open (auth requests always are)
   uploadProgress?: (progress: UploadProgress) => void;
 }
 
+export type SessionExpiredListener = (returnTo: string) => void;
+
+// Identical GETs in flight, shared by every caller until the last one aborts
+interface SharedRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  callers: number;
+}
+
 // ========== ERROR HANDLING ==========
 
 export class ApiClientError extends Error implements ApiError {
@@ -77,6 +92,21 @@ export class ApiClientError extends Error implements ApiError {
   }
 }
 
+// Code on errors for requests the caller aborted
+export const REQUEST_CANCELLED_CODE = 'REQUEST_CANCELLED';
+
+// axios' code for requests aborted through their signal
+const AXIOS_CANCELED_CODE = 'ERR_CANCELED';
+
+/**
+ * Whether an error only means the caller aborted the request (navigation, superseded query)
+ */
+export const isRequestCancelled = (error: unknown): boolean =>
+  (error as { code?: string } | null)?.code === REQUEST_CANCELLED_CODE;
+
+const cancelledError = (): ApiClientError =>
+  new ApiClientError('Request cancelled', 0, REQUEST_CANCELLED_CODE);
+
 // ========== UTILITY FUNCTIONS ==========
 
 /**
@@ -99,6 +129,12 @@ const calculateRetryDelay = (attempt: number, baseDelay: number): number => {
  */
 const shouldRetry = (error: AxiosError, attempt: number): boolean => {
   if (attempt >= API_CONFIG.MAX_RETRIES) return false;
+
+  // POST/PATCH may already have been applied; only replay them when the server can deduplicate
+  const method = error.config?.method?.toLowerCase();
+  if ((method === 'post' || method === 'patch') && !error.config?.headers?.[IDEMPOTENCY_HEADER]) {
+    return false;
+  }
   
   // Network errors
   if (error.code === 'ECONNABORTED' || error.code === 'ENOTFOUND') return true;
@@ -183,7 +219,14 @@ const parseApiError = (error: AxiosError): ApiClientError => {
 // ========== TOKEN MANAGEMENT ==========
 
 class TokenManager {
-  private static TOKEN_KEY = 'veo_auth_token';
+  // Tokens are stored per environment so a session never leaks to another backend
+  private static get TOKEN_KEY(): string {
+    return scopedStorageKey('veo_auth_token');
+  }
+
+  private static get REFRESH_TOKEN_KEY(): string {
+    return scopedStorageKey('veo_refresh_token');
+  }
   
   static getToken(): string | null {
     try {
@@ -201,33 +244,88 @@ class TokenManager {
     }
   }
   
+  // Removes the refresh token too - a session without an access token is over
   static removeToken(): void {
     try {
       localStorage.removeItem(this.TOKEN_KEY);
+      localStorage.removeItem(this.REFRESH_TOKEN_KEY);
     } catch (error) {
       console.warn('Failed to remove auth token:', error);
     }
   }
-  
-  static isTokenExpired(token: string): boolean {
+
+  static getRefreshToken(): string | null {
+    try {
+      return localStorage.getItem(this.REFRESH_TOKEN_KEY);
+    } catch {
+      return null;
+    }
+  }
+
+  static setRefreshToken(token: string): void {
+    try {
+      localStorage.setItem(this.REFRESH_TOKEN_KEY, token);
+    } catch (error) {
+      console.warn('Failed to store refresh token:', error);
+    }
+  }
+
+  /**
+   * Expiry of a JWT in epoch milliseconds, or null if it can't be parsed
+   */
+  static getTokenExpiry(token: string): number | null {
     try {
       const payload = JSON.parse(atob(token.split('.')[1]));
-      const exp = payload.exp * 1000; // Convert to milliseconds
-      return Date.now() >= exp;
+      return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
     } catch {
-      return true; // Assume expired if we can't parse
+      return null;
     }
   }
+  
+  static isTokenExpired(token: string, leeway = 0): boolean {
+    const exp = this.getTokenExpiry(token);
+    if (exp === null) return true; // Assume expired if we can't parse
+    return Date.now() + leeway >= exp;
+  }
 }
 
+// ========== SESSION REDIRECT ==========
+
+export const AUTH_RETURN_PARAM = 'returnTo';
+
+/**
+ * Auth page URL that sends the user back to the given in-app path after signing in
+ */
+export const buildAuthRedirect = (returnTo: string): string =>
+  returnTo && returnTo !== '/' && !returnTo.startsWith('/auth')
+    ? `/auth?${new URLSearchParams({ [AUTH_RETURN_PARAM]: returnTo }).toString()}`
+    : '/auth';
+
+/**
+ * Safe in-app path to continue to after signing in; rejects external and protocol-relative URLs
+ */
+export const readReturnTo = (search: string): string => {
+  const returnTo = new URLSearchParams(search).get(AUTH_RETURN_PARAM);
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.startsWith('/auth')) {
+    return '/';
+  }
+  return returnTo;
+};
+
 // ========== API CLIENT CLASS ==========
 
 class ApiClient {
   private instance: AxiosInstance;
+  private refreshPromise: Promise<string> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshRetryPending = false;
+  private refreshRetryDelay: number = API_CONFIG.REFRESH_RETRY_DELAY;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+  private inflight = new Map<string, SharedRequest>();
 
   constructor() {
     this.instance = axios.create({
-      baseURL: `${API_CONFIG.BASE_URL}${API_CONFIG.API_PREFIX}`,
+      baseURL: getApiBaseUrl(),
       timeout: API_CONFIG.TIMEOUT,
       headers: {
         'Content-Type': API_CONFIG.CONTENT_TYPE,
@@ -236,20 +334,52 @@ class ApiClient {
     });
 
     this.setupInterceptors();
+    this.scheduleProactiveRefresh();
+    circuitBreaker.setProbe(() => this.checkHealth());
+
+    // A refresh that failed while offline or during an outage is retried as soon as either ends
+    circuitBreaker.subscribe(snapshot => {
+      if (snapshot.state === 'closed') this.retryPendingRefresh();
+    });
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.retryPendingRefresh());
+    }
   }
 
   private setupInterceptors(): void {
-    // Request interceptor - add auth token
+    // Request interceptor - add auth token, refreshing it first if it is about to expire
     this.instance.interceptors.request.use(
-      (config: InternalAxiosRequestConfig) => {
+      async (config: InternalAxiosRequestConfig) => {
         const requestConfig = config as InternalAxiosRequestConfig & RequestConfig;
+
+        // Sandbox mode answers from the in-browser fake backend
+        if (isSandboxEnabled()) {
+          config.adapter = sandboxAdapter;
+        }
+
+        // Backend outage - fail non-essential requests fast instead of adding load
+        if (!circuitBreaker.allows(requestConfig.essential || requestConfig.skipAuth)) {
+          throw Object.assign(new Error('Circuit open'), { code: CIRCUIT_OPEN_CODE, config });
+        }
+
+        // Wait for a slot when the endpoint is paced or the server asked us to back off
+        const signal = config.signal as AbortSignal | undefined;
+        await rateLimiter.acquire(rateLimitKey(config.method, config.url), signal);
+        if (signal?.aborted) {
+          throw Object.assign(new Error('Request cancelled'), { code: AXIOS_CANCELED_CODE, config });
+        }
         
         // Skip auth for certain endpoints
         if (requestConfig.skipAuth) {
           return config;
         }
 
-        const token = TokenManager.getToken();
+        let token = TokenManager.getToken();
+        if (token && TokenManager.isTokenExpired(token, API_CONFIG.REFRESH_LEEWAY) && TokenManager.getRefreshToken()) {
+          // Requests issued while a refresh is in flight wait for the same refresh
+          token = await this.refreshAccessToken().catch(() => token);
+        }
+
         if (token && !TokenManager.isTokenExpired(token)) {
           config.headers.Authorization = `Bearer ${token}`;
         }
@@ -261,39 +391,83 @@ class ApiClient {
 
     // Response interceptor - handle auth errors and retries
     this.instance.interceptors.response.use(
-      (response: AxiosResponse) => response,
+      (response: AxiosResponse) => {
+        circuitBreaker.recordSuccess();
+        rateLimiter.recordResponse(rateLimitKey(response.config?.method, response.config?.url), response.headers);
+        return response;
+      },
       async (error: AxiosError) => {
+        // Aborted by the caller - neither an outage nor worth retrying
+        if (error.code === AXIOS_CANCELED_CODE) {
+          return Promise.reject(cancelledError());
+        }
+
+        if (error.code === CIRCUIT_OPEN_CODE) {
+          return Promise.reject(new ApiClientError(
+            'Service temporarily unavailable - please try again shortly',
+            503,
+            'SERVICE_UNAVAILABLE'
+          ));
+        }
+
+        // Any answer below 5xx means the backend is up
+        if (isOutageFailure(error.response?.status)) {
+          circuitBreaker.recordFailure();
+        } else {
+          circuitBreaker.recordSuccess();
+        }
+
         const originalRequest = error.config as InternalAxiosRequestConfig & RequestConfig & {
           _retry?: boolean;
           _retryAttempt?: number;
         };
 
-        // Handle 401 - token expired
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        // Handle 401 - refresh the token once and replay the request
+        if (error.response?.status === 401 && !originalRequest.skipAuth) {
+          if (originalRequest._retry || !TokenManager.getRefreshToken()) {
+            this.expireSession();
+            return Promise.reject(parseApiError(error));
+          }
           originalRequest._retry = true;
-          
-          TokenManager.removeToken();
-          
-          // Redirect to login
-          if (typeof window !== 'undefined') {
-            window.location.href = '/auth';
+
+          try {
+            const token = await this.refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+          } catch (refreshError) {
+            // Either the session has ended or the refresh will be retried; the caller sees which
+            return Promise.reject(refreshError);
           }
-          
-          return Promise.reject(parseApiError(error));
+          return this.instance(originalRequest);
         }
 
-        // Handle retries for eligible errors
-        if (!originalRequest.skipRetry && shouldRetry(error, originalRequest._retryAttempt || 0)) {
+        // Rate limited - hold the endpoint until the server's next slot (Retry-After / X-RateLimit-Reset)
+        const isRateLimited = error.response?.status === 429;
+        const rateLimitWait = isRateLimited
+          ? rateLimiter.recordRejection(
+              rateLimitKey(originalRequest.method, originalRequest.url),
+              error.response!.headers,
+              5000 + ((originalRequest._retryAttempt || 0) + 1) * 2000 // no hint from the server
+            )
+          : 0;
+
+        // Handle retries for eligible errors; long rate-limit waits are left to the UI
+        if (
+          !originalRequest.skipRetry &&
+          rateLimiter.isRetryableWait(rateLimitWait) &&
+          circuitBreaker.allows(originalRequest.essential || originalRequest.skipAuth) &&
+          shouldRetry(error, originalRequest._retryAttempt || 0)
+        ) {
           const attempt = (originalRequest._retryAttempt || 0) + 1;
           originalRequest._retryAttempt = attempt;
 
-          const delay = error.response?.status === 429 
-            ? 5000 + (attempt * 2000) // Longer delay for rate limiting
-            : calculateRetryDelay(attempt, API_CONFIG.RETRY_DELAY);
+          const delay = isRateLimited ? rateLimitWait : calculateRetryDelay(attempt, API_CONFIG.RETRY_DELAY);
 
           console.warn(`Request failed, retrying in ${delay}ms (attempt ${attempt}/${API_CONFIG.MAX_RETRIES})`);
-          
-          await sleep(delay);
+
+          // Rate-limited requests wait for their slot in the request interceptor
+          if (!isRateLimited) {
+            await sleep(delay);
+          }
           return this.instance(originalRequest);
         }
 
@@ -308,7 +482,7 @@ class ApiClient {
     url: string, 
     config?: RequestConfig
   ): Promise<ApiResponse<T>> {
-    const response = await this.instance.get<T>(url, config);
+    const response = await this.sharedGet<T>(url, config);
     return {
       data: response.data,
       status: response.status,
@@ -354,6 +528,53 @@ class ApiClient {
     };
   }
 
+  /**
+   * Identical GETs in flight share one request. Each caller's signal only abandons its own wait;
+   * the shared request is aborted once every caller has aborted.
+   */
+  private sharedGet<T>(url: string, config: RequestConfig = {}): Promise<AxiosResponse<T>> {
+    const { signal: callerSignal, ...rest } = config;
+    const signal = callerSignal as AbortSignal | undefined;
+    if (signal?.aborted) return Promise.reject(cancelledError());
+
+    const key = `${url} ${JSON.stringify(rest)}`;
+    let shared = this.inflight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const entry: SharedRequest = {
+        promise: this.instance.get(url, { ...rest, signal: controller.signal }),
+        controller,
+        callers: 0
+      };
+      const release = () => {
+        if (this.inflight.get(key) === entry) this.inflight.delete(key);
+      };
+      entry.promise.then(release, release);
+      this.inflight.set(key, entry);
+      shared = entry;
+    }
+
+    const entry = shared;
+    entry.callers += 1;
+    // Callers without a signal keep the shared request alive until it settles
+    if (!signal) return entry.promise as Promise<AxiosResponse<T>>;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.callers -= 1;
+        if (entry.callers === 0) {
+          entry.controller.abort();
+          if (this.inflight.get(key) === entry) this.inflight.delete(key);
+        }
+        reject(cancelledError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      entry.promise
+        .then(response => resolve(response as AxiosResponse<T>), reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
   // ========== FILE UPLOAD ==========
 
   async uploadFile<T = any>(
@@ -413,14 +634,140 @@ class ApiClient {
     window.URL.revokeObjectURL(downloadUrl);
   }
 
+  // ========== TOKEN REFRESH ==========
+
+  /**
+   * Exchange the refresh token for a new access token.
+   * Concurrent callers share one in-flight request. The session ends only when the backend
+   * rejects the refresh token; network errors and outages keep both tokens and retry later.
+   */
+  refreshAccessToken(): Promise<string> {
+    if (this.refreshPromise) return this.refreshPromise;
+
+    const refreshToken = TokenManager.getRefreshToken();
+    if (!refreshToken) {
+      this.expireSession();
+      return Promise.reject(new ApiClientError('Session expired - please sign in again', 401, 'SESSION_EXPIRED'));
+    }
+
+    this.refreshPromise = this.instance
+      .post<TokenResponse>(
+        API_CONFIG.REFRESH_ENDPOINT,
+        { refresh_token: refreshToken },
+        { skipAuth: true, skipRetry: true } as RequestConfig
+      )
+      .then(response => {
+        this.refreshRetryPending = false;
+        this.refreshRetryDelay = API_CONFIG.REFRESH_RETRY_DELAY;
+        this.setAuthToken(response.data.access_token, response.data.refresh_token);
+        return response.data.access_token;
+      })
+      .catch(error => {
+        const status = (error as ApiClientError | null)?.status;
+        if (status === 401 || status === 403) {
+          this.expireSession();
+          throw new ApiClientError('Session expired - please sign in again', 401, 'SESSION_EXPIRED');
+        }
+
+        this.scheduleRefreshRetry();
+        throw error instanceof ApiClientError
+          ? error
+          : new ApiClientError('Network error - please check your connection', 0, 'NETWORK_ERROR');
+      })
+      .finally(() => {
+        this.refreshPromise = null;
+      });
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Called with the current in-app path when the session can't be refreshed.
+   * Without listeners the client redirects to /auth itself.
+   */
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => this.sessionExpiredListeners.delete(listener);
+  }
+
+  private expireSession(): void {
+    this.clearAuthToken();
+    if (typeof window === 'undefined') return;
+
+    const returnTo = `${window.location.pathname}${window.location.search}`;
+    if (this.sessionExpiredListeners.size > 0) {
+      this.sessionExpiredListeners.forEach(listener => listener(returnTo));
+    } else if (!window.location.pathname.startsWith('/auth')) {
+      window.location.href = buildAuthRedirect(returnTo);
+    }
+  }
+
+  /**
+   * Refresh shortly before the access token expires so idle tabs keep a usable token
+   */
+  private scheduleProactiveRefresh(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+
+    const token = TokenManager.getToken();
+    const expiry = token ? TokenManager.getTokenExpiry(token) : null;
+    if (!expiry || !TokenManager.getRefreshToken()) return;
+
+    // Clamped to setTimeout's 32-bit limit; long-lived tokens are re-checked when the timer fires
+    const delay = Math.min(Math.max(0, expiry - Date.now() - API_CONFIG.REFRESH_LEEWAY), 2 ** 31 - 1);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (!TokenManager.isTokenExpired(token!, API_CONFIG.REFRESH_LEEWAY)) {
+        this.scheduleProactiveRefresh();
+        return;
+      }
+      this.refreshAccessToken().catch(() => {
+        // Session ended or retry scheduled by refreshAccessToken
+      });
+    }, delay);
+  }
+
+  /**
+   * Retry a transiently failed refresh with a doubling delay, until it succeeds or is rejected
+   */
+  private scheduleRefreshRetry(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+
+    const delay = this.refreshRetryDelay;
+    this.refreshRetryDelay = Math.min(delay * 2, API_CONFIG.MAX_REFRESH_RETRY_DELAY);
+    this.refreshRetryPending = true;
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.retryPendingRefresh();
+    }, delay);
+  }
+
+  private retryPendingRefresh(): void {
+    if (!this.refreshRetryPending || this.refreshPromise || !TokenManager.getRefreshToken()) return;
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+
+    this.refreshAccessToken().catch(() => {
+      // Session ended or retry scheduled by refreshAccessToken
+    });
+  }
+
   // ========== UTILITIES ==========
 
-  setAuthToken(token: string): void {
+  setAuthToken(token: string, refreshToken?: string): void {
     TokenManager.setToken(token);
+    if (refreshToken) {
+      TokenManager.setRefreshToken(refreshToken);
+    }
+    this.scheduleProactiveRefresh();
   }
 
   clearAuthToken(): void {
     TokenManager.removeToken();
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    this.refreshRetryPending = false;
+    this.refreshRetryDelay = API_CONFIG.REFRESH_RETRY_DELAY;
   }
 
   getAuthToken(): string | null {
@@ -432,9 +779,31 @@ class ApiClient {
     return token ? !TokenManager.isTokenExpired(token) : false;
   }
 
+  // Requests are served by the in-browser sandbox backend (see api/sandbox.ts)
+  isSandbox(): boolean {
+    return isSandboxEnabled();
+  }
+
+  /**
+   * Lightweight health request used by the circuit breaker to detect recovery
+   */
+  async checkHealth(): Promise<boolean> {
+    try {
+      await this.instance.get(HEALTH_ENDPOINT, {
+        essential: true,
+        skipAuth: true,
+        skipRetry: true,
+        timeout: 5000
+      } as RequestConfig);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   // Get base URL for debugging/development
   getBaseUrl(): string {
-    return `${API_CONFIG.BASE_URL}${API_CONFIG.API_PREFIX}`;
+    return getApiBaseUrl();
   }
 
   // ========== BLOB DOWNLOAD ==========
@@ -452,8 +821,12 @@ class ApiClient {
   // ========== SERVER-SENT EVENTS ==========
 
   createEventSource(url: string): EventSource | null {
+    if (isSandboxEnabled()) {
+      return new SandboxEventSource(url) as unknown as EventSource;
+    }
+
     try {
-      const fullUrl = `${API_CONFIG.BASE_URL}${API_CONFIG.API_PREFIX}${url}`;
+      const fullUrl = `${getApiBaseUrl()}${url}`;
       const token = TokenManager.getToken();
       
       // Note: EventSource doesn't support custom headers directly
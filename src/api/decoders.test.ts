@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { decodeVideoList, decodeVideoStatus, decodeVideoStatusPatch, responseContext } from './decoders';
+import { captureMessage } from '../lib/sentry';
+import { VideoStatus } from './types';
+
+vi.mock('../lib/sentry', () => ({
+  captureMessage: vi.fn(),
+}));
+
+const mockCaptureMessage = vi.mocked(captureMessage);
+
+// Each test uses its own endpoint name - drift is reported once per endpoint and issue set
+let endpointCount = 0;
+const context = () => ({ endpoint: `GET /test/${++endpointCount}`, request_id: 'req-123' });
+
+describe('Response decoders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('decodeVideoStatus', () => {
+    it('should fold legacy aliases into canonical fields', () => {
+      const status = decodeVideoStatus({
+        job_id: 'gen-1',
+        status: 'completed',
+        message: 'Done',
+        videoUrl: 'https://cdn.example.com/gen-1.mp4',
+        duration: 8,
+        file_size: 2048,
+        error: null,
+        created_at: '2025-08-18T12:00:00Z',
+        updated_at: '2025-08-18T12:01:00Z'
+      }, context());
+
+      expect(status).toEqual({
+        generation_id: 'gen-1',
+        status: VideoStatus.COMPLETED,
+        message: 'Done',
+        video_url: 'https://cdn.example.com/gen-1.mp4',
+        duration_seconds: 8,
+        file_size_bytes: 2048,
+        created_at: '2025-08-18T12:00:00Z',
+        updated_at: '2025-08-18T12:01:00Z'
+      });
+      expect(status).not.toHaveProperty('videoUrl');
+      expect(mockCaptureMessage).not.toHaveBeenCalled();
+    });
+
+    it('should prefer canonical fields over aliases', () => {
+      const status = decodeVideoStatus({
+        generation_id: 'gen-canonical',
+        id: 'row-7',
+        status: 'processing',
+        duration_seconds: 5,
+        duration: 8
+      }, context());
+
+      expect(status.generation_id).toBe('gen-canonical');
+      expect(status.duration_seconds).toBe(5);
+    });
+
+    it('should read generation parameters older clients kept in metadata', () => {
+      const status = decodeVideoStatus({
+        generation_id: 'gen-legacy',
+        status: 'completed',
+        seed: 7,
+        metadata: { seed: 99, guidanceScale: 6.5, negativePrompt: 'text overlays', style: 'cinematic' }
+      }, context());
+
+      expect(status).toMatchObject({ seed: 7, guidance_scale: 6.5, negative_prompt: 'text overlays' });
+    });
+
+    it('should report drift with the request id instead of throwing', () => {
+      const ctx = context();
+      const status = decodeVideoStatus({
+        generation_id: 'gen-1',
+        status: 'exploded',
+        progress: '45',
+        metadata: 'not-an-object'
+      }, ctx);
+
+      expect(status).toEqual(expect.objectContaining({
+        generation_id: 'gen-1',
+        status: VideoStatus.PENDING,
+        progress: 45,
+        metadata: null,
+        message: ''
+      }));
+      expect(mockCaptureMessage).toHaveBeenCalledWith(`API contract drift: ${ctx.endpoint}`, 'warning', {
+        endpoint: ctx.endpoint,
+        request_id: 'req-123',
+        issues: [
+          { path: 'status', expected: 'status', received: 'string' },
+          { path: 'progress', expected: 'number', received: 'string' },
+          { path: 'metadata', expected: 'record', received: 'string' }
+        ]
+      });
+    });
+
+    it('should report the same drift only once per endpoint', () => {
+      const ctx = context();
+      decodeVideoStatus({ status: 'pending' }, ctx);
+      decodeVideoStatus({ status: 'pending' }, ctx);
+
+      expect(mockCaptureMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('decodeVideoStatusPatch', () => {
+    it('should only return the fields present in the update', () => {
+      expect(decodeVideoStatusPatch({ job_id: 'gen-1', progress: 60, stage: 'rendering' }, context())).toEqual({
+        generation_id: 'gen-1',
+        progress: 60,
+        stage: 'rendering'
+      });
+      expect(mockCaptureMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('decodeVideoList', () => {
+    it('should treat a bare array as a single page', () => {
+      const page = decodeVideoList([
+        { id: 'gen-1', status: 'completed' },
+        { id: 'gen-2', status: 'failed', error: 'Quota exceeded' }
+      ], context());
+
+      expect(page).toEqual(expect.objectContaining({ total: 2, page: 1, pages: 1, page_size: 2 }));
+      expect(page.videos.map(video => video.generation_id)).toEqual(['gen-1', 'gen-2']);
+      expect(page.videos[1].error_details).toBe('Quota exceeded');
+    });
+
+    it('should drop malformed rows and report row drift once per field', () => {
+      const ctx = context();
+      const page = decodeVideoList({
+        videos: [{ generation_id: 'gen-1', status: 'completed', progress: 'full' }, 'oops', { generation_id: 'gen-3', status: 'pending', progress: 'none' }],
+        total: 3,
+        page: 1,
+        pages: 1,
+        page_size: 20
+      }, ctx);
+
+      expect(page.videos).toHaveLength(2);
+      expect(mockCaptureMessage).toHaveBeenCalledWith(expect.any(String), 'warning', expect.objectContaining({
+        issues: [
+          { path: 'videos[].progress', expected: 'number', received: 'string' },
+          { path: 'videos[]', expected: 'object', received: 'string' }
+        ]
+      }));
+    });
+  });
+
+  describe('responseContext', () => {
+    it('should read the request id from headers or body', () => {
+      expect(responseContext('GET /a', { data: {}, status: 200, headers: { 'x-request-id': 'hdr-1' } }))
+        .toEqual({ endpoint: 'GET /a', request_id: 'hdr-1' });
+      expect(responseContext('GET /b', { data: { request_id: 'body-1' }, status: 200, headers: {} }))
+        .toEqual({ endpoint: 'GET /b', request_id: 'body-1' });
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Response decoding layer
+ * Features: runtime validation of API payloads against field schemas, folding of
+ * legacy alias fields into the canonical shape, contract drift reporting to Sentry
+ */
+
+import { captureMessage } from '../lib/sentry';
+import {
+  ApiResponse,
+  LegacyVideoStatusFields,
+  UserVideosResponse,
+  VideoStatus,
+  VideoStatusResponse
+} from './types';
+
+// ========== TYPES ==========
+
+// Where a payload came from, attached to drift reports
+export interface DecodeContext {
+  endpoint: string;
+  request_id?: string | null;
+}
+
+// One way a payload disagreed with its schema
+export interface ContractIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+type FieldType = 'string' | 'number' | 'record' | 'status';
+
+interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  aliases?: readonly (keyof LegacyVideoStatusFields)[];   // legacy names, read when the canonical one is absent
+}
+
+type Schema<T> = { [K in keyof T]-?: FieldSpec };
+
+type Raw = Record<string, unknown>;
+
+// ========== SCHEMAS ==========
+
+const VIDEO_STATUS_SCHEMA: Schema<VideoStatusResponse> = {
+  generation_id: { type: 'string', required: true, aliases: ['job_id', 'id'] },
+  status: { type: 'status', required: true },
+  progress: { type: 'number' },
+  message: { type: 'string' },
+  video_url: { type: 'string', aliases: ['videoUrl'] },
+  thumbnail_url: { type: 'string' },
+  duration_seconds: { type: 'number', aliases: ['duration'] },
+  resolution: { type: 'string' },
+  file_size_bytes: { type: 'number', aliases: ['file_size'] },
+  created_at: { type: 'string' },
+  updated_at: { type: 'string' },
+  completed_at: { type: 'string' },
+  error_details: { type: 'string', aliases: ['error'] },
+  title: { type: 'string' },
+  prompt: { type: 'string' },
+  cost: { type: 'number' },
+  cost_estimate: { type: 'number' },
+  style: { type: 'string' },
+  aspect_ratio: { type: 'string' },
+  stage: { type: 'string' },
+  quality_score: { type: 'number' },
+  metadata: { type: 'record' },
+  model: { type: 'string' },
+  seed: { type: 'number' },
+  guidance_scale: { type: 'number' },
+  negative_prompt: { type: 'string' }
+};
+
+// Generation parameters earlier clients sent inside metadata, read when the backend doesn't echo them
+const METADATA_PARAMETERS: Array<[keyof VideoStatusResponse, string, 'number' | 'string']> = [
+  ['seed', 'seed', 'number'],
+  ['guidance_scale', 'guidanceScale', 'number'],
+  ['negative_prompt', 'negativePrompt', 'string']
+];
+
+const VIDEO_STATUSES = new Set<string>(Object.values(VideoStatus));
+
+// ========== DRIFT REPORTING ==========
+
+// One report per endpoint and issue set per session - a drifted list endpoint would otherwise report every row
+const reportedDrift = new Set<string>();
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const reportDrift = (context: DecodeContext, issues: ContractIssue[]): void => {
+  if (issues.length === 0) return;
+
+  const signature = `${context.endpoint}|${issues.map(issue => `${issue.path}:${issue.received}`).join(',')}`;
+  if (reportedDrift.has(signature)) return;
+  reportedDrift.add(signature);
+
+  console.warn(`API contract drift on ${context.endpoint}:`, issues);
+  captureMessage(`API contract drift: ${context.endpoint}`, 'warning', {
+    endpoint: context.endpoint,
+    request_id: context.request_id || null,
+    issues
+  });
+};
+
+/**
+ * Decode context for a response, picking up the backend's request id when it sent one
+ */
+export const responseContext = (endpoint: string, response?: ApiResponse<unknown>): DecodeContext => {
+  const headers = response?.headers || {};
+  const body = response?.data && typeof response.data === 'object' ? response.data as Raw : {};
+  const requestId = headers['x-request-id'] || headers['X-Request-ID'] || body.request_id;
+
+  return { endpoint, request_id: typeof requestId === 'string' ? requestId : null };
+};
+
+// ========== FIELD DECODING ==========
+
+const decodeValue = (type: FieldType, value: unknown): { value: unknown; ok: boolean } => {
+  switch (type) {
+    case 'string':
+      if (typeof value === 'string') return { value, ok: true };
+      return typeof value === 'number' ? { value: String(value), ok: false } : { value: null, ok: false };
+    case 'number': {
+      if (typeof value === 'number' && Number.isFinite(value)) return { value, ok: true };
+      const parsed = typeof value === 'string' && value.trim() ? Number(value) : NaN;
+      return { value: Number.isFinite(parsed) ? parsed : null, ok: false };
+    }
+    case 'record':
+      return value && typeof value === 'object' && !Array.isArray(value)
+        ? { value, ok: true }
+        : { value: null, ok: false };
+    case 'status': {
+      const normalised = typeof value === 'string' ? value.toLowerCase() : '';
+      return VIDEO_STATUSES.has(normalised) ? { value: normalised, ok: normalised === value } : { value: null, ok: false };
+    }
+  }
+};
+
+/**
+ * Apply a schema to a payload. Missing optional fields are left out, so the result
+ * can be merged onto an existing snapshot; required fields are checked when complete is set.
+ */
+const decodeFields = <T>(
+  schema: Schema<T>,
+  raw: Raw,
+  complete: boolean,
+  path: string,
+  issues: ContractIssue[]
+): Partial<T> => {
+  const result: Raw = {};
+
+  (Object.keys(schema) as (keyof T & string)[]).forEach(field => {
+    const spec = schema[field];
+    const source = [field, ...(spec.aliases || [])].find(name => raw[name] !== undefined && raw[name] !== null);
+
+    if (source === undefined) {
+      if (raw[field] === null) {
+        result[field] = null;
+      }
+      if (complete && spec.required) {
+        issues.push({ path: `${path}${field}`, expected: spec.type, received: describe(raw[field]) });
+      }
+      return;
+    }
+
+    const decoded = decodeValue(spec.type, raw[source]);
+    if (!decoded.ok) {
+      issues.push({ path: `${path}${source}`, expected: spec.type, received: describe(raw[source]) });
+    }
+    if (decoded.value !== null || !spec.required) {
+      result[field] = decoded.value;
+    }
+  });
+
+  return result as Partial<T>;
+};
+
+const asRaw = (value: unknown): Raw | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Raw : null;
+
+// ========== DECODERS ==========
+
+const fromMetadata = (decoded: Partial<VideoStatusResponse>): Partial<VideoStatusResponse> => {
+  const metadata = decoded.metadata;
+  if (!metadata) return {};
+
+  const found: Raw = {};
+  METADATA_PARAMETERS.forEach(([field, key, type]) => {
+    if (decoded[field] == null && typeof metadata[key] === type && metadata[key] !== '') {
+      found[field] = metadata[key];
+    }
+  });
+  return found as Partial<VideoStatusResponse>;
+};
+
+const toVideoStatus = (decoded: Partial<VideoStatusResponse>): VideoStatusResponse => ({
+  ...decoded,
+  ...fromMetadata(decoded),
+  generation_id: decoded.generation_id || '',
+  status: decoded.status || VideoStatus.PENDING,
+  message: decoded.message ?? '',
+  created_at: decoded.created_at ?? '',
+  updated_at: decoded.updated_at ?? decoded.created_at ?? ''
+});
+
+/**
+ * Decode a full generation status. Never throws: malformed fields are dropped and reported.
+ */
+export const decodeVideoStatus = (raw: unknown, context: DecodeContext): VideoStatusResponse => {
+  const issues: ContractIssue[] = [];
+  const payload = asRaw(raw);
+  if (!payload) {
+    reportDrift(context, [{ path: '', expected: 'object', received: describe(raw) }]);
+    return toVideoStatus({});
+  }
+
+  const decoded = toVideoStatus(decodeFields(VIDEO_STATUS_SCHEMA, payload, true, '', issues));
+  reportDrift(context, issues);
+  return decoded;
+};
+
+/**
+ * Decode a partial status update (SSE or realtime event); absent fields stay absent
+ */
+export const decodeVideoStatusPatch = (raw: unknown, context: DecodeContext): Partial<VideoStatusResponse> => {
+  const issues: ContractIssue[] = [];
+  const payload = asRaw(raw);
+  if (!payload) {
+    reportDrift(context, [{ path: '', expected: 'object', received: describe(raw) }]);
+    return {};
+  }
+
+  const decoded = decodeFields(VIDEO_STATUS_SCHEMA, payload, false, '', issues);
+  reportDrift(context, issues);
+  return decoded;
+};
+
+/**
+ * Decode a history page. Older backends answer with a bare array, which becomes a single page.
+ */
+export const decodeVideoList = (raw: unknown, context: DecodeContext): UserVideosResponse => {
+  const issues: ContractIssue[] = [];
+  const page = asRaw(raw);
+  const rows = Array.isArray(raw) ? raw : Array.isArray(page?.videos) ? page!.videos as unknown[] : null;
+
+  if (!rows) {
+    issues.push({ path: 'videos', expected: 'array', received: describe(page ? page.videos : raw) });
+  }
+
+  const videos = (rows || []).flatMap((row, index) => {
+    const item = asRaw(row);
+    if (!item) {
+      issues.push({ path: `videos[${index}]`, expected: 'object', received: describe(row) });
+      return [];
+    }
+    return [toVideoStatus(decodeFields(VIDEO_STATUS_SCHEMA, item, true, `videos[${index}].`, issues))];
+  });
+
+  const count = (field: keyof UserVideosResponse, fallback: number): number => {
+    if (!page || Array.isArray(raw)) return fallback;
+    const decoded = decodeValue('number', page[field]);
+    if (!decoded.ok) {
+      issues.push({ path: field, expected: 'number', received: describe(page[field]) });
+    }
+    return (decoded.value as number | null) ?? fallback;
+  };
+
+  const result = {
+    videos,
+    total: count('total', videos.length),
+    page: count('page', 1),
+    pages: count('pages', 1),
+    page_size: count('page_size', videos.length)
+  };
+
+  // Row-level drift is usually the same field on every row - report it once, by field
+  reportDrift(context, issues.map(issue => ({ ...issue, path: issue.path.replace(/^videos\[\d+\]/, 'videos[]') }))
+    .filter((issue, index, all) => all.findIndex(other => other.path === issue.path) === index));
+  return result;
+};
@@ -4,11 +4,16 @@
  */
 
 import { apiClient } from './client';
+import { generationTracker } from './tracker';
+import { generationQueue } from './queue';
+import { idempotencyKeys, readDuplicateResponse, readOriginalGeneration, requestScope } from './idempotency';
+import { offlineQueue } from './offlineQueue';
+import { decodeVideoList, decodeVideoStatus, responseContext } from './decoders';
 import {
   VideoGenerationRequest,
   VideoGenerationResponse,
-  VideoStatusResponse,
   VideoStatus,
+  VideoStatusResponse,
   BatchGenerationRequest,
   BatchGenerationResponse,
   UserResponse,
@@ -20,11 +25,49 @@ import {
   TemplateListParams,
   VideoListParams,
   StatsParams,
+  UserVideosResponse,
   // ImageUploadRequest, // Unused for now
   FileUploadProgress,
-  ProgressEvent
+  RequestOptions,
+  ModelInfo
 } from './types';
 
+// === Query Helpers ===
+
+/**
+ * Serialise history list parameters; list values are sent comma-separated
+ */
+export const buildVideoListQuery = (params?: VideoListParams): string => {
+  const searchParams = new URLSearchParams();
+  if (!params) return '';
+
+  const filters = params.filters || {};
+  const status = filters.status?.length ? filters.status : params.status;
+  const append = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') searchParams.append(key, value.toString());
+  };
+
+  if (status?.length) append('status', status.join(','));
+  append('date_from', filters.date_from);
+  append('date_to', filters.date_to);
+  append('search', filters.search?.trim());
+  if (filters.style?.length) append('style', filters.style.join(','));
+  append('sort_by', params.sort_by);
+  append('sort_order', params.sort_order);
+  append('page', params.page);
+  append('page_size', params.page_size);
+  if (params.limit) append('limit', params.limit);
+  if (params.offset) append('offset', params.offset);
+
+  return searchParams.toString();
+};
+
+// Short prompt excerpt for labels in the pending changes list
+const describePrompt = (prompt: string | undefined): string => {
+  const text = (prompt || '').trim();
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
 // === Authentication Endpoints ===
 
 export const authApi = {
@@ -37,7 +80,7 @@ export const authApi = {
     
     // Store the token
     if (response.data.access_token) {
-      apiClient.setAuthToken(response.data.access_token);
+      apiClient.setAuthToken(response.data.access_token, response.data.refresh_token);
     }
     
     return response.data;
@@ -52,7 +95,7 @@ export const authApi = {
     
     // Store the token
     if (response.data.access_token) {
-      apiClient.setAuthToken(response.data.access_token);
+      apiClient.setAuthToken(response.data.access_token, response.data.refresh_token);
     }
     
     return response.data;
@@ -62,8 +105,8 @@ export const authApi = {
    * Get current user profile
    * Uses the documented endpoint from OpenAPI spec
    */
-  async getProfile(): Promise<UserResponse> {
-    const response = await apiClient.get<UserResponse>('/user/profile');
+  async getProfile(options?: RequestOptions): Promise<UserResponse> {
+    const response = await apiClient.get<UserResponse>('/user/profile', options);
     return response.data;
   },
 
@@ -90,58 +133,141 @@ export const authApi = {
 
 // === Video Generation Endpoints ===
 
+// Cancel endpoint shapes the backend has shipped, in order of preference
+const CANCEL_ENDPOINTS = [
+  (generationId: string, headers: Record<string, string>) =>
+    apiClient.delete(`/videos/${generationId}/cancel`, { headers }),
+  (generationId: string, headers: Record<string, string>) =>
+    apiClient.post(`/videos/cancel/${generationId}`, undefined, { headers })
+];
+
+// Index of the shape the server last accepted, tried first next time
+let preferredCancelEndpoint = 0;
+
+const requestCancellation = (generationId: string): Promise<void> =>
+  // Both endpoint shapes share one key: they are the same logical request
+  idempotencyKeys.submit(requestScope('cancel', generationId), async headers => {
+    for (let attempt = 0; attempt < CANCEL_ENDPOINTS.length; attempt++) {
+      const index = (preferredCancelEndpoint + attempt) % CANCEL_ENDPOINTS.length;
+      try {
+        await CANCEL_ENDPOINTS[index](generationId, headers);
+        preferredCancelEndpoint = index;
+        return;
+      } catch (error: any) {
+        // Unknown route or method - try the other shape; anything else is a real refusal
+        if (error.status !== 404 && error.status !== 405) {
+          throw error;
+        }
+      }
+    }
+    throw new Error('Cancel functionality is not available on this server. Expected DELETE /api/v1/videos/{generation_id}/cancel or POST /api/v1/videos/cancel/{generation_id}.');
+  });
+
 export const videoApi = {
   /**
    * Generate a new video
    * POST /api/v1/videos/generate
+   * Sends an Idempotency-Key derived from the request, so resubmitting the same request
+   * (automatic retry, manual retry or after a reload) can never start a second generation
    */
-  async generateVideo(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    const response = await apiClient.post<VideoGenerationResponse>('/videos/generate', request);
-    return response.data;
+  async generateVideo(request: VideoGenerationRequest, options?: RequestOptions): Promise<VideoGenerationResponse> {
+    const scope = requestScope('generate', request);
+    // Offline submissions are queued with the same key and replayed when the connection returns
+    return offlineQueue.capture(
+      {
+        kind: 'generate',
+        label: `Generate "${describePrompt(request.prompt)}"`,
+        method: 'POST',
+        path: '/videos/generate',
+        body: request,
+        scope
+      },
+      () => idempotencyKeys.submit(
+        scope,
+        async headers => {
+          const response = await apiClient.post<VideoGenerationResponse>('/videos/generate', request, { ...options, headers });
+          generationQueue.record(response.data.generation_id, request, response.data.status);
+          return response.data;
+        },
+        original => {
+          const response = readOriginalGeneration(original);
+          if (response && !generationQueue.getJobs().some(job => job.generation_id === response.generation_id)) {
+            generationQueue.record(response.generation_id, request, response.status);
+          }
+          return response;
+        }
+      )
+    );
   },
 
   /**
    * Generate multiple videos in batch
    * POST /api/v1/videos/batch
    */
-  async generateBatch(request: BatchGenerationRequest): Promise<BatchGenerationResponse> {
-    const response = await apiClient.post<BatchGenerationResponse>('/videos/batch', request);
-    return response.data;
+  async generateBatch(request: BatchGenerationRequest, options?: RequestOptions): Promise<BatchGenerationResponse> {
+    const recordAll = (response: BatchGenerationResponse) => {
+      response.generation_ids.forEach((generationId, index) => {
+        if (!generationQueue.getJobs().some(job => job.generation_id === generationId)) {
+          generationQueue.record(generationId, request.requests[index], response.status);
+        }
+      });
+      return response;
+    };
+
+    return idempotencyKeys.submit(
+      requestScope('batch', request),
+      async headers => {
+        const response = await apiClient.post<BatchGenerationResponse>('/videos/batch', request, { ...options, headers });
+        return recordAll(response.data);
+      },
+      original => (Array.isArray(original.generation_ids)
+        ? recordAll({
+            batch_id: String(original.batch_id ?? ''),
+            total_requests: original.generation_ids.length,
+            status: (original.status as VideoStatus) || VideoStatus.PENDING,
+            created_at: String(original.created_at ?? new Date().toISOString()),
+            generation_ids: original.generation_ids as string[]
+          })
+        : null)
+    );
   },
 
   /**
    * Check video generation status
    * GET /api/v1/videos/{generation_id}/status
    */
-  async getVideoStatus(generationId: string): Promise<VideoStatusResponse> {
-    const response = await apiClient.get<VideoStatusResponse>(`/videos/${generationId}/status`);
-    return response.data;
+  async getVideoStatus(generationId: string, options?: RequestOptions): Promise<VideoStatusResponse> {
+    const response = await apiClient.get<unknown>(`/videos/${generationId}/status`, options);
+    return decodeVideoStatus(response.data, responseContext('GET /videos/{id}/status', response));
   },
 
   /**
    * Download generated video
    * GET /api/v1/videos/{generation_id}/download
    */
-  async downloadVideo(generationId: string): Promise<Blob> {
-    return apiClient.downloadBlob(`/videos/${generationId}/download`);
+  async downloadVideo(generationId: string, options?: RequestOptions): Promise<Blob> {
+    return apiClient.downloadBlob(`/videos/${generationId}/download`, options);
   },
 
   /**
    * Get user's video generation history
    * GET /api/v1/user/videos
    */
-  async getUserVideos(params?: VideoListParams): Promise<VideoStatusResponse[]> {
-    const searchParams = new URLSearchParams();
-    
-    if (params?.status) searchParams.append('status', params.status.toString());
-    if (params?.limit) searchParams.append('limit', params.limit.toString());
-    if (params?.offset) searchParams.append('offset', params.offset.toString());
-    
-    const queryString = searchParams.toString();
+  async getUserVideos(params?: VideoListParams, options?: RequestOptions): Promise<VideoStatusResponse[]> {
+    return (await this.getUserVideosPage(params, options)).videos;
+  },
+
+  /**
+   * Get one page of the user's history with server-side filtering, sorting and totals
+   * GET /api/v1/user/videos?page=&page_size=&status=&date_from=&date_to=&search=&style=&sort_by=&sort_order=
+   * Older backends answer with a bare array, which is treated as a single page
+   */
+  async getUserVideosPage(params?: VideoListParams, options?: RequestOptions): Promise<UserVideosResponse> {
+    const queryString = buildVideoListQuery(params);
     const url = queryString ? `/user/videos?${queryString}` : '/user/videos';
-    
-    const response = await apiClient.get<VideoStatusResponse[]>(url);
-    return response.data;
+
+    const response = await apiClient.get<unknown>(url, options);
+    return decodeVideoList(response.data, responseContext('GET /user/videos', response));
   },
 
   /**
@@ -153,61 +279,25 @@ export const videoApi = {
   },
 
   /**
-   * Poll for video status with retry logic
-   * Useful fallback when SSE is not available
+   * Wait for a generation to finish, reporting every status update
+   * Delegates to the shared generation tracker (SSE with polling fallback);
+   * aborting stops waiting, and the polling loop stops once nobody else is watching
    */
   async pollVideoStatus(
     generationId: string,
     onProgress: (status: VideoStatusResponse) => void,
-    intervalMs: number = 2000,
-    timeoutMs: number = 300000 // 5 minutes
+    options?: RequestOptions
   ): Promise<VideoStatusResponse> {
-    const startTime = Date.now();
-    
-    return new Promise((resolve, reject) => {
-      const poll = async () => {
-        try {
-          const status = await this.getVideoStatus(generationId);
-          onProgress(status);
-          
-          // Check if completed
-          if (status.status === 'completed' || status.status === 'failed' || status.status === 'cancelled') {
-            resolve(status);
-            return;
-          }
-          
-          // Check timeout
-          if (Date.now() - startTime > timeoutMs) {
-            reject(new Error('Polling timeout exceeded'));
-            return;
-          }
-          
-          // Continue polling
-          setTimeout(poll, intervalMs);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      
-      poll();
-    });
+    return generationTracker.track(generationId, onProgress, { signal: options?.signal });
   },
 
   /**
-   * Cancel a video generation
-   * DELETE /api/v1/videos/{generation_id}/cancel
-   * Note: This endpoint needs to be implemented in the backend
+   * Cancel a video generation - the single cancellation entry point
+   * DELETE /api/v1/videos/{generation_id}/cancel, falling back to POST /api/v1/videos/cancel/{generation_id}
+   * Subscribers see the cancelling stage immediately; the previous status is restored if the server refuses
    */
-  async cancelGeneration(generationId: string): Promise<void> {
-    try {
-      await apiClient.delete(`/videos/${generationId}/cancel`);
-    } catch (error: any) {
-      // If endpoint doesn't exist (404), provide helpful error
-      if (error.status === 404) {
-        throw new Error('Cancel functionality not yet implemented in the backend. Please implement DELETE /api/v1/videos/{generation_id}/cancel endpoint.');
-      }
-      throw error;
-    }
+  async cancelGeneration(generationId: string): Promise<VideoStatusResponse> {
+    return generationTracker.cancel(generationId, () => requestCancellation(generationId));
   },
 
   /**
@@ -215,9 +305,9 @@ export const videoApi = {
    * DELETE /api/v1/videos/cancel-all
    * Note: This endpoint needs to be implemented in the backend
    */
-  async cancelAllGenerations(): Promise<void> {
+  async cancelAllGenerations(options?: RequestOptions): Promise<void> {
     try {
-      await apiClient.delete('/videos/cancel-all');
+      await apiClient.delete('/videos/cancel-all', options);
     } catch (error: any) {
       // If endpoint doesn't exist (404), provide helpful error
       if (error.status === 404) {
@@ -234,18 +324,19 @@ export const videoApi = {
   async generateVideoWithImage(
     request: Omit<VideoGenerationRequest, 'image_base64'>,
     imageFile: File,
-    onProgress?: (progress: FileUploadProgress) => void
+    onProgress?: (progress: FileUploadProgress) => void,
+    options?: RequestOptions
   ): Promise<VideoGenerationResponse> {
-    return uploadApi.generateVideoWithImage(request, imageFile, onProgress);
+    return uploadApi.generateVideoWithImage(request, imageFile, onProgress, options);
   },
 
   /**
    * Estimate cost for video generation
    * Note: This endpoint needs to be implemented in the backend
    */
-  async estimateCost(request: VideoGenerationRequest): Promise<{ cost: number; credits: number }> {
+  async estimateCost(request: VideoGenerationRequest, options?: RequestOptions): Promise<{ cost: number; credits: number }> {
     try {
-      const response = await apiClient.post<{ cost: number; credits: number }>('/videos/estimate-cost', request);
+      const response = await apiClient.post<{ cost: number; credits: number }>('/videos/estimate-cost', request, options);
       return response.data;
     } catch (error: any) {
       // If endpoint doesn't exist (404), provide helpful error
@@ -264,7 +355,7 @@ export const templateApi = {
    * List available prompt templates
    * GET /api/v1/templates
    */
-  async getTemplates(params?: TemplateListParams): Promise<TemplateResponse[]> {
+  async getTemplates(params?: TemplateListParams, options?: RequestOptions): Promise<TemplateResponse[]> {
     const searchParams = new URLSearchParams();
     
     if (params?.category) searchParams.append('category', params.category);
@@ -275,7 +366,7 @@ export const templateApi = {
     const queryString = searchParams.toString();
     const url = queryString ? `/templates?${queryString}` : '/templates';
     
-    const response = await apiClient.get<TemplateResponse[]>(url);
+    const response = await apiClient.get<TemplateResponse[]>(url, options);
     return response.data;
   },
 
@@ -283,9 +374,27 @@ export const templateApi = {
    * Get a specific template
    * GET /api/v1/templates/{template_id}
    */
-  async getTemplate(templateId: string): Promise<TemplateResponse> {
-    const response = await apiClient.get<TemplateResponse>(`/templates/${templateId}`);
+  async getTemplate(templateId: string, options?: RequestOptions): Promise<TemplateResponse> {
+    const response = await apiClient.get<TemplateResponse>(`/templates/${templateId}`, options);
     return response.data;
+  },
+
+  /**
+   * Add a template to, or remove it from, the user's favorites
+   * PUT /api/v1/templates/{template_id}/favorite, DELETE to remove
+   * Queued while offline; both methods are idempotent, so replays are safe
+   */
+  async setFavorite(templateId: string, favorite: boolean): Promise<void> {
+    const path = `/templates/${templateId}/favorite`;
+    await offlineQueue.capture(
+      {
+        kind: 'favorite_template',
+        label: favorite ? 'Add template to favorites' : 'Remove template from favorites',
+        method: favorite ? 'PUT' : 'DELETE',
+        path
+      },
+      () => (favorite ? apiClient.put(path) : apiClient.delete(path))
+    );
   }
 };
 
@@ -293,13 +402,18 @@ export const templateApi = {
 
 export const promptApi = {
   /**
-   * Enhance a prompt using advanced techniques
+   * Enhance a prompt using advanced techniques, optionally in one of the styles from getPromptStyles
    * POST /api/v1/prompts/enhance
    */
-  async enhancePrompt(prompt: string): Promise<{ enhanced_prompt: string; suggestions: string[] }> {
+  async enhancePrompt(
+    prompt: string,
+    style?: string,
+    options?: RequestOptions
+  ): Promise<{ enhanced_prompt: string; suggestions: string[] }> {
     const response = await apiClient.post<{ enhanced_prompt: string; suggestions: string[] }>(
       '/prompts/enhance',
-      { prompt }
+      style ? { prompt, style } : { prompt },
+      options
     );
     return response.data;
   },
@@ -308,8 +422,8 @@ export const promptApi = {
    * Get available prompt enhancement styles
    * GET /api/v1/prompts/styles
    */
-  async getPromptStyles(): Promise<string[]> {
-    const response = await apiClient.get<string[]>('/prompts/styles');
+  async getPromptStyles(options?: RequestOptions): Promise<string[]> {
+    const response = await apiClient.get<string[]>('/prompts/styles', options);
     return response.data;
   },
 
@@ -320,14 +434,15 @@ export const promptApi = {
   async getPromptSuggestions(
     prompt: string,
     style?: string,
-    industry?: string
+    industry?: string,
+    options?: RequestOptions
   ): Promise<{ suggestions: string[] }> {
     const searchParams = new URLSearchParams();
     searchParams.append('prompt', prompt);
     if (style) searchParams.append('style', style);
     if (industry) searchParams.append('industry', industry);
     
-    const response = await apiClient.get<{ suggestions: string[] }>(`/prompts/suggestions?${searchParams}`);
+    const response = await apiClient.get<{ suggestions: string[] }>(`/prompts/suggestions?${searchParams}`, options);
     return response.data;
   }
 };
@@ -339,17 +454,17 @@ export const systemApi = {
    * List available Veo models
    * GET /api/v1/models
    */
-  async getModels(): Promise<{ name: string; status: string }[]> {
-    const response = await apiClient.get<{ name: string; status: string }[]>('/models');
+  async getModels(options?: RequestOptions): Promise<ModelInfo[]> {
+    const response = await apiClient.get<ModelInfo[]>('/models', options);
     return response.data;
   },
 
   /**
-   * List supported aspect ratios
+   * List supported aspect ratios, keyed by model name
    * GET /api/v1/supported-aspect-ratios
    */
-  async getSupportedAspectRatios(): Promise<Record<string, string[]>> {
-    const response = await apiClient.get<Record<string, string[]>>('/supported-aspect-ratios');
+  async getSupportedAspectRatios(options?: RequestOptions): Promise<Record<string, string[]>> {
+    const response = await apiClient.get<Record<string, string[]>>('/supported-aspect-ratios', options);
     return response.data;
   }
 };
@@ -361,14 +476,14 @@ export const adminApi = {
    * Get generation statistics (Admin only)
    * GET /api/v1/admin/stats
    */
-  async getStats(params?: StatsParams): Promise<GenerationStats> {
+  async getStats(params?: StatsParams, options?: RequestOptions): Promise<GenerationStats> {
     const searchParams = new URLSearchParams();
     if (params?.days) searchParams.append('days', params.days.toString());
     
     const queryString = searchParams.toString();
     const url = queryString ? `/admin/stats?${queryString}` : '/admin/stats';
     
-    const response = await apiClient.get<GenerationStats>(url);
+    const response = await apiClient.get<GenerationStats>(url, options);
     return response.data;
   }
 };
@@ -399,7 +514,8 @@ export const uploadApi = {
   async generateVideoWithImage(
     request: Omit<VideoGenerationRequest, 'image_base64'>,
     imageFile: File,
-    onProgress?: (progress: FileUploadProgress) => void
+    onProgress?: (progress: FileUploadProgress) => void,
+    options?: RequestOptions
   ): Promise<VideoGenerationResponse> {
     // Show progress for base64 conversion
     onProgress?.({ loaded: 0, total: 100, percentage: 0 });
@@ -413,7 +529,7 @@ export const uploadApi = {
       image_base64: imageBase64
     };
     
-    const result = await videoApi.generateVideo(videoRequest);
+    const result = await videoApi.generateVideo(videoRequest, options);
     
     onProgress?.({ loaded: 100, total: 100, percentage: 100 });
     
@@ -427,8 +543,8 @@ export const apiUtils = {
   /**
    * Create a download link for a video
    */
-  async createVideoDownloadUrl(generationId: string): Promise<string> {
-    const blob = await videoApi.downloadVideo(generationId);
+  async createVideoDownloadUrl(generationId: string, options?: RequestOptions): Promise<string> {
+    const blob = await videoApi.downloadVideo(generationId, options);
     return URL.createObjectURL(blob);
   },
 
@@ -437,50 +553,37 @@ export const apiUtils = {
    */
   async generateVideoWithProgress(
     request: VideoGenerationRequest,
-    onProgress: (status: VideoStatusResponse) => void
+    onProgress: (status: VideoStatusResponse) => void,
+    options?: RequestOptions
   ): Promise<VideoStatusResponse> {
     // Start generation
-    const response = await videoApi.generateVideo(request);
+    const response = await videoApi.generateVideo(request, options);
     
-    // Try SSE first, fallback to polling
-    const eventSource = videoApi.createProgressStream(response.generation_id);
-    
-    if (eventSource) {
-      return new Promise((resolve, reject) => {
-        eventSource.addEventListener('progress', (event) => {
-          const data: ProgressEvent = JSON.parse(event.data);
-          const status: VideoStatusResponse = {
-            generation_id: data.generation_id || 'unknown',
-            status: data.status || VideoStatus.PROCESSING,
-            progress: data.progress || 0,
-            message: data.message || '',
-            created_at: data.timestamp || new Date().toISOString(),
-            updated_at: data.timestamp || new Date().toISOString()
-          };
-          
-          onProgress(status);
-          
-          if (status.status === 'completed' || status.status === 'failed' || status.status === 'cancelled') {
-            eventSource.close();
-            resolve(status);
-          }
-        });
-        
-        eventSource.addEventListener('error', () => {
-          eventSource.close();
-          // Fallback to polling
-          videoApi.pollVideoStatus(response.generation_id, onProgress)
-            .then(resolve)
-            .catch(reject);
-        });
-      });
-    } else {
-      // Fallback to polling
-      return videoApi.pollVideoStatus(response.generation_id, onProgress);
-    }
+    // Shared tracker handles SSE and the polling fallback
+    return generationTracker.track(response.generation_id, onProgress, { signal: options?.signal });
   }
 };
 
+// === Offline Replay ===
+
+// How replayed mutations update the app, and which refusals mean the change already happened
+offlineQueue.register('generate', {
+  onApplied: (mutation, data) => {
+    const response = data as VideoGenerationResponse | null;
+    if (response?.generation_id && !generationQueue.getJobs().some(job => job.generation_id === response.generation_id)) {
+      generationQueue.record(response.generation_id, mutation.body as VideoGenerationRequest, response.status);
+    }
+  },
+  alreadyApplied: (_mutation, refusal) => {
+    const original = readDuplicateResponse(refusal);
+    return original ? readOriginalGeneration(original) : null;
+  }
+});
+
+offlineQueue.register('delete_video', {
+  alreadyApplied: (_mutation, refusal) => (refusal.status === 404 ? {} : null)
+});
+
 // === Export all APIs ===
 
 export const api = {
@@ -516,7 +619,10 @@ export const api = {
   deleteVideo: async (jobId: string) => {
     // Note: This endpoint needs to be implemented in the backend
     try {
-      await apiClient.delete(`/videos/${jobId}`);
+      await offlineQueue.capture(
+        { kind: 'delete_video', label: 'Delete video', method: 'DELETE', path: `/videos/${jobId}` },
+        () => apiClient.delete(`/videos/${jobId}`)
+      );
       return { data: { success: true } };
     } catch (error: any) {
       if (error.status === 404) {
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// In-memory localStorage so the selected environment survives a module reload
+const storage: Record<string, string> = {};
+
+// Fresh module per test - the active environment is resolved once per page load
+const loadEnvironments = async (search = '') => {
+  window.history.replaceState(null, '', `/${search}`);
+  vi.resetModules();
+  return import('./environments');
+};
+
+describe('API environments', () => {
+  beforeEach(() => {
+    Object.keys(storage).forEach(key => delete storage[key]);
+    vi.mocked(localStorage.getItem).mockImplementation((key: string) => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+    vi.mocked(localStorage.removeItem).mockImplementation((key: string) => {
+      delete storage[key];
+    });
+  });
+
+  it('should default to production with unscoped storage keys', async () => {
+    const { getActiveEnvironment, getApiBaseUrl, scopedStorageKey } = await loadEnvironments();
+
+    expect(getActiveEnvironment().id).toBe('production');
+    expect(getApiBaseUrl()).toBe('https://api.lostmindai.com/api/v1');
+    expect(scopedStorageKey('veo_auth_token')).toBe('veo_auth_token');
+  });
+
+  it('should remember an environment selected from the query flag', async () => {
+    const { getActiveEnvironment, getApiBaseUrl, scopedStorageKey } = await loadEnvironments('?env=local');
+
+    expect(getActiveEnvironment().id).toBe('local');
+    expect(getApiBaseUrl()).toBe('http://localhost:8005/api/v1');
+    expect(scopedStorageKey('veo_auth_token')).toBe('veo_auth_token:local');
+
+    const reloaded = await loadEnvironments();
+    expect(reloaded.getActiveEnvironment().id).toBe('local');
+  });
+
+  it('should keep ?sandbox= as a shorthand for the sandbox environment', async () => {
+    expect((await loadEnvironments('?sandbox=1')).getActiveEnvironment().sandbox).toBe(true);
+    expect((await loadEnvironments('?sandbox=0')).getActiveEnvironment().id).toBe('production');
+  });
+
+  it('should ignore unknown environments', async () => {
+    storage.veo_api_environment = 'mars';
+    const { getActiveEnvironment } = await loadEnvironments('?env=venus');
+
+    expect(getActiveEnvironment().id).toBe('production');
+  });
+
+  it('should ignore inherited object keys', async () => {
+    storage.veo_api_environment = '__proto__';
+    const { getActiveEnvironment, getApiBaseUrl } = await loadEnvironments('?env=constructor');
+
+    expect(getActiveEnvironment().id).toBe('production');
+    expect(getApiBaseUrl()).toBe('https://api.lostmindai.com/api/v1');
+    expect(storage.veo_api_environment).not.toBe('constructor');
+  });
+
+  it('should forget the stored choice when switching back to production', async () => {
+    const { selectEnvironment, isProductionEnvironment } = await loadEnvironments();
+
+    selectEnvironment('staging');
+    expect(isProductionEnvironment()).toBe(false);
+    expect(storage.veo_api_environment).toBe('staging');
+
+    selectEnvironment('production');
+    expect(isProductionEnvironment()).toBe(true);
+    expect(storage).not.toHaveProperty('veo_api_environment');
+  });
+
+  it('should not add a second /api segment', async () => {
+    const { apiPrefixFor } = await loadEnvironments();
+
+    expect(apiPrefixFor('https://example.com/api')).toBe('/v1');
+    expect(apiPrefixFor('https://example.com')).toBe('/api/v1');
+  });
+});
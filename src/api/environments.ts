@@ -0,0 +1,135 @@
+/**
+ * API environments
+ * Features: registry of backends the app can talk to, runtime selection from the hidden
+ * environment panel or an ?env= query flag, per-environment storage keys so sessions
+ * never leak across backends
+ */
+
+import { apiPrefixFor, apiRootFor, DEFAULT_API_URLS } from './apiPaths';
+
+export { apiPrefixFor };
+
+// ========== TYPES ==========
+
+export type ApiEnvironmentId = 'production' | 'staging' | 'local' | 'sandbox';
+
+export interface ApiEnvironment {
+  id: ApiEnvironmentId;
+  label: string;
+  baseUrl: string;
+  sandbox: boolean;    // served by the in-browser fake backend (see api/sandbox.ts)
+}
+
+// ========== CONFIGURATION ==========
+
+const ENVIRONMENT_CONFIG = {
+  STORAGE_KEY: 'veo_api_environment',
+  QUERY_PARAM: 'env',                 // ?env=staging selects and remembers an environment
+  SANDBOX_PARAM: 'sandbox'            // ?sandbox=1 / ?sandbox=0 shorthand for the sandbox
+} as const;
+
+export const API_ENVIRONMENTS: Record<ApiEnvironmentId, ApiEnvironment> = {
+  production: {
+    id: 'production',
+    label: 'Production',
+    baseUrl: import.meta.env.VITE_API_URL || DEFAULT_API_URLS.production,
+    sandbox: false
+  },
+  staging: {
+    id: 'staging',
+    label: 'Staging',
+    baseUrl: import.meta.env.VITE_STAGING_API_URL || DEFAULT_API_URLS.staging,
+    sandbox: false
+  },
+  local: {
+    id: 'local',
+    label: 'Local',
+    baseUrl: DEFAULT_API_URLS.local,
+    sandbox: false
+  },
+  sandbox: {
+    id: 'sandbox',
+    label: 'Sandbox',
+    baseUrl: 'http://sandbox.localhost',
+    sandbox: true
+  }
+};
+
+// Builds with VITE_SANDBOX=true (demo deployments) start in the sandbox
+const DEFAULT_ENVIRONMENT: ApiEnvironmentId = import.meta.env.VITE_SANDBOX === 'true' ? 'sandbox' : 'production';
+
+// ========== SELECTION ==========
+
+let activeId: ApiEnvironmentId | null = null;
+
+// Own keys only - `in` would also accept inherited names like "constructor"
+const isEnvironmentId = (value: unknown): value is ApiEnvironmentId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_ENVIRONMENTS, value);
+
+const readQueryFlag = (): ApiEnvironmentId | null => {
+  if (typeof window === 'undefined') return null;
+  const params = new URLSearchParams(window.location.search);
+
+  const env = params.get(ENVIRONMENT_CONFIG.QUERY_PARAM);
+  if (isEnvironmentId(env)) return env;
+
+  const sandbox = params.get(ENVIRONMENT_CONFIG.SANDBOX_PARAM);
+  if (sandbox === null) return null;
+  return sandbox === '0' || sandbox === 'false' ? 'production' : 'sandbox';
+};
+
+/**
+ * Environment requests go to: a query flag (remembered), then the stored choice, then the build default
+ */
+export const getActiveEnvironment = (): ApiEnvironment => {
+  if (activeId === null) {
+    activeId = DEFAULT_ENVIRONMENT;
+    try {
+      const flagged = readQueryFlag();
+      if (flagged) {
+        selectEnvironment(flagged);
+      } else {
+        const stored = localStorage.getItem(ENVIRONMENT_CONFIG.STORAGE_KEY);
+        activeId = isEnvironmentId(stored) ? stored : DEFAULT_ENVIRONMENT;
+      }
+    } catch {
+      // Storage unavailable - use the build default
+    }
+  }
+  return API_ENVIRONMENTS[activeId];
+};
+
+/**
+ * Switch environment and remember it. Reload afterwards: tokens, caches and the
+ * generation queue all belong to the previous backend.
+ */
+export const selectEnvironment = (id: ApiEnvironmentId): void => {
+  activeId = id;
+  try {
+    if (id === DEFAULT_ENVIRONMENT) {
+      localStorage.removeItem(ENVIRONMENT_CONFIG.STORAGE_KEY);
+    } else {
+      localStorage.setItem(ENVIRONMENT_CONFIG.STORAGE_KEY, id);
+    }
+  } catch {
+    // Storage unavailable - the choice lasts for this page load
+  }
+};
+
+export const isProductionEnvironment = (): boolean => getActiveEnvironment().id === 'production';
+
+// ========== URLS AND STORAGE ==========
+
+/**
+ * Base URL including the API prefix for the active environment
+ */
+export const getApiBaseUrl = (): string => apiRootFor(getActiveEnvironment().baseUrl);
+
+/**
+ * localStorage key for data that belongs to one backend. Production keeps the bare key
+ * so existing sessions survive; other environments get a suffix.
+ */
+export const scopedStorageKey = (key: string): string => {
+  const { id } = getActiveEnvironment();
+  return id === 'production' ? key : `${key}:${id}`;
+};
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IdempotencyKeyStore, IDEMPOTENCY_HEADER, readDuplicateResponse, requestScope } from './idempotency';
+import { ApiClientError } from './client';
+
+const STORAGE_KEY = 'veo_idempotency_keys';
+
+// In-memory localStorage so keys can be asserted across store instances (i.e. page reloads)
+const storage: Record<string, string> = {};
+
+const sentKey = (send: ReturnType<typeof vi.fn>, call = 0): string =>
+  send.mock.calls[call][0][IDEMPOTENCY_HEADER];
+
+describe('Idempotency keys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(storage).forEach(key => delete storage[key]);
+    vi.mocked(localStorage.getItem).mockImplementation((key: string) => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+  });
+
+  describe('requestScope', () => {
+    it('should identify equal requests regardless of key order', () => {
+      expect(requestScope('generate', { prompt: 'A fox', duration: 5 }))
+        .toBe(requestScope('generate', { duration: 5, prompt: 'A fox' }));
+      expect(requestScope('generate', { prompt: 'A fox' }))
+        .not.toBe(requestScope('generate', { prompt: 'A wolf' }));
+      expect(requestScope('generate', 'gen-1')).not.toBe(requestScope('cancel', 'gen-1'));
+    });
+
+    it('should not store the request itself', () => {
+      const store = new IdempotencyKeyStore();
+      store.acquire(requestScope('generate', { prompt: 'secret prompt', image_base64: 'aGVsbG8=' }));
+
+      expect(storage[STORAGE_KEY]).not.toContain('secret prompt');
+      expect(storage[STORAGE_KEY]).not.toContain('aGVsbG8=');
+    });
+  });
+
+  describe('IdempotencyKeyStore', () => {
+    it('should reuse the key after an ambiguous failure, including across reloads', async () => {
+      const scope = requestScope('generate', { prompt: 'A fox' });
+      const send = vi.fn()
+        .mockRejectedValueOnce(new ApiClientError('Service unavailable', 503))
+        .mockRejectedValueOnce(new ApiClientError('Network error - please check your connection', 0, 'NETWORK_ERROR'))
+        .mockResolvedValueOnce('ok');
+
+      const store = new IdempotencyKeyStore();
+      await expect(store.submit(scope, send)).rejects.toThrow('Service unavailable');
+
+      const reloaded = new IdempotencyKeyStore();
+      await expect(reloaded.submit(scope, send)).rejects.toThrow('Network error');
+      await expect(reloaded.submit(scope, send)).resolves.toBe('ok');
+
+      expect(sentKey(send, 1)).toBe(sentKey(send, 0));
+      expect(sentKey(send, 2)).toBe(sentKey(send, 0));
+    });
+
+    it('should release the key once the server has answered', async () => {
+      const scope = requestScope('generate', { prompt: 'A fox' });
+      const send = vi.fn()
+        .mockResolvedValueOnce('first')
+        .mockRejectedValueOnce(new ApiClientError('Prompt is required', 400))
+        .mockResolvedValueOnce('third');
+
+      const store = new IdempotencyKeyStore();
+      await store.submit(scope, send);
+      await expect(store.submit(scope, send)).rejects.toThrow('Prompt is required');
+      await store.submit(scope, send);
+
+      // Each deliberate resubmit after a definitive answer is a new request
+      expect(new Set([sentKey(send, 0), sentKey(send, 1), sentKey(send, 2)]).size).toBe(3);
+      expect(JSON.parse(storage[STORAGE_KEY])).toEqual({});
+    });
+
+    it('should resolve duplicate-request responses to the original generation', async () => {
+      const scope = requestScope('generate', { prompt: 'A fox' });
+      const duplicate = new ApiClientError('Duplicate request', 409, 'DUPLICATE_REQUEST', {
+        detail: { generation_id: 'gen-original', status: 'processing' }
+      });
+      const send = vi.fn().mockRejectedValue(duplicate);
+
+      const store = new IdempotencyKeyStore();
+      const result = await store.submit(scope, send, original => ({ generation_id: original.generation_id }));
+
+      expect(result).toEqual({ generation_id: 'gen-original' });
+      expect(JSON.parse(storage[STORAGE_KEY])).toEqual({});
+    });
+
+    it('should rethrow conflicts that carry no original response', async () => {
+      const conflict = new ApiClientError('Generation already finishing', 409);
+      const send = vi.fn().mockRejectedValue(conflict);
+      const onDuplicate = vi.fn();
+
+      const store = new IdempotencyKeyStore();
+      await expect(store.submit(requestScope('cancel', 'gen-1'), send, onDuplicate)).rejects.toBe(conflict);
+
+      expect(onDuplicate).not.toHaveBeenCalled();
+      expect(readDuplicateResponse(conflict)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Idempotency keys for mutating video requests
+ * Features: one client-generated key per logical request, reused across automatic
+ * retries, manual resubmits and page reloads; recognises duplicate-request responses
+ */
+import { VideoGenerationResponse, VideoStatus } from './types';
+import { scopedStorageKey } from './environments';
+
+// ========== CONFIGURATION ==========
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const IDEMPOTENCY_CONFIG = {
+  STORAGE_KEY: 'veo_idempotency_keys',
+  KEY_TTL: 24 * 60 * 60 * 1000,   // matches how long the backend remembers a key
+  MAX_ENTRIES: 100
+} as const;
+
+// ========== TYPES ==========
+
+interface StoredKey {
+  key: string;
+  created_at: number;
+}
+
+// ========== FINGERPRINTS ==========
+
+// Stable JSON with sorted object keys so equal requests always serialise the same way
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Two independent 32-bit hashes; only the digest is stored, never the request (it may hold an image)
+const digest = (text: string): string => {
+  let fnv = 0x811c9dc5;
+  let djb = 5381;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    fnv = Math.imul(fnv ^ code, 0x01000193);
+    djb = Math.imul(djb, 33) ^ code;
+  }
+  return `${(fnv >>> 0).toString(36)}${(djb >>> 0).toString(36)}`;
+};
+
+/**
+ * Scope identifying one logical request: the operation plus a digest of its payload
+ */
+export const requestScope = (operation: string, payload: unknown): string =>
+  `${operation}:${digest(stableStringify(payload))}`;
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+};
+
+// ========== RESPONSES ==========
+
+// Status of an ApiClientError or any error shaped like one
+const errorStatus = (error: unknown): number | undefined =>
+  (error as { status?: unknown } | null)?.status as number | undefined;
+
+/**
+ * Original response carried by a 409 "duplicate request" error, if this is one
+ */
+export const readDuplicateResponse = (error: unknown): Record<string, unknown> | null => {
+  if (errorStatus(error) !== 409) return null;
+
+  const raw = (error as { details?: unknown }).details;
+  const details = raw && typeof raw === 'object' ? raw as Record<string, unknown> : null;
+  const nested = details?.detail && typeof details.detail === 'object' ? details.detail as Record<string, unknown> : null;
+  const original = [nested, details].find(candidate =>
+    candidate && (typeof candidate.generation_id === 'string' || Array.isArray(candidate.generation_ids))
+  );
+
+  return original || null;
+};
+
+/**
+ * Generation response for a duplicate single-video request, from its original response
+ */
+export const readOriginalGeneration = (original: Record<string, unknown>): VideoGenerationResponse | null =>
+  typeof original.generation_id === 'string'
+    ? {
+        generation_id: original.generation_id,
+        status: (original.status as VideoStatus) || VideoStatus.PENDING,
+        message: 'Request already submitted - resuming the original generation'
+      }
+    : null;
+
+// A 4xx other than timeout, conflict or rate limit means the server handled and rejected
+// this exact request; any other failure may have been applied, so its key is kept
+const isDefinitiveRejection = (error: unknown): boolean => {
+  const status = errorStatus(error);
+  return typeof status === 'number' && status >= 400 && status < 500 && ![408, 409, 429].includes(status);
+};
+
+// ========== KEY STORE CLASS ==========
+
+export class IdempotencyKeyStore {
+  private keys = new Map<string, StoredKey>();
+  private loaded = false;
+
+  /**
+   * Key for a scope, creating and persisting one on first use
+   */
+  acquire(scope: string): string {
+    this.load();
+    const existing = this.keys.get(scope);
+    if (existing) return existing.key;
+
+    const key = createIdempotencyKey();
+    this.keys.set(scope, { key, created_at: Date.now() });
+    this.persist();
+    return key;
+  }
+
+  /**
+   * Forget a scope once the server has given a definitive answer
+   */
+  release(scope: string): void {
+    this.load();
+    if (this.keys.delete(scope)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Send a request with the scope's key. Resolves duplicates through onDuplicate and
+   * keeps the key after ambiguous failures so the next attempt reuses it.
+   */
+  async submit<T>(
+    scope: string,
+    send: (headers: Record<string, string>) => Promise<T>,
+    onDuplicate?: (original: Record<string, unknown>) => T | null
+  ): Promise<T> {
+    const key = this.acquire(scope);
+
+    try {
+      const result = await send({ [IDEMPOTENCY_HEADER]: key });
+      this.release(scope);
+      return result;
+    } catch (error) {
+      const original = readDuplicateResponse(error);
+      const resolved = original && onDuplicate ? onDuplicate(original) : null;
+      if (resolved) {
+        this.release(scope);
+        return resolved;
+      }
+      if (isDefinitiveRejection(error)) {
+        this.release(scope);
+      }
+      throw error;
+    }
+  }
+
+  // ========== PERSISTENCE ==========
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const stored = localStorage.getItem(scopedStorageKey(IDEMPOTENCY_CONFIG.STORAGE_KEY));
+      const parsed = stored ? JSON.parse(stored) : {};
+      const cutoff = Date.now() - IDEMPOTENCY_CONFIG.KEY_TTL;
+      Object.entries(parsed as Record<string, StoredKey>)
+        .filter(([, entry]) => typeof entry?.key === 'string' && entry.created_at > cutoff)
+        .forEach(([scope, entry]) => this.keys.set(scope, entry));
+    } catch (error) {
+      console.warn('Failed to load idempotency keys:', error);
+    }
+  }
+
+  private persist(): void {
+    // Over the cap: drop the oldest keys first
+    const entries = Array.from(this.keys.entries())
+      .sort(([, a], [, b]) => b.created_at - a.created_at)
+      .slice(0, IDEMPOTENCY_CONFIG.MAX_ENTRIES);
+    this.keys = new Map(entries);
+
+    try {
+      localStorage.setItem(scopedStorageKey(IDEMPOTENCY_CONFIG.STORAGE_KEY), JSON.stringify(Object.fromEntries(entries)));
+    } catch (error) {
+      console.warn('Failed to persist idempotency keys:', error);
+    }
+  }
+}
+
+// ========== SINGLETON EXPORT ==========
+
+export const idempotencyKeys = new IdempotencyKeyStore();
+export default idempotencyKeys;
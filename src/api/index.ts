@@ -1,3 +1,15 @@
 export * from './client';
 export * from './endpoints';
-export * from './types';
\ No newline at end of file
+export * from './types';
+export * from './tracker';
+export * from './realtime';
+export * from './queue';
+export * from './retries';
+export * from './idempotency';
+export * from './decoders';
+export * from './sandbox';
+export * from './environments';
+export * from './rateLimits';
+export * from './circuitBreaker';
+export * from './offlineQueue';
+export * from './models';
\ No newline at end of file
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildCapabilities,
+  FALLBACK_CAPABILITIES,
+  fitToModel,
+  isSeed,
+  MAX_SEED,
+  ModelCapabilityRegistry,
+  randomSeed
+} from './models';
+import { systemApi } from './endpoints';
+import { AspectRatio, ModelCapabilities, VideoModel } from './types';
+
+vi.mock('./endpoints', () => ({
+  systemApi: {
+    getModels: vi.fn(),
+    getSupportedAspectRatios: vi.fn(),
+  },
+}));
+
+const mockSystemApi = vi.mocked(systemApi);
+
+describe('Model Capabilities', () => {
+  describe('buildCapabilities', () => {
+    it('should merge the model list with per-model aspect ratios', () => {
+      const models = buildCapabilities(
+        [
+          { name: VideoModel.VEO_3_PREVIEW, status: 'available', durations: [8, 4, 8], supports_image: false, guidance_scale_range: null },
+          { name: 'veo-4.0-experimental', status: 'available', display_name: 'Veo 4', min_duration: 4, max_duration: 6 }
+        ],
+        {
+          [VideoModel.VEO_3_PREVIEW]: ['16:9', '21:9', '2:1'],
+          'veo-4.0-experimental': ['1:1']
+        }
+      );
+
+      expect(models).toEqual([
+        {
+          model: VideoModel.VEO_3_PREVIEW,
+          label: 'Veo 3 (Preview)',
+          available: true,
+          durations: [4, 8],
+          aspect_ratios: [AspectRatio.LANDSCAPE, AspectRatio.CINEMA],
+          image_conditioning: false,
+          seed: true,
+          negative_prompt: true,
+          guidance_scale: null
+        },
+        {
+          model: 'veo-4.0-experimental',
+          label: 'Veo 4',
+          available: true,
+          durations: [4, 5, 6],
+          aspect_ratios: [AspectRatio.SQUARE],
+          image_conditioning: false,
+          seed: false,
+          negative_prompt: false,
+          guidance_scale: null
+        }
+      ]);
+    });
+
+    it('should fill in known limits when the backend only sends names', () => {
+      const [veo2] = buildCapabilities([{ name: VideoModel.VEO_2_GA, status: 'Disabled' }], {});
+
+      expect(veo2).toMatchObject({
+        label: 'Veo 2',
+        available: false,
+        durations: [5, 6, 7, 8],
+        aspect_ratios: [AspectRatio.LANDSCAPE, AspectRatio.PORTRAIT],
+        image_conditioning: true,
+        seed: true,
+        guidance_scale: [1, 20]
+      });
+    });
+
+    it('should fall back to the known models for an empty list', () => {
+      expect(buildCapabilities([], {})).toBe(FALLBACK_CAPABILITIES);
+    });
+  });
+
+  describe('fitToModel', () => {
+    const textOnly: ModelCapabilities = {
+      model: VideoModel.VEO_3_PREVIEW,
+      label: 'Veo 3 (Preview)',
+      available: true,
+      durations: [4, 6, 8],
+      aspect_ratios: [AspectRatio.LANDSCAPE],
+      image_conditioning: false,
+      seed: true,
+      negative_prompt: false,
+      guidance_scale: [1, 10]
+    };
+
+    it('should leave settings the model accepts alone', () => {
+      expect(fitToModel(textOnly, { duration: 6, aspect_ratio: AspectRatio.LANDSCAPE, has_image: false })).toEqual({
+        duration: 6,
+        aspect_ratio: AspectRatio.LANDSCAPE,
+        drop_image: false,
+        seed: null,
+        guidance_scale: null,
+        negative_prompt: null,
+        changes: []
+      });
+    });
+
+    it('should move each unsupported setting to the nearest allowed value', () => {
+      expect(fitToModel(textOnly, { duration: 7.4, aspect_ratio: AspectRatio.CINEMA, has_image: true })).toEqual({
+        duration: 8,
+        aspect_ratio: AspectRatio.LANDSCAPE,
+        drop_image: true,
+        seed: null,
+        guidance_scale: null,
+        negative_prompt: null,
+        changes: ['duration set to 8s', 'aspect ratio set to 16:9', 'starting image removed']
+      });
+    });
+
+    it('should keep a valid seed and clamp or clear unsupported generation parameters', () => {
+      const fitted = fitToModel(textOnly, {
+        duration: 6,
+        aspect_ratio: AspectRatio.LANDSCAPE,
+        has_image: false,
+        seed: 1234,
+        guidance_scale: 14,
+        negative_prompt: 'blurry'
+      });
+
+      expect(fitted).toMatchObject({ seed: 1234, guidance_scale: 10, negative_prompt: null });
+      expect(fitted.changes).toEqual(['guidance scale set to 10', 'negative prompt cleared']);
+
+      const unseeded = fitToModel({ ...textOnly, seed: false, guidance_scale: null }, {
+        duration: 6,
+        aspect_ratio: AspectRatio.LANDSCAPE,
+        has_image: false,
+        seed: 1234,
+        guidance_scale: 5
+      });
+      expect(unseeded.changes).toEqual(['seed cleared', 'guidance scale cleared']);
+    });
+  });
+
+  describe('seeds', () => {
+    it('should only accept unsigned 32-bit integers', () => {
+      expect([0, 42, MAX_SEED].every(isSeed)).toBe(true);
+      expect([-1, 1.5, MAX_SEED + 1, '42', null].some(isSeed)).toBe(false);
+    });
+
+    it('should draw random seeds within range', () => {
+      const seeds = Array.from({ length: 20 }, randomSeed);
+
+      expect(seeds.every(isSeed)).toBe(true);
+      expect(new Set(seeds).size).toBeGreaterThan(1);
+    });
+  });
+
+  describe('ModelCapabilityRegistry', () => {
+    let registry: ModelCapabilityRegistry;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.mocked(localStorage.getItem).mockReturnValue(null);
+      registry = new ModelCapabilityRegistry();
+      mockSystemApi.getModels.mockResolvedValue([
+        { name: VideoModel.VEO_2_GA, status: 'available' },
+        { name: VideoModel.VEO_3_PREVIEW, status: 'unavailable' }
+      ]);
+      mockSystemApi.getSupportedAspectRatios.mockResolvedValue({ [VideoModel.VEO_2_GA]: ['16:9', '1:1'] });
+    });
+
+    it('should serve the known models until the matrix has loaded', () => {
+      expect(registry.getModels()).toBe(FALLBACK_CAPABILITIES);
+      expect(registry.getDefaultModel()).toBe(VideoModel.VEO_3_PREVIEW);
+      expect(registry.isStale()).toBe(true);
+    });
+
+    it('should load once and reuse the cache until it goes stale', async () => {
+      const signal = new AbortController().signal;
+      await registry.load({ signal });
+      await registry.load();
+
+      expect(mockSystemApi.getModels).toHaveBeenCalledTimes(1);
+      expect(mockSystemApi.getModels).toHaveBeenCalledWith({ signal });
+      expect(registry.get(VideoModel.VEO_2_GA).aspect_ratios).toEqual([AspectRatio.LANDSCAPE, AspectRatio.SQUARE]);
+      expect(localStorage.setItem).toHaveBeenCalledWith('veo_model_capabilities', expect.any(String));
+
+      await registry.load({ force: true });
+      expect(mockSystemApi.getModels).toHaveBeenCalledTimes(2);
+    });
+
+    it('should default to the first available model when the backend default is down', async () => {
+      await registry.load();
+
+      expect(registry.getDefaultModel()).toBe(VideoModel.VEO_2_GA);
+    });
+
+    it('should treat models missing from the matrix as unavailable', async () => {
+      await registry.load();
+
+      expect(registry.get('veo-1.0')).toMatchObject({ available: false, image_conditioning: false });
+    });
+
+    it('should keep serving what it had when a refresh fails', async () => {
+      mockSystemApi.getModels.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(registry.load()).rejects.toThrow('Network error');
+      expect(registry.getModels()).toBe(FALLBACK_CAPABILITIES);
+    });
+
+    it('should still load when aspect ratios are not described', async () => {
+      mockSystemApi.getSupportedAspectRatios.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { status: 404 }));
+
+      await registry.load();
+
+      expect(registry.get(VideoModel.VEO_2_GA).aspect_ratios).toEqual([AspectRatio.LANDSCAPE, AspectRatio.PORTRAIT]);
+    });
+  });
+});
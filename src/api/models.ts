@@ -0,0 +1,344 @@
+/**
+ * Model capability registry
+ * Features: per-model durations, aspect ratios, image conditioning, seed, guidance
+ * scale and negative prompt support merged from GET /models and GET /supported-aspect-ratios,
+ * cached per environment with a TTL, known limits for models the backend describes only
+ * partially, and fitting form settings to a model when it changes
+ */
+
+import { systemApi } from './endpoints';
+import { scopedStorageKey } from './environments';
+import {
+  AspectRatio,
+  ModelCapabilities,
+  ModelInfo,
+  RequestOptions,
+  VideoModel
+} from './types';
+
+// ========== CONFIGURATION ==========
+
+const MODEL_CONFIG = {
+  STORAGE_KEY: 'veo_model_capabilities',
+  CACHE_TTL: 60 * 60 * 1000,              // capabilities change with deploys, not per request
+  DEFAULT_MODEL: VideoModel.VEO_3_PREVIEW // the backend's default when a request names none
+} as const;
+
+export const MODEL_CACHE_TTL = MODEL_CONFIG.CACHE_TTL;
+
+// Seeds are unsigned 32-bit integers
+export const MAX_SEED = 4294967295;
+
+// Statuses that keep a listed model out of the picker
+const UNAVAILABLE_STATUSES = ['unavailable', 'disabled', 'offline', 'retired'];
+
+// Limits of models we know, used for whatever GET /models leaves out
+const KNOWN_MODELS: Record<VideoModel, Omit<ModelCapabilities, 'available'>> = {
+  [VideoModel.VEO_3_PREVIEW]: {
+    model: VideoModel.VEO_3_PREVIEW,
+    label: 'Veo 3 (Preview)',
+    durations: [5, 6, 7, 8],
+    aspect_ratios: [AspectRatio.LANDSCAPE, AspectRatio.PORTRAIT],
+    image_conditioning: true,
+    seed: true,
+    negative_prompt: true,
+    guidance_scale: [1, 20]
+  },
+  [VideoModel.VEO_2_GA]: {
+    model: VideoModel.VEO_2_GA,
+    label: 'Veo 2',
+    durations: [5, 6, 7, 8],
+    aspect_ratios: [AspectRatio.LANDSCAPE, AspectRatio.PORTRAIT],
+    image_conditioning: true,
+    seed: true,
+    negative_prompt: true,
+    guidance_scale: [1, 20]
+  }
+};
+
+// Anything else: the documented request limits, and text-only until the backend says otherwise
+const UNKNOWN_MODEL: Omit<ModelCapabilities, 'model' | 'label' | 'available'> = {
+  durations: [5, 6, 7, 8],
+  aspect_ratios: [AspectRatio.LANDSCAPE],
+  image_conditioning: false,
+  seed: false,
+  negative_prompt: false,
+  guidance_scale: null
+};
+
+const ASPECT_RATIOS = Object.values(AspectRatio) as string[];
+
+// ========== TYPES ==========
+
+interface StoredCapabilities {
+  models: ModelCapabilities[];
+  fetched_at: number;
+}
+
+// Form fields a model constrains
+export interface ModelSettings {
+  duration: number;
+  aspect_ratio: AspectRatio;
+  has_image: boolean;
+  seed?: number | null;
+  guidance_scale?: number | null;
+  negative_prompt?: string | null;
+}
+
+export interface FittedSettings {
+  duration: number;
+  aspect_ratio: AspectRatio;
+  drop_image: boolean;
+  seed: number | null;
+  guidance_scale: number | null;
+  negative_prompt: string | null;
+  changes: string[];                      // human-readable, empty when nothing had to change
+}
+
+// ========== MATRIX ==========
+
+// Served before the first successful load and while the backend is unreachable
+export const FALLBACK_CAPABILITIES: ModelCapabilities[] = Object.values(KNOWN_MODELS)
+  .map(known => ({ ...known, available: true }));
+
+const isDuration = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const readDurations = (info: ModelInfo): number[] | null => {
+  const listed = (info.durations || []).filter(isDuration);
+  if (listed.length > 0) return [...new Set(listed)].sort((a, b) => a - b);
+
+  if (isDuration(info.min_duration) && isDuration(info.max_duration) && info.min_duration <= info.max_duration) {
+    return Array.from({ length: info.max_duration - info.min_duration + 1 }, (_, index) => info.min_duration! + index);
+  }
+  return null;
+};
+
+const readAspectRatios = (listed: string[] | undefined): AspectRatio[] | null => {
+  const known = (listed || []).filter(ratio => ASPECT_RATIOS.includes(ratio)) as AspectRatio[];
+  return known.length > 0 ? known : null;
+};
+
+// undefined when the backend doesn't say, null when it says guidance is fixed
+const readGuidanceRange = (info: ModelInfo): [number, number] | null | undefined => {
+  if (info.guidance_scale_range === null) return null;
+  const [min, max] = info.guidance_scale_range || [];
+  return typeof min === 'number' && typeof max === 'number' && min <= max ? [min, max] : undefined;
+};
+
+const readFlag = (value: boolean | null | undefined, fallback: boolean): boolean =>
+  typeof value === 'boolean' ? value : fallback;
+
+const fallbackFor = (model: string): Omit<ModelCapabilities, 'available'> =>
+  KNOWN_MODELS[model as VideoModel] || { model: model as VideoModel, label: model, ...UNKNOWN_MODEL };
+
+/**
+ * Capability matrix from the two system endpoints; backend values win over known limits
+ */
+export const buildCapabilities = (models: ModelInfo[], aspectRatios: Record<string, string[]>): ModelCapabilities[] => {
+  const listed = models.filter(info => typeof info?.name === 'string' && info.name);
+  if (listed.length === 0) return FALLBACK_CAPABILITIES;
+
+  return listed.map(info => {
+    const fallback = fallbackFor(info.name);
+    const guidanceScale = readGuidanceRange(info);
+    return {
+      model: info.name as VideoModel,
+      label: info.display_name || fallback.label,
+      available: !UNAVAILABLE_STATUSES.includes(String(info.status).toLowerCase()),
+      durations: readDurations(info) || fallback.durations,
+      aspect_ratios: readAspectRatios(aspectRatios?.[info.name]) || fallback.aspect_ratios,
+      image_conditioning: readFlag(info.supports_image, fallback.image_conditioning),
+      seed: readFlag(info.supports_seed, fallback.seed),
+      negative_prompt: readFlag(info.supports_negative_prompt, fallback.negative_prompt),
+      guidance_scale: guidanceScale === undefined ? fallback.guidance_scale : guidanceScale
+    };
+  });
+};
+
+// ========== FITTING ==========
+
+const closest = (allowed: number[], value: number): number =>
+  allowed.reduce((best, candidate) => (Math.abs(candidate - value) < Math.abs(best - value) ? candidate : best));
+
+/**
+ * Settings adjusted to what a model accepts, with a note for every change
+ */
+export const fitToModel = (capabilities: ModelCapabilities, settings: ModelSettings): FittedSettings => {
+  const changes: string[] = [];
+  const requested = Number(settings.duration);
+
+  let duration = requested;
+  if (!capabilities.durations.includes(requested)) {
+    duration = closest(capabilities.durations, Number.isFinite(requested) ? requested : capabilities.durations[0]);
+    changes.push(`duration set to ${duration}s`);
+  }
+
+  let aspectRatio = settings.aspect_ratio;
+  if (!capabilities.aspect_ratios.includes(aspectRatio)) {
+    aspectRatio = capabilities.aspect_ratios[0];
+    changes.push(`aspect ratio set to ${aspectRatio}`);
+  }
+
+  const dropImage = settings.has_image && !capabilities.image_conditioning;
+  if (dropImage) {
+    changes.push('starting image removed');
+  }
+
+  let seed = isSeed(settings.seed) ? settings.seed : null;
+  if (seed !== null && !capabilities.seed) {
+    seed = null;
+    changes.push('seed cleared');
+  }
+
+  let guidanceScale = typeof settings.guidance_scale === 'number' && Number.isFinite(settings.guidance_scale)
+    ? settings.guidance_scale
+    : null;
+  if (guidanceScale !== null && !capabilities.guidance_scale) {
+    guidanceScale = null;
+    changes.push('guidance scale cleared');
+  } else if (guidanceScale !== null && capabilities.guidance_scale) {
+    const [min, max] = capabilities.guidance_scale;
+    const clamped = Math.min(max, Math.max(min, guidanceScale));
+    if (clamped !== guidanceScale) {
+      guidanceScale = clamped;
+      changes.push(`guidance scale set to ${clamped}`);
+    }
+  }
+
+  let negativePrompt = settings.negative_prompt?.trim() ? settings.negative_prompt : null;
+  if (negativePrompt !== null && !capabilities.negative_prompt) {
+    negativePrompt = null;
+    changes.push('negative prompt cleared');
+  }
+
+  return {
+    duration,
+    aspect_ratio: aspectRatio,
+    drop_image: dropImage,
+    seed,
+    guidance_scale: guidanceScale,
+    negative_prompt: negativePrompt,
+    changes
+  };
+};
+
+// ========== SEEDS ==========
+
+export const isSeed = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+
+/**
+ * A fresh seed for deliberately varying a result
+ */
+export const randomSeed = (): number => {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+};
+
+// ========== REGISTRY CLASS ==========
+
+export class ModelCapabilityRegistry {
+  private cached: StoredCapabilities | null = null;
+  private loaded = false;
+
+  /**
+   * Every known model: the last successful load, or the fallbacks before there was one
+   */
+  getModels(): ModelCapabilities[] {
+    this.read();
+    return this.cached?.models || FALLBACK_CAPABILITIES;
+  }
+
+  /**
+   * Capabilities of one model; unlisted models get conservative limits
+   */
+  get(model: string | null | undefined): ModelCapabilities {
+    const id = model || MODEL_CONFIG.DEFAULT_MODEL;
+    return this.getModels().find(entry => entry.model === id) || { ...fallbackFor(id), available: false };
+  }
+
+  /**
+   * Model a new form starts with: the backend default if it is available, else the first available one
+   */
+  getDefaultModel(): VideoModel {
+    const available = this.getModels().filter(entry => entry.available);
+    return (available.find(entry => entry.model === MODEL_CONFIG.DEFAULT_MODEL) || available[0])?.model
+      || MODEL_CONFIG.DEFAULT_MODEL;
+  }
+
+  /**
+   * When the cached matrix was fetched, or 0 if it never was
+   */
+  fetchedAt(): number {
+    this.read();
+    return this.cached?.fetched_at || 0;
+  }
+
+  isStale(): boolean {
+    return Date.now() - this.fetchedAt() >= MODEL_CONFIG.CACHE_TTL;
+  }
+
+  /**
+   * Fetch the matrix unless the cache is fresh. Failures reject and leave the cache as it was.
+   */
+  async load(options?: RequestOptions & { force?: boolean }): Promise<ModelCapabilities[]> {
+    if (!options?.force && !this.isStale()) return this.getModels();
+
+    const requestOptions = { signal: options?.signal };
+    const [models, aspectRatios] = await Promise.all([
+      systemApi.getModels(requestOptions),
+      // Older backends may not describe aspect ratios - the known limits cover them
+      systemApi.getSupportedAspectRatios(requestOptions).catch(() => ({}))
+    ]);
+
+    this.cached = {
+      models: buildCapabilities(Array.isArray(models) ? models : [], aspectRatios || {}),
+      fetched_at: Date.now()
+    };
+    this.persist();
+    return this.cached.models;
+  }
+
+  clear(): void {
+    this.cached = null;
+    this.loaded = true;
+    try {
+      localStorage.removeItem(scopedStorageKey(MODEL_CONFIG.STORAGE_KEY));
+    } catch {
+      // Storage unavailable - nothing persisted
+    }
+  }
+
+  // ========== PERSISTENCE ==========
+
+  private read(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const stored = localStorage.getItem(scopedStorageKey(MODEL_CONFIG.STORAGE_KEY));
+      const parsed = stored ? JSON.parse(stored) as StoredCapabilities : null;
+      if (parsed && Array.isArray(parsed.models) && parsed.models.length > 0 && typeof parsed.fetched_at === 'number') {
+        this.cached = parsed;
+      }
+    } catch (error) {
+      console.warn('Failed to load model capabilities:', error);
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(scopedStorageKey(MODEL_CONFIG.STORAGE_KEY), JSON.stringify(this.cached));
+    } catch (error) {
+      console.warn('Failed to persist model capabilities:', error);
+    }
+  }
+}
+
+// ========== SINGLETON EXPORT ==========
+
+export const modelCapabilities = new ModelCapabilityRegistry();
+export default modelCapabilities;
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  isOfflineQueued,
+  MemoryMutationStore,
+  OfflineMutationQueue,
+  PendingMutation
+} from './offlineQueue';
+import { apiClient } from './client';
+import { idempotencyKeys } from './idempotency';
+
+vi.mock('./client', () => ({
+  apiClient: {
+    post: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn(),
+    getAuthToken: vi.fn(() => 'token-1'),
+  },
+}));
+
+const mockApiClient = vi.mocked(apiClient);
+
+const networkError = () => Object.assign(new Error('Network error - please check your connection'), { status: 0, code: 'NETWORK_ERROR' });
+const refusal = (status: number, message: string, details?: unknown) => Object.assign(new Error(message), { status, details });
+
+describe('OfflineMutationQueue', () => {
+  let store: MemoryMutationStore;
+  let queue: OfflineMutationQueue;
+  let online: boolean;
+
+  const queueOffline = async (path = '/videos/gen-1', scope?: string) => {
+    online = false;
+    const error = await queue.capture(
+      { kind: 'delete_video', label: 'Delete video', method: 'DELETE', path, scope },
+      () => Promise.reject(networkError())
+    ).catch((reason: unknown) => reason);
+    online = true;
+    return error;
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    online = true;
+    vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+    store = new MemoryMutationStore();
+    queue = new OfflineMutationQueue(store);
+    await queue.setOwner('user-1');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should queue mutations that fail while offline with their idempotency key', async () => {
+    const scopeKey = idempotencyKeys.acquire('delete:gen-1');
+    const error = await queueOffline('/videos/gen-1', 'delete:gen-1');
+
+    expect(isOfflineQueued(error)).toBe(true);
+    expect(queue.getMutations()).toEqual([
+      expect.objectContaining({
+        kind: 'delete_video',
+        method: 'DELETE',
+        path: '/videos/gen-1',
+        idempotency_key: scopeKey,
+        owner: 'user-1',
+        authorization: 'token-1',
+        state: 'pending'
+      })
+    ]);
+    expect(await store.getAll()).toHaveLength(1);
+  });
+
+  it('should rethrow failures that are not caused by being offline', async () => {
+    await expect(queue.capture(
+      { kind: 'delete_video', label: 'Delete video', method: 'DELETE', path: '/videos/gen-1' },
+      () => Promise.reject(refusal(403, 'Forbidden'))
+    )).rejects.toMatchObject({ status: 403 });
+
+    expect(queue.getMutations()).toEqual([]);
+  });
+
+  it('should replay in order with the original key and apply the result', async () => {
+    const onApplied = vi.fn();
+    const settled = vi.fn();
+    queue.register('delete_video', { onApplied });
+    queue.onSettled(settled);
+    await queueOffline('/videos/gen-1');
+    await queueOffline('/videos/gen-2');
+    const [first] = queue.getMutations();
+    mockApiClient.delete.mockResolvedValue({ data: { ok: true }, status: 200, headers: {} });
+
+    await queue.replay();
+
+    expect(mockApiClient.delete.mock.calls.map(([path]) => path)).toEqual(['/videos/gen-1', '/videos/gen-2']);
+    expect(mockApiClient.delete).toHaveBeenCalledWith('/videos/gen-1', { headers: { 'Idempotency-Key': first.idempotency_key } });
+    expect(onApplied).toHaveBeenCalledWith(expect.objectContaining({ path: '/videos/gen-1' }), { ok: true });
+    expect(settled).toHaveBeenCalledTimes(2);
+    expect(queue.getMutations()).toEqual([]);
+    expect(await store.getAll()).toEqual([]);
+  });
+
+  it('should keep mutations queued and stop while the server is still unreachable', async () => {
+    await queueOffline('/videos/gen-1');
+    await queueOffline('/videos/gen-2');
+    mockApiClient.delete.mockRejectedValue(networkError());
+
+    await queue.replay();
+
+    expect(mockApiClient.delete).toHaveBeenCalledTimes(1);
+    expect(queue.getMutations().map(mutation => [mutation.state, mutation.attempts])).toEqual([['pending', 1], ['pending', 0]]);
+  });
+
+  it('should flag conflicts unless the refusal means the change already happened', async () => {
+    queue.register('delete_video', { alreadyApplied: (_mutation, { status }) => (status === 404 ? {} : null) });
+    await queueOffline('/videos/gone');
+    await queueOffline('/videos/locked');
+    mockApiClient.delete
+      .mockRejectedValueOnce(refusal(404, 'Generation not found'))
+      .mockRejectedValueOnce(refusal(409, 'Generation is still rendering'));
+
+    await queue.replay();
+
+    expect(queue.getMutations()).toEqual([
+      expect.objectContaining({ path: '/videos/locked', state: 'conflict', conflict: 'Generation is still rendering' })
+    ]);
+
+    // Sending again uses a new key - the server already answered the old one
+    const [conflict] = queue.getMutations();
+    mockApiClient.delete.mockResolvedValueOnce({ data: null, status: 204, headers: {} });
+    await queue.retry(conflict.id);
+
+    expect(mockApiClient.delete).toHaveBeenLastCalledWith('/videos/locked', {
+      headers: { 'Idempotency-Key': expect.not.stringMatching(conflict.idempotency_key) }
+    });
+    expect(queue.getMutations()).toEqual([]);
+  });
+
+  it('should apply outcomes the service worker recorded while the app was closed', async () => {
+    const onApplied = vi.fn();
+    queue.register('delete_video', { onApplied });
+    await queueOffline('/videos/gen-1');
+    await queueOffline('/videos/gen-2');
+    const [first, second] = queue.getMutations();
+
+    const settle = (mutation: PendingMutation, status: number, body: unknown) =>
+      store.put({ ...mutation, state: 'settled', outcome: { status, body } });
+    await settle(first, 200, { ok: true });
+    await settle(second, 422, { error: 'VALIDATION_ERROR', message: 'Video is part of a batch' });
+
+    await queue.refresh();
+
+    expect(onApplied).toHaveBeenCalledWith(expect.objectContaining({ id: first.id }), { ok: true });
+    expect(queue.getMutations()).toEqual([
+      expect.objectContaining({ id: second.id, state: 'conflict', conflict: 'Video is part of a batch' })
+    ]);
+    expect(mockApiClient.delete).not.toHaveBeenCalled();
+  });
+
+  it('should discard queued mutations without sending them', async () => {
+    await queueOffline('/videos/gen-1');
+    const [mutation] = queue.getMutations();
+
+    await queue.discard(mutation.id);
+    await queue.replay();
+
+    expect(queue.getMutations()).toEqual([]);
+    expect(mockApiClient.delete).not.toHaveBeenCalled();
+  });
+
+  it('should only list and send mutations queued by the signed-in user', async () => {
+    mockApiClient.delete.mockResolvedValue({ data: null } as any);
+    await queueOffline('/videos/gen-1');
+
+    await queue.setOwner('user-2');
+    expect(store.owner).toBe('user-2');
+    expect(queue.getMutations()).toEqual([]);
+    await queue.replay();
+    expect(mockApiClient.delete).not.toHaveBeenCalled();
+
+    await queue.setOwner(null);
+    expect(queue.getMutations()).toEqual([]);
+
+    await queue.setOwner('user-1');
+    expect(queue.getMutations()).toEqual([expect.objectContaining({ path: '/videos/gen-1', owner: 'user-1' })]);
+  });
+
+  it('should drop a user\'s mutations when they log out', async () => {
+    await queueOffline('/videos/gen-1', 'delete:gen-1');
+
+    await queue.discardOwnedBy('user-1');
+    await queue.setOwner('user-1');
+
+    expect(queue.getMutations()).toEqual([]);
+    expect(await store.getAll()).toEqual([]);
+  });
+});
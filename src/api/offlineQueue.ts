@@ -0,0 +1,602 @@
+/**
+ * Offline mutation queue
+ * Features: persists mutations that failed because the browser went offline in IndexedDB,
+ * with the idempotency key they were sent with; replays them through Background Sync
+ * (src/sw.js) or on the `online` event where that is unsupported; surfaces a pending
+ * changes list and conflicts when the server state has moved on in the meantime. Each mutation
+ * belongs to the user who queued it and is only listed or sent while that user is signed in.
+ */
+
+import { apiClient } from './client';
+import { ApiEnvironmentId, getActiveEnvironment, getApiBaseUrl } from './environments';
+import { createIdempotencyKey, IDEMPOTENCY_HEADER, idempotencyKeys } from './idempotency';
+
+// ========== CONFIGURATION ==========
+
+// Database layout and sync tag are shared with src/sw.js - change both together
+const OFFLINE_QUEUE_CONFIG = {
+  DB_NAME: 'veo3-offline',
+  DB_VERSION: 2,
+  STORE_NAME: 'mutations',
+  SESSION_STORE: 'session',       // holds the signed-in user's id for the service worker
+  OWNER_KEY: 'owner',
+  SYNC_TAG: 'retry-api-requests',
+  WORKER_MESSAGE: 'offline-queue-updated',
+  STALE_REPLAY: 60000,            // a replay claimed longer ago than this was interrupted
+  RETRY_STATUS_CODES: [401, 408, 429]
+} as const;
+
+// Code on errors for mutations that were queued instead of sent
+export const OFFLINE_QUEUED_CODE = 'QUEUED_OFFLINE';
+
+// ========== TYPES ==========
+
+export type PendingMutationKind = 'generate' | 'delete_video' | 'favorite_template';
+
+// pending: waiting to be sent; replaying: claimed by the app or the service worker;
+// settled: answered while the app was closed, outcome not yet applied; conflict: refused by the server
+export type PendingMutationState = 'pending' | 'replaying' | 'settled' | 'conflict';
+
+export interface PendingMutation {
+  id: string;
+  kind: PendingMutationKind;
+  label: string;                          // shown in the pending changes list
+  method: 'POST' | 'PUT' | 'DELETE';
+  path: string;                           // relative to the API base - replayed by the app
+  url: string;                            // absolute - replayed by the service worker
+  body: unknown;
+  idempotency_key: string;
+  scope: string | null;                   // idempotency scope, released once the server answers
+  environment: ApiEnvironmentId;
+  owner: string | null;                   // id of the user who queued it; nobody else's session sends it
+  authorization: string | null;           // bearer token when queued; the app sends the owner's current one
+  background: boolean;                    // whether the service worker may replay it (not in sandbox mode)
+  state: PendingMutationState;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  outcome: { status: number; body: unknown } | null;
+  conflict: string | null;
+}
+
+export interface MutationDraft {
+  kind: PendingMutationKind;
+  label: string;
+  method: PendingMutation['method'];
+  path: string;
+  body?: unknown;
+  scope?: string;                         // reuse the key of an idempotent submit for this scope
+}
+
+// A response other than 2xx, from a replay in the app or recorded by the service worker
+export interface MutationRefusal {
+  status: number;
+  message: string;
+  details?: unknown;
+}
+
+export interface MutationHandler {
+  // Side effects once the server has applied the change, e.g. tracking a new generation
+  onApplied?: (mutation: PendingMutation, data: unknown) => void;
+  // Data for a refusal that means the change already happened (a duplicate submit,
+  // deleting something already gone); null leaves it as a conflict
+  alreadyApplied?: (mutation: PendingMutation, refusal: MutationRefusal) => unknown;
+}
+
+export type OfflineQueueListener = (mutations: PendingMutation[]) => void;
+export type MutationSettledListener = (mutation: PendingMutation, result: 'applied' | 'conflict') => void;
+
+export interface MutationStore {
+  getAll(): Promise<PendingMutation[]>;
+  put(mutation: PendingMutation): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Read-modify-write in one transaction; returning null leaves the record untouched
+  update(id: string, change: (mutation: PendingMutation) => PendingMutation | null): Promise<PendingMutation | null>;
+  // Signed-in user, so the service worker skips everyone else's mutations
+  setOwner(owner: string | null): Promise<void>;
+}
+
+export class OfflineQueuedError extends Error {
+  public code = OFFLINE_QUEUED_CODE;
+  public status = 0;
+
+  constructor(public mutation: PendingMutation) {
+    super(`You're offline - "${mutation.label}" will be sent when you reconnect`);
+    this.name = 'OfflineQueuedError';
+  }
+}
+
+/**
+ * Whether a mutation was queued for later instead of failing
+ */
+export const isOfflineQueued = (error: unknown): boolean =>
+  (error as { code?: string } | null)?.code === OFFLINE_QUEUED_CODE;
+
+// Failed without reaching the server while the browser reports no connection
+const isOfflineFailure = (error: unknown): boolean =>
+  typeof navigator !== 'undefined' &&
+  navigator.onLine === false &&
+  !(error as { status?: number } | null)?.status;
+
+const isRetryableRefusal = (status: number): boolean =>
+  status >= 500 || (OFFLINE_QUEUE_CONFIG.RETRY_STATUS_CODES as readonly number[]).includes(status);
+
+const refusalMessage = (body: unknown, status: number): string => {
+  const data = body as { message?: unknown; detail?: unknown } | null;
+  if (typeof data?.message === 'string') return data.message;
+  if (typeof data?.detail === 'string') return data.detail;
+  return `Request failed with status code ${status}`;
+};
+
+// ========== STORAGE ==========
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDbMutationStore implements MutationStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  async getAll(): Promise<PendingMutation[]> {
+    const store = await this.objectStore('readonly');
+    return requestResult(store.getAll() as IDBRequest<PendingMutation[]>);
+  }
+
+  async put(mutation: PendingMutation): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestResult(store.put(mutation));
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestResult(store.delete(id));
+  }
+
+  async update(id: string, change: (mutation: PendingMutation) => PendingMutation | null): Promise<PendingMutation | null> {
+    const store = await this.objectStore('readwrite');
+    const current = await requestResult(store.get(id) as IDBRequest<PendingMutation | undefined>);
+    const next = current ? change(current) : null;
+    if (next) {
+      await requestResult(store.put(next));
+    }
+    return next;
+  }
+
+  async setOwner(owner: string | null): Promise<void> {
+    const store = await this.objectStore('readwrite', OFFLINE_QUEUE_CONFIG.SESSION_STORE);
+    if (owner) {
+      await requestResult(store.put({ key: OFFLINE_QUEUE_CONFIG.OWNER_KEY, user_id: owner }));
+    } else {
+      await requestResult(store.delete(OFFLINE_QUEUE_CONFIG.OWNER_KEY));
+    }
+  }
+
+  private async objectStore(
+    mode: IDBTransactionMode,
+    name: string = OFFLINE_QUEUE_CONFIG.STORE_NAME
+  ): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(name, mode).objectStore(name);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(OFFLINE_QUEUE_CONFIG.DB_NAME, OFFLINE_QUEUE_CONFIG.DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(OFFLINE_QUEUE_CONFIG.STORE_NAME)) {
+          request.result.createObjectStore(OFFLINE_QUEUE_CONFIG.STORE_NAME, { keyPath: 'id' });
+        }
+        if (!request.result.objectStoreNames.contains(OFFLINE_QUEUE_CONFIG.SESSION_STORE)) {
+          request.result.createObjectStore(OFFLINE_QUEUE_CONFIG.SESSION_STORE, { keyPath: 'key' });
+        }
+      };
+      this.database = requestResult(request).catch(error => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+}
+
+// Used where IndexedDB is unavailable (private modes, tests); lasts for the session only
+export class MemoryMutationStore implements MutationStore {
+  private records = new Map<string, PendingMutation>();
+  owner: string | null = null;
+
+  async getAll(): Promise<PendingMutation[]> {
+    return Array.from(this.records.values());
+  }
+
+  async put(mutation: PendingMutation): Promise<void> {
+    this.records.set(mutation.id, mutation);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async update(id: string, change: (mutation: PendingMutation) => PendingMutation | null): Promise<PendingMutation | null> {
+    const current = this.records.get(id);
+    const next = current ? change(current) : null;
+    if (next) {
+      this.records.set(id, next);
+    }
+    return next;
+  }
+
+  async setOwner(owner: string | null): Promise<void> {
+    this.owner = owner;
+  }
+}
+
+// ========== BACKGROUND SYNC ==========
+
+type SyncRegistration = ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } };
+
+/**
+ * Whether a controlling service worker can replay mutations while the app is closed
+ */
+export const supportsBackgroundSync = (): boolean =>
+  typeof window !== 'undefined' &&
+  'SyncManager' in window &&
+  !!navigator.serviceWorker?.controller;
+
+const requestBackgroundSync = async (): Promise<void> => {
+  if (!supportsBackgroundSync()) return;
+  try {
+    const registration = await navigator.serviceWorker.ready as SyncRegistration;
+    await registration.sync?.register(OFFLINE_QUEUE_CONFIG.SYNC_TAG);
+  } catch (error) {
+    console.warn('Failed to register background sync:', error);
+  }
+};
+
+// ========== QUEUE CLASS ==========
+
+export class OfflineMutationQueue {
+  private mutations: PendingMutation[] = [];
+  private handlers = new Map<PendingMutationKind, MutationHandler>();
+  private listeners = new Set<OfflineQueueListener>();
+  private settledListeners = new Set<MutationSettledListener>();
+  private loading: Promise<void> | null = null;
+  private replaying: Promise<void> | null = null;
+  private owner: string | null = null;
+
+  constructor(private store: MutationStore = typeof indexedDB !== 'undefined'
+    ? new IndexedDbMutationStore()
+    : new MemoryMutationStore()) {}
+
+  /**
+   * Register how a kind of mutation is applied; set once by the endpoint wrappers
+   */
+  register(kind: PendingMutationKind, handler: MutationHandler): void {
+    this.handlers.set(kind, handler);
+  }
+
+  /**
+   * Switch to the signed-in user's mutations (null when signed out). Others stay stored but are
+   * neither listed nor sent, so a shared browser never replays them on the wrong account.
+   */
+  async setOwner(owner: string | null): Promise<void> {
+    if (owner === this.owner && this.loading) return;
+    this.owner = owner;
+    try {
+      await this.store.setOwner(owner);
+    } catch (error) {
+      console.warn('Failed to record the offline queue owner:', error);
+    }
+    await this.refresh();
+  }
+
+  /**
+   * Drop every mutation a user queued, e.g. when they log out
+   */
+  async discardOwnedBy(owner: string): Promise<void> {
+    const owned = (await this.store.getAll()).filter(mutation => mutation.owner === owner);
+    for (const mutation of owned) {
+      await this.store.delete(mutation.id);
+      if (mutation.scope) idempotencyKeys.release(mutation.scope);
+    }
+    this.commit(this.mutations.filter(mutation => mutation.owner !== owner));
+  }
+
+  /**
+   * Send a mutation; if it fails because the browser is offline, queue it and throw OfflineQueuedError
+   */
+  async capture<T>(draft: MutationDraft, send: () => Promise<T>): Promise<T> {
+    try {
+      return await send();
+    } catch (error) {
+      if (!isOfflineFailure(error)) throw error;
+      throw new OfflineQueuedError(await this.enqueue(draft));
+    }
+  }
+
+  /**
+   * Persist a mutation for replay and ask the service worker to sync when the connection returns
+   */
+  async enqueue(draft: MutationDraft): Promise<PendingMutation> {
+    await this.load();
+    const now = new Date().toISOString();
+    const environment = getActiveEnvironment();
+
+    const mutation: PendingMutation = {
+      id: createIdempotencyKey(),
+      kind: draft.kind,
+      label: draft.label,
+      method: draft.method,
+      path: draft.path,
+      url: `${getApiBaseUrl()}${draft.path}`,
+      body: draft.body ?? null,
+      idempotency_key: draft.scope ? idempotencyKeys.acquire(draft.scope) : createIdempotencyKey(),
+      scope: draft.scope || null,
+      environment: environment.id,
+      owner: this.owner,
+      authorization: apiClient.getAuthToken(),
+      background: !environment.sandbox,
+      state: 'pending',
+      attempts: 0,
+      created_at: now,
+      updated_at: now,
+      outcome: null,
+      conflict: null
+    };
+
+    await this.store.put(mutation);
+    this.commit([...this.mutations, mutation]);
+    void requestBackgroundSync();
+    return mutation;
+  }
+
+  /**
+   * Mutations the signed-in user queued in the active environment, oldest first
+   */
+  getMutations(): PendingMutation[] {
+    return this.mutations;
+  }
+
+  subscribe(listener: OfflineQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called once the server has answered a queued mutation
+   */
+  onSettled(listener: MutationSettledListener): () => void {
+    this.settledListeners.add(listener);
+    return () => {
+      this.settledListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Re-read the store, e.g. after the service worker replayed mutations, and apply recorded outcomes
+   */
+  async refresh(): Promise<void> {
+    this.loading = null;
+    await this.load();
+  }
+
+  /**
+   * Send pending mutations in order. Stops at the first one that still can't get through.
+   * `foregroundOnly` skips those the service worker will replay through Background Sync.
+   */
+  replay(foregroundOnly = false): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replayPending(foregroundOnly).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Send a conflicting mutation again as a new request
+   */
+  async retry(id: string): Promise<void> {
+    const mutation = await this.store.update(id, current => current.state === 'conflict'
+      ? { ...current, state: 'pending', conflict: null, idempotency_key: createIdempotencyKey(), updated_at: new Date().toISOString() }
+      : null);
+    if (!mutation) return;
+
+    this.replace(mutation);
+    await this.replay();
+  }
+
+  /**
+   * Drop a queued mutation without sending it
+   */
+  async discard(id: string): Promise<void> {
+    const mutation = this.mutations.find(candidate => candidate.id === id);
+    if (!mutation || mutation.state === 'replaying') return;
+
+    await this.store.delete(id);
+    if (mutation.scope) idempotencyKeys.release(mutation.scope);
+    this.commit(this.mutations.filter(candidate => candidate.id !== id));
+  }
+
+  // ========== REPLAY ==========
+
+  private async replayPending(foregroundOnly: boolean): Promise<void> {
+    await this.load();
+    const backgroundSync = supportsBackgroundSync();
+
+    for (const queued of this.mutations) {
+      if (queued.state !== 'pending' || (foregroundOnly && backgroundSync && queued.background)) continue;
+
+      // Claimed in the store so the service worker never sends the same mutation at the same time
+      const mutation = await this.store.update(queued.id, current => current.state === 'pending' && this.isOwned(current)
+        ? { ...current, state: 'replaying', attempts: current.attempts + 1, updated_at: new Date().toISOString() }
+        : null);
+      if (!mutation) continue;
+      this.replace(mutation);
+
+      try {
+        const response = await this.send(mutation);
+        await this.apply(mutation, response.data);
+      } catch (error) {
+        const status = (error as { status?: number }).status || 0;
+        if (!status || isRetryableRefusal(status)) {
+          await this.release(mutation);
+          // Still unreachable - later mutations would fail the same way
+          if (!status || status >= 500) return;
+          continue;
+        }
+        await this.resolve(mutation, {
+          status,
+          message: (error as Error).message,
+          details: (error as { details?: unknown }).details
+        });
+      }
+    }
+  }
+
+  private send(mutation: PendingMutation) {
+    const config = { headers: { [IDEMPOTENCY_HEADER]: mutation.idempotency_key } };
+    switch (mutation.method) {
+      case 'POST':
+        return apiClient.post(mutation.path, mutation.body, config);
+      case 'PUT':
+        return apiClient.put(mutation.path, mutation.body, config);
+      case 'DELETE':
+        return apiClient.delete(mutation.path, config);
+    }
+  }
+
+  // A definitive refusal: either the change already happened or the server state moved on
+  private async resolve(mutation: PendingMutation, refusal: MutationRefusal): Promise<void> {
+    const applied = this.handlers.get(mutation.kind)?.alreadyApplied?.(mutation, refusal);
+    if (applied !== undefined && applied !== null) {
+      await this.apply(mutation, applied);
+      return;
+    }
+
+    if (mutation.scope) idempotencyKeys.release(mutation.scope);
+    const conflict: PendingMutation = {
+      ...mutation,
+      state: 'conflict',
+      outcome: null,
+      conflict: refusal.message,
+      updated_at: new Date().toISOString()
+    };
+    await this.store.put(conflict);
+    this.replace(conflict);
+    this.settledListeners.forEach(listener => listener(conflict, 'conflict'));
+  }
+
+  private async apply(mutation: PendingMutation, data: unknown): Promise<void> {
+    await this.store.delete(mutation.id);
+    if (mutation.scope) idempotencyKeys.release(mutation.scope);
+    this.commit(this.mutations.filter(candidate => candidate.id !== mutation.id));
+
+    try {
+      this.handlers.get(mutation.kind)?.onApplied?.(mutation, data);
+    } catch (error) {
+      console.error('Error applying replayed mutation:', error);
+    }
+    this.settledListeners.forEach(listener => listener(mutation, 'applied'));
+  }
+
+  // Back to pending after a failed attempt
+  private async release(mutation: PendingMutation): Promise<void> {
+    const pending = await this.store.update(mutation.id, current => ({
+      ...current,
+      state: 'pending',
+      updated_at: new Date().toISOString()
+    }));
+    if (pending) this.replace(pending);
+  }
+
+  // ========== PERSISTENCE ==========
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readStore().catch(error => {
+        console.warn('Failed to load offline mutations:', error);
+      });
+    }
+    return this.loading;
+  }
+
+  private async readStore(): Promise<void> {
+    const environment = getActiveEnvironment().id;
+    const now = Date.now();
+    const stored = (await this.store.getAll())
+      .filter(mutation => mutation.environment === environment && this.isOwned(mutation))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    const mutations: PendingMutation[] = [];
+    for (const mutation of stored) {
+      // Interrupted replays (closed tab, killed worker) are sent again; the idempotency key makes that safe
+      if (mutation.state === 'replaying' && now - Date.parse(mutation.updated_at) > OFFLINE_QUEUE_CONFIG.STALE_REPLAY) {
+        const pending = { ...mutation, state: 'pending' as const };
+        await this.store.put(pending);
+        mutations.push(pending);
+      } else {
+        mutations.push(mutation);
+      }
+    }
+    this.commit(mutations);
+
+    // The service worker only records responses; apply them here where the app state lives
+    for (const mutation of mutations) {
+      if (mutation.state !== 'settled' || !mutation.outcome) continue;
+      const { status, body } = mutation.outcome;
+      if (status >= 200 && status < 300) {
+        await this.apply(mutation, body);
+      } else {
+        await this.resolve(mutation, { status, message: refusalMessage(body, status), details: body });
+      }
+    }
+  }
+
+  private isOwned(mutation: PendingMutation): boolean {
+    return this.owner !== null && mutation.owner === this.owner;
+  }
+
+  private replace(mutation: PendingMutation): void {
+    this.commit(this.mutations.map(candidate => (candidate.id === mutation.id ? mutation : candidate)));
+  }
+
+  private commit(mutations: PendingMutation[]): void {
+    this.mutations = mutations;
+    this.listeners.forEach(listener => listener(mutations));
+  }
+}
+
+// ========== SINGLETON EXPORT ==========
+
+export const offlineQueue = new OfflineMutationQueue();
+export default offlineQueue;
+
+/**
+ * Replay queued mutations while the app is open: on start, on the `online` event where
+ * Background Sync is unavailable, and whenever the service worker reports progress.
+ * Returns a function that stops listening.
+ */
+export const startOfflineReplay = (queue: OfflineMutationQueue = offlineQueue): (() => void) => {
+  const handleOnline = () => void queue.replay(true);
+  const handleWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === OFFLINE_QUEUE_CONFIG.WORKER_MESSAGE) {
+      void queue.refresh();
+    }
+  };
+
+  window.addEventListener('online', handleOnline);
+  navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+
+  void queue.refresh().then(() => {
+    if (navigator.onLine) return queue.replay();
+  });
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+  };
+};
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerationQueue } from './queue';
+import { generationTracker } from './tracker';
+import { apiClient } from './client';
+import { VideoStatus } from './types';
+
+vi.mock('./client', () => ({
+  apiClient: {
+    get: vi.fn(),
+    createEventSource: vi.fn(() => null as EventSource | null),
+  },
+}));
+
+const mockApiClient = vi.mocked(apiClient);
+const STORAGE_KEY = 'veo_generation_queue:user-1';
+
+const createMockApiResponse = <T>(data: T): any => ({
+  data,
+  status: 200,
+  headers: {},
+});
+
+// In-memory localStorage so persistence can be asserted across queue instances
+const storage: Record<string, string> = {};
+
+const createQueue = (owner: string | null = 'user-1') => {
+  const queue = new GenerationQueue();
+  queue.setOwner(owner);
+  return queue;
+};
+
+describe('GenerationQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    Object.keys(storage).forEach(key => delete storage[key]);
+    vi.mocked(localStorage.getItem).mockImplementation((key: string) => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+    vi.mocked(localStorage.removeItem).mockImplementation((key: string) => {
+      delete storage[key];
+    });
+    mockApiClient.get.mockResolvedValue(createMockApiResponse({
+      generation_id: 'gen-1', status: 'processing', progress: 30, message: ''
+    }));
+  });
+
+  afterEach(() => {
+    generationTracker.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should persist submitted generations and track them', async () => {
+    const queue = createQueue();
+
+    queue.record('gen-1', { prompt: 'A lighthouse at dusk' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(generationTracker.isTracking('gen-1')).toBe(true);
+    expect(queue.getActive()).toHaveLength(1);
+    expect(queue.getJobs()[0]).toEqual(expect.objectContaining({
+      generation_id: 'gen-1',
+      prompt: 'A lighthouse at dusk',
+      progress: 30
+    }));
+    expect(JSON.parse(storage[STORAGE_KEY])[0].generation_id).toBe('gen-1');
+
+    queue.suspend();
+  });
+
+  it('should resume unfinished jobs after a reload', async () => {
+    createQueue().record('gen-1', { prompt: 'test' });
+    generationTracker.dispose();
+
+    const reloaded = createQueue();
+    expect(reloaded.getActive()).toHaveLength(1);
+
+    reloaded.resume();
+    expect(generationTracker.isTracking('gen-1')).toBe(true);
+
+    reloaded.suspend();
+    expect(generationTracker.isTracking('gen-1')).toBe(false);
+  });
+
+  it('should notify once when a job settles', async () => {
+    const queue = createQueue();
+    const onSettled = vi.fn();
+    queue.onSettled(onSettled);
+
+    mockApiClient.get.mockResolvedValue(createMockApiResponse({
+      generation_id: 'gen-1', status: 'completed', progress: 100, message: 'Done'
+    }));
+
+    queue.record('gen-1', { prompt: 'test' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onSettled).toHaveBeenCalledTimes(1);
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ status: VideoStatus.COMPLETED }));
+    expect(queue.getActive()).toHaveLength(0);
+
+    queue.resume();
+    expect(onSettled).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clear finished jobs but keep active ones', () => {
+    storage[STORAGE_KEY] = JSON.stringify([
+      { generation_id: 'done', status: 'completed', progress: 100, message: '', submitted_at: new Date().toISOString(), updated_at: new Date().toISOString() },
+      { generation_id: 'running', status: 'processing', progress: 10, message: '', submitted_at: new Date().toISOString(), updated_at: new Date().toISOString() },
+    ]);
+
+    const queue = createQueue();
+    queue.clearFinished();
+
+    expect(queue.getJobs().map(job => job.generation_id)).toEqual(['running']);
+  });
+
+  it('should reload once per update from another tab', () => {
+    const queue = createQueue();
+    const listener = vi.fn();
+    queue.subscribe(listener);
+    queue.getJobs();
+
+    const otherTab = (id: string) => {
+      storage[STORAGE_KEY] = JSON.stringify([
+        { generation_id: id, status: 'completed', progress: 100, message: '', submitted_at: new Date().toISOString(), updated_at: new Date().toISOString() }
+      ]);
+      window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY }));
+    };
+
+    otherTab('first');
+    otherTab('second');
+    otherTab('third');
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(queue.getJobs().map(job => job.generation_id)).toEqual(['third']);
+  });
+
+  it("should keep each user's jobs to themselves", () => {
+    const queue = createQueue();
+    queue.record('gen-1', { prompt: 'A private prompt' });
+
+    queue.setOwner('user-2');
+    expect(queue.getJobs()).toEqual([]);
+    expect(generationTracker.isTracking('gen-1')).toBe(false);
+
+    queue.resume();
+    expect(generationTracker.isTracking('gen-1')).toBe(false);
+
+    queue.setOwner(null);
+    queue.record('gen-2', { prompt: 'Signed out' });
+    expect(Object.keys(storage)).toEqual([STORAGE_KEY]);
+
+    queue.setOwner('user-1');
+    expect(queue.getJobs().map(job => job.prompt)).toEqual(['A private prompt']);
+    queue.suspend();
+  });
+
+  it('should drop jobs stored before they were kept per user', () => {
+    storage['veo_generation_queue'] = JSON.stringify([
+      { generation_id: 'legacy', status: 'processing', progress: 10, message: '', submitted_at: new Date().toISOString(), updated_at: new Date().toISOString() }
+    ]);
+
+    const queue = createQueue();
+
+    expect(queue.getJobs()).toEqual([]);
+    expect(storage['veo_generation_queue']).toBeUndefined();
+  });
+});
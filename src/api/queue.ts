@@ -0,0 +1,351 @@
+/**
+ * Persistent generation queue
+ * Features: records every submitted generation in localStorage, resumes
+ * tracking unfinished jobs after a reload, notifies when jobs settle,
+ * keeps the original request so failed jobs can be re-submitted; stored per signed-in user
+ */
+
+import { generationTracker, isTerminalStatus } from './tracker';
+import {
+  VideoGenerationRequest,
+  VideoStatus,
+  VideoStatusResponse
+} from './types';
+import { scopedStorageKey } from './environments';
+
+// ========== CONFIGURATION ==========
+
+const QUEUE_CONFIG = {
+  STORAGE_KEY: 'veo_generation_queue',
+  MAX_ENTRIES: 50,                        // oldest finished jobs are dropped first
+  FINISHED_RETENTION: 24 * 60 * 60 * 1000 // keep finished jobs for a day
+} as const;
+
+// ========== TYPES ==========
+
+export interface QueuedGeneration {
+  generation_id: string;
+  status: VideoStatus;
+  progress: number;
+  message: string;
+  prompt?: string | null;
+  model?: string | null;
+  video_url?: string | null;
+  error_details?: string | null;
+  submitted_at: string;
+  updated_at: string;
+  completed_at?: string | null;
+  // Original request without the conditioning image, which is only kept in memory
+  request?: Omit<VideoGenerationRequest, 'image_base64'> | null;
+  has_conditioning_image?: boolean;
+  // Automatic retry bookkeeping
+  failure_class?: string | null;
+  next_retry_at?: string | null;
+  retried_by?: string | null;
+}
+
+export type QueueListener = (jobs: QueuedGeneration[]) => void;
+export type QueueSettledListener = (job: QueuedGeneration) => void;
+
+// ========== QUEUE CLASS ==========
+
+export class GenerationQueue {
+  private jobs: QueuedGeneration[] = [];
+  private listeners = new Set<QueueListener>();
+  private settledListeners = new Set<QueueSettledListener>();
+  private subscriptions = new Map<string, () => void>();
+  private conditioningImages = new Map<string, string>();
+  private loaded = false;
+  private listening = false;
+  private owner: string | null = null;
+
+  /**
+   * Switch to the signed-in user's jobs (null when signed out). Jobs are stored per user, so
+   * the next account on a shared browser never sees, tracks or retries someone else's prompts.
+   */
+  setOwner(owner: string | null): void {
+    if (owner === this.owner && this.loaded) return;
+    this.suspend();
+    this.conditioningImages.clear();
+    this.owner = owner;
+    this.loaded = true;
+
+    // Written before jobs were stored per user - whose they are is unknown
+    try {
+      localStorage.removeItem(scopedStorageKey(QUEUE_CONFIG.STORAGE_KEY));
+    } catch {
+      // Storage unavailable - nothing to clean up
+    }
+
+    this.read();
+    this.listen();
+    this.notify();
+  }
+
+  /**
+   * Record a newly submitted generation and start tracking it
+   */
+  record(
+    generationId: string,
+    request: Partial<VideoGenerationRequest> = {},
+    initialStatus: VideoStatus = VideoStatus.PENDING
+  ): void {
+    this.load();
+    const now = new Date().toISOString();
+    const { image_base64, ...storedRequest } = request;
+
+    if (image_base64) {
+      this.conditioningImages.set(generationId, image_base64);
+    }
+
+    this.commit([
+      {
+        generation_id: generationId,
+        status: initialStatus,
+        progress: 0,
+        message: '',
+        prompt: request.prompt ?? null,
+        model: request.model ?? null,
+        submitted_at: now,
+        updated_at: now,
+        request: storedRequest.prompt ? storedRequest as Omit<VideoGenerationRequest, 'image_base64'> : null,
+        has_conditioning_image: !!image_base64
+      },
+      ...this.jobs.filter(job => job.generation_id !== generationId)
+    ]);
+
+    this.watch(generationId);
+  }
+
+  /**
+   * Resume tracking every job that has not reached a terminal status
+   */
+  resume(): void {
+    this.load();
+    this.jobs
+      .filter(job => !isTerminalStatus(job.status))
+      .forEach(job => this.watch(job.generation_id));
+  }
+
+  /**
+   * Stop tracking without forgetting jobs (e.g. on logout)
+   */
+  suspend(): void {
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Merge bookkeeping fields into a recorded job
+   */
+  update(generationId: string, patch: Partial<Omit<QueuedGeneration, 'generation_id'>>): void {
+    this.load();
+    if (!this.jobs.some(job => job.generation_id === generationId)) return;
+    this.commit(this.jobs.map(job => (job.generation_id === generationId ? { ...job, ...patch } : job)));
+  }
+
+  /**
+   * The request a job was submitted with, or null when it cannot be rebuilt
+   * (unknown job, or a conditioning image lost to a reload)
+   */
+  getRequest(generationId: string): VideoGenerationRequest | null {
+    const job = this.getJobs().find(entry => entry.generation_id === generationId);
+    if (!job?.request) return null;
+
+    const image = this.conditioningImages.get(generationId);
+    if (job.has_conditioning_image && !image) return null;
+
+    return image ? { ...job.request, image_base64: image } : { ...job.request };
+  }
+
+  /**
+   * Forget a job
+   */
+  remove(generationId: string): void {
+    this.load();
+    this.subscriptions.get(generationId)?.();
+    this.subscriptions.delete(generationId);
+    this.conditioningImages.delete(generationId);
+    this.commit(this.jobs.filter(job => job.generation_id !== generationId));
+  }
+
+  /**
+   * Forget every finished job
+   */
+  clearFinished(): void {
+    this.load();
+    this.commit(this.jobs.filter(job => !isTerminalStatus(job.status)));
+  }
+
+  /**
+   * All recorded jobs, newest first. The array is replaced on every change.
+   */
+  getJobs(): QueuedGeneration[] {
+    this.load();
+    return this.jobs;
+  }
+
+  /**
+   * Jobs that are still generating
+   */
+  getActive(): QueuedGeneration[] {
+    return this.getJobs().filter(job => !isTerminalStatus(job.status));
+  }
+
+  /**
+   * Listen for queue changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for jobs reaching a terminal status. Returns an unsubscribe function.
+   */
+  onSettled(listener: QueueSettledListener): () => void {
+    this.settledListeners.add(listener);
+    return () => {
+      this.settledListeners.delete(listener);
+    };
+  }
+
+  // ========== TRACKING ==========
+
+  private watch(generationId: string): void {
+    if (this.subscriptions.has(generationId)) return;
+
+    const unsubscribe = generationTracker.subscribe(
+      generationId,
+      (status) => this.apply(status),
+      {
+        onError: (error) => {
+          console.warn(`Generation queue stopped tracking ${generationId}:`, error);
+          this.subscriptions.delete(generationId);
+        }
+      }
+    );
+
+    // Terminal snapshots are delivered synchronously; only keep live subscriptions
+    if (generationTracker.isTracking(generationId)) {
+      this.subscriptions.set(generationId, unsubscribe);
+    }
+  }
+
+  private apply(status: VideoStatusResponse): void {
+    const previous = this.jobs.find(job => job.generation_id === status.generation_id);
+    if (!previous) return;
+
+    const settled = isTerminalStatus(status.status) && !isTerminalStatus(previous.status);
+    const next: QueuedGeneration = {
+      ...previous,
+      status: status.status,
+      progress: status.progress ?? previous.progress,
+      message: status.message || previous.message,
+      video_url: status.video_url ?? previous.video_url,
+      error_details: status.error_details ?? previous.error_details,
+      updated_at: status.updated_at || new Date().toISOString(),
+      completed_at: settled ? (status.completed_at || new Date().toISOString()) : previous.completed_at
+    };
+
+    if (isTerminalStatus(status.status)) {
+      this.subscriptions.delete(status.generation_id);
+    }
+
+    this.commit(this.jobs.map(job => (job.generation_id === next.generation_id ? next : job)));
+
+    if (settled) {
+      this.settledListeners.forEach(listener => {
+        try {
+          listener(next);
+        } catch (error) {
+          console.error('Error in generation queue listener:', error);
+        }
+      });
+    }
+  }
+
+  // ========== PERSISTENCE ==========
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    this.read();
+    this.listen();
+  }
+
+  // Null while signed out: jobs then live in memory only
+  private storageKey(): string | null {
+    return this.owner ? scopedStorageKey(`${QUEUE_CONFIG.STORAGE_KEY}:${this.owner}`) : null;
+  }
+
+  private read(): void {
+    const key = this.storageKey();
+    if (!key) {
+      this.jobs = [];
+      return;
+    }
+
+    try {
+      const stored = localStorage.getItem(key);
+      const parsed = stored ? JSON.parse(stored) : [];
+      this.jobs = Array.isArray(parsed) ? this.prune(parsed) : [];
+    } catch (error) {
+      console.warn('Failed to load generation queue:', error);
+      this.jobs = [];
+    }
+  }
+
+  // Keep tabs in sync when another tab submits or finishes a job; registered once per queue
+  private listen(): void {
+    if (this.listening || typeof window === 'undefined') return;
+    this.listening = true;
+
+    window.addEventListener('storage', (event) => {
+      if (!event.key || event.key !== this.storageKey()) return;
+      this.read();
+      this.notify();
+    });
+  }
+
+  private commit(jobs: QueuedGeneration[]): void {
+    this.jobs = this.prune(jobs);
+
+    const key = this.storageKey();
+    try {
+      if (key) localStorage.setItem(key, JSON.stringify(this.jobs));
+    } catch (error) {
+      console.warn('Failed to persist generation queue:', error);
+    }
+
+    this.notify();
+  }
+
+  private prune(jobs: QueuedGeneration[]): QueuedGeneration[] {
+    const cutoff = Date.now() - QUEUE_CONFIG.FINISHED_RETENTION;
+    const kept = jobs.filter(job =>
+      !isTerminalStatus(job.status) || new Date(job.completed_at || job.updated_at).getTime() > cutoff
+    );
+
+    if (kept.length <= QUEUE_CONFIG.MAX_ENTRIES) return kept;
+
+    // Over the cap: keep every active job, then the newest finished ones
+    const active = kept.filter(job => !isTerminalStatus(job.status));
+    const finished = kept
+      .filter(job => isTerminalStatus(job.status))
+      .slice(0, Math.max(0, QUEUE_CONFIG.MAX_ENTRIES - active.length));
+    const keep = new Set([...active, ...finished]);
+    return kept.filter(job => keep.has(job));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+}
+
+// ========== SINGLETON EXPORT ==========
+
+export const generationQueue = new GenerationQueue();
+export default generationQueue;
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  parseRateLimitHeaders,
+  parseRetryAfter,
+  RATE_LIMITED_ENDPOINTS,
+  RateLimiter,
+  rateLimitKey
+} from './rateLimits';
+
+describe('Rate limits', () => {
+  describe('header parsing', () => {
+    const now = Date.parse('2025-08-18T12:00:00Z');
+
+    it('should read Retry-After as seconds or an HTTP date', () => {
+      expect(parseRetryAfter('12', now)).toBe(12000);
+      expect(parseRetryAfter('Mon, 18 Aug 2025 12:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('soon', now)).toBeNull();
+      expect(parseRetryAfter(undefined, now)).toBeNull();
+    });
+
+    it('should read X-RateLimit headers case-insensitively with either reset format', () => {
+      expect(parseRateLimitHeaders({ 'X-RateLimit-Limit': '8', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '20' }, now))
+        .toEqual({ retryAfterMs: null, limit: 8, remaining: 0, resetAt: now + 20000 });
+      expect(parseRateLimitHeaders({ 'x-ratelimit-reset': String(now / 1000 + 45) }, now).resetAt).toBe(now + 45000);
+    });
+  });
+
+  describe('rateLimitKey', () => {
+    it('should collapse ids and drop the API prefix and query', () => {
+      expect(rateLimitKey('post', '/videos/retry/gen-123')).toBe(RATE_LIMITED_ENDPOINTS.RETRY);
+      expect(rateLimitKey('post', 'https://api.lostmindai.com/api/v1/videos/generate?x=1')).toBe(RATE_LIMITED_ENDPOINTS.GENERATE);
+      expect(rateLimitKey(undefined, '/videos/abc-42/status')).toBe('GET /videos/{id}/status');
+    });
+  });
+
+  describe('RateLimiter', () => {
+    let limiter: RateLimiter;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      limiter = new RateLimiter();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const acquireAll = (key: string, count: number) => {
+      const released: number[] = [];
+      const start = Date.now();
+      for (let index = 0; index < count; index++) {
+        limiter.acquire(key).then(() => released.push(Date.now() - start));
+      }
+      return released;
+    };
+
+    it('should let a burst through up to capacity and pace the rest', async () => {
+      const released = acquireAll(RATE_LIMITED_ENDPOINTS.GENERATE, 6);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(released).toEqual([0, 0, 0, 0]);
+
+      const status = limiter.getStatus(RATE_LIMITED_ENDPOINTS.GENERATE);
+      expect(status).toEqual(expect.objectContaining({ isLimited: true, waiting: 2 }));
+
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(released).toEqual([0, 0, 0, 0, 5000, 10000]);
+      expect(limiter.getStatus(RATE_LIMITED_ENDPOINTS.GENERATE).waiting).toBe(0);
+    });
+
+    it('should never pace endpoints without a policy until the server pushes back', async () => {
+      const key = 'GET /videos/{id}/status';
+      const released = acquireAll(key, 10);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(released).toHaveLength(10);
+      expect(limiter.getStatus(key).isLimited).toBe(false);
+
+      expect(limiter.recordRejection(key, { 'retry-after': '3' })).toBe(3000);
+      expect(limiter.getStatus(key)).toEqual(expect.objectContaining({ isLimited: true, nextSlotAt: Date.now() + 3000, remaining: 0 }));
+
+      const held = acquireAll(key, 2);
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(held).toEqual([]);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(held).toEqual([3000, 3000]);
+    });
+
+    it('should hold callers already waiting when a 429 moves the window', async () => {
+      const key = RATE_LIMITED_ENDPOINTS.BATCH;
+      const released = acquireAll(key, 3);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(released).toEqual([0, 0]);
+
+      limiter.recordRejection(key, { 'retry-after': '30' });
+      await vi.advanceTimersByTimeAsync(29999);
+      expect(released).toEqual([0, 0]);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(released).toEqual([0, 0, 30000]);
+    });
+
+    it('should release aborted callers at once and give their slot back', async () => {
+      const key = RATE_LIMITED_ENDPOINTS.RETRY;
+      acquireAll(key, 3);
+      const controller = new AbortController();
+      let released = false;
+      limiter.acquire(key, controller.signal).then(() => { released = true; });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(limiter.getStatus(key).waiting).toBe(1);
+
+      controller.abort();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(released).toBe(true);
+      // The next caller gets the aborted caller's slot rather than queueing behind it
+      expect(limiter.getStatus(key)).toEqual(expect.objectContaining({ waiting: 0, nextSlotAt: Date.now() + 4000 }));
+    });
+
+    it('should block until reset when the server reports no remaining requests', () => {
+      const key = RATE_LIMITED_ENDPOINTS.GENERATE;
+      limiter.recordResponse(key, { 'x-ratelimit-limit': '8', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '12' });
+
+      expect(limiter.getStatus(key)).toEqual({
+        isLimited: true,
+        nextSlotAt: Date.now() + 12000,
+        waiting: 0,
+        remaining: 0,
+        limit: 8
+      });
+    });
+
+    it('should notify subscribers when a bucket changes', () => {
+      const listener = vi.fn();
+      const unsubscribe = limiter.subscribe(listener);
+
+      limiter.recordRejection('POST /videos/batch', {});
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      limiter.reset();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Client-side rate limiting
+ * Features: per-endpoint token buckets that pace bursts (bulk regenerate, batch submit),
+ * Retry-After and X-RateLimit-* parsing, shared status for "next slot in 12s" hints
+ */
+
+// ========== CONFIGURATION ==========
+
+const RATE_LIMIT_CONFIG = {
+  FALLBACK_BLOCK: 5000,           // 429 without any server hint
+  MAX_WAIT: 60000                 // longer waits are surfaced to the user instead of retried
+} as const;
+
+export const RATE_LIMITED_ENDPOINTS = {
+  GENERATE: 'POST /videos/generate',
+  BATCH: 'POST /videos/batch',
+  RETRY: 'POST /videos/retry/{id}'
+} as const;
+
+// Client-side pacing, kept under the server limits so bursts queue locally instead of failing
+const BUCKET_POLICIES: Record<string, BucketPolicy> = {
+  [RATE_LIMITED_ENDPOINTS.GENERATE]: { capacity: 4, refillMs: 5000 },
+  [RATE_LIMITED_ENDPOINTS.BATCH]: { capacity: 2, refillMs: 15000 },
+  [RATE_LIMITED_ENDPOINTS.RETRY]: { capacity: 3, refillMs: 4000 }
+};
+
+// Endpoints without a policy are never paced, only held back after the server pushes back
+const UNPACED: BucketPolicy = { capacity: Infinity, refillMs: 0 };
+
+// ========== TYPES ==========
+
+interface BucketPolicy {
+  capacity: number;
+  refillMs: number;               // time to earn one token
+}
+
+interface Bucket extends BucketPolicy {
+  tokens: number;                 // negative while requests are waiting for a slot
+  updatedAt: number;              // refill resumes from here; in the future while blocked
+  waiting: number;
+  serverLimit: number | null;
+  serverRemaining: number | null;
+}
+
+export interface RateLimitHeaders {
+  retryAfterMs: number | null;
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null;         // epoch milliseconds
+}
+
+export interface RateLimitStatus {
+  isLimited: boolean;
+  nextSlotAt: number | null;      // epoch milliseconds; null when a request would go out now
+  waiting: number;                // requests queued locally for a slot
+  remaining: number | null;       // as last reported by the server
+  limit: number | null;
+}
+
+type HeaderBag = object | undefined | null;
+
+// ========== HEADER PARSING ==========
+
+const readHeader = (headers: HeaderBag, name: string): string | null => {
+  if (!headers) return null;
+  const entry = Object.entries(headers as Record<string, unknown>).find(([key]) => key.toLowerCase() === name);
+  const value = entry?.[1];
+  return value === undefined || value === null ? null : String(value);
+};
+
+const readNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Retry-After in milliseconds; accepts delta-seconds or an HTTP date
+ */
+export const parseRetryAfter = (value: string | null | undefined, now = Date.now()): number | null => {
+  if (!value) return null;
+  const seconds = readNumber(value);
+  if (seconds !== null) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Read Retry-After and X-RateLimit-Limit/Remaining/Reset. Reset may be epoch seconds
+ * or seconds until the window resets.
+ */
+export const parseRateLimitHeaders = (headers: HeaderBag, now = Date.now()): RateLimitHeaders => {
+  const reset = readNumber(readHeader(headers, 'x-ratelimit-reset'));
+  return {
+    retryAfterMs: parseRetryAfter(readHeader(headers, 'retry-after'), now),
+    limit: readNumber(readHeader(headers, 'x-ratelimit-limit')),
+    remaining: readNumber(readHeader(headers, 'x-ratelimit-remaining')),
+    resetAt: reset === null ? null : reset > 1e9 ? reset * 1000 : now + reset * 1000
+  };
+};
+
+/**
+ * Bucket key for a request: method plus path, with id segments collapsed ("POST /videos/retry/{id}")
+ */
+export const rateLimitKey = (method: string | undefined, url: string | undefined): string => {
+  const path = (url || '')
+    .split(/[?#]/)[0]
+    .replace(/^https?:\/\/[^/]+/, '')
+    .replace(/^\/api(\/v1)?(?=\/)|^\/v1(?=\/)/, '')
+    .replace(/\/[^/]*\d[^/]*(?=\/|$)/g, '/{id}');
+  return `${(method || 'get').toUpperCase()} ${path}`;
+};
+
+// ========== RATE LIMITER ==========
+
+// Resolves after `ms`, or as soon as the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done);
+});
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private listeners = new Set<() => void>();
+  private version = 0;
+
+  /**
+   * Wait for a slot on this endpoint. Callers are released in order, one per refill.
+   * An aborted caller gives its slot back and returns at once.
+   */
+  async acquire(key: string, signal?: AbortSignal): Promise<void> {
+    const bucket = this.bucketFor(key, true);
+    if (!bucket || signal?.aborted) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.refill(bucket, now);
+      bucket.tokens -= 1;
+      const wait = this.waitFor(bucket, now);
+      if (wait <= 0) return;
+
+      bucket.waiting += 1;
+      this.notify();
+      try {
+        await sleep(wait, signal);
+      } finally {
+        bucket.waiting -= 1;
+        this.notify();
+      }
+
+      if (signal?.aborted) {
+        bucket.tokens += 1;
+        return;
+      }
+
+      // Still blocked means a 429 arrived while waiting - queue again behind it
+      if (bucket.updatedAt <= Date.now()) return;
+    }
+  }
+
+  /**
+   * Sync a bucket with the server's view after a successful response
+   */
+  recordResponse(key: string, headers: HeaderBag): void {
+    const now = Date.now();
+    const hints = parseRateLimitHeaders(headers, now);
+    if (hints.remaining === null && hints.limit === null) return;
+
+    const bucket = this.bucketFor(key, false)!;
+    this.refill(bucket, now);
+    bucket.serverLimit = hints.limit ?? bucket.serverLimit;
+    bucket.serverRemaining = hints.remaining;
+
+    if (hints.remaining === 0 && hints.resetAt !== null) {
+      this.block(bucket, hints.resetAt);
+    } else if (hints.remaining !== null) {
+      bucket.tokens = Math.min(bucket.tokens, hints.remaining);
+    }
+    this.notify();
+  }
+
+  /**
+   * Hold an endpoint after a 429. Returns how long until its next slot, in milliseconds.
+   */
+  recordRejection(key: string, headers: HeaderBag, fallbackMs: number = RATE_LIMIT_CONFIG.FALLBACK_BLOCK): number {
+    const now = Date.now();
+    const hints = parseRateLimitHeaders(headers, now);
+    const until = hints.retryAfterMs !== null
+      ? now + hints.retryAfterMs
+      : hints.resetAt ?? now + fallbackMs;
+
+    const bucket = this.bucketFor(key, false)!;
+    bucket.serverLimit = hints.limit ?? bucket.serverLimit;
+    bucket.serverRemaining = 0;
+    this.block(bucket, until);
+    this.notify();
+    return Math.max(0, until - now);
+  }
+
+  /**
+   * Whether a wait is short enough to retry automatically rather than report
+   */
+  isRetryableWait(waitMs: number): boolean {
+    return waitMs <= RATE_LIMIT_CONFIG.MAX_WAIT;
+  }
+
+  getStatus(key: string, now = Date.now()): RateLimitStatus {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return { isLimited: false, nextSlotAt: null, waiting: 0, remaining: null, limit: null };
+    }
+
+    // Peek at the wait the next caller would get without taking a token
+    const wait = this.waitFor({ ...bucket, tokens: this.refilled(bucket, now) - 1 }, now);
+    return {
+      isLimited: wait > 0,
+      nextSlotAt: wait > 0 ? now + wait : null,
+      waiting: bucket.waiting,
+      remaining: bucket.serverRemaining,
+      limit: bucket.serverLimit
+    };
+  }
+
+  // Changes on every bucket update; lets React tell when to re-read statuses
+  getVersion(): number {
+    return this.version;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  reset(): void {
+    this.buckets.clear();
+    this.notify();
+  }
+
+  // ========== BUCKETS ==========
+
+  private bucketFor(key: string, pacedOnly: boolean): Bucket | null {
+    const existing = this.buckets.get(key);
+    if (existing) return existing;
+
+    const policy = BUCKET_POLICIES[key];
+    if (!policy && pacedOnly) return null;
+
+    const bucket: Bucket = {
+      ...(policy || UNPACED),
+      tokens: (policy || UNPACED).capacity,
+      updatedAt: Date.now(),
+      waiting: 0,
+      serverLimit: null,
+      serverRemaining: null
+    };
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  private refilled(bucket: Bucket, now: number): number {
+    if (now <= bucket.updatedAt) return bucket.tokens;
+    if (bucket.refillMs === 0) return bucket.capacity;
+    return Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) / bucket.refillMs);
+  }
+
+  private refill(bucket: Bucket, now: number): void {
+    if (now <= bucket.updatedAt) return;
+    bucket.tokens = this.refilled(bucket, now);
+    bucket.updatedAt = now;
+  }
+
+  // One slot opens at the block time, later callers follow at the refill rate
+  private block(bucket: Bucket, until: number): void {
+    bucket.tokens = 1;
+    bucket.updatedAt = Math.max(until, bucket.updatedAt);
+  }
+
+  // Wait for a caller that has already taken its (possibly negative) token
+  private waitFor(bucket: Bucket, now: number): number {
+    const blocked = Math.max(0, bucket.updatedAt - now);
+    return blocked + (bucket.tokens < 0 ? -bucket.tokens * bucket.refillMs : 0);
+  }
+
+  private notify(): void {
+    this.version += 1;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const rateLimiter = new RateLimiter();
+export default rateLimiter;
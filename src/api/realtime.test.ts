@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Minimal socket stand-in that lets tests fire server events
+const socketHandlers: Record<string, (...args: any[]) => void> = {};
+const mockSocket: Record<string, any> = {
+  active: true,
+  on: vi.fn((event: string, handler: (...args: any[]) => void): unknown => {
+    socketHandlers[event] = handler;
+    return mockSocket;
+  }),
+  emit: vi.fn(),
+  removeAllListeners: vi.fn(),
+  disconnect: vi.fn(),
+};
+
+vi.mock('socket.io-client', () => ({
+  io: vi.fn(() => mockSocket),
+}));
+
+vi.mock('./client', () => ({
+  apiClient: {
+    get: vi.fn(),
+    createEventSource: vi.fn(() => null as EventSource | null),
+    getBaseUrl: vi.fn(() => 'https://api.example.com/api/v1'),
+  },
+  TokenManager: {
+    getToken: vi.fn(() => 'mock-token' as string | null),
+  },
+}));
+
+import { io } from 'socket.io-client';
+import { RealtimeChannel } from './realtime';
+import { generationTracker } from './tracker';
+import { apiClient, TokenManager } from './client';
+
+const mockApiClient = vi.mocked(apiClient);
+
+describe('RealtimeChannel', () => {
+  let channel: RealtimeChannel;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    Object.keys(socketHandlers).forEach(key => delete socketHandlers[key]);
+    mockApiClient.get.mockResolvedValue({
+      data: { generation_id: 'gen-1', status: 'processing', message: '' },
+      status: 200,
+      headers: {},
+    } as any);
+    channel = new RealtimeChannel();
+  });
+
+  afterEach(() => {
+    channel.disconnect();
+    generationTracker.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should open one authenticated socket under the API prefix', () => {
+    channel.connect();
+    channel.connect();
+
+    expect(io).toHaveBeenCalledTimes(1);
+    expect(io).toHaveBeenCalledWith('https://api.example.com', expect.objectContaining({
+      path: '/api/v1/socket.io',
+      reconnection: true,
+    }));
+    expect(channel.getState()).toBe('connecting');
+  });
+
+  it('should not connect without a token', () => {
+    vi.mocked(TokenManager.getToken).mockReturnValueOnce(null);
+
+    channel.connect();
+
+    expect(io).not.toHaveBeenCalled();
+  });
+
+  it('should push generation statuses into the shared tracker', () => {
+    const listener = vi.fn();
+    generationTracker.subscribe('gen-1', listener);
+    channel.connect();
+    socketHandlers.connect();
+
+    expect(generationTracker.getTransport('gen-1')).toBe('push');
+
+    socketHandlers['generation:status']({ generation_id: 'gen-1', status: 'processing', progress: 60 });
+
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ progress: 60 }));
+  });
+
+  it('should hand tracking back to polling while disconnected', () => {
+    generationTracker.subscribe('gen-1', vi.fn(), { realTime: false });
+    channel.connect();
+    socketHandlers.connect();
+
+    socketHandlers.disconnect('transport close');
+
+    expect(channel.getState()).toBe('reconnecting');
+    expect(generationTracker.getTransport('gen-1')).toBe('polling');
+  });
+
+  it('should request a replay after the last seen event on reconnect', () => {
+    channel.connect();
+    socketHandlers.connect();
+    socketHandlers['quota:updated']({ event_id: 'evt-41', quota_remaining: 9 });
+
+    socketHandlers.disconnect('transport close');
+    socketHandlers.connect();
+
+    expect(mockSocket.emit).toHaveBeenCalledWith('sync', { last_event_id: 'evt-41' });
+  });
+
+  it('should fan out quota and notification events to listeners', () => {
+    const onQuota = vi.fn();
+    const onNotification = vi.fn();
+    channel.on('quota', onQuota);
+    const unsubscribe = channel.on('notification', onNotification);
+    channel.connect();
+
+    socketHandlers['quota:updated']({ quota_remaining: 4 });
+    unsubscribe();
+    socketHandlers.notification({ id: 'n1', type: 'info', title: 'Hi', message: 'There', timestamp: '' });
+
+    expect(onQuota).toHaveBeenCalledWith({ quota_remaining: 4 });
+    expect(onNotification).not.toHaveBeenCalled();
+  });
+});
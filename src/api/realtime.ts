@@ -0,0 +1,234 @@
+/**
+ * Realtime event channel
+ * Features: one authenticated socket.io connection per session carrying status
+ * events for all of a user's generations, quota changes and notifications;
+ * reconnect with backoff and catch-up on missed events
+ */
+
+import { io, Socket } from 'socket.io-client';
+import { apiClient, TokenManager } from './client';
+import { isSandboxEnabled } from './sandbox';
+import { generationTracker } from './tracker';
+import { VideoStatusResponse } from './types';
+
+// ========== CONFIGURATION ==========
+
+const REALTIME_CONFIG = {
+  SOCKET_PATH: '/socket.io',       // appended to the API prefix (e.g. /api/v1/socket.io)
+  RECONNECT_DELAY: 1000,           // first reconnect attempt after 1 second
+  RECONNECT_DELAY_MAX: 30000,      // 30 seconds max between attempts
+  RECONNECT_JITTER: 0.5,           // spread reconnects so clients don't stampede after an outage
+  CONNECT_TIMEOUT: 20000,
+  EVENTS: {
+    GENERATION_STATUS: 'generation:status',
+    QUOTA_UPDATED: 'quota:updated',
+    NOTIFICATION: 'notification',
+    SYNC: 'sync'                   // client -> server: replay events after a cursor
+  }
+} as const;
+
+// ========== TYPES ==========
+
+export type RealtimeConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface RealtimeEnvelope {
+  event_id?: string;               // monotonically increasing cursor used for catch-up
+}
+
+export type GenerationStatusEvent = RealtimeEnvelope & Partial<VideoStatusResponse> & {
+  generation_id: string;
+};
+
+export interface QuotaUpdateEvent extends RealtimeEnvelope {
+  quota_remaining: number;
+  quota_used?: number;
+  total_videos_generated?: number;
+}
+
+export interface RealtimeNotification extends RealtimeEnvelope {
+  id: string;
+  type: 'info' | 'success' | 'warning' | 'error';
+  title: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface RealtimeEventMap {
+  generation: GenerationStatusEvent;
+  quota: QuotaUpdateEvent;
+  notification: RealtimeNotification;
+}
+
+type RealtimeListener<K extends keyof RealtimeEventMap> = (event: RealtimeEventMap[K]) => void;
+type StateListener = (state: RealtimeConnectionState) => void;
+
+// ========== CHANNEL CLASS ==========
+
+export class RealtimeChannel {
+  private socket: Socket | null = null;
+  private state: RealtimeConnectionState = 'disconnected';
+  private lastEventId: string | null = null;
+  private hasConnected = false;
+  private listeners: { [K in keyof RealtimeEventMap]: Set<RealtimeListener<K>> } = {
+    generation: new Set(),
+    quota: new Set(),
+    notification: new Set()
+  };
+  private stateListeners = new Set<StateListener>();
+
+  /**
+   * Open the session socket (no-op if already open or not authenticated)
+   */
+  connect(): void {
+    // The sandbox has no socket server; tracking falls back to its SSE streams
+    if (this.socket || !TokenManager.getToken() || isSandboxEnabled()) return;
+
+    const { origin, pathname } = new URL(apiClient.getBaseUrl(), window.location.origin);
+
+    const socket = io(origin, {
+      path: `${pathname.replace(/\/$/, '')}${REALTIME_CONFIG.SOCKET_PATH}`,
+      transports: ['websocket'],
+      // Re-read the token on every (re)connect so refreshed tokens are picked up
+      auth: (cb) => cb({ token: TokenManager.getToken() }),
+      reconnection: true,
+      reconnectionDelay: REALTIME_CONFIG.RECONNECT_DELAY,
+      reconnectionDelayMax: REALTIME_CONFIG.RECONNECT_DELAY_MAX,
+      randomizationFactor: REALTIME_CONFIG.RECONNECT_JITTER,
+      timeout: REALTIME_CONFIG.CONNECT_TIMEOUT
+    });
+
+    socket.on('connect', () => this.handleConnect());
+    socket.on('disconnect', (reason) => this.handleDisconnect(reason));
+    socket.on('connect_error', (error) => {
+      console.warn('Realtime connection error:', error.message);
+      this.setState(socket.active ? 'reconnecting' : 'disconnected');
+    });
+
+    socket.on(REALTIME_CONFIG.EVENTS.GENERATION_STATUS, (event: GenerationStatusEvent) => {
+      this.advanceCursor(event);
+      generationTracker.ingest(event);
+      this.dispatch('generation', event);
+    });
+    socket.on(REALTIME_CONFIG.EVENTS.QUOTA_UPDATED, (event: QuotaUpdateEvent) => {
+      this.advanceCursor(event);
+      this.dispatch('quota', event);
+    });
+    socket.on(REALTIME_CONFIG.EVENTS.NOTIFICATION, (event: RealtimeNotification) => {
+      this.advanceCursor(event);
+      this.dispatch('notification', event);
+    });
+
+    this.socket = socket;
+    this.setState('connecting');
+  }
+
+  /**
+   * Close the session socket and fall back to per-job tracking
+   */
+  disconnect(): void {
+    if (!this.socket) return;
+
+    this.socket.removeAllListeners();
+    this.socket.disconnect();
+    this.socket = null;
+    this.hasConnected = false;
+    this.lastEventId = null;
+    generationTracker.setPushAvailable(false);
+    this.setState('disconnected');
+  }
+
+  /**
+   * Listen for a channel event. Returns an unsubscribe function.
+   */
+  on<K extends keyof RealtimeEventMap>(event: K, listener: RealtimeListener<K>): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  /**
+   * Listen for connection state changes. Returns an unsubscribe function.
+   */
+  onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  getState(): RealtimeConnectionState {
+    return this.state;
+  }
+
+  isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  // ========== CONNECTION LIFECYCLE ==========
+
+  private handleConnect(): void {
+    const isReconnect = this.hasConnected;
+    this.hasConnected = true;
+    this.setState('connected');
+    generationTracker.setPushAvailable(true);
+
+    if (isReconnect) {
+      this.catchUp();
+    }
+  }
+
+  private handleDisconnect(reason: Socket.DisconnectReason): void {
+    // Hand tracking back to SSE/polling until the socket is back
+    generationTracker.setPushAvailable(false);
+
+    // The server closing the socket (e.g. expired auth) disables automatic reconnection
+    this.setState(this.socket?.active ? 'reconnecting' : 'disconnected');
+    if (reason === 'io server disconnect') {
+      console.warn('Realtime channel closed by server');
+    }
+  }
+
+  /**
+   * Recover events missed while offline: ask the server to replay after our cursor,
+   * and refresh tracked jobs directly in case the replay window has expired
+   */
+  private catchUp(): void {
+    this.socket?.emit(REALTIME_CONFIG.EVENTS.SYNC, { last_event_id: this.lastEventId });
+
+    generationTracker.getTrackedIds().forEach(generationId => {
+      generationTracker.refresh(generationId).catch(error => {
+        console.warn(`Failed to refresh ${generationId} after reconnect:`, error);
+      });
+    });
+  }
+
+  // ========== FAN-OUT ==========
+
+  private advanceCursor(event: RealtimeEnvelope): void {
+    if (event.event_id) {
+      this.lastEventId = event.event_id;
+    }
+  }
+
+  private dispatch<K extends keyof RealtimeEventMap>(event: K, payload: RealtimeEventMap[K]): void {
+    this.listeners[event].forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in realtime ${event} listener:`, error);
+      }
+    });
+  }
+
+  private setState(state: RealtimeConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
+
+// ========== SINGLETON EXPORT ==========
+
+export const realtimeChannel = new RealtimeChannel();
+export default realtimeChannel;
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  buildRetryChains,
+  classifyFailure,
+  DEFAULT_RETRY_POLICY,
+  readRetryPolicy,
+  retryScheduler
+} from './retries';
+import { generationQueue } from './queue';
+import { generationTracker } from './tracker';
+import { apiClient } from './client';
+import { VideoStatus, VideoStatusResponse } from './types';
+
+vi.mock('./client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./client')>()),
+  apiClient: {
+    get: vi.fn(),
+    post: vi.fn(),
+    createEventSource: vi.fn(() => null as EventSource | null),
+  },
+}));
+
+const mockApiClient = vi.mocked(apiClient);
+
+const createMockApiResponse = <T>(data: T): any => ({
+  data,
+  status: 200,
+  headers: {},
+});
+
+const video = (generationId: string, metadata?: Record<string, unknown>): VideoStatusResponse => ({
+  generation_id: generationId,
+  status: VideoStatus.FAILED,
+  message: '',
+  created_at: '2025-08-18T12:00:00Z',
+  updated_at: '2025-08-18T12:00:00Z',
+  metadata
+});
+
+// In-memory localStorage so the queue persists between calls
+const storage: Record<string, string> = {};
+
+describe('Generation retries', () => {
+  it('should classify failure details', () => {
+    expect(classifyFailure('503 Service temporarily unavailable')).toBe('transient');
+    expect(classifyFailure('Deadline exceeded while rendering')).toBe('transient');
+    expect(classifyFailure('Quota exceeded for project')).toBe('quota');
+    expect(classifyFailure('Prompt blocked by safety filter')).toBe('safety_filter');
+    expect(classifyFailure('Prompt must not be empty')).toBe('permanent');
+    expect(classifyFailure(null)).toBe('permanent');
+  });
+
+  it('should read retry policies from request metadata', () => {
+    expect(readRetryPolicy({ retry_policy: { max_attempts: 9, retry_on: ['quota', 'bogus'] } })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      max_attempts: 5,
+      retry_on: ['quota']
+    });
+    expect(readRetryPolicy({ retry_policy: { max_attempts: 1 } })).toBeNull();
+    expect(readRetryPolicy({ style: 'cinematic' })).toBeNull();
+  });
+
+  it('should chain attempts of one logical request', () => {
+    const chains = buildRetryChains([
+      video('gen-3', { retry_lineage: { root_id: 'gen-1', attempt: 3, retry_of: 'gen-2' } }),
+      video('other'),
+      video('gen-1'),
+      video('gen-2'),
+    ], id => (id === 'gen-2' ? { root_id: 'gen-1', attempt: 2, retry_of: 'gen-1' } : null));
+
+    expect(chains.map(chain => chain.root_id)).toEqual(['gen-1', 'other']);
+    expect(chains[0].attempts.map(attempt => attempt.generation_id)).toEqual(['gen-1', 'gen-2', 'gen-3']);
+    expect(chains[0].latest.generation_id).toBe('gen-3');
+  });
+
+  describe('GenerationRetryScheduler', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.useFakeTimers();
+      Object.keys(storage).forEach(key => delete storage[key]);
+      vi.mocked(localStorage.getItem).mockImplementation((key: string) => storage[key] ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => {
+        storage[key] = value;
+      });
+      retryScheduler.start();
+    });
+
+    afterEach(() => {
+      retryScheduler.stop();
+      generationQueue.suspend();
+      generationQueue.clearFinished();
+      generationTracker.dispose();
+      vi.useRealTimers();
+    });
+
+    it('should re-submit transient failures with retry lineage', async () => {
+      mockApiClient.get.mockResolvedValue(createMockApiResponse({
+        generation_id: 'gen-1', status: 'failed', message: '', error_details: 'Backend temporarily unavailable'
+      }));
+      mockApiClient.post.mockResolvedValue(createMockApiResponse({ generation_id: 'gen-2', status: 'pending' }));
+
+      generationQueue.record('gen-1', {
+        prompt: 'A lighthouse at dusk',
+        metadata: { retry_policy: { ...DEFAULT_RETRY_POLICY, delay_ms: 1000 } }
+      });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(retryScheduler.isScheduled('gen-1')).toBe(true);
+      expect(generationQueue.getJobs().find(job => job.generation_id === 'gen-1')?.failure_class).toBe('transient');
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockApiClient.post).toHaveBeenCalledWith('/videos/generate', expect.objectContaining({
+        prompt: 'A lighthouse at dusk',
+        metadata: expect.objectContaining({
+          retry_lineage: { root_id: 'gen-1', attempt: 2, retry_of: 'gen-1' }
+        })
+      }), { headers: { 'Idempotency-Key': expect.any(String) } });
+      expect(generationQueue.getJobs().find(job => job.generation_id === 'gen-1')?.retried_by).toBe('gen-2');
+    });
+
+    it('should not retry failures outside the policy', async () => {
+      mockApiClient.get.mockResolvedValue(createMockApiResponse({
+        generation_id: 'gen-1', status: 'failed', message: '', error_details: 'Prompt blocked by safety filter'
+      }));
+
+      generationQueue.record('gen-1', {
+        prompt: 'test',
+        metadata: { retry_policy: DEFAULT_RETRY_POLICY }
+      });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(retryScheduler.isScheduled('gen-1')).toBe(false);
+      expect(generationQueue.getJobs()[0].failure_class).toBe('safety_filter');
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Automatic retries for failed generations
+ * Features: per-generation retry policy carried in request metadata, failure
+ * classification via ErrorClassifier, retry lineage so History can chain attempts
+ */
+
+import { videoApi } from './endpoints';
+import { generationQueue, QueuedGeneration } from './queue';
+import {
+  AspectRatio,
+  VideoGenerationRequest,
+  VideoGenerationResponse,
+  VideoStatus,
+  VideoStatusResponse
+} from './types';
+import { ErrorClassifier, ErrorType } from '../utils/errors';
+
+// ========== TYPES ==========
+
+export type FailureClass = 'transient' | 'quota' | 'safety_filter' | 'permanent';
+
+// Stored as metadata.retry_policy on the generation request
+export interface RetryPolicy {
+  max_attempts: number;          // total attempts including the first
+  delay_ms: number;              // wait before the first retry
+  backoff_multiplier: number;    // delay growth per further attempt
+  retry_on: FailureClass[];      // failure classes worth retrying
+}
+
+// Stored as metadata.retry_lineage on every retry attempt
+export interface RetryLineage {
+  root_id: string;               // generation_id of the first attempt
+  attempt: number;               // 1 for the original request
+  retry_of: string | null;       // generation_id this attempt replaced
+}
+
+// One logical request and every attempt made for it, oldest first
+export interface RetryChain {
+  root_id: string;
+  attempts: VideoStatusResponse[];
+  latest: VideoStatusResponse;
+}
+
+// ========== CONFIGURATION ==========
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  max_attempts: 3,
+  delay_ms: 30000,               // give transient backend issues time to clear
+  backoff_multiplier: 2,
+  retry_on: ['transient']
+};
+
+export const FAILURE_CLASS_LABELS: Record<FailureClass, string> = {
+  transient: 'Transient backend error',
+  quota: 'Quota exhausted',
+  safety_filter: 'Safety filter',
+  permanent: 'Permanent failure'
+};
+
+const MAX_POLICY_ATTEMPTS = 5;
+
+// ========== CLASSIFICATION ==========
+
+/**
+ * Map a generation's error_details onto a retry failure class
+ */
+export const classifyFailure = (errorDetails: string | null | undefined): FailureClass => {
+  if (!errorDetails?.trim()) return 'permanent';
+
+  switch (ErrorClassifier.classifyError(errorDetails).type) {
+    case ErrorType.QUOTA_EXCEEDED:
+    case ErrorType.RATE_LIMIT:
+      return 'quota';
+    case ErrorType.SAFETY_FILTER:
+      return 'safety_filter';
+    case ErrorType.SERVER:
+    case ErrorType.TIMEOUT:
+    case ErrorType.NETWORK:
+      return 'transient';
+    default:
+      return 'permanent';
+  }
+};
+
+// ========== METADATA ==========
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+/**
+ * Read a retry policy from request metadata; null when auto-retry is off
+ */
+export const readRetryPolicy = (metadata: unknown): RetryPolicy | null => {
+  const policy = asRecord(asRecord(metadata)?.retry_policy);
+  if (!policy) return null;
+
+  const maxAttempts = Number(policy.max_attempts);
+  if (!Number.isFinite(maxAttempts) || maxAttempts < 2) return null;
+
+  const retryOn = Array.isArray(policy.retry_on)
+    ? policy.retry_on.filter((value): value is FailureClass => value in FAILURE_CLASS_LABELS)
+    : DEFAULT_RETRY_POLICY.retry_on;
+
+  return {
+    max_attempts: Math.min(Math.round(maxAttempts), MAX_POLICY_ATTEMPTS),
+    delay_ms: Number(policy.delay_ms) >= 0 ? Number(policy.delay_ms) : DEFAULT_RETRY_POLICY.delay_ms,
+    backoff_multiplier: Number(policy.backoff_multiplier) >= 1
+      ? Number(policy.backoff_multiplier)
+      : DEFAULT_RETRY_POLICY.backoff_multiplier,
+    retry_on: retryOn
+  };
+};
+
+/**
+ * Read retry lineage from request metadata; null for first attempts
+ */
+export const readRetryLineage = (metadata: unknown): RetryLineage | null => {
+  const lineage = asRecord(asRecord(metadata)?.retry_lineage);
+  if (!lineage || typeof lineage.root_id !== 'string' || typeof lineage.attempt !== 'number') return null;
+
+  return {
+    root_id: lineage.root_id,
+    attempt: lineage.attempt,
+    retry_of: typeof lineage.retry_of === 'string' ? lineage.retry_of : null
+  };
+};
+
+/**
+ * Delay before retrying the given (1-based) failed attempt
+ */
+export const getRetryDelay = (policy: RetryPolicy, failedAttempt: number): number =>
+  policy.delay_ms * Math.pow(policy.backoff_multiplier, Math.max(0, failedAttempt - 1));
+
+/**
+ * Request for the next attempt, carrying the policy forward and extending the lineage
+ */
+export const buildRetryRequest = (
+  request: VideoGenerationRequest,
+  failedGenerationId: string
+): VideoGenerationRequest => {
+  const metadata = asRecord(request.metadata) || {};
+  const lineage = readRetryLineage(metadata);
+
+  return {
+    ...request,
+    metadata: {
+      ...metadata,
+      retry_lineage: {
+        root_id: lineage?.root_id || failedGenerationId,
+        attempt: (lineage?.attempt || 1) + 1,
+        retry_of: failedGenerationId
+      } satisfies RetryLineage
+    }
+  };
+};
+
+/**
+ * Best-effort request rebuilt from a History item when the original is no longer queued
+ */
+const requestFromHistory = (video: VideoStatusResponse): VideoGenerationRequest | null => {
+  if (!video.prompt) return null;
+  const metadata = asRecord(video.metadata);
+
+  return {
+    prompt: video.prompt,
+    duration: video.duration_seconds || undefined,
+    aspect_ratio: (video.aspect_ratio as AspectRatio | null) || undefined,
+    metadata: metadata || undefined
+  };
+};
+
+// ========== HISTORY CHAINS ==========
+
+/**
+ * Group History rows into one chain per logical request.
+ * Lineage comes from echoed request metadata, falling back to the local queue.
+ */
+export const buildRetryChains = (
+  videos: VideoStatusResponse[],
+  lookupLineage: (generationId: string) => RetryLineage | null = () => null
+): RetryChain[] => {
+  const chains = new Map<string, Array<{ video: VideoStatusResponse; attempt: number }>>();
+
+  videos.forEach(video => {
+    const id = video.generation_id;
+    const lineage = readRetryLineage(video.metadata) || lookupLineage(id);
+    const rootId = lineage?.root_id || id;
+
+    const attempts = chains.get(rootId) || [];
+    attempts.push({ video, attempt: lineage?.attempt || 1 });
+    chains.set(rootId, attempts);
+  });
+
+  // Map iteration keeps the order in which each chain was first seen
+  return Array.from(chains, ([rootId, entries]) => {
+    const attempts = entries.sort((a, b) => a.attempt - b.attempt).map(entry => entry.video);
+    return { root_id: rootId, attempts, latest: attempts[attempts.length - 1] };
+  });
+};
+
+// ========== SCHEDULER CLASS ==========
+
+export class GenerationRetryScheduler {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Watch the queue for failed jobs and re-arm retries persisted before a reload
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = generationQueue.onSettled(job => this.handleSettled(job));
+
+    generationQueue.getJobs()
+      .filter(job => job.next_retry_at && !job.retried_by)
+      .forEach(job => this.arm(job.generation_id, new Date(job.next_retry_at!).getTime() - Date.now()));
+  }
+
+  /**
+   * Stop watching and clear pending timers; persisted retries re-arm on the next start()
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Whether an automatic retry is waiting for this generation
+   */
+  isScheduled(generationId: string): boolean {
+    return this.timers.has(generationId);
+  }
+
+  /**
+   * Drop a scheduled automatic retry
+   */
+  cancelRetry(generationId: string): void {
+    this.clearTimer(generationId);
+    generationQueue.update(generationId, { next_retry_at: null });
+  }
+
+  /**
+   * Re-submit a failed generation now, ignoring the policy's attempt limit
+   */
+  async retryNow(generationId: string, fallback?: VideoStatusResponse): Promise<VideoGenerationResponse> {
+    this.clearTimer(generationId);
+
+    const request = generationQueue.getRequest(generationId) || (fallback ? requestFromHistory(fallback) : null);
+    if (!request) {
+      throw new Error('The original request for this generation is no longer available');
+    }
+
+    const response = await videoApi.generateVideo(buildRetryRequest(request, generationId));
+    generationQueue.update(generationId, { next_retry_at: null, retried_by: response.generation_id });
+    return response;
+  }
+
+  // ========== SCHEDULING ==========
+
+  private handleSettled(job: QueuedGeneration): void {
+    if (job.status !== VideoStatus.FAILED || job.retried_by) return;
+
+    const failureClass = classifyFailure(job.error_details);
+    const policy = readRetryPolicy(job.request?.metadata);
+    const attempt = readRetryLineage(job.request?.metadata)?.attempt || 1;
+    const retryable = !!policy &&
+      attempt < policy.max_attempts &&
+      policy.retry_on.includes(failureClass) &&
+      !!generationQueue.getRequest(job.generation_id);
+
+    const delay = retryable ? getRetryDelay(policy!, attempt) : 0;
+    generationQueue.update(job.generation_id, {
+      failure_class: failureClass,
+      next_retry_at: retryable ? new Date(Date.now() + delay).toISOString() : null
+    });
+
+    if (retryable) {
+      this.arm(job.generation_id, delay);
+    }
+  }
+
+  private arm(generationId: string, delay: number): void {
+    this.clearTimer(generationId);
+    this.timers.set(generationId, setTimeout(() => {
+      this.timers.delete(generationId);
+      this.retryNow(generationId).catch(error => {
+        console.warn(`Automatic retry of ${generationId} failed:`, error);
+        generationQueue.update(generationId, { next_retry_at: null });
+      });
+    }, Math.max(0, delay)));
+  }
+
+  private clearTimer(generationId: string): void {
+    const timer = this.timers.get(generationId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(generationId);
+    }
+  }
+}
+
+// ========== SINGLETON EXPORT ==========
+
+export const retryScheduler = new GenerationRetryScheduler();
+export default retryScheduler;
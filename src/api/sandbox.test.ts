@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { api, videoApi } from './endpoints';
+import { apiClient } from './client';
+import { generationTracker } from './tracker';
+import { generationQueue } from './queue';
+import { rateLimiter } from './rateLimits';
+import { sandboxBackend, setSandboxEnabled, SANDBOX_DEMO_ACCOUNT } from './sandbox';
+import { AspectRatio, VideoModel, VideoStatus } from './types';
+
+// In-memory localStorage so tokens and sandbox state behave as in the browser
+const storage: Record<string, string> = {};
+
+const signIn = async () => {
+  const session = await settle(api.login(SANDBOX_DEMO_ACCOUNT));
+  return session.access_token;
+};
+
+// Sandbox responses arrive after a simulated latency
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  const result = promise.then(value => ({ value }), error => ({ error }));
+  await vi.advanceTimersByTimeAsync(500);
+  const outcome = await result;
+  if ('error' in outcome) throw outcome.error;
+  return outcome.value;
+};
+
+describe('Sandbox backend', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    Object.keys(storage).forEach(key => delete storage[key]);
+    vi.mocked(localStorage.getItem).mockImplementation((key: string) => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+    vi.mocked(localStorage.removeItem).mockImplementation((key: string) => {
+      delete storage[key];
+    });
+    setSandboxEnabled(true);
+    sandboxBackend.reset();
+    sandboxBackend.failureRate = 0;
+    rateLimiter.reset();
+  });
+
+  afterEach(() => {
+    apiClient.clearAuthToken();
+    generationQueue.suspend();
+    generationTracker.dispose();
+    setSandboxEnabled(false);
+    vi.useRealTimers();
+  });
+
+  it('should sign in the demo account and serve authenticated routes', async () => {
+    await signIn();
+
+    const profile = await settle(api.getProfile());
+    expect(profile).toEqual(expect.objectContaining({ email: SANDBOX_DEMO_ACCOUNT.email, quota_remaining: 25 }));
+    expect(profile).not.toHaveProperty('password');
+  });
+
+  it('should reject unauthenticated and wrong-password requests', async () => {
+    const onExpired = vi.fn();
+    const unsubscribe = apiClient.onSessionExpired(onExpired);
+
+    await expect(settle(api.getProfile())).rejects.toMatchObject({ status: 401 });
+    await expect(settle(api.login({ email: SANDBOX_DEMO_ACCOUNT.email, password: 'nope' })))
+      .rejects.toMatchObject({ status: 401, code: 'invalid_credentials' });
+
+    expect(onExpired).toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('should walk a generation through a realistic timeline', async () => {
+    await signIn();
+
+    const { generation_id } = await settle(api.generateVideo({ prompt: 'A lighthouse at dusk', duration: 5 }));
+    expect((await settle(api.getVideoStatus(generation_id))).status).toBe(VideoStatus.PENDING);
+
+    vi.setSystemTime(Date.now() + 8000);
+    const processing = await settle(api.getVideoStatus(generation_id));
+    expect(processing.status).toBe(VideoStatus.PROCESSING);
+    expect(processing.progress).toBeGreaterThan(0);
+
+    vi.setSystemTime(Date.now() + 20000);
+    const completed = await settle(api.getVideoStatus(generation_id));
+    expect(completed).toEqual(expect.objectContaining({
+      status: VideoStatus.COMPLETED,
+      progress: 100,
+      duration_seconds: 5,
+      resolution: '1920x1080'
+    }));
+    expect(completed.video_url).toMatch(/\.mp4$/);
+    expect(completed.thumbnail_url).toMatch(/^data:image\/svg\+xml/);
+  });
+
+  it('should fail prompts caught by the safety filter', async () => {
+    await signIn();
+
+    const { generation_id } = await settle(api.generateVideo({ prompt: 'Something blocked by policy', duration: 5 }));
+    vi.setSystemTime(Date.now() + 30000);
+
+    expect(await settle(api.getVideoStatus(generation_id))).toEqual(expect.objectContaining({
+      status: VideoStatus.FAILED,
+      error_details: 'Prompt blocked by safety filter'
+    }));
+  });
+
+  it('should cancel active generations and refund quota', async () => {
+    await signIn();
+
+    const { generation_id } = await settle(api.generateVideo({ prompt: 'A slow ocean swell', duration: 8 }));
+    const cancelled = await settle(api.cancelGeneration(generation_id));
+
+    expect(cancelled.status).toBe(VideoStatus.CANCELLED);
+    expect((await settle(api.getProfile())).quota_remaining).toBe(25);
+  });
+
+  it('should enforce rate limits and honour idempotency keys', async () => {
+    const token = await signIn();
+    const headers = (key: string) => ({ Authorization: `Bearer ${token}`, 'Idempotency-Key': key });
+    const request = { prompt: 'A fox in the snow', duration: 5 };
+
+    const first = await sandboxBackend.handle('POST', '/videos/generate', request, headers('key-0'));
+    const duplicate = await sandboxBackend.handle('POST', '/videos/generate', request, headers('key-0'));
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.data).toEqual(expect.objectContaining({
+      detail: expect.objectContaining({ generation_id: (first.data as { generation_id: string }).generation_id })
+    }));
+
+    for (let index = 1; index < 8; index++) {
+      await sandboxBackend.handle('POST', '/videos/generate', request, headers(`key-${index}`));
+    }
+    const limited = await sandboxBackend.handle('POST', '/videos/generate', request, headers('key-8'));
+    expect(limited.status).toBe(429);
+    expect(limited.headers).toEqual(expect.objectContaining({
+      'retry-after': expect.any(String),
+      'x-ratelimit-limit': '8',
+      'x-ratelimit-remaining': '0'
+    }));
+  });
+
+  it('should enforce the capability matrix it advertises', async () => {
+    const token = await signIn();
+    const headers = { Authorization: `Bearer ${token}` };
+
+    const ratios = await sandboxBackend.handle('GET', '/supported-aspect-ratios', undefined, headers);
+    expect((ratios.data as Record<string, string[]>)[VideoModel.VEO_3_PREVIEW]).not.toContain(AspectRatio.SQUARE);
+
+    const square = { prompt: 'A fox in the snow', aspect_ratio: AspectRatio.SQUARE };
+    const refused = await sandboxBackend.handle('POST', '/videos/generate', { ...square, model: VideoModel.VEO_3_PREVIEW }, headers);
+    expect(refused.status).toBe(422);
+
+    const accepted = await sandboxBackend.handle('POST', '/videos/generate', { ...square, model: VideoModel.VEO_2_GA }, headers);
+    expect(accepted.status).toBe(202);
+  });
+
+  it('should validate and echo seed, guidance scale and negative prompt', async () => {
+    const token = await signIn();
+    const headers = { Authorization: `Bearer ${token}` };
+    const request = { prompt: 'A fox in the snow', model: VideoModel.VEO_2_GA };
+
+    const outOfRange = await sandboxBackend.handle('POST', '/videos/generate', { ...request, guidance_scale: 15 }, headers);
+    expect(outOfRange.status).toBe(422);
+
+    const { generation_id } = await settle(api.generateVideo({ ...request, seed: 42, guidance_scale: 7.5, negative_prompt: 'blur' }));
+    expect(await settle(api.getVideoStatus(generation_id))).toEqual(expect.objectContaining({
+      model: VideoModel.VEO_2_GA,
+      seed: 42,
+      guidance_scale: 7.5,
+      negative_prompt: 'blur'
+    }));
+
+    const unseeded = await settle(api.generateVideo(request));
+    expect((await settle(api.getVideoStatus(unseeded.generation_id))).seed).toEqual(expect.any(Number));
+  });
+
+  it('should page, filter and sort history', async () => {
+    const token = await signIn();
+    const headers = { Authorization: `Bearer ${token}` };
+    for (const prompt of ['Bravo harbour', 'Alpha meadow', 'Charlie harbour']) {
+      await sandboxBackend.handle('POST', '/videos/generate', { prompt }, headers);
+    }
+
+    const page = await settle(videoApi.getUserVideosPage({
+      page: 1,
+      page_size: 1,
+      sort_by: 'prompt',
+      sort_order: 'asc',
+      filters: { search: 'harbour' }
+    }));
+
+    expect(page).toEqual(expect.objectContaining({ total: 2, pages: 2, page: 1, page_size: 1 }));
+    expect(page.videos[0].prompt).toBe('Bravo harbour');
+  });
+
+  it('should stream progress over the sandbox event source', async () => {
+    await signIn();
+    const { generation_id } = await settle(api.generateVideo({ prompt: 'A paper boat on a stream', duration: 5 }));
+
+    const events: string[] = [];
+    const source = apiClient.createEventSource(`/events/${generation_id}`)!;
+    source.addEventListener('progress', event => events.push(JSON.parse((event as MessageEvent).data).status));
+
+    await vi.advanceTimersByTimeAsync(20000);
+
+    expect(events[0]).toBe(VideoStatus.PENDING);
+    expect(events).toContain(VideoStatus.PROCESSING);
+    expect(events[events.length - 1]).toBe(VideoStatus.COMPLETED);
+  });
+});
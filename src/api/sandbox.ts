@@ -0,0 +1,1061 @@
+/**
+ * Sandbox backend - an in-browser fake of the Veo API
+ * Features: serves every route in endpoints.ts from memory behind an axios adapter,
+ * simulated progress timelines and failures, quota and rate limits, idempotency keys,
+ * SSE progress streams and sample videos, so demos and tests run with no services
+ */
+
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  AspectRatio,
+  ModelInfo,
+  TemplateResponse,
+  VideoGenerationRequest,
+  VideoModel,
+  VideoStatus,
+  VideoStatusResponse
+} from './types';
+import { getActiveEnvironment, selectEnvironment } from './environments';
+
+// ========== CONFIGURATION ==========
+
+const SANDBOX_CONFIG = {
+  STATE_KEY: 'veo_sandbox_state',         // users and generations, so a reload keeps the demo going
+  LATENCY: 150,                           // added to every response
+  TOKEN_TTL: 60 * 60,                     // access token lifetime in seconds
+  REFRESH_TTL: 7 * 24 * 60 * 60,          // refresh token lifetime in seconds
+  QUOTA: 25,                              // generations per account
+  RATE_LIMIT_WINDOW: 60000,
+  RATE_LIMIT_MAX: 8,                      // submissions per account per window
+  QUEUE_TIME: 2000,                       // time spent pending before rendering starts
+  RENDER_TIME_PER_SECOND: 2500,           // render time per second of requested video
+  FAILURE_RATE: 0.1,                      // share of generations that fail transiently
+  EVENT_INTERVAL: 1000,                   // SSE progress event cadence
+  MAX_GENERATIONS: 200
+} as const;
+
+export const SANDBOX_DEMO_ACCOUNT = {
+  email: 'demo@lostmindai.com',
+  password: 'sandbox-demo'
+} as const;
+
+// Placeholder clip shipped in public/sandbox and precached by the service worker, so
+// sandbox playback works offline; thumbnails are generated inline for the same reason
+const SAMPLE_VIDEO = `${import.meta.env.BASE_URL}sandbox/sample.mp4`;
+
+const RESOLUTIONS: Record<string, string> = {
+  [AspectRatio.LANDSCAPE]: '1920x1080',
+  [AspectRatio.PORTRAIT]: '1080x1920',
+  [AspectRatio.SQUARE]: '1080x1080',
+  [AspectRatio.TRADITIONAL]: '1440x1080',
+  [AspectRatio.CINEMA]: '2560x1080'
+};
+
+// Capability matrix served by GET /models and GET /supported-aspect-ratios and enforced on submit
+const MODELS: (ModelInfo & { aspect_ratios: AspectRatio[] })[] = [
+  {
+    name: VideoModel.VEO_3_PREVIEW,
+    status: 'available',
+    display_name: 'Veo 3 (Preview)',
+    min_duration: 5,
+    max_duration: 8,
+    supports_image: true,
+    supports_seed: true,
+    supports_negative_prompt: true,
+    guidance_scale_range: [1, 20],
+    aspect_ratios: [AspectRatio.LANDSCAPE, AspectRatio.PORTRAIT]
+  },
+  {
+    name: VideoModel.VEO_2_GA,
+    status: 'available',
+    display_name: 'Veo 2',
+    durations: [5, 6, 7, 8],
+    supports_image: true,
+    supports_seed: true,
+    supports_negative_prompt: true,
+    guidance_scale_range: [1, 10],
+    aspect_ratios: [AspectRatio.LANDSCAPE, AspectRatio.PORTRAIT, AspectRatio.SQUARE]
+  }
+];
+
+// Failure reasons worded like the real backend so ErrorClassifier and auto-retry treat them the same
+const FAILURES = {
+  TRANSIENT: 'Backend temporarily unavailable - the render worker restarted',
+  SAFETY: 'Prompt blocked by safety filter'
+} as const;
+
+// ========== TYPES ==========
+
+interface SandboxUser {
+  id: string;
+  email: string;
+  password: string;
+  name: string | null;
+  organisation: string | null;
+  is_admin: boolean;
+  quota_remaining: number;
+  total_generated: number;
+  created_at: string;
+  favorite_templates?: string[];          // absent in sandboxes saved before favorites existed
+}
+
+interface SandboxGeneration {
+  generation_id: string;
+  user_id: string;
+  request: Omit<VideoGenerationRequest, 'image_base64'>;
+  created_at: number;
+  failure: string | null;                 // decided up front so the timeline is reproducible
+  cancelled_at: number | null;
+  cancelled_progress: number | null;
+}
+
+interface SandboxState {
+  users: SandboxUser[];
+  generations: SandboxGeneration[];
+  idempotency: Record<string, Record<string, unknown>>;   // "userId:key" -> original response
+}
+
+interface SandboxRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+  headers: Record<string, string>;
+  user: SandboxUser | null;
+}
+
+interface SandboxReply {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+}
+
+type RouteHandler = (request: SandboxRequest, params: string[]) => SandboxReply | Promise<SandboxReply>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  auth: boolean;
+  handler: RouteHandler;
+}
+
+// ========== SWITCH ==========
+
+/**
+ * Whether requests are served by the sandbox - true when the sandbox environment is selected
+ */
+export const isSandboxEnabled = (): boolean => getActiveEnvironment().sandbox;
+
+/**
+ * Switch between the sandbox and production; sign in again afterwards, tokens are stored per environment
+ */
+export const setSandboxEnabled = (enabled: boolean): void => {
+  selectEnvironment(enabled ? 'sandbox' : 'production');
+};
+
+// ========== HELPERS ==========
+
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    value = Math.imul(value ^ text.charCodeAt(index), 0x01000193);
+  }
+  return value >>> 0;
+};
+
+const createId = (prefix: string): string =>
+  `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const encodeSegment = (value: object): string => btoa(JSON.stringify(value)).replace(/=+$/, '');
+
+// JWT-shaped so TokenManager can read the expiry; the signature is not checked
+const issueToken = (userId: string, kind: 'access' | 'refresh', ttl: number): string =>
+  [
+    encodeSegment({ alg: 'none', typ: 'JWT' }),
+    encodeSegment({ sub: userId, kind, exp: Math.floor(Date.now() / 1000) + ttl, jti: createId('t') }),
+    'sandbox'
+  ].join('.');
+
+const readToken = (token: string | undefined, kind: 'access' | 'refresh'): string | null => {
+  try {
+    const payload = JSON.parse(atob(token!.split('.')[1]));
+    return payload.kind === kind && payload.exp * 1000 > Date.now() ? payload.sub : null;
+  } catch {
+    return null;
+  }
+};
+
+const thumbnailFor = (generation: SandboxGeneration): string => {
+  const hue = hash(generation.generation_id) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="320" height="180" viewBox="0 0 320 180">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${hue},70%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,15%)"/>` +
+    `</linearGradient></defs><rect width="320" height="180" fill="url(#g)"/>` +
+    `<polygon points="145,70 145,110 180,90" fill="rgba(255,255,255,0.8)"/></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// Request bodies are whatever the client sent; routes read fields through these
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const field = (body: unknown, key: string): unknown => (isRecord(body) ? body[key] : undefined);
+
+const text = (body: unknown, key: string): string => {
+  const value = field(body, key);
+  return typeof value === 'string' ? value : '';
+};
+
+// Just enough shape to hand over to createGeneration, which validates the rest
+const isGenerationRequest = (value: unknown): value is VideoGenerationRequest =>
+  isRecord(value) && typeof value.prompt === 'string';
+
+const reply = (status: number, data: unknown, headers?: Record<string, string>): SandboxReply => ({ status, data, headers });
+
+const fail = (status: number, error: string, message: string, detail?: object, headers?: Record<string, string>): SandboxReply =>
+  reply(status, { error, message, detail: detail ?? null, request_id: createId('sbx'), timestamp: new Date().toISOString() }, headers);
+
+const toProfile = (user: SandboxUser) => {
+  const { password: _password, ...profile } = user;
+  return profile;
+};
+
+// ========== TEMPLATES ==========
+
+const TEMPLATE_SEEDS: Array<Pick<TemplateResponse, 'id' | 'name' | 'description' | 'prompt_template' | 'category' | 'tags'> & { featured?: boolean }> = [
+  {
+    id: 'sbx-product-hero',
+    name: 'Product Hero Shot',
+    description: 'Slow orbit around a product on a seamless backdrop',
+    prompt_template: 'A slow 360-degree orbit around {product} on a glossy black surface, soft studio rim lighting, shallow depth of field',
+    category: 'marketing',
+    tags: ['product', 'studio', 'orbit'],
+    featured: true
+  },
+  {
+    id: 'sbx-city-timelapse',
+    name: 'City Timelapse',
+    description: 'Day-to-night timelapse over a skyline',
+    prompt_template: 'Timelapse of {city} skyline from golden hour to night, lights flickering on, clouds streaking overhead',
+    category: 'travel',
+    tags: ['timelapse', 'city'],
+    featured: true
+  },
+  {
+    id: 'sbx-nature-drone',
+    name: 'Nature Drone Flyover',
+    description: 'Low drone pass over a natural landscape',
+    prompt_template: 'Cinematic drone flyover of {landscape} at sunrise, mist rolling through valleys, 4k aerial footage',
+    category: 'nature',
+    tags: ['drone', 'landscape', 'cinematic']
+  },
+  {
+    id: 'sbx-explainer',
+    name: 'Explainer Opener',
+    description: 'Clean motion-graphics style opener',
+    prompt_template: 'Minimal motion graphics opener: {topic} icons assembling on a soft gradient background, smooth easing',
+    category: 'education',
+    tags: ['motion graphics', 'explainer']
+  },
+  {
+    id: 'sbx-food-closeup',
+    name: 'Food Close-up',
+    description: 'Macro shot of a dish being plated',
+    prompt_template: 'Macro close-up of {dish} being plated, steam rising, warm restaurant lighting, slow motion',
+    category: 'food',
+    tags: ['macro', 'slow motion', 'food'],
+    featured: true
+  },
+  {
+    id: 'sbx-portrait-social',
+    name: 'Vertical Social Clip',
+    description: 'Vertical clip framed for stories and reels',
+    prompt_template: 'Vertical handheld shot of {subject} walking through a neon-lit street at night, rain reflections',
+    category: 'social',
+    tags: ['vertical', 'social', 'neon']
+  }
+];
+
+const SANDBOX_TEMPLATES: Array<TemplateResponse & { featured: boolean }> = TEMPLATE_SEEDS.map((seed, index) => ({
+  ...seed,
+  featured: !!seed.featured,
+  aspect_ratio: seed.id === 'sbx-portrait-social' ? AspectRatio.PORTRAIT : AspectRatio.LANDSCAPE,
+  duration: index % 2 === 0 ? 8 : 5,
+  model: VideoModel.VEO_3_PREVIEW,
+  preview_url: null,
+  usage_count: 40 + hash(seed.id) % 500,
+  created_at: '2025-06-01T09:00:00Z',
+  updated_at: '2025-08-01T09:00:00Z'
+}));
+
+const PROMPT_STYLES = ['cinematic', 'documentary', 'commercial', 'animated', 'vintage', 'minimal'];
+
+// How the sandbox rewrites a prompt in each enhancement style
+const PROMPT_STYLE_OPENERS: Record<string, string> = {
+  cinematic: 'A sweeping cinematic shot of',
+  documentary: 'Handheld documentary footage of',
+  commercial: 'A polished commercial spot featuring',
+  animated: 'A vibrant animated scene of',
+  vintage: 'Grainy vintage film footage of',
+  minimal: 'A minimal, clean composition of'
+};
+
+const PROMPT_STYLE_DETAILS: Record<string, string> = {
+  cinematic: 'anamorphic lens, dramatic lighting, smooth dolly movement',
+  documentary: 'natural light, observational framing, ambient sound',
+  commercial: 'bright studio lighting, crisp product detail, slow orbit',
+  animated: 'bold colours, expressive motion, stylised shading',
+  vintage: '16mm film grain, warm faded tones, gentle gate weave',
+  minimal: 'soft neutral palette, negative space, locked-off camera'
+};
+
+// ========== SANDBOX BACKEND CLASS ==========
+
+export class SandboxBackend {
+  private state: SandboxState = { users: [], generations: [], idempotency: {} };
+  private submissions = new Map<string, number[]>();
+  private loaded = false;
+  private routes: Route[] = [];
+
+  // Share of generations that fail transiently; tests set 0 for predictable timelines
+  failureRate: number = SANDBOX_CONFIG.FAILURE_RATE;
+
+  constructor() {
+    this.registerRoutes();
+  }
+
+  /**
+   * Serve one request; never throws - errors come back as ErrorResponse bodies
+   */
+  async handle(
+    method: string,
+    url: string,
+    body: unknown,
+    headers: Record<string, string>,
+    params?: Record<string, unknown>
+  ): Promise<SandboxReply> {
+    this.load();
+
+    const [rawPath, search = ''] = url.split('?');
+    const path = rawPath.replace(/^.*\/api\/v1/, '').replace(/\/+$/, '') || '/';
+    const query = new URLSearchParams(search);
+    Object.entries(params || {}).forEach(([key, value]) => {
+      // Nested filter objects (e.g. services' { filters: {...} }) are flattened one level
+      const entries = value && typeof value === 'object' && !Array.isArray(value) ? Object.entries(value) : [[key, value]];
+      entries.forEach(([name, item]) => {
+        if (item !== undefined && item !== null && item !== '') {
+          query.set(name as string, Array.isArray(item) ? item.join(',') : String(item));
+        }
+      });
+    });
+
+    const authorization = Object.entries(headers).find(([name]) => name.toLowerCase() === 'authorization')?.[1];
+    const userId = readToken(authorization?.replace(/^Bearer\s+/i, ''), 'access');
+    const user = this.state.users.find(candidate => candidate.id === userId) || null;
+
+    for (const route of this.routes) {
+      const match = route.method === method.toUpperCase() ? route.pattern.exec(path) : null;
+      if (!match) continue;
+      if (route.auth && !user) {
+        return fail(401, 'unauthorized', 'Not authenticated');
+      }
+      return route.handler({ method, path, query, body, headers, user }, match.slice(1).map(decodeURIComponent));
+    }
+
+    return fail(404, 'not_found', `No sandbox route for ${method.toUpperCase()} ${path}`);
+  }
+
+  /**
+   * Status of a generation right now, derived from its timeline
+   */
+  snapshot(generationId: string, now = Date.now()): VideoStatusResponse | null {
+    this.load();
+    const generation = this.state.generations.find(candidate => candidate.generation_id === generationId);
+    return generation ? this.describe(generation, now) : null;
+  }
+
+  /**
+   * Forget all sandbox accounts and generations
+   */
+  reset(): void {
+    this.state = { users: [], generations: [], idempotency: {} };
+    this.submissions.clear();
+    this.loaded = true;
+    this.ensureDemoAccount();
+    this.persist();
+  }
+
+  // ========== TIMELINE ==========
+
+  private describe(generation: SandboxGeneration, now: number): VideoStatusResponse {
+    const duration = generation.request.duration || 5;
+    const renderTime = duration * SANDBOX_CONFIG.RENDER_TIME_PER_SECOND;
+    const failAt = SANDBOX_CONFIG.QUEUE_TIME + renderTime * (generation.failure === FAILURES.SAFETY ? 0.1 : 0.6);
+    const finishAt = SANDBOX_CONFIG.QUEUE_TIME + renderTime;
+    const elapsed = now - generation.created_at;
+
+    const base = {
+      generation_id: generation.generation_id,
+      prompt: generation.request.prompt,
+      aspect_ratio: generation.request.aspect_ratio || AspectRatio.LANDSCAPE,
+      style: typeof (generation.request.metadata as Record<string, unknown> | null)?.style === 'string'
+        ? (generation.request.metadata as Record<string, string>).style
+        : null,
+      metadata: (generation.request.metadata as Record<string, unknown> | null) || null,
+      model: generation.request.model || VideoModel.VEO_3_PREVIEW,
+      seed: generation.request.seed ?? null,
+      guidance_scale: generation.request.guidance_scale ?? null,
+      negative_prompt: generation.request.negative_prompt || null,
+      cost: duration * 0.75,
+      created_at: new Date(generation.created_at).toISOString()
+    };
+    const progressAt = (time: number) =>
+      Math.min(99, Math.max(0, Math.round(((time - SANDBOX_CONFIG.QUEUE_TIME) / renderTime) * 100)));
+
+    if (generation.cancelled_at !== null) {
+      return {
+        ...base,
+        status: VideoStatus.CANCELLED,
+        progress: generation.cancelled_progress ?? 0,
+        message: 'Generation cancelled',
+        updated_at: new Date(generation.cancelled_at).toISOString(),
+        completed_at: new Date(generation.cancelled_at).toISOString()
+      };
+    }
+
+    if (generation.failure && elapsed >= failAt) {
+      const failedAt = new Date(generation.created_at + failAt).toISOString();
+      return {
+        ...base,
+        status: VideoStatus.FAILED,
+        progress: progressAt(failAt),
+        message: 'Generation failed',
+        error_details: generation.failure,
+        updated_at: failedAt,
+        completed_at: failedAt
+      };
+    }
+
+    if (elapsed < SANDBOX_CONFIG.QUEUE_TIME) {
+      return { ...base, status: VideoStatus.PENDING, progress: 0, stage: 'queued', message: 'Waiting for a render slot', updated_at: new Date(now).toISOString() };
+    }
+
+    if (elapsed < finishAt) {
+      const progress = progressAt(elapsed);
+      const stage = progress < 30 ? 'generating frames' : progress < 75 ? 'rendering' : 'encoding';
+      return { ...base, status: VideoStatus.PROCESSING, progress, stage, message: `Sandbox render: ${stage}`, updated_at: new Date(now).toISOString() };
+    }
+
+    const completedAt = new Date(generation.created_at + finishAt).toISOString();
+    return {
+      ...base,
+      status: VideoStatus.COMPLETED,
+      progress: 100,
+      message: 'Video generation complete',
+      video_url: SAMPLE_VIDEO,
+      thumbnail_url: thumbnailFor(generation),
+      duration_seconds: duration,
+      resolution: RESOLUTIONS[base.aspect_ratio] || RESOLUTIONS[AspectRatio.LANDSCAPE],
+      file_size_bytes: duration * 1_250_000,
+      quality_score: 70 + hash(generation.generation_id) % 30,
+      updated_at: completedAt,
+      completed_at: completedAt
+    };
+  }
+
+  private isActive(generation: SandboxGeneration, now = Date.now()): boolean {
+    const status = this.describe(generation, now).status;
+    return status === VideoStatus.PENDING || status === VideoStatus.PROCESSING;
+  }
+
+  // ========== SUBMISSION ==========
+
+  /**
+   * Check rate limit, quota and idempotency before creating generations.
+   * Returns an error reply, or null when the submission may go ahead.
+   */
+  private admit(request: SandboxRequest, count: number): SandboxReply | null {
+    const user = request.user!;
+    const now = Date.now();
+
+    const key = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'idempotency-key')?.[1];
+    const original = key ? this.state.idempotency[`${user.id}:${key}`] : undefined;
+    if (original) {
+      return fail(409, 'duplicate_request', 'A request with this idempotency key was already accepted', original);
+    }
+
+    const recent = this.recentSubmissions(user.id, now);
+    if (recent.length >= SANDBOX_CONFIG.RATE_LIMIT_MAX) {
+      const retryAfter = Math.ceil((recent[0] + SANDBOX_CONFIG.RATE_LIMIT_WINDOW - now) / 1000);
+      return fail(429, 'rate_limited', 'Too many requests - slow down', { retry_after: retryAfter }, {
+        'retry-after': String(retryAfter),
+        ...this.rateLimitHeaders(user.id, now)
+      });
+    }
+
+    if (user.quota_remaining < count) {
+      return fail(403, 'QUOTA_EXCEEDED', 'Generation quota exceeded for this account', { quota_remaining: user.quota_remaining });
+    }
+
+    this.submissions.set(user.id, [...recent, now]);
+    return null;
+  }
+
+  private recentSubmissions(userId: string, now: number): number[] {
+    return (this.submissions.get(userId) || []).filter(time => now - time < SANDBOX_CONFIG.RATE_LIMIT_WINDOW);
+  }
+
+  // X-RateLimit-* headers as sent by the real API; the reset is in epoch seconds
+  private rateLimitHeaders(userId: string, now = Date.now()): Record<string, string> {
+    const recent = this.recentSubmissions(userId, now);
+    const resetAt = recent.length > 0 ? recent[0] + SANDBOX_CONFIG.RATE_LIMIT_WINDOW : now;
+    return {
+      'x-ratelimit-limit': String(SANDBOX_CONFIG.RATE_LIMIT_MAX),
+      'x-ratelimit-remaining': String(Math.max(0, SANDBOX_CONFIG.RATE_LIMIT_MAX - recent.length)),
+      'x-ratelimit-reset': String(Math.ceil(resetAt / 1000))
+    };
+  }
+
+  private remember(request: SandboxRequest, response: Record<string, unknown>): void {
+    const key = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'idempotency-key')?.[1];
+    if (key) {
+      this.state.idempotency[`${request.user!.id}:${key}`] = response;
+    }
+  }
+
+  private createGeneration(user: SandboxUser, request: VideoGenerationRequest): SandboxGeneration | SandboxReply {
+    if (!request?.prompt || request.prompt.trim().length < 3) {
+      return reply(422, { detail: [{ loc: ['body', 'prompt'], msg: 'Prompt must be at least 3 characters', type: 'value_error' }] });
+    }
+    const invalid = (field: string, msg: string) => reply(422, { detail: [{ loc: ['body', field], msg, type: 'value_error' }] });
+
+    const model = MODELS.find(entry => entry.name === (request.model || VideoModel.VEO_3_PREVIEW));
+    if (!model) {
+      return invalid('model', `Unknown model ${request.model}`);
+    }
+    if (request.duration !== undefined) {
+      const duration = Number(request.duration);
+      const allowed = model.durations
+        ? model.durations.includes(duration)
+        : duration >= model.min_duration! && duration <= model.max_duration!;
+      if (!allowed) {
+        return invalid('duration', `Duration ${request.duration}s is not supported by ${model.display_name}`);
+      }
+    }
+    if (request.aspect_ratio && !model.aspect_ratios.includes(request.aspect_ratio)) {
+      return invalid('aspect_ratio', `Aspect ratio ${request.aspect_ratio} is not supported by ${model.display_name}`);
+    }
+    if (request.image_base64 && !model.supports_image) {
+      return invalid('image_base64', `${model.display_name} does not accept a starting image`);
+    }
+    if (request.seed != null) {
+      if (!model.supports_seed) {
+        return invalid('seed', `${model.display_name} does not accept a seed`);
+      }
+      if (!Number.isInteger(request.seed) || request.seed < 0 || request.seed > 0xffffffff) {
+        return invalid('seed', 'Seed must be an integer between 0 and 4294967295');
+      }
+    }
+    if (request.guidance_scale != null) {
+      const [min, max] = model.guidance_scale_range || [];
+      if (min === undefined || max === undefined) {
+        return invalid('guidance_scale', `${model.display_name} does not accept a guidance scale`);
+      }
+      if (request.guidance_scale < min || request.guidance_scale > max) {
+        return invalid('guidance_scale', `Guidance scale must be between ${min} and ${max} for ${model.display_name}`);
+      }
+    }
+    if (request.negative_prompt && !model.supports_negative_prompt) {
+      return invalid('negative_prompt', `${model.display_name} does not accept a negative prompt`);
+    }
+
+    const generationId = createId('gen');
+    const { image_base64: _image, ...rest } = request;
+    // Like the real backend, pick a seed when none was given and report it, so any result can be reproduced
+    const stored = { ...rest, model: model.name as VideoModel, seed: request.seed ?? hash(generationId) };
+    const prompt = request.prompt.toLowerCase();
+    const failure = /\b(unsafe|blocked|violence)\b/.test(prompt)
+      ? FAILURES.SAFETY
+      : /\bfail\b/.test(prompt) || hash(generationId) % 100 < this.failureRate * 100
+        ? FAILURES.TRANSIENT
+        : null;
+
+    const generation: SandboxGeneration = {
+      generation_id: generationId,
+      user_id: user.id,
+      request: stored,
+      created_at: Date.now(),
+      failure,
+      cancelled_at: null,
+      cancelled_progress: null
+    };
+
+    this.state.generations = [generation, ...this.state.generations].slice(0, SANDBOX_CONFIG.MAX_GENERATIONS);
+    user.quota_remaining -= 1;
+    user.total_generated += 1;
+    return generation;
+  }
+
+  private owned(request: SandboxRequest, generationId: string): SandboxGeneration | null {
+    return this.state.generations.find(generation =>
+      generation.generation_id === generationId && generation.user_id === request.user!.id
+    ) || null;
+  }
+
+  // ========== ROUTES ==========
+
+  private route(method: string, path: string, handler: RouteHandler, auth = true): void {
+    const pattern = new RegExp(`^${path.replace(/\{[^}]+\}/g, '([^/]+)')}$`);
+    this.routes.push({ method, pattern, auth, handler });
+  }
+
+  private registerRoutes(): void {
+    this.route('GET', '/health', () => reply(200, { status: 'ok', sandbox: true }), false);
+
+    // === Auth ===
+    this.route('POST', '/auth/login', ({ body }) => {
+      const user = this.state.users.find(candidate => candidate.email === text(body, 'email').toLowerCase());
+      if (!user || user.password !== text(body, 'password')) {
+        return fail(401, 'invalid_credentials', 'Incorrect email or password');
+      }
+      return reply(200, this.issueSession(user));
+    }, false);
+
+    this.route('POST', '/auth/register', ({ body }) => {
+      const email = text(body, 'email').trim().toLowerCase();
+      const password = text(body, 'password');
+      if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email) || password.length < 8) {
+        return reply(422, { detail: [{ loc: ['body', 'password'], msg: 'A valid email and a password of at least 8 characters are required', type: 'value_error' }] });
+      }
+      if (this.state.users.some(user => user.email === email)) {
+        return fail(409, 'email_taken', 'An account with this email already exists');
+      }
+      const user = this.addUser(email, password, text(body, 'name') || null, text(body, 'organisation') || null, false);
+      return reply(201, this.issueSession(user));
+    }, false);
+
+    this.route('POST', '/auth/refresh', ({ body }) => {
+      const user = this.state.users.find(candidate => candidate.id === readToken(text(body, 'refresh_token'), 'refresh'));
+      return user ? reply(200, this.issueSession(user)) : fail(401, 'invalid_refresh_token', 'Refresh token expired or invalid');
+    }, false);
+
+    this.route('POST', '/auth/verify', () => reply(200, { valid: true }));
+    this.route('GET', '/auth/profile', ({ user }) => reply(200, toProfile(user!)));
+    this.route('GET', '/auth/me', ({ user }) => reply(200, toProfile(user!)));
+    this.route('GET', '/user/profile', ({ user }) => reply(200, toProfile(user!)));
+
+    // === Generation ===
+    this.route('POST', '/videos/generate', request => {
+      const rejection = this.admit(request, 1);
+      if (rejection) return rejection;
+
+      if (!isGenerationRequest(request.body)) {
+        return reply(422, { detail: [{ loc: ['body', 'prompt'], msg: 'Prompt must be at least 3 characters', type: 'value_error' }] });
+      }
+      const created = this.createGeneration(request.user!, request.body);
+      if ('status' in created) return created;
+
+      const response = {
+        generation_id: created.generation_id,
+        status: VideoStatus.PENDING,
+        message: 'Generation queued in the sandbox',
+        estimated_completion_seconds: Math.round((SANDBOX_CONFIG.QUEUE_TIME + (created.request.duration || 5) * SANDBOX_CONFIG.RENDER_TIME_PER_SECOND) / 1000)
+      };
+      this.remember(request, response);
+      return reply(202, response, this.rateLimitHeaders(request.user!.id));
+    });
+
+    this.route('POST', '/videos/batch', request => {
+      const requests = field(request.body, 'requests');
+      if (!Array.isArray(requests) || requests.length === 0 || !requests.every(isGenerationRequest)) {
+        return reply(422, { detail: [{ loc: ['body', 'requests'], msg: 'At least one request, each with a prompt, is required', type: 'value_error' }] });
+      }
+      const rejection = this.admit(request, requests.length);
+      if (rejection) return rejection;
+
+      const created = requests.map(item => this.createGeneration(request.user!, item));
+      const invalid = created.find((item): item is SandboxReply => 'status' in item);
+      if (invalid) return invalid;
+
+      const response = {
+        batch_id: createId('batch'),
+        total_requests: created.length,
+        status: VideoStatus.PENDING,
+        created_at: new Date().toISOString(),
+        generation_ids: (created as SandboxGeneration[]).map(item => item.generation_id)
+      };
+      this.remember(request, response);
+      return reply(202, response, this.rateLimitHeaders(request.user!.id));
+    });
+
+    this.route('POST', '/videos/retry/{id}', (request, [generationId]) => {
+      const previous = this.owned(request, generationId);
+      if (!previous) return fail(404, 'not_found', 'Generation not found');
+
+      const rejection = this.admit(request, 1);
+      if (rejection) return rejection;
+
+      const created = this.createGeneration(request.user!, previous.request as VideoGenerationRequest);
+      if ('status' in created) return created;
+
+      const response = { generation_id: created.generation_id, status: VideoStatus.PENDING, message: 'Retry queued in the sandbox' };
+      this.remember(request, response);
+      return reply(202, response, this.rateLimitHeaders(request.user!.id));
+    });
+
+    this.route('POST', '/videos/estimate-cost', ({ body }) => {
+      const duration = Number(field(body, 'duration')) || 5;
+      const rate = field(body, 'model') === VideoModel.VEO_2_GA ? 0.5 : 0.75;
+      return reply(200, { cost: Math.round(duration * rate * 100) / 100, credits: duration });
+    });
+
+    this.route('GET', '/videos/{id}/status', (request, [generationId]) => {
+      const generation = this.owned(request, generationId);
+      return generation ? reply(200, this.describe(generation, Date.now())) : fail(404, 'not_found', 'Generation not found');
+    });
+
+    this.route('GET', '/videos/{id}/download', async (request, [generationId]) => {
+      const generation = this.owned(request, generationId);
+      const status = generation ? this.describe(generation, Date.now()) : null;
+      if (!status?.video_url) return fail(404, 'not_found', 'No finished video for this generation');
+      try {
+        const response = await fetch(status.video_url);
+        return reply(200, await response.blob(), { 'content-type': 'video/mp4' });
+      } catch {
+        return fail(503, 'sample_unavailable', 'Sample video could not be fetched - check your connection');
+      }
+    });
+
+    const cancel: RouteHandler = (request, [generationId]) => {
+      const generation = this.owned(request, generationId);
+      if (!generation) return fail(404, 'not_found', 'Generation not found');
+
+      const now = Date.now();
+      const current = this.describe(generation, now);
+      if (!this.isActive(generation, now)) {
+        return fail(409, 'not_cancellable', `Generation already ${current.status}`);
+      }
+      generation.cancelled_at = now;
+      generation.cancelled_progress = current.progress ?? 0;
+      request.user!.quota_remaining += 1;
+      return reply(200, this.describe(generation, now));
+    };
+    this.route('DELETE', '/videos/{id}/cancel', cancel);
+    this.route('POST', '/videos/cancel/{id}', cancel);
+
+    this.route('DELETE', '/videos/cancel-all', ({ user }) => {
+      const now = Date.now();
+      const active = this.state.generations.filter(generation => generation.user_id === user!.id && this.isActive(generation, now));
+      active.forEach(generation => {
+        generation.cancelled_progress = this.describe(generation, now).progress ?? 0;
+        generation.cancelled_at = now;
+      });
+      user!.quota_remaining += active.length;
+      return reply(200, { cancelled: active.length });
+    });
+
+    this.route('DELETE', '/videos/{id}', (request, [generationId]) => {
+      if (!this.owned(request, generationId)) return fail(404, 'not_found', 'Generation not found');
+      this.state.generations = this.state.generations.filter(generation => generation.generation_id !== generationId);
+      return reply(204, null);
+    });
+
+    this.route('GET', '/user/videos', ({ user, query }) => reply(200, this.listVideos(user!, query)));
+
+    // === Templates, prompts and system ===
+    this.route('GET', '/templates', ({ query }) => {
+      const category = query.get('category');
+      const featured = query.get('featured');
+      const offset = Number(query.get('offset')) || 0;
+      const limit = Number(query.get('limit')) || SANDBOX_TEMPLATES.length;
+      const templates = SANDBOX_TEMPLATES
+        .filter(template => !category || template.category === category)
+        .filter(template => featured === null || template.featured === (featured === 'true'));
+      return reply(200, templates.slice(offset, offset + limit));
+    }, false);
+
+    this.route('GET', '/templates/{id}', (_request, [templateId]) => {
+      const template = SANDBOX_TEMPLATES.find(candidate => candidate.id === templateId);
+      return template ? reply(200, template) : fail(404, 'not_found', 'Template not found');
+    }, false);
+
+    const setFavorite = (favorite: boolean): RouteHandler => ({ user }, [templateId]) => {
+      if (!SANDBOX_TEMPLATES.some(template => template.id === templateId)) {
+        return fail(404, 'not_found', 'Template not found');
+      }
+      const others = (user!.favorite_templates || []).filter(id => id !== templateId);
+      user!.favorite_templates = favorite ? [...others, templateId] : others;
+      return reply(200, { template_id: templateId, favorite });
+    };
+    this.route('PUT', '/templates/{id}/favorite', setFavorite(true));
+    this.route('DELETE', '/templates/{id}/favorite', setFavorite(false));
+
+    this.route('POST', '/prompts/enhance', ({ body }) => {
+      const prompt = text(body, 'prompt').trim().replace(/[.\s]+$/, '');
+      const style = PROMPT_STYLES.includes(text(body, 'style')) ? text(body, 'style') : 'cinematic';
+      if (prompt.length < 3) {
+        return reply(422, { detail: [{ loc: ['body', 'prompt'], msg: 'Prompt must be at least 3 characters', type: 'value_error' }] });
+      }
+      return reply(200, {
+        enhanced_prompt: `${PROMPT_STYLE_OPENERS[style]} ${prompt.charAt(0).toLowerCase()}${prompt.slice(1)}, ${PROMPT_STYLE_DETAILS[style]}`,
+        suggestions: ['Name a camera move (dolly, orbit, crane)', 'Describe the lighting', 'Set the time of day']
+      });
+    });
+
+    this.route('GET', '/prompts/styles', () => reply(200, PROMPT_STYLES), false);
+
+    this.route('GET', '/prompts/suggestions', ({ query }) => {
+      const prompt = (query.get('prompt') || '').toLowerCase();
+      const style = query.get('style') || 'cinematic';
+      const industry = query.get('industry');
+      // Short phrases the workbench inserts as chips, minus anything the prompt already says
+      const phrases = [
+        ...(PROMPT_STYLE_DETAILS[style] || PROMPT_STYLE_DETAILS.cinematic).split(', '),
+        'golden hour',
+        'slow push-in',
+        'shallow depth of field',
+        'aerial establishing shot',
+        ...(industry ? [`${industry} setting`] : [])
+      ];
+      return reply(200, { suggestions: [...new Set(phrases)].filter(phrase => !prompt.includes(phrase)).slice(0, 6) });
+    });
+
+    this.route('GET', '/models', () => reply(200, MODELS.map(({ aspect_ratios: _ratios, ...info }) => info)), false);
+
+    this.route('GET', '/supported-aspect-ratios', () => reply(200, Object.fromEntries(
+      MODELS.map(model => [model.name, model.aspect_ratios])
+    )), false);
+
+    // === Admin ===
+    this.route('GET', '/admin/stats', ({ user, query }) => {
+      if (!user!.is_admin) return fail(403, 'forbidden', 'Admin access required');
+      const since = Date.now() - (Number(query.get('days')) || 30) * 24 * 60 * 60 * 1000;
+      const statuses = this.state.generations
+        .filter(generation => generation.created_at >= since)
+        .map(generation => this.describe(generation, Date.now()).status);
+      return reply(200, {
+        total_videos: statuses.length,
+        completed_videos: statuses.filter(status => status === VideoStatus.COMPLETED).length,
+        processing_videos: statuses.filter(status => status === VideoStatus.PENDING || status === VideoStatus.PROCESSING).length,
+        failed_videos: statuses.filter(status => status === VideoStatus.FAILED).length
+      });
+    });
+  }
+
+  private listVideos(user: SandboxUser, query: URLSearchParams) {
+    const now = Date.now();
+    const list = (name: string) => (query.get(name) || '').split(',').map(item => item.trim()).filter(Boolean);
+    const statuses = list('status');
+    const styles = list('style');
+    const search = (query.get('search') || '').toLowerCase();
+    const from = query.get('date_from') ? Date.parse(query.get('date_from')!) : null;
+    const to = query.get('date_to') ? Date.parse(query.get('date_to')!) : null;
+    const sortBy = query.get('sort_by') || 'created_at';
+    const direction = query.get('sort_order') === 'asc' ? 1 : -1;
+
+    const videos = this.state.generations
+      .filter(generation => generation.user_id === user.id)
+      .map(generation => this.describe(generation, now))
+      .filter(video => statuses.length === 0 || statuses.includes(video.status))
+      .filter(video => styles.length === 0 || (!!video.style && styles.includes(video.style)))
+      .filter(video => !search || (video.prompt || '').toLowerCase().includes(search))
+      .filter(video => from === null || Date.parse(video.created_at) >= from)
+      .filter(video => to === null || Date.parse(video.created_at) <= to)
+      .sort((a, b) => {
+        const key = sortBy as 'created_at' | 'prompt' | 'status';
+        return String(a[key] ?? '').localeCompare(String(b[key] ?? '')) * direction;
+      });
+
+    const pageSize = Number(query.get('page_size')) || Number(query.get('limit')) || 20;
+    const page = query.get('offset') !== null
+      ? Math.floor(Number(query.get('offset')) / pageSize) + 1
+      : Number(query.get('page')) || 1;
+
+    return {
+      videos: videos.slice((page - 1) * pageSize, page * pageSize),
+      total: videos.length,
+      page,
+      pages: Math.max(1, Math.ceil(videos.length / pageSize)),
+      page_size: pageSize
+    };
+  }
+
+  // ========== ACCOUNTS ==========
+
+  private addUser(email: string, password: string, name: string | null, organisation: string | null, isAdmin: boolean): SandboxUser {
+    const user: SandboxUser = {
+      id: createId('usr'),
+      email,
+      password,
+      name,
+      organisation,
+      is_admin: isAdmin,
+      quota_remaining: SANDBOX_CONFIG.QUOTA,
+      total_generated: 0,
+      created_at: new Date().toISOString()
+    };
+    this.state.users.push(user);
+    return user;
+  }
+
+  private ensureDemoAccount(): void {
+    if (!this.state.users.some(user => user.email === SANDBOX_DEMO_ACCOUNT.email)) {
+      this.addUser(SANDBOX_DEMO_ACCOUNT.email, SANDBOX_DEMO_ACCOUNT.password, 'Demo User', 'LostMind AI', true);
+    }
+  }
+
+  private issueSession(user: SandboxUser) {
+    return {
+      access_token: issueToken(user.id, 'access', SANDBOX_CONFIG.TOKEN_TTL),
+      refresh_token: issueToken(user.id, 'refresh', SANDBOX_CONFIG.REFRESH_TTL),
+      token_type: 'bearer',
+      expires_in: SANDBOX_CONFIG.TOKEN_TTL,
+      user: { ...toProfile(user), tier: user.is_admin ? 'unlimited' : 'free' }
+    };
+  }
+
+  // ========== PERSISTENCE ==========
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const stored = localStorage.getItem(SANDBOX_CONFIG.STATE_KEY);
+      const parsed = stored ? JSON.parse(stored) as Partial<SandboxState> : null;
+      if (parsed && Array.isArray(parsed.users) && Array.isArray(parsed.generations)) {
+        this.state = { users: parsed.users, generations: parsed.generations, idempotency: parsed.idempotency || {} };
+      }
+    } catch (error) {
+      console.warn('Failed to load sandbox state:', error);
+    }
+    this.ensureDemoAccount();
+  }
+
+  persist(): void {
+    try {
+      localStorage.setItem(SANDBOX_CONFIG.STATE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn('Failed to persist sandbox state:', error);
+    }
+  }
+}
+
+// ========== SINGLETON EXPORT ==========
+
+export const sandboxBackend = new SandboxBackend();
+export default sandboxBackend;
+
+// ========== AXIOS ADAPTER ==========
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * axios adapter that answers from the sandbox backend instead of the network
+ */
+export const sandboxAdapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+  let body: unknown = config.data;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Non-JSON bodies are passed through as-is
+    }
+  }
+
+  const headers = Object.fromEntries(
+    Object.entries(AxiosHeaders.from(config.headers as AxiosHeaders).toJSON()).map(([name, value]) => [name, String(value)])
+  );
+
+  await delay(SANDBOX_CONFIG.LATENCY);
+  // Aborted while "on the wire" - never reaches the fake backend
+  if (config.signal?.aborted) {
+    throw new AxiosError('canceled', AxiosError.ERR_CANCELED, config);
+  }
+  const result = await sandboxBackend.handle(config.method || 'get', config.url || '/', body, headers, config.params);
+  if (config.method?.toLowerCase() !== 'get') {
+    sandboxBackend.persist();
+  }
+
+  const response: AxiosResponse = {
+    data: result.data,
+    status: result.status,
+    statusText: result.status < 400 ? 'OK' : 'Error',
+    headers: new AxiosHeaders({ 'x-request-id': createId('sbx'), ...result.headers }),
+    config,
+    request: {}
+  };
+
+  const validateStatus = config.validateStatus || ((status: number) => status >= 200 && status < 300);
+  if (validateStatus(result.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${result.status}`,
+    result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response
+  );
+};
+
+// ========== EVENT SOURCE ==========
+
+/**
+ * EventSource stand-in that streams sandbox progress as 'progress' events until the job settles
+ */
+export class SandboxEventSource extends EventTarget {
+  readonly url: string;
+  readyState = 0;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onopen: ((event: Event) => void) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(url: string) {
+    super();
+    this.url = url;
+    const generationId = /\/events\/([^/?]+)/.exec(url)?.[1];
+
+    setTimeout(() => {
+      if (this.readyState === 2) return;
+      if (!generationId || !sandboxBackend.snapshot(decodeURIComponent(generationId))) {
+        this.fail();
+        return;
+      }
+      this.readyState = 1;
+      const open = new Event('open');
+      this.onopen?.(open);
+      this.dispatchEvent(open);
+
+      this.send(decodeURIComponent(generationId));
+      this.timer = setInterval(() => this.send(decodeURIComponent(generationId)), SANDBOX_CONFIG.EVENT_INTERVAL);
+    }, SANDBOX_CONFIG.LATENCY);
+  }
+
+  close(): void {
+    this.readyState = 2;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private send(generationId: string): void {
+    const status = sandboxBackend.snapshot(generationId);
+    if (!status || this.readyState !== 1) return;
+
+    const event = new MessageEvent('progress', { data: JSON.stringify({ ...status, timestamp: new Date().toISOString() }) });
+    this.dispatchEvent(event);
+
+    if (status.status !== VideoStatus.PENDING && status.status !== VideoStatus.PROCESSING) {
+      this.close();
+    }
+  }
+
+  private fail(): void {
+    this.close();
+    const error = new Event('error');
+    this.onerror?.(error);
+    this.dispatchEvent(error);
+  }
+}
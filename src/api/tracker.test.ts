@@ -0,0 +1,264 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerationTracker, isCancellingStatus, isTerminalStatus } from './tracker';
+import { apiClient } from './client';
+import { circuitBreaker } from './circuitBreaker';
+import { VideoStatus } from './types';
+
+vi.mock('./client', () => ({
+  apiClient: {
+    get: vi.fn(),
+    createEventSource: vi.fn(() => null as EventSource | null),
+  },
+}));
+
+const mockApiClient = vi.mocked(apiClient);
+
+const createMockApiResponse = <T>(data: T): any => ({
+  data,
+  status: 200,
+  headers: {},
+});
+
+// Minimal EventSource stand-in that lets tests dispatch named events
+const createMockEventSource = () => {
+  const listeners: Record<string, Array<(event: any) => void>> = {};
+  return {
+    addEventListener: vi.fn((type: string, handler: (event: any) => void) => {
+      (listeners[type] ||= []).push(handler);
+    }),
+    close: vi.fn(),
+    dispatch(type: string, data?: unknown) {
+      (listeners[type] || []).forEach(handler => handler({ data: JSON.stringify(data) }));
+    },
+  };
+};
+
+describe('GenerationTracker', () => {
+  let tracker: GenerationTracker;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    tracker = new GenerationTracker();
+  });
+
+  afterEach(() => {
+    tracker.dispose();
+    circuitBreaker.reset();
+    vi.useRealTimers();
+  });
+
+  it('should share one SSE stream between subscribers of the same generation', async () => {
+    const eventSource = createMockEventSource();
+    mockApiClient.createEventSource.mockReturnValue(eventSource as any);
+    mockApiClient.get.mockResolvedValue(createMockApiResponse({
+      generation_id: 'gen-1', status: 'processing', progress: 10, message: ''
+    }));
+
+    const first = vi.fn();
+    const second = vi.fn();
+    tracker.subscribe('gen-1', first);
+    tracker.subscribe('gen-1', second);
+
+    expect(mockApiClient.createEventSource).toHaveBeenCalledTimes(1);
+    expect(mockApiClient.createEventSource).toHaveBeenCalledWith('/events/gen-1');
+
+    eventSource.dispatch('progress', { generation_id: 'gen-1', status: 'processing', progress: 40 });
+
+    expect(first).toHaveBeenLastCalledWith(expect.objectContaining({ progress: 40 }));
+    expect(second).toHaveBeenLastCalledWith(expect.objectContaining({ progress: 40 }));
+  });
+
+  it('should abort an in-flight poll when tracking stops', async () => {
+    mockApiClient.get.mockReturnValue(new Promise(() => {}));
+
+    const unsubscribe = tracker.subscribe('gen-1', vi.fn(), { realTime: false });
+    await vi.advanceTimersByTimeAsync(0);
+    const { signal } = mockApiClient.get.mock.calls[0][1] as { signal: AbortSignal };
+    expect(signal.aborted).toBe(false);
+
+    unsubscribe();
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should close the transport when the last subscriber leaves', () => {
+    const eventSource = createMockEventSource();
+    mockApiClient.createEventSource.mockReturnValue(eventSource as any);
+    mockApiClient.get.mockResolvedValue(createMockApiResponse({
+      generation_id: 'gen-1', status: 'processing', message: ''
+    }));
+
+    const unsubscribeFirst = tracker.subscribe('gen-1', vi.fn());
+    const unsubscribeSecond = tracker.subscribe('gen-1', vi.fn());
+
+    unsubscribeFirst();
+    expect(eventSource.close).not.toHaveBeenCalled();
+
+    unsubscribeSecond();
+    expect(eventSource.close).toHaveBeenCalled();
+    expect(tracker.isTracking('gen-1')).toBe(false);
+  });
+
+  it('should fall back to polling with backoff when SSE errors', async () => {
+    const eventSource = createMockEventSource();
+    mockApiClient.createEventSource.mockReturnValue(eventSource as any);
+    mockApiClient.get.mockResolvedValue(createMockApiResponse({
+      generation_id: 'gen-1', status: 'processing', message: ''
+    }));
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    tracker.subscribe('gen-1', vi.fn());
+    await vi.advanceTimersByTimeAsync(0);
+    mockApiClient.get.mockClear();
+
+    eventSource.dispatch('error');
+    consoleWarnSpy.mockRestore();
+
+    expect(eventSource.close).toHaveBeenCalled();
+    expect(tracker.getTransport('gen-1')).toBe('polling');
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockApiClient.get).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(mockApiClient.get).toHaveBeenCalledTimes(2);
+
+    // Backoff: 3000 * 1.5 = 4500ms
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(mockApiClient.get).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(mockApiClient.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should resolve track() on terminal status and replay it to late subscribers', async () => {
+    let callCount = 0;
+    mockApiClient.get.mockImplementation(() => {
+      callCount++;
+      return Promise.resolve(createMockApiResponse({
+        generation_id: 'gen-1',
+        status: callCount < 2 ? 'processing' : 'completed',
+        message: ''
+      }));
+    });
+
+    const onProgress = vi.fn();
+    const result = tracker.track('gen-1', onProgress, { realTime: false });
+
+    await vi.advanceTimersByTimeAsync(3000);
+
+    await expect(result).resolves.toEqual(expect.objectContaining({ status: VideoStatus.COMPLETED }));
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(tracker.isTracking('gen-1')).toBe(false);
+
+    const late = vi.fn();
+    tracker.subscribe('gen-1', late);
+    expect(late).toHaveBeenCalledWith(expect.objectContaining({ status: VideoStatus.COMPLETED }));
+    expect(mockApiClient.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after repeated polling failures', async () => {
+    mockApiClient.get.mockRejectedValue(new Error('Network error'));
+
+    const result = tracker.track('gen-1', undefined, { realTime: false });
+    const assertion = expect(result).rejects.toThrow('Network error');
+
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(3000);
+    await vi.advanceTimersByTimeAsync(4500);
+
+    await assertion;
+    expect(tracker.isTracking('gen-1')).toBe(false);
+  });
+
+  it('should wait out an open circuit instead of giving up, then resume when it closes', async () => {
+    for (let failure = 0; failure < 5; failure++) circuitBreaker.recordFailure();
+    expect(circuitBreaker.getSnapshot().state).toBe('open');
+    mockApiClient.get.mockRejectedValue(new Error('Service temporarily unavailable - please try again shortly'));
+
+    const result = tracker.track('gen-1', undefined, { realTime: false });
+    const onSettled = vi.fn();
+    result.then(onSettled, onSettled);
+
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(9000);
+    expect(mockApiClient.get).toHaveBeenCalledTimes(1);
+    expect(onSettled).not.toHaveBeenCalled();
+    expect(tracker.isTracking('gen-1')).toBe(true);
+
+    mockApiClient.get.mockResolvedValue(createMockApiResponse({
+      generation_id: 'gen-1', status: 'completed', message: ''
+    }));
+    circuitBreaker.recordSuccess();
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(result).resolves.toEqual(expect.objectContaining({ status: VideoStatus.COMPLETED }));
+    expect(mockApiClient.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject track() when aborted', async () => {
+    mockApiClient.get.mockResolvedValue(createMockApiResponse({
+      generation_id: 'gen-1', status: 'processing', message: ''
+    }));
+
+    const controller = new AbortController();
+    const result = tracker.track('gen-1', undefined, { realTime: false, signal: controller.signal });
+
+    controller.abort();
+
+    await expect(result).rejects.toThrow('Generation tracking aborted');
+    expect(tracker.isTracking('gen-1')).toBe(false);
+  });
+
+  it('should show cancelling optimistically and settle as cancelled', async () => {
+    mockApiClient.get.mockResolvedValue(createMockApiResponse({
+      generation_id: 'gen-1', status: 'processing', progress: 40, message: ''
+    }));
+
+    const listener = vi.fn();
+    const result = tracker.track('gen-1', listener, { realTime: false });
+    await vi.advanceTimersByTimeAsync(0);
+
+    let confirm: () => void = () => {};
+    const cancelled = tracker.cancel('gen-1', () => new Promise<void>(resolve => { confirm = resolve; }));
+
+    expect(isCancellingStatus(listener.mock.lastCall?.[0])).toBe(true);
+
+    // Polls pause while the request is in flight
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(mockApiClient.get).toHaveBeenCalledTimes(1);
+
+    confirm();
+    await expect(cancelled).resolves.toEqual(expect.objectContaining({ status: VideoStatus.CANCELLED, progress: 40 }));
+    await expect(result).resolves.toEqual(expect.objectContaining({ status: VideoStatus.CANCELLED }));
+    expect(tracker.isTracking('gen-1')).toBe(false);
+  });
+
+  it('should roll back and resume tracking when the server refuses to cancel', async () => {
+    mockApiClient.get.mockResolvedValue(createMockApiResponse({
+      generation_id: 'gen-1', status: 'processing', progress: 40, message: 'Rendering'
+    }));
+
+    const listener = vi.fn();
+    tracker.subscribe('gen-1', listener, { realTime: false });
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(tracker.cancel('gen-1', () => Promise.reject(new Error('Too late to cancel'))))
+      .rejects.toThrow('Too late to cancel');
+
+    const restored = listener.mock.lastCall?.[0];
+    expect(restored).toEqual(expect.objectContaining({ status: VideoStatus.PROCESSING, message: 'Rendering' }));
+    expect(isCancellingStatus(restored)).toBe(false);
+    expect(tracker.getTransport('gen-1')).toBe('polling');
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockApiClient.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should identify terminal statuses', () => {
+    expect(isTerminalStatus(VideoStatus.COMPLETED)).toBe(true);
+    expect(isTerminalStatus(VideoStatus.FAILED)).toBe(true);
+    expect(isTerminalStatus(VideoStatus.CANCELLED)).toBe(true);
+    expect(isTerminalStatus(VideoStatus.PROCESSING)).toBe(false);
+    expect(isTerminalStatus(undefined)).toBe(false);
+  });
+});
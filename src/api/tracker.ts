@@ -0,0 +1,581 @@
+/**
+ * Generation tracking engine
+ * Features: one shared SSE stream per job, uniform polling fallback,
+ * subscribe/unsubscribe API keyed by generation_id, push updates from the realtime channel,
+ * optimistic cancellation with rollback, polling paused through backend outages
+ */
+
+import { apiClient } from './client';
+import { circuitBreaker } from './circuitBreaker';
+import { decodeVideoStatus, decodeVideoStatusPatch, responseContext } from './decoders';
+import { RequestOptions, VideoStatus, VideoStatusResponse } from './types';
+
+// ========== CONFIGURATION ==========
+
+const TRACKING_CONFIG = {
+  POLL_INTERVAL: 3000,          // first poll interval once SSE is unavailable
+  MAX_POLL_INTERVAL: 30000,     // 30 seconds max - balances responsiveness with server load
+  BACKOFF_MULTIPLIER: 1.5,      // gradual backoff for long-running generations
+  MAX_TRACKING_TIME: 900000,    // 15 minutes - longest Veo generation scenarios
+  MAX_CONSECUTIVE_ERRORS: 3,    // give up polling after this many failures in a row
+  TERMINAL_STATES: [
+    VideoStatus.COMPLETED,
+    VideoStatus.FAILED,
+    VideoStatus.CANCELLED
+  ] as VideoStatus[]
+} as const;
+
+// Stage shown while a cancel request is in flight
+export const CANCELLING_STAGE = 'cancelling';
+
+// ========== TYPES ==========
+
+export type TrackingListener = (status: VideoStatusResponse) => void;
+export type TrackingErrorListener = (error: Error) => void;
+export type TrackingTransport = 'sse' | 'polling' | 'push';
+
+export interface TrackingOptions {
+  realTime?: boolean;                 // open an SSE stream before falling back to polling (default: true)
+  onError?: TrackingErrorListener;    // called when tracking gives up (timeout, repeated poll failures)
+}
+
+export interface TrackUntilDoneOptions extends TrackingOptions {
+  signal?: AbortSignal;               // stop waiting (does not cancel the generation itself)
+}
+
+// Payload shape of SSE progress events - a partial status plus an event timestamp
+type ProgressPayload = Partial<VideoStatusResponse> & { timestamp?: string };
+
+interface TrackedGeneration {
+  generationId: string;
+  listeners: Set<TrackingListener>;
+  errorListeners: Set<TrackingErrorListener>;
+  eventSource: EventSource | null;
+  pollTimer: ReturnType<typeof setTimeout> | null;
+  abortController: AbortController;   // aborts the in-flight poll when tracking stops
+  pollInterval: number;
+  consecutiveErrors: number;
+  stalled: boolean;                   // polling parked until the circuit breaker closes
+  startedAt: number;
+  realTime: boolean;
+  transport: TrackingTransport;
+  cancelling: boolean;
+}
+
+// ========== UTILITIES ==========
+
+/**
+ * Whether a status will never change again
+ */
+export const isTerminalStatus = (status: VideoStatus | string | null | undefined): boolean =>
+  !!status && TRACKING_CONFIG.TERMINAL_STATES.includes(status as VideoStatus);
+
+/**
+ * Whether a cancel request is pending for this status
+ */
+export const isCancellingStatus = (status: Pick<VideoStatusResponse, 'status' | 'stage'> | null | undefined): boolean =>
+  !!status && status.stage === CANCELLING_STAGE && !isTerminalStatus(status.status);
+
+// ========== TRACKER CLASS ==========
+
+export class GenerationTracker {
+  private tracked = new Map<string, TrackedGeneration>();
+  private snapshots = new Map<string, VideoStatusResponse>();
+  private pushAvailable = false;
+
+  constructor() {
+    // Polls parked during an outage pick up again once the backend is reachable
+    circuitBreaker.subscribe(snapshot => {
+      if (snapshot.state === 'closed') this.resumeStalled();
+    });
+  }
+
+  /**
+   * Subscribe to status updates for a generation.
+   * The first subscriber opens the transport; the last one to leave closes it.
+   * Returns an unsubscribe function.
+   */
+  subscribe(
+    generationId: string,
+    listener: TrackingListener,
+    options: TrackingOptions = {}
+  ): () => void {
+    const snapshot = this.snapshots.get(generationId);
+
+    // Finished jobs never change - replay the final status without opening a transport
+    if (snapshot && isTerminalStatus(snapshot.status) && !this.tracked.has(generationId)) {
+      listener(snapshot);
+      return () => {};
+    }
+
+    const entry = this.tracked.get(generationId) || this.start(generationId, options.realTime !== false);
+    entry.listeners.add(listener);
+    if (options.onError) {
+      entry.errorListeners.add(options.onError);
+    }
+
+    if (snapshot) {
+      listener(snapshot);
+    }
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (options.onError) {
+        entry.errorListeners.delete(options.onError);
+      }
+      if (entry.listeners.size === 0 && this.tracked.get(generationId) === entry) {
+        this.teardown(entry);
+      }
+    };
+  }
+
+  /**
+   * Track a generation until it reaches a terminal status
+   */
+  track(
+    generationId: string,
+    onProgress?: TrackingListener,
+    options: TrackUntilDoneOptions = {}
+  ): Promise<VideoStatusResponse> {
+    const { signal, ...trackingOptions } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Generation tracking aborted'));
+        return;
+      }
+
+      let settled = false;
+      let unsubscribe: (() => void) | null = null;
+
+      const settle = (complete: () => void) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        unsubscribe?.();
+        complete();
+      };
+
+      const onAbort = () => settle(() => reject(new Error('Generation tracking aborted')));
+      signal?.addEventListener('abort', onAbort);
+
+      unsubscribe = this.subscribe(
+        generationId,
+        (status) => {
+          onProgress?.(status);
+          if (isTerminalStatus(status.status)) {
+            settle(() => resolve(status));
+          }
+        },
+        {
+          ...trackingOptions,
+          onError: (error) => {
+            trackingOptions.onError?.(error);
+            settle(() => reject(error));
+          }
+        }
+      );
+
+      // The listener may have settled synchronously from a cached snapshot
+      if (settled) {
+        unsubscribe();
+      }
+    });
+  }
+
+  /**
+   * Fetch the latest status once and fan it out to current subscribers
+   */
+  async refresh(generationId: string, options?: RequestOptions): Promise<VideoStatusResponse> {
+    const response = await apiClient.get<unknown>(`/videos/${generationId}/status`, options);
+    const status = decodeVideoStatus(response.data, responseContext('GET /videos/{id}/status', response));
+    const entry = this.tracked.get(generationId);
+    return entry ? this.emit(entry, status) : this.remember(generationId, status);
+  }
+
+  /**
+   * Feed a status pushed by an external channel (e.g. the realtime socket).
+   * Updates the snapshot and fans out to subscribers when the job is tracked.
+   */
+  ingest(event: Partial<VideoStatusResponse> & { generation_id: string }): VideoStatusResponse {
+    const payload = { ...decodeVideoStatusPatch(event, { endpoint: 'realtime generation_status' }), generation_id: event.generation_id };
+    const entry = this.tracked.get(payload.generation_id);
+    return entry ? this.emit(entry, payload) : this.remember(payload.generation_id, payload);
+  }
+
+  /**
+   * Cancel a generation optimistically.
+   * Subscribers see the cancelling stage at once and transports pause while `request` runs;
+   * success publishes `cancelled`, failure restores the previous status, resumes tracking and rethrows.
+   */
+  async cancel(generationId: string, request: () => Promise<unknown>): Promise<VideoStatusResponse> {
+    const previous = this.snapshots.get(generationId);
+    if (previous && isTerminalStatus(previous.status)) {
+      return previous;
+    }
+
+    const entry = this.tracked.get(generationId);
+    if (entry) {
+      entry.cancelling = true;
+      this.closeStream(entry);
+      this.clearPoll(entry);
+    }
+
+    this.publish(generationId, this.remember(generationId, {
+      generation_id: generationId,
+      stage: CANCELLING_STAGE,
+      message: 'Cancelling generation...'
+    }));
+
+    try {
+      await request();
+    } catch (error) {
+      if (previous) {
+        this.snapshots.set(generationId, previous);
+      } else {
+        this.snapshots.delete(generationId);
+      }
+
+      const live = this.tracked.get(generationId);
+      if (live) {
+        live.cancelling = false;
+        if (previous) this.publish(generationId, previous);
+        if (this.pushAvailable) {
+          live.transport = 'push';
+          void this.poll(live);
+        } else {
+          this.openTransport(live);
+        }
+      }
+      throw error;
+    }
+
+    const live = this.tracked.get(generationId);
+    if (live) {
+      live.cancelling = false;
+    }
+
+    // A terminal status may have raced in while the request was in flight
+    const current = this.snapshots.get(generationId);
+    if (current && isTerminalStatus(current.status)) {
+      return current;
+    }
+
+    const cancelled = {
+      generation_id: generationId,
+      status: VideoStatus.CANCELLED,
+      stage: null,
+      message: 'Generation cancelled'
+    };
+    return live ? this.emit(live, cancelled) : this.remember(generationId, cancelled);
+  }
+
+  /**
+   * Toggle whether an external push channel is delivering statuses.
+   * While available, per-job SSE streams and polls are paused; when it drops they resume.
+   */
+  setPushAvailable(available: boolean): void {
+    if (this.pushAvailable === available) return;
+    this.pushAvailable = available;
+
+    Array.from(this.tracked.values()).forEach(entry => {
+      if (available) {
+        this.closeStream(entry);
+        this.clearPoll(entry);
+        entry.transport = 'push';
+      } else {
+        this.openTransport(entry);
+      }
+    });
+  }
+
+  /**
+   * Whether an external push channel is currently delivering statuses
+   */
+  isPushAvailable(): boolean {
+    return this.pushAvailable;
+  }
+
+  /**
+   * Generation ids with an open transport
+   */
+  getTrackedIds(): string[] {
+    return Array.from(this.tracked.keys());
+  }
+
+  /**
+   * Latest known status for a generation, if any
+   */
+  getSnapshot(generationId: string): VideoStatusResponse | undefined {
+    return this.snapshots.get(generationId);
+  }
+
+  /**
+   * Whether a transport is currently open for a generation
+   */
+  isTracking(generationId: string): boolean {
+    return this.tracked.has(generationId);
+  }
+
+  /**
+   * Transport currently used for a generation
+   */
+  getTransport(generationId: string): TrackingTransport | null {
+    return this.tracked.get(generationId)?.transport || null;
+  }
+
+  /**
+   * Stop tracking a generation and drop all of its subscribers
+   */
+  stop(generationId: string): void {
+    const entry = this.tracked.get(generationId);
+    if (entry) {
+      this.teardown(entry);
+    }
+  }
+
+  /**
+   * Stop tracking everything and forget cached statuses
+   */
+  dispose(): void {
+    Array.from(this.tracked.values()).forEach(entry => this.teardown(entry));
+    this.snapshots.clear();
+    this.pushAvailable = false;
+  }
+
+  // ========== TRANSPORTS ==========
+
+  private start(generationId: string, realTime: boolean): TrackedGeneration {
+    const entry: TrackedGeneration = {
+      generationId,
+      listeners: new Set(),
+      errorListeners: new Set(),
+      eventSource: null,
+      pollTimer: null,
+      abortController: new AbortController(),
+      pollInterval: TRACKING_CONFIG.POLL_INTERVAL,
+      consecutiveErrors: 0,
+      stalled: false,
+      startedAt: Date.now(),
+      realTime,
+      transport: 'polling',
+      cancelling: false
+    };
+    this.tracked.set(generationId, entry);
+
+    if (this.pushAvailable) {
+      entry.transport = 'push';
+    } else {
+      this.openTransport(entry);
+    }
+
+    // Seed the snapshot so subscribers don't wait for the first pushed event
+    if (entry.transport !== 'polling' && !this.snapshots.has(generationId)) {
+      void this.poll(entry);
+    }
+
+    return entry;
+  }
+
+  private openTransport(entry: TrackedGeneration): void {
+    if (entry.realTime) {
+      this.openStream(entry);
+    }
+    if (!entry.eventSource) {
+      this.schedulePoll(entry, 0);
+    }
+  }
+
+  private openStream(entry: TrackedGeneration): void {
+    const eventSource = apiClient.createEventSource(`/events/${entry.generationId}`);
+    if (!eventSource) return;
+
+    const handleEvent = (event: Event) => {
+      try {
+        const data = JSON.parse((event as MessageEvent).data);
+        const payload: ProgressPayload = {
+          ...decodeVideoStatusPatch(data, { endpoint: 'SSE /events/{id}' }),
+          timestamp: typeof data?.timestamp === 'string' ? data.timestamp : undefined
+        };
+        this.emit(entry, payload);
+      } catch (error) {
+        console.error('Error parsing SSE data:', error);
+      }
+    };
+
+    // Backends emit either named 'progress' events or unnamed messages
+    eventSource.addEventListener('progress', handleEvent);
+    eventSource.addEventListener('message', handleEvent);
+    eventSource.addEventListener('error', () => {
+      console.warn(`SSE connection error for ${entry.generationId}, falling back to polling`);
+      this.closeStream(entry);
+      if (this.tracked.get(entry.generationId) === entry && !this.pushAvailable) {
+        this.schedulePoll(entry, 0);
+      }
+    });
+
+    entry.eventSource = eventSource;
+    entry.transport = 'sse';
+  }
+
+  private closeStream(entry: TrackedGeneration): void {
+    if (entry.eventSource) {
+      entry.eventSource.close();
+      entry.eventSource = null;
+    }
+  }
+
+  private schedulePoll(entry: TrackedGeneration, delay: number): void {
+    this.clearPoll(entry);
+    entry.transport = 'polling';
+    entry.pollTimer = setTimeout(() => {
+      entry.pollTimer = null;
+      void this.poll(entry);
+    }, delay);
+  }
+
+  private async poll(entry: TrackedGeneration): Promise<void> {
+    if (this.tracked.get(entry.generationId) !== entry) return;
+
+    if (Date.now() - entry.startedAt > TRACKING_CONFIG.MAX_TRACKING_TIME) {
+      this.fail(entry, new Error(`Tracking timeout exceeded for generation ${entry.generationId}`));
+      return;
+    }
+
+    try {
+      const response = await apiClient.get<unknown>(`/videos/${entry.generationId}/status`, {
+        signal: entry.abortController.signal
+      });
+      entry.consecutiveErrors = 0;
+      this.emit(entry, decodeVideoStatus(response.data, responseContext('GET /videos/{id}/status', response)));
+    } catch (error) {
+      // Tracking stopped while the poll was in flight - it was aborted, not failed
+      if (this.tracked.get(entry.generationId) !== entry) return;
+
+      // Short-circuited or cut off by an outage - wait for the circuit to close rather than give up
+      if (!circuitBreaker.allows()) {
+        entry.stalled = true;
+        return;
+      }
+
+      entry.consecutiveErrors += 1;
+      if (entry.consecutiveErrors >= TRACKING_CONFIG.MAX_CONSECUTIVE_ERRORS) {
+        this.fail(entry, error instanceof Error ? error : new Error('Status polling failed'));
+        return;
+      }
+    }
+
+    // Keep polling only while this entry is live and nothing else is carrying updates
+    if (
+      this.tracked.get(entry.generationId) !== entry ||
+      entry.eventSource ||
+      entry.transport === 'push' ||
+      entry.cancelling
+    ) return;
+
+    this.schedulePoll(entry, entry.pollInterval);
+    entry.pollInterval = Math.min(
+      entry.pollInterval * TRACKING_CONFIG.BACKOFF_MULTIPLIER,
+      TRACKING_CONFIG.MAX_POLL_INTERVAL
+    );
+  }
+
+  private resumeStalled(): void {
+    this.tracked.forEach(entry => {
+      if (!entry.stalled) return;
+      entry.stalled = false;
+      entry.pollInterval = TRACKING_CONFIG.POLL_INTERVAL;
+      if (entry.transport === 'polling' && !entry.cancelling) {
+        this.schedulePoll(entry, 0);
+      }
+    });
+  }
+
+  // ========== FAN-OUT ==========
+
+  private emit(entry: TrackedGeneration, payload: ProgressPayload): VideoStatusResponse {
+    // Stale progress must not overwrite a pending cancellation; terminal statuses still win
+    if (entry.cancelling && !isTerminalStatus(payload.status)) {
+      return this.snapshots.get(entry.generationId) || this.remember(entry.generationId, payload);
+    }
+
+    const status = this.remember(entry.generationId, payload);
+
+    // Terminal statuses close the transport before listeners run
+    if (isTerminalStatus(status.status) && this.tracked.get(entry.generationId) === entry) {
+      this.teardown(entry);
+    }
+
+    entry.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in generation tracking listener:', error);
+      }
+    });
+
+    if (isTerminalStatus(status.status)) {
+      entry.listeners.clear();
+      entry.errorListeners.clear();
+    }
+
+    return status;
+  }
+
+  // Fan out without terminal teardown - used for optimistic updates and rollbacks
+  private publish(generationId: string, status: VideoStatusResponse): void {
+    this.tracked.get(generationId)?.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in generation tracking listener:', error);
+      }
+    });
+  }
+
+  private remember(generationId: string, payload: ProgressPayload): VideoStatusResponse {
+    const previous = this.snapshots.get(generationId);
+    const now = new Date().toISOString();
+    const { timestamp, ...fields } = payload;
+
+    const status: VideoStatusResponse = {
+      ...previous,
+      ...fields,
+      generation_id: fields.generation_id || generationId,
+      status: fields.status || previous?.status || VideoStatus.PENDING,
+      message: fields.message ?? previous?.message ?? '',
+      created_at: previous?.created_at || fields.created_at || timestamp || now,
+      updated_at: fields.updated_at || timestamp || now
+    };
+
+    this.snapshots.set(generationId, status);
+    return status;
+  }
+
+  private fail(entry: TrackedGeneration, error: Error): void {
+    const errorListeners = Array.from(entry.errorListeners);
+    this.teardown(entry);
+    errorListeners.forEach(listener => listener(error));
+  }
+
+  private clearPoll(entry: TrackedGeneration): void {
+    if (entry.pollTimer) {
+      clearTimeout(entry.pollTimer);
+      entry.pollTimer = null;
+    }
+  }
+
+  private teardown(entry: TrackedGeneration): void {
+    this.closeStream(entry);
+    this.clearPoll(entry);
+    entry.abortController.abort();
+    if (this.tracked.get(entry.generationId) === entry) {
+      this.tracked.delete(entry.generationId);
+    }
+  }
+}
+
+// ========== SINGLETON EXPORT ==========
+
+export const generationTracker = new GenerationTracker();
+export default generationTracker;
@@ -46,6 +46,7 @@ export interface UserRegistration {
 
 export interface TokenResponse {
   access_token: string;
+  refresh_token?: string;  // Present when the backend supports silent refresh
   token_type: string;
   expires_in: number;
   user: object;
@@ -81,6 +82,9 @@ export interface VideoGenerationRequest {
   aspect_ratio?: AspectRatio;        // default: 16:9
   enhance_prompt?: boolean;          // default: true
   image_base64?: string | null;      // optional conditioning image
+  negative_prompt?: string | null;   // content to steer away from, where the model supports it
+  seed?: number | null;              // 0-4294967295; same seed and settings reproduce a result
+  guidance_scale?: number | null;    // prompt adherence, within the model's range
   webhook_url?: string | null;       // optional completion webhook
   metadata?: object | null;          // additional metadata
 }
@@ -114,15 +118,27 @@ export interface VideoStatusResponse {
   prompt?: string | null;           // Original generation prompt
   cost?: number | null;             // Generation cost in credits/currency
   cost_estimate?: number | null;    // Estimated cost before generation
-  duration?: number | null;         // Alias for duration_seconds for backward compatibility
-  file_size?: number | null;        // Alias for file_size_bytes for backward compatibility
-  error?: string | null;            // Alias for error_details for backward compatibility
-  data?: any;                       // Optional response data field (for compatibility)
-  videoUrl?: string | null;         // Alias for video_url for backward compatibility
-  job_id?: string | null;           // Legacy job ID field for backward compatibility
-  id?: string | null;               // Generic ID field for backward compatibility
   style?: string | null;            // Video generation style (e.g., cinematic, realistic)
   aspect_ratio?: string | null;     // Video aspect ratio (e.g., 16:9, 9:16)
+  stage?: string | null;            // Pipeline stage reported by progress events (e.g., rendering)
+  quality_score?: number | null;    // Post-generation quality score (0-100)
+  metadata?: Record<string, unknown> | null; // Request metadata echoed back with the generation
+
+  // Generation parameters, echoed back so a result can be reproduced
+  model?: string | null;
+  seed?: number | null;             // seed actually used, including one the backend picked
+  guidance_scale?: number | null;
+  negative_prompt?: string | null;
+}
+
+// Alias fields older backends still send; decodeVideoStatus folds them into VideoStatusResponse
+export interface LegacyVideoStatusFields {
+  duration?: number | null;         // duration_seconds
+  file_size?: number | null;        // file_size_bytes
+  error?: string | null;            // error_details
+  videoUrl?: string | null;         // video_url
+  job_id?: string | null;           // generation_id
+  id?: string | null;               // generation_id
 }
 
 // ========== ERROR HANDLING ==========
@@ -169,16 +185,23 @@ export interface PaginationParams {
   page_size?: number;
 }
 
+export type VideoSortField = 'created_at' | 'prompt' | 'status';
+
+export type SortOrder = 'asc' | 'desc';
+
 export interface VideoFilters {
   status?: VideoStatus[];
   date_from?: string;
   date_to?: string;
   search?: string;
+  style?: string[];
 }
 
 export interface VideoListParams extends PaginationParams {
   filters?: VideoFilters;
   status?: VideoStatus[];
+  sort_by?: VideoSortField;
+  sort_order?: SortOrder;
   limit?: number;
   offset?: number;
 }
@@ -202,7 +225,6 @@ export interface EnhancedVideoGenerationFormData extends VideoGenerationRequest
   qualityLevel?: string;
   industry?: string;
   sceneType?: string;
-  negative_prompt?: string;
   cameraMovement?: string;
   characterDNA?: string;
 }
@@ -236,6 +258,11 @@ export interface ApiResponse<T = any> {
   headers: Record<string, string>;
 }
 
+// Per-call options accepted by the endpoint wrappers
+export interface RequestOptions {
+  signal?: AbortSignal;       // abort the request, e.g. when the page that issued it unmounts
+}
+
 export interface UploadProgress {
   loaded: number;
   total: number;
@@ -347,6 +374,35 @@ export interface TemplateListParams extends PaginationParams {
   offset?: number;
 }
 
+// ========== MODELS ==========
+
+// GET /models item; capability fields are optional - older backends send name and status only
+export interface ModelInfo {
+  name: string;
+  status: string;
+  display_name?: string | null;
+  durations?: number[] | null;            // allowed clip lengths in seconds
+  min_duration?: number | null;           // used when durations is absent
+  max_duration?: number | null;
+  supports_image?: boolean | null;        // accepts a conditioning image
+  supports_seed?: boolean | null;
+  supports_negative_prompt?: boolean | null;
+  guidance_scale_range?: number[] | null; // [min, max]; null when guidance is fixed
+}
+
+// One model's entry in the capability matrix the Generate form is constrained by
+export interface ModelCapabilities {
+  model: VideoModel;                      // may name a model newer than the enum
+  label: string;
+  available: boolean;
+  durations: number[];                    // ascending
+  aspect_ratios: AspectRatio[];
+  image_conditioning: boolean;
+  seed: boolean;                          // honours a fixed seed
+  negative_prompt: boolean;
+  guidance_scale: [number, number] | null; // inclusive range, null when not adjustable
+}
+
 // ========== STATS & ANALYTICS ==========
 
 export interface StatsParams {
@@ -1,5 +1,6 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../../stores/authStore';
+import { buildAuthRedirect } from '../../api/client';
 import { Loader } from 'lucide-react';
 
 interface ProtectedRouteProps {
@@ -9,6 +10,7 @@ interface ProtectedRouteProps {
 export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
   const { isAuthenticated, user } = useAuthStore();
   const isLoading = useAuthStore((state) => state.isLoading);
+  const location = useLocation();
 
   // Show loading state while checking auth
   if (isLoading) {
@@ -22,9 +24,9 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     );
   }
 
-  // Redirect to auth page if not authenticated
+  // Redirect to auth page if not authenticated, coming back here after signing in
   if (!isAuthenticated) {
-    return <Navigate to="/auth" replace />;
+    return <Navigate to={buildAuthRedirect(`${location.pathname}${location.search}`)} replace />;
   }
 
   // Show quota warning if low
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { Server, X } from 'lucide-react';
+import {
+  API_ENVIRONMENTS,
+  getActiveEnvironment,
+  selectEnvironment,
+  type ApiEnvironmentId
+} from '../../api/environments';
+
+// Ctrl/Cmd + Shift + E opens the environment panel
+const isPanelShortcut = (event: KeyboardEvent) =>
+  (event.ctrlKey || event.metaKey) && event.shiftKey && event.key.toLowerCase() === 'e';
+
+// Everything cached in memory belongs to the old backend - start over on the new one
+const switchEnvironment = (id: ApiEnvironmentId) => {
+  selectEnvironment(id);
+  window.location.reload();
+};
+
+interface EnvironmentPanelProps {
+  onClose: () => void;
+}
+
+export const EnvironmentPanel = ({ onClose }: EnvironmentPanelProps) => {
+  const active = getActiveEnvironment();
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 px-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="environment-panel-title"
+        className="w-full max-w-md bg-bg-secondary border border-bg-tertiary rounded-lg shadow-xl"
+        onClick={event => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-bg-tertiary">
+          <span id="environment-panel-title" className="text-sm font-medium text-white">API environment</span>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+            aria-label="Close environment panel"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <ul className="divide-y divide-bg-tertiary">
+          {Object.values(API_ENVIRONMENTS).map(environment => {
+            const isActive = environment.id === active.id;
+            return (
+              <li key={environment.id}>
+                <button
+                  onClick={() => (isActive ? onClose() : switchEnvironment(environment.id))}
+                  aria-current={isActive}
+                  className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-bg-tertiary transition-colors"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-white">{environment.label}</p>
+                    <p className="text-xs text-gray-400 truncate">
+                      {environment.sandbox ? 'In-browser fake backend' : environment.baseUrl}
+                    </p>
+                  </div>
+                  {isActive && <span className="text-xs text-neural-cyan">Active</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <p className="px-4 py-3 text-xs text-gray-400 border-t border-bg-tertiary">
+          Switching reloads the app. Sessions are kept separately for each environment.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Persistent banner while the app talks to anything other than production,
+ * plus the hidden environment panel behind the keyboard shortcut
+ */
+export const EnvironmentBanner = () => {
+  const [panelOpen, setPanelOpen] = useState(false);
+  const environment = getActiveEnvironment();
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (isPanelShortcut(event)) {
+        event.preventDefault();
+        setPanelOpen(open => !open);
+      } else if (event.key === 'Escape') {
+        setPanelOpen(false);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  return (
+    <>
+      {environment.id !== 'production' && (
+        <div
+          role="status"
+          className="relative z-20 flex flex-wrap items-center justify-center gap-x-3 gap-y-1 px-4 py-2 bg-yellow-500/20 border-b border-yellow-400/20 text-xs sm:text-sm text-yellow-400"
+        >
+          <Server className="w-4 h-4 flex-shrink-0" />
+          <span>
+            <span className="font-medium">{environment.label} environment</span>
+            {!environment.sandbox && <span className="text-gray-400"> • {environment.baseUrl}</span>}
+          </span>
+          <button
+            onClick={() => setPanelOpen(true)}
+            className="underline hover:text-white transition-colors"
+          >
+            Change
+          </button>
+          <button
+            onClick={() => switchEnvironment('production')}
+            className="underline hover:text-white transition-colors"
+          >
+            Back to production
+          </button>
+        </div>
+      )}
+
+      {panelOpen && <EnvironmentPanel onClose={() => setPanelOpen(false)} />}
+    </>
+  );
+};
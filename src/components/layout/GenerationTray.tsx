@@ -0,0 +1,104 @@
+import { Link } from 'react-router-dom';
+import { Loader, CheckCircle, AlertCircle, XCircle, X } from 'lucide-react';
+import { useState } from 'react';
+import { useGenerationQueue } from '../../hooks/useGenerationQueue';
+import { isTerminalStatus } from '../../api/tracker';
+import { VideoStatus } from '../../api/types';
+
+const statusIcon = (status: VideoStatus) => {
+  switch (status) {
+    case VideoStatus.COMPLETED:
+      return <CheckCircle className="w-4 h-4 text-green-400" />;
+    case VideoStatus.FAILED:
+      return <AlertCircle className="w-4 h-4 text-red-400" />;
+    case VideoStatus.CANCELLED:
+      return <XCircle className="w-4 h-4 text-gray-400" />;
+    default:
+      return <Loader className="w-4 h-4 text-neural-cyan animate-spin" />;
+  }
+};
+
+export const GenerationTray = () => {
+  const { jobs, activeJobs, remove, clearFinished } = useGenerationQueue();
+  const [open, setOpen] = useState(false);
+
+  if (jobs.length === 0) return null;
+
+  const hasFinished = jobs.length > activeJobs.length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-bg-tertiary hover:bg-bg-primary transition-colors min-h-[44px]"
+        aria-label="Show generation queue"
+        aria-expanded={open}
+      >
+        {activeJobs.length > 0 ? (
+          <Loader className="w-4 h-4 text-neural-cyan animate-spin" />
+        ) : (
+          <CheckCircle className="w-4 h-4 text-green-400" />
+        )}
+        <span className="text-sm text-white">
+          {activeJobs.length > 0 ? `${activeJobs.length} generating` : 'All done'}
+        </span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-bg-secondary border border-bg-tertiary rounded-lg shadow-xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-bg-tertiary">
+            <span className="text-sm font-medium text-white">Generations</span>
+            {hasFinished && (
+              <button
+                onClick={clearFinished}
+                className="text-xs text-gray-400 hover:text-white transition-colors"
+              >
+                Clear finished
+              </button>
+            )}
+          </div>
+
+          <ul className="divide-y divide-bg-tertiary">
+            {jobs.map(job => {
+              const isActive = !isTerminalStatus(job.status);
+              return (
+                <li key={job.generation_id} className="px-4 py-3">
+                  <div className="flex items-start space-x-3">
+                    <div className="mt-0.5">{statusIcon(job.status)}</div>
+                    <Link
+                      to={isActive ? `/progress/${job.generation_id}` : '/history'}
+                      onClick={() => setOpen(false)}
+                      className="flex-1 min-w-0"
+                    >
+                      <p className="text-sm text-white truncate">{job.prompt || job.generation_id}</p>
+                      <p className="text-xs text-gray-400 capitalize">
+                        {job.status}{isActive && job.progress > 0 ? ` • ${Math.round(job.progress)}%` : ''}
+                      </p>
+                      {isActive && (
+                        <div className="w-full bg-bg-tertiary rounded-full h-1 mt-2">
+                          <div
+                            className="bg-neural-cyan h-1 rounded-full transition-all"
+                            style={{ width: `${Math.max(0, Math.min(100, job.progress))}%` }}
+                          />
+                        </div>
+                      )}
+                    </Link>
+                    {!isActive && (
+                      <button
+                        onClick={() => remove(job.generation_id)}
+                        className="text-gray-500 hover:text-white transition-colors"
+                        aria-label="Dismiss"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,8 @@ import { Link, useLocation } from 'react-router-dom';
 import { Video, Sparkles, Clock, Grid, LogIn, LogOut, Menu, X } from 'lucide-react';
 import { useAuthStore } from '../../stores/authStore';
 import { useState } from 'react';
+import { GenerationTray } from './GenerationTray';
+import { PendingChangesTray } from './PendingChangesTray';
 
 export const Header = () => {
   const location = useLocation();
@@ -54,6 +56,8 @@ export const Header = () => {
           <div className="flex items-center space-x-2 sm:space-x-4">
             {isAuthenticated ? (
               <>
+                <PendingChangesTray />
+                <GenerationTray />
                 <div className="hidden sm:block text-right">
                   <span className="text-sm text-gray-400 block truncate max-w-[150px]">
                     {user?.email}
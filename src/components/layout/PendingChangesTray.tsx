@@ -0,0 +1,111 @@
+import { CloudOff, Loader, AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useOfflineQueue } from '../../hooks/useOfflineQueue';
+import { PendingMutation } from '../../api/offlineQueue';
+
+const stateIcon = (mutation: PendingMutation) => {
+  switch (mutation.state) {
+    case 'conflict':
+      return <AlertTriangle className="w-4 h-4 text-yellow-400" />;
+    case 'replaying':
+      return <Loader className="w-4 h-4 text-neural-cyan animate-spin" />;
+    default:
+      return <CloudOff className="w-4 h-4 text-gray-400" />;
+  }
+};
+
+const stateLabel = (mutation: PendingMutation) => {
+  switch (mutation.state) {
+    case 'conflict':
+      return mutation.conflict || 'Refused by the server';
+    case 'replaying':
+      return 'Sending…';
+    case 'settled':
+      return 'Sent - applying the result';
+    default:
+      return `Waiting for connection • queued ${formatDistanceToNow(new Date(mutation.created_at), { addSuffix: true })}`;
+  }
+};
+
+/**
+ * Changes made while offline that haven't reached the server yet, plus any it refused
+ */
+export const PendingChangesTray = () => {
+  const { mutations, pending, conflicts, replay, retry, discard } = useOfflineQueue();
+  const [open, setOpen] = useState(false);
+
+  if (mutations.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-bg-tertiary hover:bg-bg-primary transition-colors min-h-[44px]"
+        aria-label="Show pending changes"
+        aria-expanded={open}
+      >
+        {conflicts.length > 0 ? (
+          <AlertTriangle className="w-4 h-4 text-yellow-400" />
+        ) : (
+          <CloudOff className="w-4 h-4 text-gray-400" />
+        )}
+        <span className="text-sm text-white">
+          {conflicts.length > 0 ? `${conflicts.length} need attention` : `${pending.length} pending`}
+        </span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-bg-secondary border border-bg-tertiary rounded-lg shadow-xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-bg-tertiary">
+            <span className="text-sm font-medium text-white">Pending changes</span>
+            {pending.length > 0 && (
+              <button
+                onClick={() => void replay()}
+                className="flex items-center space-x-1 text-xs text-gray-400 hover:text-white transition-colors"
+                title="Send queued changes now"
+              >
+                <RefreshCw className="w-3 h-3" />
+                <span>Sync now</span>
+              </button>
+            )}
+          </div>
+
+          <ul className="divide-y divide-bg-tertiary">
+            {mutations.map(mutation => (
+              <li key={mutation.id} className="px-4 py-3">
+                <div className="flex items-start space-x-3">
+                  <div className="mt-0.5">{stateIcon(mutation)}</div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{mutation.label}</p>
+                    <p className={`text-xs ${mutation.state === 'conflict' ? 'text-yellow-400' : 'text-gray-400'}`}>
+                      {stateLabel(mutation)}
+                    </p>
+                    {mutation.state === 'conflict' && (
+                      <button
+                        onClick={() => void retry(mutation.id)}
+                        className="mt-2 text-xs text-neural-cyan hover:text-white transition-colors"
+                      >
+                        Send again
+                      </button>
+                    )}
+                  </div>
+                  {mutation.state !== 'replaying' && (
+                    <button
+                      onClick={() => void discard(mutation.id)}
+                      className="text-gray-500 hover:text-white transition-colors"
+                      aria-label="Discard change"
+                      title="Discard change"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
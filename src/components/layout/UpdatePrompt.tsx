@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { useServiceWorkerUpdate } from '../../hooks/useServiceWorkerUpdate';
+
+/**
+ * Offers a reload when a new version of the app has been deployed and is ready.
+ * Dismissing keeps the current version until the next visit.
+ */
+export const UpdatePrompt = () => {
+  const { updateAvailable, reload } = useServiceWorkerUpdate();
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!updateAvailable || dismissed) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-4 right-4 sm:left-auto sm:w-96 z-50 flex items-start space-x-3 p-4 bg-bg-secondary border border-bg-tertiary rounded-lg shadow-xl"
+    >
+      <RefreshCw className="w-5 h-5 mt-0.5 flex-shrink-0 text-neural-cyan" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-white">New version available</p>
+        <p className="text-xs text-gray-400">Reload to get the latest features and fixes.</p>
+        <button
+          onClick={reload}
+          className="mt-3 px-3 py-1.5 rounded-lg bg-neural-cyan hover:bg-neural-dark text-white text-sm font-medium transition-colors"
+        >
+          Reload
+        </button>
+      </div>
+      <button
+        onClick={() => setDismissed(true)}
+        className="text-gray-500 hover:text-white transition-colors"
+        aria-label="Dismiss update"
+        title="Not now"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -1,10 +1,11 @@
 /**
  * Network Status Component
- * Monitors network connectivity and displays status with neural theme
+ * Monitors network connectivity and backend health (degraded mode) and displays status with neural theme
  */
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useServiceStatus } from '../../hooks/useServiceStatus';
 
 // === Types ===
 
@@ -15,6 +16,7 @@ export interface NetworkStatusProps {
   autoHideDelay?: number;
   className?: string;
   position?: 'top' | 'bottom';
+  showDegraded?: boolean;         // persistent banner while the API circuit breaker is open
 }
 
 interface NetworkState {
@@ -33,7 +35,8 @@ export function NetworkStatus({
   autoHide = true,
   autoHideDelay = 5000,
   className = '',
-  position = 'top'
+  position = 'top',
+  showDegraded = true
 }: NetworkStatusProps) {
   const [networkState, setNetworkState] = useState<NetworkState>({
     isOnline: navigator.onLine,
@@ -47,7 +50,7 @@ export function NetworkStatus({
 
   // Monitor network status
   useEffect(() => {
-    const updateOnlineStatus = () => {
+    const updateOnlineStatus = (notify: boolean) => {
       const isOnline = navigator.onLine;
       const now = Date.now();
 
@@ -69,7 +72,7 @@ export function NetworkStatus({
       });
 
       // Show notification when status changes
-      if (showNotification) {
+      if (showNotification && notify) {
         setShowStatus(true);
         if (isOnline) {
           setJustReconnected(true);
@@ -104,13 +107,14 @@ export function NetworkStatus({
       }
     };
 
-    // Initial update
-    updateOnlineStatus();
+    // Initial update - no notification for the state the page loaded in
+    const handleStatusChange = () => updateOnlineStatus(true);
+    updateOnlineStatus(false);
     updateConnectionInfo();
 
     // Event listeners
-    window.addEventListener('online', updateOnlineStatus);
-    window.addEventListener('offline', updateOnlineStatus);
+    window.addEventListener('online', handleStatusChange);
+    window.addEventListener('offline', handleStatusChange);
 
     // Connection change listener (if supported)
     const connection = (navigator as any).connection;
@@ -119,8 +123,8 @@ export function NetworkStatus({
     }
 
     return () => {
-      window.removeEventListener('online', updateOnlineStatus);
-      window.removeEventListener('offline', updateOnlineStatus);
+      window.removeEventListener('online', handleStatusChange);
+      window.removeEventListener('offline', handleStatusChange);
       if (connection) {
         connection.removeEventListener('change', updateConnectionInfo);
       }
@@ -197,11 +201,15 @@ export function NetworkStatus({
 
   const connectionQuality = getConnectionQuality();
 
-  if (!showStatus && networkState.isOnline) return null;
+  // Online but the backend is failing - generation is unavailable, cached data stays readable
+  const service = useServiceStatus();
+  const isDegraded = showDegraded && networkState.isOnline && service.isDegraded;
+
+  if (!showStatus && networkState.isOnline && !isDegraded) return null;
 
   return (
     <AnimatePresence>
-      {(showStatus || !networkState.isOnline) && (
+      {(showStatus || !networkState.isOnline || isDegraded) && (
         <motion.div
           initial={{ y: position === 'top' ? -100 : 100, opacity: 0 }}
           animate={{ y: 0, opacity: 1 }}
@@ -215,7 +223,9 @@ export function NetworkStatus({
           <div 
             className={`
               rounded-lg shadow-lg backdrop-blur-sm border p-4 flex items-center gap-3
-              ${networkState.isOnline 
+              ${isDegraded
+                ? 'bg-yellow-500/10 border-yellow-500/20'
+                : networkState.isOnline 
                 ? 'bg-green-500/10 border-green-500/20' 
                 : 'bg-red-500/10 border-red-500/20'
               }
@@ -225,7 +235,22 @@ export function NetworkStatus({
           >
             {/* Status Icon */}
             <div className="flex-shrink-0">
-              {networkState.isOnline ? (
+              {isDegraded ? (
+                <svg
+                  className="w-6 h-6 text-yellow-400"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  aria-hidden="true"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                  />
+                </svg>
+              ) : networkState.isOnline ? (
                 <motion.svg
                   initial={{ scale: 0 }}
                   animate={{ scale: 1 }}
@@ -281,14 +306,16 @@ export function NetworkStatus({
             <div className="flex-1 min-w-0">
               <div className="flex items-center justify-between">
                 <h4 className="text-sm font-medium text-white">
-                  {networkState.isOnline 
+                  {isDegraded
+                    ? 'Generation Temporarily Unavailable'
+                    : networkState.isOnline 
                     ? (justReconnected ? 'Back Online' : 'Connected')
                     : 'No Internet Connection'
                   }
                 </h4>
                 
                 {/* Close button for online status */}
-                {networkState.isOnline && autoHide && (
+                {networkState.isOnline && !isDegraded && autoHide && (
                   <button
                     onClick={() => {
                       setShowStatus(false);
@@ -305,7 +332,26 @@ export function NetworkStatus({
               </div>
 
               <div className="text-xs text-gray-300 mt-1">
-                {networkState.isOnline ? (
+                {isDegraded ? (
+                  <div className="space-y-1">
+                    <p>Our servers are having trouble. Your cached history is still available.</p>
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-400">
+                        {service.isProbing || service.secondsUntilProbe === null
+                          ? 'Checking service...'
+                          : `Checking again in ${service.secondsUntilProbe}s`}
+                      </span>
+                      {!service.isProbing && (
+                        <button
+                          onClick={() => service.probeNow()}
+                          className="text-yellow-400 hover:text-white underline focus:outline-none focus:ring-2 focus:ring-yellow-400 rounded"
+                        >
+                          Try now
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ) : networkState.isOnline ? (
                   <div className="flex items-center gap-2">
                     <span>Connection quality: </span>
                     <span className={connectionQuality.color}>
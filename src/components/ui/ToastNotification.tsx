@@ -229,6 +229,8 @@ class ToastManager {
         return 'Unsupported Format';
       case ErrorType.GENERATION_FAILED:
         return 'Generation Failed';
+      case ErrorType.SAFETY_FILTER:
+        return 'Blocked by Safety Filter';
       default:
         return 'Error';
     }
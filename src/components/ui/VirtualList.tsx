@@ -0,0 +1,75 @@
+/**
+ * Virtual List Component
+ * Windowed rendering of long lists inside a fixed-height scroll container, with infinite loading
+ */
+
+import React, { useEffect } from 'react';
+import { useVirtualWindow } from '../../hooks/useVirtualWindow';
+
+// === Types ===
+
+export interface VirtualListProps<T> {
+  rows: T[];
+  getRowKey: (row: T, index: number) => string;
+  renderRow: (row: T, index: number) => React.ReactNode;
+  estimateRowHeight: number;
+  overscan?: number;
+  restoreKey?: string; // Restores the scroll position when the list remounts with the same key
+  onEndReached?: () => void; // Called when the window nears the last loaded row
+  endReachedThreshold?: number; // Rows from the end that trigger onEndReached
+  footer?: React.ReactNode;
+  className?: string;
+  rowClassName?: string;
+}
+
+// === Virtual List Component ===
+
+export function VirtualList<T>({
+  rows,
+  getRowKey,
+  renderRow,
+  estimateRowHeight,
+  overscan = 3,
+  restoreKey,
+  onEndReached,
+  endReachedThreshold = 5,
+  footer,
+  className = 'h-[70vh]',
+  rowClassName = ''
+}: VirtualListProps<T>) {
+  const {
+    containerRef,
+    onScroll,
+    startIndex,
+    endIndex,
+    offsetTop,
+    totalHeight,
+    measureRow
+  } = useVirtualWindow({ count: rows.length, estimateHeight: estimateRowHeight, overscan, restoreKey });
+
+  const nearEnd = rows.length > 0 && endIndex >= rows.length - endReachedThreshold;
+
+  useEffect(() => {
+    if (nearEnd) onEndReached?.();
+  }, [nearEnd, rows.length, onEndReached]);
+
+  return (
+    <div ref={containerRef} onScroll={onScroll} className={`overflow-y-auto ${className}`}>
+      <div style={{ height: totalHeight, position: 'relative' }}>
+        <div style={{ position: 'absolute', top: 0, left: 0, right: 0, transform: `translateY(${offsetTop}px)` }}>
+          {rows.slice(startIndex, endIndex).map((row, offset) => {
+            const index = startIndex + offset;
+            return (
+              <div key={getRowKey(row, index)} ref={measureRow(index)} className={rowClassName}>
+                {renderRow(row, index)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      {footer}
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import VirtualList from '../VirtualList';
+
+const rows = Array.from({ length: 1000 }, (_, index) => `Video ${index}`);
+
+const renderList = (props: Partial<React.ComponentProps<typeof VirtualList<string>>> = {}) =>
+  render(
+    <VirtualList
+      rows={rows}
+      getRowKey={(row) => row}
+      renderRow={(row) => <span>{row}</span>}
+      estimateRowHeight={50}
+      {...props}
+    />
+  );
+
+describe('VirtualList', () => {
+  const clientHeight = Object.getOwnPropertyDescriptor(HTMLElement.prototype, 'clientHeight');
+
+  beforeAll(() => {
+    // jsdom has no layout; give the scroll container a 200px viewport
+    Object.defineProperty(HTMLElement.prototype, 'clientHeight', { configurable: true, get: () => 200 });
+  });
+
+  afterAll(() => {
+    if (clientHeight) Object.defineProperty(HTMLElement.prototype, 'clientHeight', clientHeight);
+  });
+
+  beforeEach(() => {
+    // In-memory sessionStorage so scroll offsets survive a remount
+    const storage: Record<string, string> = {};
+    vi.mocked(sessionStorage.getItem).mockImplementation((key: string) => storage[key] ?? null);
+    vi.mocked(sessionStorage.setItem).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+  });
+
+  it('should only render rows near the viewport', () => {
+    renderList();
+
+    expect(screen.getByText('Video 0')).toBeInTheDocument();
+    expect(screen.getByText('Video 7')).toBeInTheDocument();
+    expect(screen.queryByText('Video 8')).not.toBeInTheDocument();
+    expect(screen.queryByText('Video 999')).not.toBeInTheDocument();
+  });
+
+  it('should render the window for the scroll offset', async () => {
+    const { container } = renderList();
+    const scroller = container.firstChild as HTMLDivElement;
+
+    scroller.scrollTop = 25000;
+    fireEvent.scroll(scroller);
+
+    await waitFor(() => expect(screen.getByText('Video 500')).toBeInTheDocument());
+    expect(screen.queryByText('Video 0')).not.toBeInTheDocument();
+  });
+
+  it('should ask for more rows near the end', async () => {
+    const onEndReached = vi.fn();
+    const { container } = renderList({ onEndReached });
+    expect(onEndReached).not.toHaveBeenCalled();
+
+    const scroller = container.firstChild as HTMLDivElement;
+    scroller.scrollTop = 49800;
+    fireEvent.scroll(scroller);
+
+    await waitFor(() => expect(onEndReached).toHaveBeenCalled());
+  });
+
+  it('should restore the saved scroll position on remount', async () => {
+    const first = renderList({ restoreKey: 'history' });
+    const scroller = first.container.firstChild as HTMLDivElement;
+    scroller.scrollTop = 10000;
+    fireEvent.scroll(scroller);
+    await waitFor(() => expect(screen.getByText('Video 200')).toBeInTheDocument());
+    first.unmount();
+
+    renderList({ restoreKey: 'history' });
+
+    expect(screen.getByText('Video 200')).toBeInTheDocument();
+    expect(screen.queryByText('Video 0')).not.toBeInTheDocument();
+  });
+});
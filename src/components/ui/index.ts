@@ -23,6 +23,9 @@ export {
   useLoadingState 
 } from './LoadingSpinner';
 
+// List Components
+export { default as VirtualList } from './VirtualList';
+
 // Component Types
 export type {
   ToastOptions,
@@ -51,6 +54,10 @@ export type {
   FormErrorSummaryProps
 } from './ValidationErrors';
 
+export type {
+  VirtualListProps
+} from './VirtualList';
+
 export type {
   LoadingSpinnerProps,
   SkeletonProps,
@@ -188,7 +188,7 @@ const MobileVideoCard: React.FC<MobileVideoCardProps> = ({
           <div className="flex items-center space-x-3">
             <span className="capitalize">{(video as any).style || 'Standard'}</span>
             <span>•</span>
-            <span>{video.duration_seconds || video.duration || 5}s</span>
+            <span>{video.duration_seconds || 5}s</span>
             <span>•</span>
             <span>{(video as any).aspect_ratio || '16:9'}</span>
           </div>
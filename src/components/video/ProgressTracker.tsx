@@ -23,7 +23,7 @@
  * - Contextual error messages and recovery options
  */
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Clock, 
@@ -39,10 +39,12 @@ import {
   Cpu,
   Video as VideoIcon,
   Sparkles,
-  BarChart3
+  BarChart3,
+  XCircle
 } from 'lucide-react';
-import { useQuery } from '@tanstack/react-query';
-import { api, type VideoJob } from '../../services/api';
+import { type VideoJob } from '../../services/api';
+import { useGenerationTracking, useCancelGeneration } from '../../hooks/useVideoGeneration';
+import { isCancellingStatus } from '../../api/tracker';
 import { toast } from 'react-hot-toast';
 
 interface ProgressTrackerProps {
@@ -120,6 +122,28 @@ const PROGRESS_STAGES = {
   }
 };
 
+// Shown instead of the pipeline stages once cancellation starts
+const CANCELLATION_STAGES = {
+  cancelling: {
+    name: 'Cancelling',
+    description: 'Asking the server to stop this generation',
+    icon: Loader,
+    color: 'text-gray-400',
+    bgColor: 'bg-gray-500/20',
+    progress: [0, 100],
+    subTasks: ['Stopping generation']
+  },
+  cancelled: {
+    name: 'Cancelled',
+    description: 'Video generation was cancelled',
+    icon: XCircle,
+    color: 'text-gray-400',
+    bgColor: 'bg-gray-500/20',
+    progress: [0, 100],
+    subTasks: ['Generation stopped']
+  }
+};
+
 export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
   jobId,
   onComplete,
@@ -127,29 +151,11 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
   showDetailedView = true,
   compact = false
 }) => {
-  const [isLive, setIsLive] = useState(true);
-
-  // Fetch video status with real-time polling
-  const { 
-    data: job, 
-    isLoading,
-    refetch 
-  } = useQuery({
-    queryKey: ['videoStatus', jobId],
-    queryFn: async () => {
-      const response = await api.getVideoStatus(jobId);
-      return response.data;
-    },
-    enabled: !!jobId && isLive,
-    refetchInterval: (query) => {
-      const data = query.state.data;
-      if (!data || data.status === 'completed' || data.status === 'failed') {
-        setIsLive(false);
-        return false;
-      }
-      return 2000; // Poll every 2 seconds for active jobs
-    }
-  });
+  // Shared tracker subscription (SSE with polling fallback)
+  const { status: job, refresh } = useGenerationTracking(jobId);
+  const cancelGeneration = useCancelGeneration();
+  const isLoading = !job;
+  const isCancelling = isCancellingStatus(job);
 
   // Handle job completion and errors with useEffect
   useEffect(() => {
@@ -157,7 +163,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
       onComplete?.(job);
       toast.success('Video generation completed!');
     } else if (job?.status === 'failed') {
-      onError?.(job.error || 'Video generation failed');
+      onError?.(job.error_details || 'Video generation failed');
       toast.error('Video generation failed');
     }
   }, [job?.status, job, onComplete, onError]);
@@ -166,7 +172,11 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
   const progressMetrics = useMemo(() => {
     if (!job) return null;
 
-    const currentStage = PROGRESS_STAGES[job.stage as keyof typeof PROGRESS_STAGES] || PROGRESS_STAGES.processing;
+    const currentStage = job.status === 'cancelled'
+      ? CANCELLATION_STAGES.cancelled
+      : isCancellingStatus(job)
+        ? CANCELLATION_STAGES.cancelling
+        : PROGRESS_STAGES[job.stage as keyof typeof PROGRESS_STAGES] || PROGRESS_STAGES.processing;
     const baseProgress = job.progress || currentStage.progress[0];
     const actualProgress = Math.min(Math.max(baseProgress, currentStage.progress[0]), currentStage.progress[1]);
     
@@ -194,7 +204,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
       eta,
       elapsed: Math.floor(elapsed / 1000), // in seconds
       processingSpeed: `${processingSpeed}%/sec`,
-      isActive: job.status === 'processing' || job.status === 'pending'
+      isActive: (job.status === 'processing' || job.status === 'pending') && !isCancellingStatus(job)
     };
   }, [job]);
 
@@ -228,6 +238,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
                 className={`h-1.5 rounded-full ${
                   job?.status === 'failed' ? 'bg-red-500' :
                   job?.status === 'completed' ? 'bg-green-500' :
+                  job?.status === 'cancelled' || isCancelling ? 'bg-gray-500' :
                   'bg-gradient-to-r from-neural-cyan to-blue-500'
                 }`}
                 initial={{ width: 0 }}
@@ -268,6 +279,8 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
             <div className="text-sm text-gray-400">
               {job?.status === 'completed' ? 'Complete' :
                job?.status === 'failed' ? 'Failed' :
+               job?.status === 'cancelled' ? 'Cancelled' :
+               isCancelling ? 'Cancelling' :
                job?.status === 'processing' ? 'Processing' : 'Pending'}
             </div>
           </div>
@@ -287,6 +300,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
               className={`absolute inset-y-0 left-0 rounded-full ${
                 job?.status === 'failed' ? 'bg-gradient-to-r from-red-500 to-red-600' :
                 job?.status === 'completed' ? 'bg-gradient-to-r from-green-500 to-green-600' :
+                job?.status === 'cancelled' || isCancelling ? 'bg-gray-500' :
                 'bg-gradient-to-r from-neural-cyan via-blue-500 to-purple-500'
               }`}
               initial={{ width: 0 }}
@@ -436,7 +450,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
 
       {/* Error Display */}
       <AnimatePresence>
-        {job?.status === 'failed' && job?.error && (
+        {job?.status === 'failed' && job?.error_details && (
           <motion.div
             initial={{ opacity: 0, height: 0 }}
             animate={{ opacity: 1, height: 'auto' }}
@@ -447,11 +461,10 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
               <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" />
               <div className="flex-1">
                 <p className="text-red-400 font-medium mb-1">Generation Failed</p>
-                <p className="text-red-300 text-sm">{job.error}</p>
+                <p className="text-red-300 text-sm">{job.error_details}</p>
                 <button
                   onClick={() => {
-                    setIsLive(true);
-                    void refetch();
+                    void refresh();
                   }}
                   className="mt-3 px-4 py-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors text-sm flex items-center space-x-2"
                 >
@@ -464,6 +477,24 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
         )}
       </AnimatePresence>
 
+      {/* Cancel Bar */}
+      {(isActive || isCancelling) && (
+        <div className="border-t border-bg-tertiary bg-bg-tertiary/50 p-4">
+          <div className="flex items-center justify-end">
+            <button
+              onClick={() => {
+                void cancelGeneration(jobId);
+              }}
+              disabled={isCancelling}
+              className="px-4 py-2 bg-bg-secondary hover:bg-bg-quaternary disabled:opacity-60 text-gray-300 rounded-lg transition-colors flex items-center space-x-2"
+            >
+              {isCancelling ? <Loader className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+              <span>{isCancelling ? 'Cancelling...' : 'Cancel generation'}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Action Bar */}
       {job?.status === 'completed' && (
         <div className="border-t border-bg-tertiary bg-bg-tertiary/50 p-4">
@@ -479,7 +510,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
                 </button>
               )}
               <button 
-                onClick={() => window.open(job?.video_url || job?.videoUrl, '_blank')}
+                onClick={() => window.open(job?.video_url || undefined, '_blank')}
                 className="px-4 py-2 bg-neural-cyan hover:bg-neural-cyan/90 text-white rounded-lg transition-colors flex items-center space-x-2"
               >
                 <Download className="w-4 h-4" />
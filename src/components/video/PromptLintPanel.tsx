@@ -0,0 +1,44 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, Info, LucideIcon } from 'lucide-react';
+import type { LintFix, LintSeverity, LintWarning } from '../../services/promptLinter';
+
+interface PromptLintPanelProps {
+  warnings: LintWarning[];
+  onFix: (fix: LintFix) => void;
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, { icon: LucideIcon; className: string }> = {
+  error: { icon: AlertCircle, className: 'text-red-400' },
+  warning: { icon: AlertTriangle, className: 'text-yellow-400' },
+  info: { icon: Info, className: 'text-gray-400' }
+};
+
+// Linter findings under the prompt, each with a one-click fix
+export const PromptLintPanel: React.FC<PromptLintPanelProps> = ({ warnings, onFix }) => {
+  if (warnings.length === 0) return null;
+
+  return (
+    <ul aria-label="Prompt checks" aria-live="polite" className="mt-3 space-y-1.5">
+      {warnings.map(({ id, severity, message, fix }) => {
+        const { icon: Icon, className } = SEVERITY_STYLES[severity];
+        return (
+          <li key={id} className="flex items-start justify-between gap-3 text-xs">
+            <span className={`flex items-start space-x-1.5 ${className}`}>
+              <Icon className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" aria-hidden="true" />
+              <span>{message}</span>
+            </span>
+            <button
+              type="button"
+              onClick={() => onFix(fix)}
+              className="flex-shrink-0 px-2 py-0.5 rounded border border-bg-quaternary text-neural-cyan hover:border-neural-cyan/50 transition-colors"
+            >
+              {fix.label}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default PromptLintPanel;
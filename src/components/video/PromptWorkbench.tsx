@@ -0,0 +1,171 @@
+import React from 'react';
+import { Check, Loader2, Plus, RotateCcw, Sparkles, X } from 'lucide-react';
+import type { UsePromptWorkbenchResult } from '../../hooks/usePromptWorkbench';
+import { describeAction, DiffSegmentType } from '../../services/promptWorkbench';
+
+interface PromptWorkbenchProps {
+  workbench: UsePromptWorkbenchResult;
+  onClose: () => void;
+}
+
+const SEGMENT_CLASSES: Record<DiffSegmentType, string> = {
+  same: 'text-gray-300',
+  added: 'bg-green-500/20 text-green-300 rounded',
+  removed: 'bg-red-500/20 text-red-300 line-through rounded'
+};
+
+// Side panel next to the prompt: review enhancements as a diff, insert suggestions, undo either
+export const PromptWorkbench: React.FC<PromptWorkbenchProps> = ({ workbench, onClose }) => {
+  const {
+    styles,
+    style,
+    setStyle,
+    suggestions,
+    isLoadingSuggestions,
+    proposal,
+    diff,
+    isEnhancing,
+    enhance,
+    accept,
+    reject,
+    insert,
+    undo,
+    history
+  } = workbench;
+  const lastAction = history[history.length - 1];
+
+  return (
+    <aside aria-label="Prompt workbench" className="p-4 bg-neural-cyan/5 border border-neural-cyan/30 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-white flex items-center space-x-2">
+          <Sparkles className="w-4 h-4 text-neural-cyan" />
+          <span>Prompt Workbench</span>
+        </p>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close prompt workbench"
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Enhancement */}
+      <div className="flex items-end gap-2">
+        {styles.length > 0 && (
+          <div className="flex-1 min-w-0">
+            <label htmlFor="enhancement-style" className="block text-xs text-gray-400 mb-1">
+              Enhancement style
+            </label>
+            <select
+              id="enhancement-style"
+              value={style ?? ''}
+              onChange={(event) => setStyle(event.target.value)}
+              className="w-full px-3 py-2 bg-bg-tertiary border border-bg-quaternary rounded-lg text-sm text-white capitalize focus:border-neural-cyan outline-none"
+            >
+              {styles.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <button
+          type="button"
+          onClick={enhance}
+          disabled={isEnhancing}
+          className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-neural-cyan hover:bg-neural-cyan/90 disabled:bg-neural-cyan/50 text-white text-sm transition-colors min-h-[38px]"
+        >
+          {isEnhancing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          <span>{proposal ? 'Enhance again' : 'Enhance'}</span>
+        </button>
+      </div>
+
+      {proposal && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-400">
+            Suggested {proposal.style ? `${proposal.style} ` : ''}rewrite -
+            <span className="text-green-300"> added</span> and
+            <span className="text-red-300"> removed</span> words are highlighted
+          </p>
+          <p className="text-sm leading-relaxed p-3 bg-bg-tertiary rounded-lg" data-testid="prompt-diff">
+            {diff.map((segment, index) => (
+              <span key={index} className={SEGMENT_CLASSES[segment.type]}>{segment.text}</span>
+            ))}
+          </p>
+          {proposal.suggestions.length > 0 && (
+            <ul className="text-xs text-gray-400 list-disc pl-4 space-y-1">
+              {proposal.suggestions.map(tip => <li key={tip}>{tip}</li>)}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={accept}
+              className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 rounded-lg border border-green-500/50 text-green-300 hover:bg-green-500/10 text-sm transition-colors"
+            >
+              <Check className="w-4 h-4" />
+              <span>Accept</span>
+            </button>
+            <button
+              type="button"
+              onClick={reject}
+              className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 rounded-lg border border-bg-quaternary text-gray-300 hover:border-red-500/50 hover:text-red-300 text-sm transition-colors"
+            >
+              <X className="w-4 h-4" />
+              <span>Reject</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Suggestions */}
+      <div>
+        <p className="text-xs text-gray-400 mb-2 flex items-center space-x-2">
+          <span>Suggestions</span>
+          {isLoadingSuggestions && <Loader2 className="w-3 h-3 animate-spin" />}
+        </p>
+        {suggestions.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(suggestion => (
+              <button
+                key={suggestion}
+                type="button"
+                onClick={() => insert(suggestion)}
+                title="Insert into prompt"
+                className="flex items-center space-x-1 px-2 py-1 rounded-full border border-neural-cyan/40 text-xs text-neural-cyan hover:bg-neural-cyan/10 transition-colors"
+              >
+                <Plus className="w-3 h-3" />
+                <span>{suggestion}</span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">
+            {isLoadingSuggestions ? 'Looking for suggestions…' : 'Keep writing to get suggestions'}
+          </p>
+        )}
+      </div>
+
+      {/* Undo */}
+      {lastAction && (
+        <div className="flex items-center justify-between pt-3 border-t border-bg-tertiary">
+          <p className="text-xs text-gray-500 truncate">
+            Last: {describeAction(lastAction)}
+            {history.length > 1 && ` (+${history.length - 1} more)`}
+          </p>
+          <button
+            type="button"
+            onClick={undo}
+            className="flex items-center space-x-1 text-xs text-neural-cyan hover:text-neural-light transition-colors shrink-0"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Undo</span>
+          </button>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default PromptWorkbench;
@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import {
+  getShotVocabulary,
+  hasTerm,
+  LabelledShotField,
+  SHOT_FIELDS,
+  ShotField,
+  ShotFields,
+  toggleTerm
+} from '../../services/shotBuilder';
+
+interface ShotBuilderProps {
+  fields: ShotFields;
+  onChange: (field: ShotField, value: string) => void;
+}
+
+const isLabelled = (field: ShotField): field is LabelledShotField =>
+  field === 'camera' || field === 'lighting' || field === 'style' || field === 'audio';
+
+// One input per part of the prompt; labelled parts get vocabulary chips that toggle terms in and out
+export const ShotBuilder: React.FC<ShotBuilderProps> = ({ fields, onChange }) => {
+  const vocabulary = useMemo(() => getShotVocabulary(), []);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {SHOT_FIELDS.map(({ field, label, placeholder }) => {
+        const id = `shot-field-${field}`;
+        const value = fields[field];
+
+        return (
+          <div key={field} className={field === 'details' ? 'md:col-span-2' : undefined}>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-2">
+              {label}
+            </label>
+            <input
+              id={id}
+              type="text"
+              value={value}
+              onChange={(event) => onChange(field, event.target.value)}
+              placeholder={placeholder}
+              className="w-full px-4 py-2 bg-bg-tertiary border border-bg-quaternary rounded-lg focus:border-neural-cyan focus:ring-1 focus:ring-neural-cyan outline-none transition-colors text-white placeholder-gray-500"
+            />
+            {isLabelled(field) && (
+              <div className="flex flex-wrap gap-1.5 mt-2" role="group" aria-label={`${label} vocabulary`}>
+                {vocabulary[field].map(term => {
+                  const selected = hasTerm(value, term);
+                  return (
+                    <button
+                      key={term}
+                      type="button"
+                      aria-pressed={selected}
+                      onClick={() => onChange(field, toggleTerm(value, term))}
+                      className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+                        selected
+                          ? 'border-neural-cyan bg-neural-cyan/10 text-neural-cyan'
+                          : 'border-bg-quaternary text-gray-400 hover:border-neural-cyan/50'
+                      }`}
+                    >
+                      {term}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ShotBuilder;
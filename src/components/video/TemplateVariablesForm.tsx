@@ -0,0 +1,85 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import type { SceneTemplate } from '../../services/sceneTemplates';
+import {
+  getTemplateVariables,
+  TemplateValues
+} from '../../services/templateInstantiation';
+
+interface TemplateVariablesFormProps {
+  template: SceneTemplate;
+  values: TemplateValues;
+  onChange: (values: TemplateValues) => void;
+  showErrors?: boolean;
+}
+
+export const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({
+  template,
+  values,
+  onChange,
+  showErrors = false
+}) => {
+  const variables = getTemplateVariables(template);
+
+  if (variables.length === 0) return null;
+
+  const inputClassName = (missing: boolean) =>
+    `w-full px-4 py-2 bg-bg-tertiary border rounded-lg focus:ring-1 outline-none transition-colors text-white placeholder-gray-500 ${
+      missing
+        ? 'border-red-500/60 focus:border-red-500 focus:ring-red-500'
+        : 'border-bg-quaternary focus:border-neural-cyan focus:ring-neural-cyan'
+    }`;
+
+  return (
+    <div className="p-4 bg-neural-cyan/5 border border-neural-cyan/30 rounded-lg space-y-4">
+      <div>
+        <p className="text-sm font-medium text-white">{template.name}</p>
+        <p className="text-xs text-gray-400">Fill in each field to complete the template prompt</p>
+      </div>
+
+      {variables.map(variable => {
+        const id = `template-variable-${variable.name}`;
+        const value = values[variable.name] || '';
+        const missing = showErrors && !value.trim();
+        const handleChange = (next: string) => onChange({ ...values, [variable.name]: next });
+
+        return (
+          <div key={variable.name}>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-2">
+              {variable.label} *
+            </label>
+            {variable.kind === 'longtext' ? (
+              <textarea
+                id={id}
+                rows={2}
+                value={value}
+                onChange={(e) => handleChange(e.target.value)}
+                placeholder={variable.placeholder}
+                aria-invalid={missing}
+                className={`${inputClassName(missing)} resize-none`}
+              />
+            ) : (
+              <input
+                id={id}
+                type="text"
+                value={value}
+                onChange={(e) => handleChange(e.target.value)}
+                placeholder={variable.placeholder}
+                aria-invalid={missing}
+                className={inputClassName(missing)}
+              />
+            )}
+            {missing && (
+              <p className="mt-1 text-xs text-red-400 flex items-center space-x-1">
+                <AlertCircle className="w-3 h-3" />
+                <span>{variable.label} is required</span>
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TemplateVariablesForm;
@@ -12,6 +12,7 @@
  * - onPreview: (video: VideoStatusResponse) => void - Preview handler
  * - onDownload: (id: string) => void - Download handler
  * - onDelete: (id: string) => void - Delete handler
+ * - onCancel: (id: string) => void - Optional cancel handler for pending/processing videos
  */
 
 import React from 'react';
@@ -33,6 +34,7 @@ import {
   FileVideo
 } from 'lucide-react';
 import { VideoStatusResponse, VideoStatus } from '../../api/types';
+import { isCancellingStatus } from '../../api/tracker';
 
 interface VideoCardProps {
   video: VideoStatusResponse;
@@ -42,6 +44,7 @@ interface VideoCardProps {
   onPreview: (video: VideoStatusResponse) => void;
   onDownload: (id: string) => void;
   onDelete: (id: string) => void;
+  onCancel?: (id: string) => void;
   className?: string;
 }
 
@@ -87,10 +90,17 @@ export const VideoCard: React.FC<VideoCardProps> = ({
   onPreview,
   onDownload,
   onDelete,
+  onCancel,
   className = ''
 }) => {
-  const StatusIcon = statusConfig[video.status]?.icon || Clock;
-  const statusStyle = statusConfig[video.status] || statusConfig[VideoStatus.PENDING];
+  // A pending cancellation is shown with the cancelled styling until the server confirms
+  const isCancelling = isCancellingStatus(video);
+  const displayStatus = isCancelling ? VideoStatus.CANCELLED : video.status;
+  const statusLabel = isCancelling ? 'cancelling' : video.status;
+  const canCancel = !!onCancel && !isCancelling &&
+    (video.status === VideoStatus.PENDING || video.status === VideoStatus.PROCESSING);
+  const StatusIcon = statusConfig[displayStatus]?.icon || Clock;
+  const statusStyle = statusConfig[displayStatus] || statusConfig[VideoStatus.PENDING];
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-AU', {
@@ -147,9 +157,9 @@ export const VideoCard: React.FC<VideoCardProps> = ({
           <div className="absolute top-2 right-2">
             <div className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs border backdrop-blur-sm ${statusStyle.color} ${statusStyle.bgColor} ${statusStyle.borderColor}`}>
               <StatusIcon 
-                className={`w-3 h-3 ${video.status === VideoStatus.PROCESSING ? 'animate-spin' : ''}`} 
+                className={`w-3 h-3 ${video.status === VideoStatus.PROCESSING && !isCancelling ? 'animate-spin' : ''}`} 
               />
-              <span className="capitalize font-medium">{video.status}</span>
+              <span className="capitalize font-medium">{statusLabel}</span>
             </div>
           </div>
 
@@ -266,6 +276,16 @@ export const VideoCard: React.FC<VideoCardProps> = ({
                   </button>
                 </>
               )}
+              {canCancel && (
+                <button
+                  onClick={() => onCancel?.(video.generation_id)}
+                  className="p-1.5 bg-bg-tertiary hover:bg-bg-quaternary rounded transition-colors min-w-[32px] min-h-[32px] flex items-center justify-center"
+                  title="Cancel generation"
+                  aria-label="Cancel generation"
+                >
+                  <X className="w-3.5 h-3.5 text-gray-400" />
+                </button>
+              )}
               <button
                 onClick={() => onDelete(video.generation_id)}
                 className="p-1.5 bg-bg-tertiary hover:bg-red-500/20 rounded transition-colors min-w-[32px] min-h-[32px] flex items-center justify-center"
@@ -325,7 +345,7 @@ export const VideoCard: React.FC<VideoCardProps> = ({
           <div className="absolute -top-1 -right-1">
             <div className={`w-5 h-5 rounded-full flex items-center justify-center ${statusStyle.bgColor} ${statusStyle.borderColor} border`}>
               <StatusIcon 
-                className={`w-3 h-3 ${statusStyle.color} ${video.status === VideoStatus.PROCESSING ? 'animate-spin' : ''}`} 
+                className={`w-3 h-3 ${statusStyle.color} ${video.status === VideoStatus.PROCESSING && !isCancelling ? 'animate-spin' : ''}`} 
               />
             </div>
           </div>
@@ -345,7 +365,7 @@ export const VideoCard: React.FC<VideoCardProps> = ({
               {/* Metadata Row */}
               <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
                 <span className={`capitalize font-medium ${statusStyle.color}`}>
-                  {video.status}
+                  {statusLabel}
                 </span>
                 <span>{formatDate(video.created_at)}</span>
                 {video.duration_seconds && (
@@ -407,6 +427,16 @@ export const VideoCard: React.FC<VideoCardProps> = ({
                 </button>
               </>
             )}
+            {canCancel && (
+              <button
+                onClick={() => onCancel?.(video.generation_id)}
+                className="p-2 bg-bg-tertiary hover:bg-bg-quaternary rounded transition-colors min-w-[40px] min-h-[40px] flex items-center justify-center"
+                title="Cancel generation"
+                aria-label="Cancel generation"
+              >
+                <X className="w-4 h-4 text-gray-400" />
+              </button>
+            )}
             <button
               onClick={() => onDelete(video.generation_id)}
               className="p-2 bg-bg-tertiary hover:bg-red-500/20 rounded transition-colors min-w-[40px] min-h-[40px] flex items-center justify-center"
@@ -90,6 +90,7 @@ export const VideoGenerationFormEnhanced = () => {
       enhance_prompt: formData.enhance_prompt,
       image_base64: formData.image_base64,
       webhook_url: formData.webhook_url,
+      negative_prompt: formData.negative_prompt || undefined,
       // Store UI-specific fields in metadata
       metadata: {
         style: formData.style,
@@ -98,7 +99,6 @@ export const VideoGenerationFormEnhanced = () => {
         qualityLevel: formData.qualityLevel,
         industry: formData.industry,
         sceneType: formData.sceneType,
-        negative_prompt: formData.negative_prompt,
         cameraMovement: formData.cameraMovement,
         characterDNA: formData.characterDNA
       }
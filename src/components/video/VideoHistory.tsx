@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { api, type VideoJob } from '../../services/api';
+import { isRequestCancelled } from '../../api/client';
+import { useAbortSignal } from '../../hooks/useAbortSignal';
 import { ProgressTracker } from './ProgressTracker';
 import { 
   Download, 
@@ -18,6 +20,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 
 export const VideoHistory: React.FC = () => {
   const [jobs, setJobs] = useState<VideoJob[]>([]);
+  const getSignal = useAbortSignal();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
@@ -42,12 +45,13 @@ export const VideoHistory: React.FC = () => {
 
   const loadHistory = async () => {
     try {
-      const videos = await api.video.getUserVideos();
+      const videos = await api.video.getUserVideos(undefined, { signal: getSignal() });
       const response = { data: { jobs: videos } };
       // Handle the nested response format from Flask backend
       const historyData = response.data.jobs || response.data;
       setJobs(Array.isArray(historyData) ? historyData : []);
     } catch (error) {
+      if (isRequestCancelled(error)) return;
       console.error('Failed to load history:', error);
       toast.error('Failed to load video history');
       setJobs([]);
@@ -59,11 +63,12 @@ export const VideoHistory: React.FC = () => {
   const refreshHistory = async () => {
     setRefreshing(true);
     try {
-      const videos = await api.video.getUserVideos();
+      const videos = await api.video.getUserVideos(undefined, { signal: getSignal() });
       const response = { data: { jobs: videos } };
       const historyData = response.data.jobs || response.data;
       setJobs(Array.isArray(historyData) ? historyData : []);
     } catch (error) {
+      if (isRequestCancelled(error)) return;
       console.error('Failed to refresh history:', error);
     } finally {
       setRefreshing(false);
@@ -72,7 +77,7 @@ export const VideoHistory: React.FC = () => {
 
   const downloadVideo = async (jobId: string) => {
     try {
-      const downloadedBlob = await api.video.downloadVideo(jobId);
+      const downloadedBlob = await api.video.downloadVideo(jobId, { signal: getSignal() });
       const response = { data: downloadedBlob };
       const blob = new Blob([response.data], { type: 'video/mp4' });
       const url = window.URL.createObjectURL(blob);
@@ -85,6 +90,7 @@ export const VideoHistory: React.FC = () => {
       window.URL.revokeObjectURL(url);
       toast.success('Video download started');
     } catch (error) {
+      if (isRequestCancelled(error)) return;
       console.error('Download failed:', error);
       toast.error('Failed to download video');
     }
@@ -271,10 +277,10 @@ export const VideoHistory: React.FC = () => {
                         </div>
                       )}
                       
-                      {job.file_size && (
+                      {job.file_size_bytes && (
                         <div>
                           <span className="text-gray-400">Size:</span>
-                          <div className="text-white">{formatFileSize(job.file_size)}</div>
+                          <div className="text-white">{formatFileSize(job.file_size_bytes)}</div>
                         </div>
                       )}
 
@@ -286,9 +292,9 @@ export const VideoHistory: React.FC = () => {
                       )}
                     </div>
 
-                    {job.error && (
+                    {job.error_details && (
                       <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
-                        <p className="text-red-400 text-sm">{job.error}</p>
+                        <p className="text-red-400 text-sm">{job.error_details}</p>
                       </div>
                     )}
                   </div>
@@ -305,10 +311,10 @@ export const VideoHistory: React.FC = () => {
                       </button>
                     )}
 
-                    {job.status === 'completed' && job.videoUrl && (
+                    {job.status === 'completed' && job.video_url && (
                       <>
                         <button
-                          onClick={() => job.videoUrl && window.open(job.videoUrl, '_blank')}
+                          onClick={() => job.video_url && window.open(job.video_url, '_blank')}
                           className="p-2 bg-bg-tertiary hover:bg-neural-cyan/20 rounded-lg transition-colors"
                           title="Play video"
                         >
@@ -0,0 +1,31 @@
+/**
+ * Abort signal hook
+ * Ties requests issued by a component to its lifetime, so leaving a page cancels its downloads and lookups
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+
+// === Abort Signal Hook ===
+
+/**
+ * Returns a getter for a signal that aborts when the component unmounts.
+ * Read it when the request starts (`{ signal: getSignal() }`), not during render.
+ */
+export function useAbortSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+      // A remount (StrictMode, keyed remount) starts with a fresh controller
+      controllerRef.current = null;
+    };
+  }, []);
+
+  return useCallback(() => {
+    if (!controllerRef.current) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+}
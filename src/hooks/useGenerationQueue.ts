@@ -0,0 +1,77 @@
+/**
+ * Generation queue hooks
+ * Exposes the persistent job queue to components and resumes it on boot
+ */
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { toast } from 'react-hot-toast';
+import { generationQueue, QueuedGeneration } from '../api/queue';
+import { retryScheduler } from '../api/retries';
+import { isTerminalStatus } from '../api/tracker';
+import { VideoStatus } from '../api/types';
+import { useAuthStore } from '../stores/authStore';
+
+// === Queue State Hook ===
+
+export interface UseGenerationQueueResult {
+  jobs: QueuedGeneration[];
+  activeJobs: QueuedGeneration[];
+  remove: (generationId: string) => void;
+  clearFinished: () => void;
+}
+
+export function useGenerationQueue(): UseGenerationQueueResult {
+  const jobs = useSyncExternalStore(
+    useCallback((onChange: () => void) => generationQueue.subscribe(onChange), []),
+    () => generationQueue.getJobs()
+  );
+
+  const activeJobs = useMemo(() => jobs.filter(job => !isTerminalStatus(job.status)), [jobs]);
+
+  const remove = useCallback((generationId: string) => generationQueue.remove(generationId), []);
+  const clearFinished = useCallback(() => generationQueue.clearFinished(), []);
+
+  return { jobs, activeJobs, remove, clearFinished };
+}
+
+// === Lifecycle Hook ===
+
+const describeJob = (job: QueuedGeneration) => {
+  const prompt = job.prompt?.trim();
+  if (!prompt) return 'Your video';
+  return `"${prompt.length > 40 ? `${prompt.slice(0, 40)}…` : prompt}"`;
+};
+
+/**
+ * Load the signed-in user's jobs, resume them and automatic retries, and notify when any job settles.
+ * Mount once near the root of the app.
+ */
+export function useGenerationQueueLifecycle(): void {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const userId = useAuthStore(state => state.user?.id ?? null);
+
+  useEffect(() => {
+    if (!isAuthenticated || !userId) {
+      retryScheduler.stop();
+      generationQueue.setOwner(null);
+      return;
+    }
+
+    generationQueue.setOwner(userId);
+    generationQueue.resume();
+    // Started first so its settled listener schedules retries before the toast below runs
+    retryScheduler.start();
+
+    const unsubscribe = generationQueue.onSettled((job) => {
+      if (job.status === VideoStatus.COMPLETED) {
+        toast.success(`${describeJob(job)} is ready`);
+      } else if (job.status === VideoStatus.FAILED && retryScheduler.isScheduled(job.generation_id)) {
+        toast(`${describeJob(job)} failed - retrying automatically`);
+      } else if (job.status === VideoStatus.FAILED) {
+        toast.error(`${describeJob(job)} failed${job.error_details ? `: ${job.error_details}` : ''}`);
+      }
+    });
+
+    return unsubscribe;
+  }, [isAuthenticated, userId]);
+}
@@ -0,0 +1,42 @@
+/**
+ * Model capability hook
+ * Serves the cached capability matrix immediately and refreshes it from the backend when stale
+ */
+
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { MODEL_CACHE_TTL, modelCapabilities } from '../api/models';
+import type { ModelCapabilities } from '../api/types';
+
+// === Capabilities Hook ===
+
+export interface UseModelCapabilitiesResult {
+  models: ModelCapabilities[];
+  getCapabilities: (model: string | null | undefined) => ModelCapabilities;
+  isRefreshing: boolean;
+  isLive: boolean;                // false while serving built-in limits because the backend hasn't answered
+}
+
+export function useModelCapabilities(): UseModelCapabilitiesResult {
+  const { data: models, isFetching } = useQuery({
+    queryKey: ['modelCapabilities'],
+    queryFn: ({ signal }) => modelCapabilities.load({ signal }),
+    initialData: () => modelCapabilities.getModels(),
+    initialDataUpdatedAt: () => modelCapabilities.fetchedAt(),
+    staleTime: MODEL_CACHE_TTL
+  });
+
+  // Unlisted models resolve through the registry, which gives them conservative limits
+  const getCapabilities = useCallback(
+    (model: string | null | undefined) =>
+      models.find(entry => entry.model === model) || modelCapabilities.get(model),
+    [models]
+  );
+
+  return {
+    models,
+    getCapabilities,
+    isRefreshing: isFetching,
+    isLive: modelCapabilities.fetchedAt() > 0
+  };
+}
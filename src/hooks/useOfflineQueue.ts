@@ -0,0 +1,76 @@
+/**
+ * Offline queue hooks
+ * Exposes mutations queued while offline and replays them while the app is open
+ */
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { offlineQueue, PendingMutation, startOfflineReplay } from '../api/offlineQueue';
+import { useAuthStore } from '../stores/authStore';
+
+// === Queue State Hook ===
+
+export interface UseOfflineQueueResult {
+  mutations: PendingMutation[];
+  pending: PendingMutation[];         // waiting for a connection or being sent
+  conflicts: PendingMutation[];       // refused by the server - retry or discard
+  replay: () => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+export function useOfflineQueue(): UseOfflineQueueResult {
+  const mutations = useSyncExternalStore(
+    useCallback((onChange: () => void) => offlineQueue.subscribe(onChange), []),
+    () => offlineQueue.getMutations()
+  );
+
+  const pending = useMemo(() => mutations.filter(mutation => mutation.state !== 'conflict'), [mutations]);
+  const conflicts = useMemo(() => mutations.filter(mutation => mutation.state === 'conflict'), [mutations]);
+
+  const replay = useCallback(() => offlineQueue.replay(), []);
+  const retry = useCallback((id: string) => offlineQueue.retry(id), []);
+  const discard = useCallback((id: string) => offlineQueue.discard(id), []);
+
+  return { mutations, pending, conflicts, replay, retry, discard };
+}
+
+// === Lifecycle Hook ===
+
+/**
+ * Replay the signed-in user's queued mutations while authenticated and report how each one settled.
+ * Mount once near the root of the app.
+ */
+export function useOfflineQueueLifecycle(): void {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const userId = useAuthStore(state => state.user?.id ?? null);
+  const queryClient = useQueryClient();
+
+  // Runs before replay starts below, so only this user's mutations are loaded and sent
+  useEffect(() => {
+    void offlineQueue.setOwner(isAuthenticated ? userId : null);
+  }, [isAuthenticated, userId]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const stopReplay = startOfflineReplay();
+    const unsubscribe = offlineQueue.onSettled((mutation, result) => {
+      if (result === 'conflict') {
+        toast.error(`${mutation.label} could not be applied: ${mutation.conflict}`);
+        return;
+      }
+
+      toast.success(`Synced: ${mutation.label}`);
+      if (mutation.kind !== 'favorite_template') {
+        queryClient.invalidateQueries({ queryKey: ['videoHistory'] });
+      }
+    });
+
+    return () => {
+      stopReplay();
+      unsubscribe();
+    };
+  }, [isAuthenticated, queryClient]);
+}
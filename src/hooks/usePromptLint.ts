@@ -0,0 +1,55 @@
+/**
+ * Prompt lint hook
+ * Lints the prompt being written, with the terms the safety filter objected to in the
+ * user's own failed generations
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../api/endpoints';
+import { VideoStatus } from '../api/types';
+import { collectBlockedTerms, lintPrompt, LintWarning } from '../services/promptLinter';
+
+// === Configuration ===
+
+const FAILED_HISTORY_LIMIT = 50;
+const FAILED_HISTORY_STALE_TIME = 5 * 60 * 1000;
+
+// === Lint Hook ===
+
+export interface UsePromptLintOptions {
+  prompt: string;
+  aspectRatio?: string;
+  aspectRatios?: string[];
+  duration?: number;
+  enabled?: boolean;              // false while the prompt step isn't showing or nobody is signed in
+}
+
+export interface UsePromptLintResult {
+  warnings: LintWarning[];
+  blockedTerms: string[];
+}
+
+export function usePromptLint({
+  prompt,
+  aspectRatio,
+  aspectRatios,
+  duration,
+  enabled = true
+}: UsePromptLintOptions): UsePromptLintResult {
+  const { data: blockedTerms } = useQuery({
+    queryKey: ['failedGenerations', FAILED_HISTORY_LIMIT],
+    queryFn: ({ signal }) =>
+      api.video.getUserVideos({ status: [VideoStatus.FAILED], limit: FAILED_HISTORY_LIMIT }, { signal }),
+    select: collectBlockedTerms,
+    staleTime: FAILED_HISTORY_STALE_TIME,
+    enabled
+  });
+
+  const warnings = useMemo(
+    () => lintPrompt(prompt, { aspectRatio, aspectRatios, duration, blockedTerms }),
+    [prompt, aspectRatio, aspectRatios, duration, blockedTerms]
+  );
+
+  return { warnings, blockedTerms: blockedTerms || [] };
+}
@@ -0,0 +1,195 @@
+/**
+ * Prompt workbench hook
+ * Loads enhancement styles and suggestions for the prompt being written, requests
+ * enhancements for review and keeps the undo stack of accept, reject and insert actions
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { api } from '../api/endpoints';
+import { isRequestCancelled } from '../api/client';
+import { useAbortSignal } from './useAbortSignal';
+import {
+  diffWords,
+  DiffSegment,
+  insertSuggestion,
+  PromptProposal,
+  pushAction,
+  WorkbenchAction
+} from '../services/promptWorkbench';
+
+// === Configuration ===
+
+const SUGGESTION_DELAY = 600;         // ms of typing pause before suggestions are refreshed
+const MIN_PROMPT_LENGTH = 10;         // matches the prompt step's own minimum
+const SUGGESTION_STALE_TIME = 5 * 60 * 1000;
+
+// === Workbench Hook ===
+
+export interface UsePromptWorkbenchOptions {
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  enhanceOnGenerate: boolean;                         // the request's enhance_prompt flag
+  onEnhanceOnGenerateChange: (enhance: boolean) => void;
+  preferredStyle?: string;                            // used when the backend offers a style of that name
+  industry?: string;
+  enabled?: boolean;                                  // false while the prompt step isn't showing
+}
+
+export interface UsePromptWorkbenchResult {
+  styles: string[];
+  style: string | null;
+  setStyle: (style: string) => void;
+  suggestions: string[];                              // not yet in the prompt
+  isLoadingSuggestions: boolean;
+  proposal: PromptProposal | null;
+  diff: DiffSegment[];
+  isEnhancing: boolean;
+  enhance: () => void;
+  accept: () => void;
+  reject: () => void;
+  insert: (suggestion: string) => void;
+  undo: () => void;
+  history: WorkbenchAction[];                         // oldest first
+}
+
+export function usePromptWorkbench({
+  prompt,
+  onPromptChange,
+  enhanceOnGenerate,
+  onEnhanceOnGenerateChange,
+  preferredStyle,
+  industry,
+  enabled = true
+}: UsePromptWorkbenchOptions): UsePromptWorkbenchResult {
+  const getSignal = useAbortSignal();
+  const [proposal, setProposal] = useState<PromptProposal | null>(null);
+  const [history, setHistory] = useState<WorkbenchAction[]>([]);
+  const [chosenStyle, setStyle] = useState<string | null>(null);
+  const [settledPrompt, setSettledPrompt] = useState(prompt.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledPrompt(prompt.trim()), SUGGESTION_DELAY);
+    return () => clearTimeout(timer);
+  }, [prompt]);
+
+  const { data: styleData } = useQuery({
+    queryKey: ['promptStyles'],
+    queryFn: ({ signal }) => api.prompt.getPromptStyles({ signal }),
+    staleTime: Infinity,
+    enabled
+  });
+  const styles = useMemo(() => (Array.isArray(styleData) ? styleData : []), [styleData]);
+
+  // An explicit choice wins, then the form's visual style if the backend knows it
+  const style = chosenStyle
+    ?? (preferredStyle && styles.includes(preferredStyle) ? preferredStyle : styles[0] ?? null);
+
+  const { data: suggestionData, isFetching: isLoadingSuggestions } = useQuery({
+    queryKey: ['promptSuggestions', settledPrompt, style, industry ?? null],
+    queryFn: ({ signal }) =>
+      api.prompt.getPromptSuggestions(settledPrompt, style || undefined, industry, { signal }),
+    enabled: enabled && settledPrompt.length >= MIN_PROMPT_LENGTH,
+    staleTime: SUGGESTION_STALE_TIME,
+    placeholderData: keepPreviousData
+  });
+
+  const suggestions = useMemo(() => {
+    const current = prompt.toLowerCase();
+    const listed = Array.isArray(suggestionData?.suggestions) ? suggestionData!.suggestions : [];
+    return [...new Set(listed.map(suggestion => suggestion.trim()).filter(Boolean))]
+      .filter(suggestion => !current.includes(suggestion.toLowerCase()));
+  }, [suggestionData, prompt]);
+
+  const { mutate: requestEnhancement, isPending: isEnhancing } = useMutation({
+    mutationFn: ({ original, style }: { original: string; style: string | null }) =>
+      api.prompt.enhancePrompt(original, style || undefined, { signal: getSignal() }),
+    onSuccess: (result, { original, style }) => {
+      const enhanced = result?.enhanced_prompt?.trim();
+      if (!enhanced || enhanced === original) {
+        toast('No enhancement suggested - your prompt is already detailed');
+        return;
+      }
+      setProposal({
+        original,
+        enhanced,
+        style,
+        suggestions: Array.isArray(result.suggestions) ? result.suggestions : []
+      });
+    },
+    onError: (error) => {
+      if (!isRequestCancelled(error)) toast.error('Failed to enhance prompt');
+    }
+  });
+
+  const enhance = useCallback(() => {
+    const original = prompt.trim();
+    if (original.length < MIN_PROMPT_LENGTH) {
+      toast.error(`Write at least ${MIN_PROMPT_LENGTH} characters before enhancing`);
+      return;
+    }
+    requestEnhancement({ original, style });
+  }, [prompt, style, requestEnhancement]);
+
+  // The enhanced prompt is final, so the backend shouldn't enhance it again at generation
+  const accept = useCallback(() => {
+    if (!proposal) return;
+    setHistory(stack => pushAction(stack, {
+      kind: 'accept',
+      before: prompt,
+      after: proposal.enhanced,
+      proposal,
+      enhanceOnGenerate
+    }));
+    setProposal(null);
+    onPromptChange(proposal.enhanced);
+    onEnhanceOnGenerateChange(false);
+  }, [proposal, prompt, enhanceOnGenerate, onPromptChange, onEnhanceOnGenerateChange]);
+
+  const reject = useCallback(() => {
+    if (!proposal) return;
+    setHistory(stack => pushAction(stack, { kind: 'reject', before: prompt, after: prompt, proposal }));
+    setProposal(null);
+  }, [proposal, prompt]);
+
+  const insert = useCallback((suggestion: string) => {
+    const next = insertSuggestion(prompt, suggestion);
+    if (next === prompt) return;
+    setHistory(stack => pushAction(stack, { kind: 'insert', before: prompt, after: next, suggestion }));
+    onPromptChange(next);
+  }, [prompt, onPromptChange]);
+
+  // Undo the latest action: its prompt comes back, and so does a reviewed enhancement
+  const undo = useCallback(() => {
+    const action = history[history.length - 1];
+    if (!action) return;
+
+    setHistory(history.slice(0, -1));
+    if (action.before !== prompt) onPromptChange(action.before);
+    if (action.proposal) setProposal(action.proposal);
+    if (action.enhanceOnGenerate !== undefined) onEnhanceOnGenerateChange(action.enhanceOnGenerate);
+  }, [history, prompt, onPromptChange, onEnhanceOnGenerateChange]);
+
+  const diff = useMemo(
+    () => (proposal ? diffWords(proposal.original, proposal.enhanced) : []),
+    [proposal]
+  );
+
+  return {
+    styles,
+    style,
+    setStyle,
+    suggestions,
+    isLoadingSuggestions,
+    proposal,
+    diff,
+    isEnhancing,
+    enhance,
+    accept,
+    reject,
+    insert,
+    undo,
+    history
+  };
+}
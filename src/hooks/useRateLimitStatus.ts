@@ -0,0 +1,52 @@
+/**
+ * Rate limit status hook
+ * Exposes client-side pacing and server back-off so buttons can say "next slot in 12s"
+ */
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { rateLimiter } from '../api/rateLimits';
+
+// === Rate Limit Status Hook ===
+
+export interface UseRateLimitStatusResult {
+  isLimited: boolean;
+  secondsUntilSlot: number;       // 0 when a request would go out now
+  waiting: number;                // requests queued locally for a slot
+  remaining: number | null;       // as last reported by the server
+  message: string | null;         // "Next slot in 12s", or null when not limited
+}
+
+/**
+ * Combined status for one or more endpoints (see RATE_LIMITED_ENDPOINTS);
+ * limited when any of them is, counting down to the latest next slot.
+ */
+export function useRateLimitStatus(endpoints: string | string[]): UseRateLimitStatusResult {
+  // Re-render on limiter changes, then once a second while a countdown is showing
+  useSyncExternalStore(
+    useCallback((onChange: () => void) => rateLimiter.subscribe(onChange), []),
+    () => rateLimiter.getVersion()
+  );
+  const [, setTick] = useState(0);
+
+  const now = Date.now();
+  const statuses = (Array.isArray(endpoints) ? endpoints : [endpoints]).map(key => rateLimiter.getStatus(key, now));
+  const nextSlotAt = Math.max(0, ...statuses.map(status => status.nextSlotAt ?? 0));
+  const reported = statuses.map(status => status.remaining).filter((value): value is number => value !== null);
+
+  const secondsUntilSlot = Math.max(0, Math.ceil((nextSlotAt - now) / 1000));
+  const isLimited = secondsUntilSlot > 0;
+
+  useEffect(() => {
+    if (!isLimited) return;
+    const timer = setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isLimited]);
+
+  return {
+    isLimited,
+    secondsUntilSlot,
+    waiting: statuses.reduce((total, status) => total + status.waiting, 0),
+    remaining: reported.length > 0 ? Math.min(...reported) : null,
+    message: isLimited ? `Next slot in ${secondsUntilSlot}s` : null
+  };
+}
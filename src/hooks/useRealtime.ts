@@ -0,0 +1,113 @@
+/**
+ * Realtime channel hooks
+ * Connects the session socket and turns pushed events into cache invalidations
+ */
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { realtimeChannel, RealtimeConnectionState } from '../api/realtime';
+import { isTerminalStatus } from '../api/tracker';
+import { useAuthStore } from '../stores/authStore';
+import { useServiceStatus } from './useServiceStatus';
+import { useVideoStore } from '../stores/videoStore';
+
+// Query keys whose data is derived from generation statuses
+const GENERATION_QUERY_KEYS = [['videoHistory'], ['dashboard-analytics']];
+
+// Coalesce bursts of pushed events (e.g. a catch-up replay) into one refetch
+const INVALIDATE_DEBOUNCE = 500;
+
+// === Connection Hook ===
+
+/**
+ * Keep the realtime channel open while the user is authenticated.
+ * Mount once near the root of the app.
+ */
+export function useRealtimeConnection(): RealtimeConnectionState {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const queryClient = useQueryClient();
+  const state = useRealtimeState();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      realtimeChannel.disconnect();
+      return;
+    }
+
+    realtimeChannel.connect();
+
+    let invalidateTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleInvalidate = () => {
+      if (invalidateTimer) return;
+      invalidateTimer = setTimeout(() => {
+        invalidateTimer = null;
+        GENERATION_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+        useVideoStore.getState().refreshVideoHistory();
+      }, INVALIDATE_DEBOUNCE);
+    };
+
+    const unsubscribeGeneration = realtimeChannel.on('generation', (event) => {
+      // Progress ticks only matter to trackers; lists change when a job starts or settles
+      if (!event.status || isTerminalStatus(event.status) || event.status === 'pending') {
+        scheduleInvalidate();
+      }
+    });
+
+    const unsubscribeQuota = realtimeChannel.on('quota', (event) => {
+      useAuthStore.setState(current => ({
+        user: current.user ? {
+          ...current.user,
+          quota_remaining: event.quota_remaining,
+          total_videos_generated: event.total_videos_generated ?? current.user.total_videos_generated
+        } : null
+      }));
+    });
+
+    const unsubscribeNotification = realtimeChannel.on('notification', (event) => {
+      const message = event.title ? `${event.title}: ${event.message}` : event.message;
+      if (event.type === 'error') {
+        toast.error(message);
+      } else if (event.type === 'success') {
+        toast.success(message);
+      } else {
+        toast(message);
+      }
+    });
+
+    return () => {
+      if (invalidateTimer) clearTimeout(invalidateTimer);
+      unsubscribeGeneration();
+      unsubscribeQuota();
+      unsubscribeNotification();
+    };
+  }, [isAuthenticated, queryClient]);
+
+  return state;
+}
+
+// === State Hooks ===
+
+/**
+ * Current realtime connection state
+ */
+export function useRealtimeState(): RealtimeConnectionState {
+  const [state, setState] = useState<RealtimeConnectionState>(() => realtimeChannel.getState());
+
+  useEffect(() => {
+    setState(realtimeChannel.getState());
+    return realtimeChannel.onStateChange(setState);
+  }, []);
+
+  return state;
+}
+
+/**
+ * Polling interval to use for a query: disabled while pushes keep the cache fresh,
+ * and during a backend outage so cached data stays on screen
+ */
+export function useRealtimeRefetchInterval(fallbackInterval: number): number | false {
+  const connected = useRealtimeState() === 'connected';
+  const { isDegraded } = useServiceStatus();
+  return connected || isDegraded ? false : fallbackInterval;
+}
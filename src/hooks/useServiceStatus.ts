@@ -0,0 +1,45 @@
+/**
+ * Service status hook
+ * Exposes the API circuit breaker so the app can switch to degraded mode during outages
+ */
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { circuitBreaker, CircuitState } from '../api/circuitBreaker';
+
+// === Service Status Hook ===
+
+export interface UseServiceStatusResult {
+  state: CircuitState;
+  isDegraded: boolean;            // backend outage - non-essential requests are short-circuited
+  isProbing: boolean;
+  secondsUntilProbe: number | null;
+  probeNow: () => Promise<boolean>;
+}
+
+export function useServiceStatus(): UseServiceStatusResult {
+  const snapshot = useSyncExternalStore(
+    useCallback((onChange: () => void) => circuitBreaker.subscribe(onChange), []),
+    () => circuitBreaker.getSnapshot()
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second while counting down to the next probe
+  useEffect(() => {
+    if (snapshot.nextProbeAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [snapshot.nextProbeAt]);
+
+  const probeNow = useCallback(() => circuitBreaker.probeNow(), []);
+
+  return {
+    state: snapshot.state,
+    isDegraded: snapshot.state !== 'closed',
+    isProbing: snapshot.state === 'half_open',
+    secondsUntilProbe: snapshot.nextProbeAt === null
+      ? null
+      : Math.max(0, Math.ceil((snapshot.nextProbeAt - now) / 1000)),
+    probeNow
+  };
+}
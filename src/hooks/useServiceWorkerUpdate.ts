@@ -0,0 +1,21 @@
+/**
+ * Service worker update hook
+ * Exposes a newly deployed version waiting to take over, so the app can offer a reload
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { applyUpdate, isUpdateAvailable, subscribeToUpdates } from '../lib/serviceWorker';
+
+// === Update Hook ===
+
+export interface UseServiceWorkerUpdateResult {
+  updateAvailable: boolean;
+  reload: () => void;             // activates the new version and reloads every open tab
+}
+
+export function useServiceWorkerUpdate(): UseServiceWorkerUpdateResult {
+  const updateAvailable = useSyncExternalStore(subscribeToUpdates, isUpdateAvailable);
+  const reload = useCallback(() => applyUpdate(), []);
+
+  return { updateAvailable, reload };
+}
@@ -0,0 +1,40 @@
+/**
+ * Shot builder hook
+ * Keeps the structured prompt parts and the free-text prompt in sync, in both directions
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { composePrompt, parsePrompt, ShotField, ShotFields } from '../services/shotBuilder';
+
+// === Shot Builder Hook ===
+
+export type PromptMode = 'raw' | 'structured';
+
+export interface UseShotBuilderResult {
+  mode: PromptMode;
+  setMode: (mode: PromptMode) => void;
+  fields: ShotFields;
+  setField: (field: ShotField, value: string) => void;
+}
+
+/**
+ * Structured edits rewrite the prompt; a prompt changed elsewhere (raw mode, a template,
+ * the workbench) is parsed back into parts, unless it's still exactly what the parts compose to
+ */
+export function useShotBuilder(prompt: string, onPromptChange: (prompt: string) => void): UseShotBuilderResult {
+  const [mode, setMode] = useState<PromptMode>('raw');
+  const [fields, setFields] = useState<ShotFields>(() => parsePrompt(prompt));
+
+  useEffect(() => {
+    if (mode !== 'structured') return;
+    setFields(current => (composePrompt(current) === prompt ? current : parsePrompt(prompt)));
+  }, [mode, prompt]);
+
+  const setField = useCallback((field: ShotField, value: string) => {
+    const next = { ...fields, [field]: value };
+    setFields(next);
+    onPromptChange(composePrompt(next));
+  }, [fields, onPromptChange]);
+
+  return { mode, setMode, fields, setField };
+}
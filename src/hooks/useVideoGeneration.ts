@@ -4,6 +4,8 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQueryClient, type InfiniteData, type QueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
 import { useVideoStore } from '../stores/videoStore';
 import { 
   VideoGenerationRequest, 
@@ -12,9 +14,13 @@ import {
   VideoStatus,
   VideoModel,
   AspectRatio,
-  UploadProgress 
+  UploadProgress,
+  UserVideosResponse
 } from '../api/types';
 import { VideoGenerationOptions } from '../services/videoService';
+import { generationTracker, isTerminalStatus, CANCELLING_STAGE } from '../api/tracker';
+import { api } from '../api/endpoints';
+import { useAbortSignal } from './useAbortSignal';
 
 // === Main Video Generation Hook ===
 
@@ -274,6 +280,144 @@ export function useProgressTracking(): UseProgressTrackingResult {
   };
 }
 
+// === Generation Tracking Hook ===
+
+export interface UseGenerationTrackingResult {
+  status: VideoStatusResponse | null;
+  error: string | null;
+  isTracking: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Subscribe a component to a generation through the shared tracker.
+ * Every surface watching the same generation_id shares one transport.
+ */
+export function useGenerationTracking(
+  generationId: string | null | undefined,
+  options: { realTime?: boolean } = {}
+): UseGenerationTrackingResult {
+  const { realTime = true } = options;
+  const [status, setStatus] = useState<VideoStatusResponse | null>(
+    () => (generationId ? generationTracker.getSnapshot(generationId) || null : null)
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isTracking, setIsTracking] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!generationId) {
+      setStatus(null);
+      setIsTracking(false);
+      return;
+    }
+
+    setError(null);
+    setStatus(generationTracker.getSnapshot(generationId) || null);
+
+    const unsubscribe = generationTracker.subscribe(
+      generationId,
+      (next) => {
+        setStatus(next);
+        if (isTerminalStatus(next.status)) {
+          setIsTracking(false);
+        }
+      },
+      {
+        realTime,
+        onError: (err) => {
+          setError(err.message);
+          setIsTracking(false);
+        }
+      }
+    );
+    setIsTracking(generationTracker.isTracking(generationId));
+
+    return unsubscribe;
+  }, [generationId, realTime, attempt]);
+
+  const getSignal = useAbortSignal();
+
+  const refresh = useCallback(async () => {
+    if (!generationId) return;
+    const signal = getSignal();
+    try {
+      setError(null);
+      const next = await generationTracker.refresh(generationId, { signal });
+      setStatus(next);
+      // Resume tracking if it previously gave up on a job that is still running
+      if (!isTerminalStatus(next.status) && !generationTracker.isTracking(generationId)) {
+        setAttempt(count => count + 1);
+      }
+    } catch (err) {
+      // Unmounted while the refresh was in flight
+      if (signal.aborted) return;
+      setError((err as Error).message);
+    }
+  }, [generationId, getSignal]);
+
+  return { status, error, isTracking, refresh };
+}
+
+// === Cancellation Hook ===
+
+const HISTORY_QUERY_KEY = ['videoHistory'];
+
+// History caches hold either one page of jobs or the pages loaded by continuous scrolling
+type HistoryQueryData =
+  | { jobs: VideoStatusResponse[]; total: number }
+  | InfiniteData<UserVideosResponse>
+  | undefined;
+
+const patchHistoryItem = (
+  queryClient: QueryClient,
+  generationId: string,
+  patch: Partial<VideoStatusResponse>
+) => {
+  const patchJobs = (jobs: VideoStatusResponse[]) => jobs.map(job =>
+    job.generation_id === generationId ? { ...job, ...patch } : job
+  );
+
+  queryClient.setQueriesData<HistoryQueryData>({ queryKey: HISTORY_QUERY_KEY }, data => {
+    if (data && 'pages' in data) {
+      return { ...data, pages: data.pages.map(page => ({ ...page, videos: patchJobs(page.videos) })) };
+    }
+    return data?.jobs ? { ...data, jobs: patchJobs(data.jobs) } : data;
+  });
+};
+
+/**
+ * Cancel a generation from any surface.
+ * Tracked views update through the shared tracker; cached History rows are patched
+ * optimistically and restored if the server refuses. Resolves to whether it succeeded.
+ */
+export function useCancelGeneration(): (generationId: string) => Promise<boolean> {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (generationId: string) => {
+    await queryClient.cancelQueries({ queryKey: HISTORY_QUERY_KEY });
+    const previous = queryClient.getQueriesData<HistoryQueryData>({ queryKey: HISTORY_QUERY_KEY });
+    patchHistoryItem(queryClient, generationId, { stage: CANCELLING_STAGE });
+
+    try {
+      const status = await api.video.cancelGeneration(generationId);
+      patchHistoryItem(queryClient, generationId, {
+        status: status.status,
+        stage: status.stage,
+        message: status.message
+      });
+      toast.success('Generation cancelled');
+      return true;
+    } catch (err) {
+      previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel generation');
+      return false;
+    } finally {
+      void queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+    }
+  }, [queryClient]);
+}
+
 // === Settings Hook ===
 
 export interface UseVideoSettingsResult {
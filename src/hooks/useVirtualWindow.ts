@@ -0,0 +1,206 @@
+/**
+ * useVirtualWindow Hook - Windowed rendering for long scrollable lists
+ * Renders only the rows near the viewport of a scroll container and restores its scroll position
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface UseVirtualWindowOptions {
+  count: number; // Number of rows (a grid row may hold several items)
+  estimateHeight: number; // Row height in px until the row has been measured
+  overscan?: number; // Rows rendered beyond each edge of the viewport
+  restoreKey?: string; // sessionStorage key used to restore the scroll position on remount
+}
+
+interface UseVirtualWindowResult {
+  containerRef: React.RefObject<HTMLDivElement>;
+  onScroll: () => void;
+  startIndex: number;
+  endIndex: number; // Exclusive
+  offsetTop: number; // Offset of the first rendered row
+  totalHeight: number;
+  measureRow: (index: number) => (element: HTMLElement | null) => void;
+}
+
+const STORAGE_PREFIX = 'virtual_scroll:';
+
+const readStoredOffset = (key?: string): number | null => {
+  if (!key) return null;
+  try {
+    const stored = Number(sessionStorage.getItem(STORAGE_PREFIX + key));
+    return Number.isFinite(stored) && stored > 0 ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeOffset = (key: string, offset: number) => {
+  try {
+    sessionStorage.setItem(STORAGE_PREFIX + key, String(Math.round(offset)));
+  } catch {
+    // Storage full or unavailable - restoring is best effort
+  }
+};
+
+/**
+ * Index of the last row starting at or before the offset
+ */
+const findRow = (offsets: number[], offset: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * useVirtualWindow Hook
+ *
+ * This hook:
+ * 1. Tracks the scroll offset and height of a scroll container
+ * 2. Measures rendered rows, falling back to an estimate for unseen ones
+ * 3. Returns the visible row range plus spacer sizes for the rest
+ * 4. Saves the scroll offset per restoreKey and re-applies it as rows load
+ */
+export const useVirtualWindow = ({
+  count,
+  estimateHeight,
+  overscan = 3,
+  restoreKey
+}: UseVirtualWindowOptions): UseVirtualWindowResult => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<number, number>());
+  const observers = useRef(new Map<number, ResizeObserver>());
+  const pendingRestore = useRef<number | null>(readStoredOffset(restoreKey));
+  const frame = useRef<number | null>(null);
+
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measureVersion, setMeasureVersion] = useState(0);
+
+  // Row start offsets; offsets[count] is the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let index = 0; index < count; index++) {
+      result[index + 1] = result[index] + (heights.current.get(index) ?? estimateHeight);
+    }
+    return result;
+    // measureVersion invalidates the memo when a row height changes
+  }, [count, estimateHeight, measureVersion]);
+
+  const totalHeight = offsets[count];
+  const firstVisible = count > 0 ? findRow(offsets, scrollTop) : 0;
+  const lastVisible = count > 0 ? findRow(offsets, scrollTop + viewportHeight) : -1;
+  const startIndex = Math.max(0, firstVisible - overscan);
+  const endIndex = Math.min(count, lastVisible + 1 + overscan);
+
+  const onScroll = useCallback(() => {
+    if (frame.current !== null) return;
+    frame.current = requestAnimationFrame(() => {
+      frame.current = null;
+      const container = containerRef.current;
+      if (!container) return;
+      setScrollTop(container.scrollTop);
+      if (restoreKey && pendingRestore.current === null) {
+        storeOffset(restoreKey, container.scrollTop);
+      }
+    });
+  }, [restoreKey]);
+
+  const measureRow = useCallback((index: number) => (element: HTMLElement | null) => {
+    observers.current.get(index)?.disconnect();
+    observers.current.delete(index);
+    if (!element) return;
+
+    const record = () => {
+      const height = element.getBoundingClientRect().height;
+      if (height > 0 && heights.current.get(index) !== height) {
+        heights.current.set(index, height);
+        setMeasureVersion(version => version + 1);
+      }
+    };
+
+    record();
+    if (typeof ResizeObserver !== 'undefined') {
+      const observer = new ResizeObserver(record);
+      observer.observe(element);
+      observers.current.set(index, observer);
+    }
+  }, []);
+
+  // Track the container height
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const update = () => setViewportHeight(container.clientHeight);
+    update();
+
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', update);
+      return () => window.removeEventListener('resize', update);
+    }
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // A new key (e.g. different filters) starts from its own saved position
+  useEffect(() => {
+    heights.current.clear();
+    pendingRestore.current = readStoredOffset(restoreKey);
+    setMeasureVersion(version => version + 1);
+  }, [restoreKey]);
+
+  // Re-apply the saved offset as rows load until it is reached or the user scrolls
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const target = pendingRestore.current;
+    if (!container || target === null || count === 0) return;
+
+    container.scrollTop = target;
+    setScrollTop(container.scrollTop);
+    if (container.scrollTop >= target - 1) {
+      pendingRestore.current = null;
+    }
+  }, [count, totalHeight]);
+
+  // Any user input takes over from a pending restore
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const cancelRestore = () => {
+      pendingRestore.current = null;
+    };
+    const events = ['wheel', 'touchstart', 'keydown', 'mousedown'] as const;
+    events.forEach(event => container.addEventListener(event, cancelRestore, { passive: true }));
+    return () => events.forEach(event => container.removeEventListener(event, cancelRestore));
+  }, []);
+
+  // Cleanup
+  useEffect(() => () => {
+    if (frame.current !== null) cancelAnimationFrame(frame.current);
+    observers.current.forEach(observer => observer.disconnect());
+    observers.current.clear();
+  }, []);
+
+  return {
+    containerRef,
+    onScroll,
+    startIndex,
+    endIndex,
+    offsetTop: offsets[startIndex] ?? 0,
+    totalHeight,
+    measureRow
+  };
+};
+
+export default useVirtualWindow;
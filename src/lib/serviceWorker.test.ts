@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Minimal worker and registration that tests drive through their lifecycle
+class FakeWorker extends EventTarget {
+  state = 'installing';
+  postMessage = vi.fn();
+
+  setState(state: string) {
+    this.state = state;
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+class FakeRegistration extends EventTarget {
+  installing: FakeWorker | null = null;
+  waiting: FakeWorker | null = null;
+  update = vi.fn(() => Promise.resolve());
+
+  startUpdate() {
+    this.installing = new FakeWorker();
+    this.dispatchEvent(new Event('updatefound'));
+    return this.installing;
+  }
+}
+
+class FakeContainer extends EventTarget {
+  controller: object | null = {};
+  register = vi.fn();
+}
+
+// Fresh module per test - update state lives for the page load
+const loadServiceWorker = async () => {
+  vi.resetModules();
+  return import('./serviceWorker');
+};
+
+describe('service worker updates', () => {
+  let container: FakeContainer;
+  let registration: FakeRegistration;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    registration = new FakeRegistration();
+    container = new FakeContainer();
+    container.register.mockResolvedValue(registration);
+    Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete (navigator as any).serviceWorker;
+  });
+
+  it('should not offer a reload for the first install', async () => {
+    container.controller = null;
+    const { registerServiceWorker, isUpdateAvailable } = await loadServiceWorker();
+
+    await registerServiceWorker();
+    registration.startUpdate().setState('installed');
+
+    expect(container.register).toHaveBeenCalledWith('/sw.js');
+    expect(isUpdateAvailable()).toBe(false);
+  });
+
+  it('should offer a reload once a new version has installed', async () => {
+    const { registerServiceWorker, isUpdateAvailable, subscribeToUpdates } = await loadServiceWorker();
+    const listener = vi.fn();
+    subscribeToUpdates(listener);
+
+    await registerServiceWorker();
+    const worker = registration.startUpdate();
+    expect(isUpdateAvailable()).toBe(false);
+
+    worker.setState('installed');
+    expect(isUpdateAvailable()).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pick up a version left waiting by an earlier visit', async () => {
+    registration.waiting = new FakeWorker();
+    const { registerServiceWorker, isUpdateAvailable } = await loadServiceWorker();
+
+    await registerServiceWorker();
+
+    expect(isUpdateAvailable()).toBe(true);
+  });
+
+  it('should hand over to the waiting version and reload once it takes control', async () => {
+    const reload = vi.fn();
+    vi.spyOn(window, 'location', 'get').mockReturnValue({ ...window.location, reload });
+    const waiting = new FakeWorker();
+    registration.waiting = waiting;
+    const { registerServiceWorker, applyUpdate } = await loadServiceWorker();
+    await registerServiceWorker();
+
+    applyUpdate();
+    expect(waiting.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+    expect(reload).not.toHaveBeenCalled();
+
+    container.dispatchEvent(new Event('controllerchange'));
+    container.dispatchEvent(new Event('controllerchange'));
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check for new deploys periodically', async () => {
+    const { registerServiceWorker } = await loadServiceWorker();
+    await registerServiceWorker();
+
+    vi.advanceTimersByTime(60 * 60 * 1000);
+
+    expect(registration.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ask the active worker to drop cached API responses', async () => {
+    const controller = { postMessage: vi.fn() };
+    container.controller = controller;
+    const { clearApiCache } = await loadServiceWorker();
+
+    clearApiCache();
+
+    expect(controller.postMessage).toHaveBeenCalledWith({ type: 'CLEAR_API_CACHE' });
+  });
+});
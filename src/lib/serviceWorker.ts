@@ -0,0 +1,99 @@
+/**
+ * Service Worker Registration
+ * Features: registration in production builds, detection of a new version waiting to take
+ * over, hand-off and reload when the user accepts the update prompt, clearing cached account
+ * data on sign-out
+ */
+
+// Service Worker Configuration
+const SW_URL = '/sw.js';
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;   // long-lived tabs look for a new deploy hourly
+const SKIP_WAITING_MESSAGE = 'SKIP_WAITING';     // handled in src/sw.js
+const CLEAR_API_CACHE_MESSAGE = 'CLEAR_API_CACHE';
+
+// Update state
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+const setWaitingWorker = (worker: ServiceWorker | null): void => {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Whether a new version is installed and waiting for the user to reload
+ */
+export const isUpdateAvailable = (): boolean => waitingWorker !== null;
+
+export const subscribeToUpdates = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const trackInstallingWorker = (registration: ServiceWorkerRegistration): void => {
+  const worker = registration.installing;
+  if (!worker) return;
+
+  worker.addEventListener('statechange', () => {
+    // Without a controller this is the first install, not an update
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+      setWaitingWorker(worker);
+    }
+  });
+};
+
+// Register the service worker and watch for updates
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+
+  try {
+    const registration = await navigator.serviceWorker.register(SW_URL);
+
+    // A version installed during an earlier visit may still be waiting
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      setWaitingWorker(registration.waiting);
+    }
+
+    registration.addEventListener('updatefound', () => {
+      console.log('[SW] Update found, installing new version...');
+      trackInstallingWorker(registration);
+    });
+
+    setInterval(() => {
+      registration.update().catch(() => {
+        // Offline or the deploy is mid-flight - try again next interval
+      });
+    }, UPDATE_CHECK_INTERVAL);
+
+    return registration;
+  } catch (error) {
+    console.error('[SW] Registration failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Let the waiting version take over, then reload once it controls the page
+ */
+export const applyUpdate = (): void => {
+  if (!waitingWorker) return;
+
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  waitingWorker.postMessage({ type: SKIP_WAITING_MESSAGE });
+};
+
+/**
+ * Drop cached API responses so the next account on this browser can't read them offline
+ */
+export const clearApiCache = (): void => {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.controller?.postMessage({ type: CLEAR_API_CACHE_MESSAGE });
+};
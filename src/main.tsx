@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import App from './App';
 import { initializeGA4 } from './lib/analytics';
 import { initializeSentry } from './lib/sentry';
+import { registerServiceWorker } from './lib/serviceWorker';
 import './styles/globals.css';
 
 const queryClient = new QueryClient({
@@ -24,23 +25,10 @@ if (import.meta.env.PROD) {
   // Initialize Sentry Error Reporting for production monitoring
   initializeSentry();
   
-  // Register service worker for performance optimization
-  if ('serviceWorker' in navigator) {
-    window.addEventListener('load', () => {
-      navigator.serviceWorker.register('/sw.js')
-        .then((registration) => {
-          console.log('[SW] Registration successful:', registration);
-          
-          // Check for updates
-          registration.addEventListener('updatefound', () => {
-            console.log('[SW] Update found, installing new version...');
-          });
-        })
-        .catch((error) => {
-          console.error('[SW] Registration failed:', error);
-        });
-    });
-  }
+  // Register service worker for performance optimization; new versions surface as an in-app reload prompt
+  window.addEventListener('load', () => {
+    void registerServiceWorker();
+  });
 } else {
   console.log('Observability: Skipped in development (GA4 & Sentry)');
   console.log('Service Worker: Skipped in development');
@@ -25,8 +25,10 @@
 
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import { readReturnTo } from '../api/client';
+import { isSandboxEnabled, SANDBOX_DEMO_ACCOUNT } from '../api/sandbox';
 import type { RegisterData } from '../services/api';
 import { 
   User, 
@@ -72,6 +74,8 @@ const Auth = () => {
   const [rememberMe, setRememberMe] = useState(false);
   
   const navigate = useNavigate();
+  const location = useLocation();
+  const returnTo = readReturnTo(location.search);
   const { login, register: registerUser, isLoading, error, clearError, isAuthenticated } = useAuthStore();
   
   const { register, handleSubmit, formState: { errors }, watch, reset } = useForm<RegisterData>();
@@ -81,9 +85,9 @@ const Auth = () => {
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated) {
-      navigate('/');
+      navigate(returnTo, { replace: true });
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, returnTo]);
 
   // Clear errors when switching between login/register
   useEffect(() => {
@@ -98,7 +102,7 @@ const Auth = () => {
       } else {
         await registerUser(data);
       }
-      navigate('/');
+      navigate(returnTo, { replace: true });
     } catch (error) {
       // Error handling is done in the store
       console.error('Auth failed:', error);
@@ -206,6 +210,22 @@ const Auth = () => {
               </div>
             </div>
 
+            {/* Sandbox Notice - no backend, any data stays in this browser */}
+            {isSandboxEnabled() && isLogin && (
+              <div className="mb-6 p-4 bg-neural-cyan/10 border border-neural-cyan/20 rounded-lg text-sm text-gray-300">
+                <p className="mb-2">
+                  <span className="font-semibold text-neural-cyan">Sandbox mode</span> - videos are simulated in your browser.
+                </p>
+                <button
+                  type="button"
+                  onClick={() => reset({ email: SANDBOX_DEMO_ACCOUNT.email, password: SANDBOX_DEMO_ACCOUNT.password })}
+                  className="text-neural-cyan hover:underline"
+                >
+                  Use the demo account
+                </button>
+              </div>
+            )}
+
             {/* Error Display */}
             {error && (
               <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center space-x-3">
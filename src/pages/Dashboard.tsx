@@ -53,6 +53,8 @@ import { format, subDays, isToday, isYesterday } from 'date-fns';
 import { useAuthStore } from '../stores/authStore';
 import { useVideoStore } from '../stores/videoStore';
 import { api } from '../api/endpoints';
+import { isRequestCancelled } from '../api/client';
+import { useRealtimeRefetchInterval } from '../hooks/useRealtime';
 
 // Chart colors matching neural theme
 const CHART_COLORS = {
@@ -90,14 +92,15 @@ const Dashboard = () => {
   }, [user, loadVideoHistory]);
 
   // Fetch comprehensive dashboard data with real API integration
+  const analyticsRefetchInterval = useRealtimeRefetchInterval(30000);
   const { data: dashboardAnalytics } = useQuery({
     queryKey: ['dashboard-analytics', user?.id, timeRange],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!user) return null;
       
       try {
         // In a real implementation, these would be separate API endpoints
-        const userVideos = await api.video.getUserVideos({ limit: 100 });
+        const userVideos = await api.video.getUserVideos({ limit: 100 }, { signal });
         
         return {
           videos: userVideos,
@@ -105,12 +108,16 @@ const Dashboard = () => {
           recentTrends: generateTrendData(userVideos, timeRange)
         };
       } catch (error) {
+        // Backend outage - keep showing the cached analytics
+        if ((error as { code?: string })?.code === 'SERVICE_UNAVAILABLE') throw error;
+        // Left the page - don't cache the empty fallback
+        if (isRequestCancelled(error)) throw error;
         console.error('Failed to load analytics:', error);
         return { videos: [], totalGenerations: 0, recentTrends: [] };
       }
     },
     enabled: !!user,
-    refetchInterval: 30000 // Refresh every 30 seconds
+    refetchInterval: analyticsRefetchInterval // Pushed over the realtime channel; refresh every 30 seconds without it
   });
 
   // Generate trend data for charts
@@ -98,6 +98,19 @@ vi.mock('../stores/authStore', () => ({
   }),
 }));
 
+// Mock the model capability matrix - serve the built-in models without fetching
+vi.mock('../hooks/useModelCapabilities', async () => {
+  const { FALLBACK_CAPABILITIES, modelCapabilities } = await vi.importActual<typeof import('../api/models')>('../api/models');
+  return {
+    useModelCapabilities: () => ({
+      models: FALLBACK_CAPABILITIES,
+      getCapabilities: (model: string | null | undefined) => modelCapabilities.get(model),
+      isRefreshing: false,
+      isLive: false,
+    }),
+  };
+});
+
 // Mock React Router hooks
 vi.mock('react-router-dom', async () => {
   const actual = await vi.importActual('react-router-dom');
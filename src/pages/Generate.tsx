@@ -25,7 +25,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { 
   Upload, 
   Image as ImageIcon, 
@@ -44,13 +44,54 @@ import {
   Info,
   BookOpen,
   Lightbulb,
-  TrendingUp
+  TrendingUp,
+  RotateCcw,
+  Unlink,
+  Link2,
+  Clock,
+  Cpu,
+  Lock,
+  Unlock,
+  Dices
 } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
 import { api } from '../api/endpoints';
 import type { VideoGenerationRequest } from '../api/types';
 import { AspectRatio } from '../api/types';
-import { DEFAULT_SCENE_TEMPLATES } from '../services/sceneTemplates';
+import { DEFAULT_SCENE_TEMPLATES, type SceneTemplate } from '../services/sceneTemplates';
+import {
+  buildTemplateMetadata,
+  findMissingVariables,
+  findSceneTemplate,
+  hasUnfilledPlaceholders,
+  renderTemplate,
+  resolveIncomingTemplate,
+  type TemplateValues
+} from '../services/templateInstantiation';
+import {
+  copySettingsLink,
+  readSettingsFromParams,
+  type GenerationSettings
+} from '../services/settingsLink';
+import {
+  DEFAULT_RETRY_POLICY,
+  FAILURE_CLASS_LABELS,
+  type FailureClass
+} from '../api/retries';
+import { RATE_LIMITED_ENDPOINTS } from '../api/rateLimits';
+import { isOfflineQueued } from '../api/offlineQueue';
+import { fitToModel, isSeed, MAX_SEED, modelCapabilities, randomSeed } from '../api/models';
+import { useRateLimitStatus } from '../hooks/useRateLimitStatus';
+import { useModelCapabilities } from '../hooks/useModelCapabilities';
+import { TemplateVariablesForm } from '../components/video/TemplateVariablesForm';
+import { PromptWorkbench } from '../components/video/PromptWorkbench';
+import { PromptLintPanel } from '../components/video/PromptLintPanel';
+import { ShotBuilder } from '../components/video/ShotBuilder';
+import { usePromptWorkbench } from '../hooks/usePromptWorkbench';
+import { usePromptLint } from '../hooks/usePromptLint';
+import { useShotBuilder } from '../hooks/useShotBuilder';
+import type { LintFix } from '../services/promptLinter';
+import { PROMPT_LENGTH_LIMITS } from '../services/videos';
 import { toast } from 'react-hot-toast';
 
 // Enhanced form interface with all Veo3 capabilities
@@ -66,10 +107,15 @@ interface EnhancedVideoForm extends VideoGenerationRequest {
   qualityLevel?: string;
   industry?: string;
   sceneType?: string;
-  // Advanced settings
+  // Advanced settings, sent as first-class request fields
   seed?: number;
+  seedLocked?: boolean;           // reuse the seed above; otherwise each generation draws a fresh one
   guidanceScale?: number;
   negativePrompt?: string;
+  // Automatic retry policy
+  autoRetry?: boolean;
+  retryMaxAttempts?: number;
+  retryOn?: FailureClass[];
   // Cost tracking
   estimatedCost?: number;
   estimatedTime?: number;
@@ -88,30 +134,61 @@ const cardVariants = {
   hover: { scale: 1.02 }
 };
 
+// Display details for every ratio a model may support; the selected model decides which are offered
+const ASPECT_RATIO_OPTIONS: Record<AspectRatio, { label: string; desc: string; shape: string }> = {
+  [AspectRatio.LANDSCAPE]: { label: 'Landscape', desc: '1920×1080', shape: 'w-8 h-5' },
+  [AspectRatio.PORTRAIT]: { label: 'Portrait', desc: '1080×1920', shape: 'w-5 h-8' },
+  [AspectRatio.SQUARE]: { label: 'Square', desc: '1080×1080', shape: 'w-6 h-6' },
+  [AspectRatio.TRADITIONAL]: { label: 'Traditional', desc: '1440×1080', shape: 'w-8 h-6' },
+  [AspectRatio.CINEMA]: { label: 'Cinema', desc: '2560×1080', shape: 'w-9 h-4' }
+};
+
+const describeDurations = (durations: number[]) =>
+  durations.length === 1 ? `${durations[0]}s` : `${durations[0]}–${durations[durations.length - 1]}s`;
+
+// Empty number inputs mean "not set" rather than 0
+const optionalNumber = (value: unknown) =>
+  value === '' || value === null || value === undefined ? undefined : Number(value);
+
 const Generate = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
   const { user } = useAuthStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Seed drawn for an unlocked submission; kept until the backend accepts it so a resubmit after an
+  // ambiguous failure sends the same request and reuses its idempotency key
+  const pendingSeed = useRef<number | null>(null);
   
   // Form state
   const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<EnhancedVideoForm>({
     defaultValues: {
       prompt: '',
+      enhance_prompt: true,
+      model: modelCapabilities.getDefaultModel(),
       aspect_ratio: AspectRatio.LANDSCAPE,
       duration: 5,
       style: 'cinematic',
       currentStep: 1,
       costTier: 'standard',
-      qualityLevel: 'production'
+      qualityLevel: 'production',
+      seedLocked: false,
+      autoRetry: true,
+      retryMaxAttempts: DEFAULT_RETRY_POLICY.max_attempts,
+      retryOn: DEFAULT_RETRY_POLICY.retry_on
     }
   });
   
   // Component state
   const [isGenerating, setIsGenerating] = useState(false);
+  const generateRateLimit = useRateLimitStatus(RATE_LIMITED_ENDPOINTS.GENERATE);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
-  const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
+  const [activeTemplate, setActiveTemplate] = useState<SceneTemplate | null>(null);
+  const [templateValues, setTemplateValues] = useState<TemplateValues>({});
+  const [showTemplateErrors, setShowTemplateErrors] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showWorkbench, setShowWorkbench] = useState(false);
   const [estimatedCost, setEstimatedCost] = useState<number>(0);
   const [estimatedTime, setEstimatedTime] = useState<number>(0);
 
@@ -122,6 +199,60 @@ const Generate = () => {
   const duration = watch('duration');
   const style = watch('style');
   const currentStep = watch('currentStep');
+  const model = watch('model');
+  const seed = watch('seed');
+  const seedLocked = watch('seedLocked');
+  const guidanceScale = watch('guidanceScale');
+  const negativePrompt = watch('negativePrompt');
+
+  // Live capability matrix; the form only offers what the selected model accepts
+  const { models, getCapabilities } = useModelCapabilities();
+  const capabilities = getCapabilities(model);
+
+  const setPrompt = useCallback((value: string) => setValue('prompt', value, { shouldValidate: true }), [setValue]);
+
+  // Structured shot builder, kept in sync with the free-text prompt
+  const shotBuilder = useShotBuilder(prompt || '', setPrompt);
+  const { setMode: setPromptMode } = shotBuilder;
+
+  // Prompt workbench: reviewed enhancements and suggestions for the prompt step
+  const workbench = usePromptWorkbench({
+    prompt: prompt || '',
+    onPromptChange: setPrompt,
+    enhanceOnGenerate: watchedValues.enhance_prompt !== false,
+    onEnhanceOnGenerateChange: useCallback((enhance: boolean) => setValue('enhance_prompt', enhance), [setValue]),
+    preferredStyle: style,
+    industry: watchedValues.industry,
+    enabled: currentStep === 2 && showWorkbench
+  });
+
+  // Prompt linter, with terms the safety filter rejected in this user's failed generations
+  const { warnings: lintWarnings } = usePromptLint({
+    prompt: prompt || '',
+    aspectRatio,
+    aspectRatios: capabilities.aspect_ratios,
+    duration: Number(duration),
+    enabled: currentStep === 2 && Boolean(user)
+  });
+
+  const applyLintFix = useCallback((fix: LintFix) => {
+    switch (fix.kind) {
+      case 'edit':
+        setPrompt(fix.apply(prompt || ''));
+        break;
+      case 'aspect_ratio':
+        setValue('aspect_ratio', fix.value, { shouldValidate: true });
+        break;
+      case 'workbench':
+        setShowWorkbench(true);
+        break;
+    }
+  }, [prompt, setPrompt, setValue]);
+
+  // Template placeholders that still need values
+  const selectedTemplate = activeTemplate?.id ?? null;
+  const missingTemplateVariables = activeTemplate ? findMissingVariables(activeTemplate, templateValues) : [];
+  const isTemplateIncomplete = missingTemplateVariables.length > 0 || hasUnfilledPlaceholders(prompt || '');
 
   // Real-time cost estimation
   useEffect(() => {
@@ -130,6 +261,7 @@ const Generate = () => {
         try {
           const response = await api.video.estimateCost({
             prompt,
+            model,
             aspect_ratio: aspectRatio,
             duration,
             metadata: style ? { style } : undefined,
@@ -143,10 +275,63 @@ const Generate = () => {
       };
       estimateCostAsync();
     }
-  }, [prompt, aspectRatio, duration, style, imagePreview]);
+  }, [prompt, model, aspectRatio, duration, style, imagePreview]);
+
+  // Re-fit duration, aspect ratio, image and generation parameters whenever the model, the matrix or those fields change
+  const fittedModel = useRef(model);
+  useEffect(() => {
+    // A model the backend no longer offers (e.g. from an old settings link) falls back to the default
+    if (!capabilities.available) {
+      const replacement = modelCapabilities.getDefaultModel();
+      if (replacement !== model) {
+        setValue('model', replacement);
+        return;
+      }
+    }
+
+    const fitted = fitToModel(capabilities, {
+      duration: Number(duration),
+      aspect_ratio: aspectRatio || AspectRatio.LANDSCAPE,
+      has_image: Boolean(imagePreview),
+      seed: optionalNumber(seed),
+      guidance_scale: optionalNumber(guidanceScale),
+      negative_prompt: negativePrompt
+    });
+    const switchedModel = fittedModel.current !== model;
+    fittedModel.current = model;
+    if (fitted.changes.length === 0) return;
+
+    setValue('duration', fitted.duration, { shouldValidate: true });
+    setValue('aspect_ratio', fitted.aspect_ratio, { shouldValidate: true });
+    if (fitted.drop_image) {
+      setImagePreview(null);
+      setValue('image_base64', '');
+    }
+    // Unsupported parameters are cleared at once; an out-of-range guidance scale is only moved on a
+    // model switch so typing isn't fought - validation reports it otherwise
+    if (!capabilities.seed && seedLocked) {
+      setValue('seed', undefined);
+      setValue('seedLocked', false);
+    }
+    if (!capabilities.guidance_scale || switchedModel) {
+      setValue('guidanceScale', fitted.guidance_scale ?? undefined, { shouldValidate: true });
+    }
+    if (!capabilities.negative_prompt && negativePrompt) {
+      setValue('negativePrompt', '');
+    }
+    // Explain only what the user's own model switch changed; matrix refreshes adjust silently
+    if (switchedModel) {
+      toast(`${capabilities.label}: ${fitted.changes.join(', ')}`);
+    }
+  }, [capabilities, model, duration, aspectRatio, imagePreview, seed, seedLocked, guidanceScale, negativePrompt, setValue]);
 
   // Image upload handlers
   const handleImageUpload = useCallback((file: File) => {
+    if (!capabilities.image_conditioning) {
+      toast.error(`${capabilities.label} doesn't accept a starting image`);
+      return;
+    }
+
     if (!file.type.startsWith('image/')) {
       toast.error('Please upload an image file');
       return;
@@ -165,7 +350,7 @@ const Generate = () => {
       toast.success('Image uploaded successfully!');
     };
     reader.readAsDataURL(file);
-  }, [setValue]);
+  }, [capabilities, setValue]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -188,19 +373,128 @@ const Generate = () => {
   }, [handleImageUpload]);
 
   // Template application
+  const loadTemplate = useCallback((template: SceneTemplate) => {
+    setValue('prompt', template.promptTemplate);
+    setValue('style', template.visualStyle.toLowerCase().includes('cinematic') ? 'cinematic' : 'realistic');
+    setValue('category', template.industry as any);
+    setValue('industry', template.industry);
+    setActiveTemplate(template);
+    setTemplateValues({});
+    setShowTemplateErrors(false);
+    // Template variables drive the prompt from here, so the shot builder steps aside
+    setPromptMode('raw');
+  }, [setValue, setPromptMode]);
+
   const applyTemplate = (templateId: string) => {
-    const allTemplates = Object.values(DEFAULT_SCENE_TEMPLATES).flat();
-    const template = allTemplates.find(t => t.id === templateId);
+    const template = findSceneTemplate(templateId);
     
     if (template) {
-      setValue('prompt', template.promptTemplate);
-      setValue('style', template.visualStyle.toLowerCase().includes('cinematic') ? 'cinematic' : 'realistic');
-      setValue('category', template.industry as any);
-      setSelectedTemplate(templateId);
+      loadTemplate(template);
       toast.success(`Applied ${template.name} template`);
     }
   };
 
+  // Restore every field from a shared settings link; conditioning images are never shared
+  const applySettings = useCallback((settings: GenerationSettings) => {
+    const { currentStep: step, templateId, templateValues: values, ...fields } = settings;
+    (Object.keys(fields) as (keyof typeof fields)[]).forEach(field => {
+      if (fields[field] !== undefined) setValue(field, fields[field] as never);
+    });
+    setValue('image_base64', undefined);
+    setImagePreview(null);
+    // The link's prompt is already rendered; the template comes back so its variables stay editable
+    const template = templateId ? findSceneTemplate(templateId) : undefined;
+    setActiveTemplate(template || null);
+    setTemplateValues(template ? values || {} : {});
+    if (template) setPromptMode('raw');
+    // A shared seed is locked so the link reproduces the same result
+    setValue('seedLocked', isSeed(fields.seed));
+    setShowAdvanced(Boolean(fields.negativePrompt || fields.seed !== undefined || fields.guidanceScale !== undefined));
+    setValue('currentStep', Math.min(3, Math.max(1, Math.round(step || 1))));
+  }, [setValue, setPromptMode]);
+
+  // Accept shared settings (?s=), or a template handed over by the Templates page or a ?template= deep link
+  const appliedHandoffKey = useRef<string | null>(null);
+  useEffect(() => {
+    if (appliedHandoffKey.current === location.key) return;
+    appliedHandoffKey.current = location.key;
+
+    const sharedSettings = readSettingsFromParams(searchParams);
+    if (sharedSettings) {
+      applySettings(sharedSettings);
+      return;
+    }
+
+    const incoming = resolveIncomingTemplate(location.state, searchParams);
+    if (incoming) {
+      loadTemplate(incoming);
+      setValue('currentStep', 2);
+    }
+  }, [location.key, location.state, searchParams, applySettings, loadTemplate, setValue]);
+
+  // Restore the template's original prompt and settings
+  const resetToTemplate = () => {
+    if (activeTemplate) {
+      loadTemplate(activeTemplate);
+      toast.success(`Reset to ${activeTemplate.name}`);
+    }
+  };
+
+  // Re-render the prompt whenever a template variable changes
+  const updateTemplateValues = (values: TemplateValues) => {
+    setTemplateValues(values);
+    if (activeTemplate) {
+      setValue('prompt', renderTemplate(activeTemplate.promptTemplate, values));
+    }
+  };
+
+  // Keep the current prompt but stop treating it as a template instance
+  const detachTemplate = () => {
+    setActiveTemplate(null);
+    setTemplateValues({});
+    setShowTemplateErrors(false);
+  };
+
+  // Seed controls: a locked seed reproduces a result, a fresh one varies it
+  const lockSeed = () => {
+    if (!isSeed(optionalNumber(seed))) setValue('seed', randomSeed());
+    setValue('seedLocked', true, { shouldValidate: true });
+  };
+
+  const unlockSeed = () => {
+    setValue('seed', undefined);
+    setValue('seedLocked', false, { shouldValidate: true });
+  };
+
+  const randomiseSeed = () => {
+    setValue('seed', randomSeed(), { shouldValidate: true });
+    setValue('seedLocked', true);
+  };
+
+  // Share the current wizard state as a link
+  const handleCopySettingsLink = async () => {
+    try {
+      await copySettingsLink({
+        prompt: watchedValues.prompt,
+        model: watchedValues.model || undefined,
+        aspect_ratio: watchedValues.aspect_ratio,
+        duration: Number(watchedValues.duration),
+        style: watchedValues.style,
+        costTier: watchedValues.costTier,
+        qualityLevel: watchedValues.qualityLevel,
+        negativePrompt: watchedValues.negativePrompt,
+        seed: watchedValues.seedLocked ? optionalNumber(watchedValues.seed) : undefined,
+        guidanceScale: optionalNumber(watchedValues.guidanceScale),
+        templateId: activeTemplate?.id,
+        templateValues: activeTemplate ? templateValues : undefined,
+        currentStep
+      });
+      toast.success('Settings link copied');
+    } catch {
+      toast.error('Failed to copy settings link');
+    }
+  };
+
   // Form submission
   const onSubmit = async (data: EnhancedVideoForm) => {
     if (!user) {
@@ -214,24 +508,56 @@ const Generate = () => {
       return;
     }
 
+    if (isTemplateIncomplete) {
+      setShowTemplateErrors(true);
+      setValue('currentStep', 2);
+      toast.error('Fill in every template field before generating');
+      return;
+    }
+
     setIsGenerating(true);
 
+    // Only send what the model honours; an unlocked seed is drawn once so the history item records it
+    const requestCapabilities = getCapabilities(data.model);
+    const lockedSeed = optionalNumber(data.seed);
+    const seedIsLocked = data.seedLocked && isSeed(lockedSeed);
+    if (!seedIsLocked && pendingSeed.current === null) {
+      pendingSeed.current = randomSeed();
+    }
+    const requestSeed = seedIsLocked ? lockedSeed : pendingSeed.current ?? undefined;
+    const requestGuidance = optionalNumber(data.guidanceScale);
+
     try {
       const response = await api.video.generateVideo({
         prompt: data.prompt,
+        model: data.model,
         aspect_ratio: data.aspect_ratio,
         duration: data.duration,
+        enhance_prompt: data.enhance_prompt,
         image_base64: data.image_base64,
+        seed: requestCapabilities.seed ? requestSeed : undefined,
+        guidance_scale: requestCapabilities.guidance_scale && requestGuidance !== undefined ? requestGuidance : undefined,
+        negative_prompt: requestCapabilities.negative_prompt && data.negativePrompt?.trim()
+          ? data.negativePrompt.trim()
+          : undefined,
         metadata: {
           style: data.style,
           category: data.category,
           costTier: data.costTier,
           qualityLevel: data.qualityLevel,
-          negativePrompt: data.negativePrompt
+          ...(data.autoRetry ? {
+            retry_policy: {
+              ...DEFAULT_RETRY_POLICY,
+              max_attempts: Number(data.retryMaxAttempts) || DEFAULT_RETRY_POLICY.max_attempts,
+              retry_on: Array.isArray(data.retryOn) ? data.retryOn : DEFAULT_RETRY_POLICY.retry_on
+            }
+          } : {}),
+          ...(activeTemplate ? buildTemplateMetadata(activeTemplate, templateValues) : {})
         }
       });
 
       const jobId = response.generation_id;
+      pendingSeed.current = null;
       
       toast.success('Video generation started!');
       
@@ -239,13 +565,21 @@ const Generate = () => {
       navigate(`/progress/${jobId}`);
       
     } catch (error: any) {
-      toast.error(error.response?.data?.detail || 'Failed to start video generation');
+      if (isOfflineQueued(error)) {
+        toast(error.message);
+      } else {
+        toast.error(error.response?.data?.detail || 'Failed to start video generation');
+      }
       setIsGenerating(false);
     }
   };
 
   // Step navigation
   const nextStep = () => {
+    if (currentStep === 2 && isTemplateIncomplete) {
+      setShowTemplateErrors(true);
+      return;
+    }
     if (currentStep < 3) {
       setValue('currentStep', currentStep + 1);
     }
@@ -310,6 +644,39 @@ const Generate = () => {
             whileHover="hover"
             className="card"
           >
+            {/* Active Template */}
+            {activeTemplate && (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6 p-3 bg-neural-cyan/10 border border-neural-cyan/30 rounded-lg">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <BookOpen className="w-4 h-4 text-neural-cyan flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white truncate">Template: {activeTemplate.name}</p>
+                    {activeTemplate.cameraMovement && (
+                      <p className="text-xs text-gray-400 truncate">{activeTemplate.cameraMovement}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    type="button"
+                    onClick={resetToTemplate}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-xs text-neural-cyan hover:bg-neural-cyan/20 rounded-lg transition-colors"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    <span>Reset to template</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={detachTemplate}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-xs text-gray-400 hover:text-white hover:bg-bg-tertiary rounded-lg transition-colors"
+                  >
+                    <Unlink className="w-3 h-3" />
+                    <span>Detach</span>
+                  </button>
+                </div>
+              </div>
+            )}
+
             <AnimatePresence mode="wait">
               {/* Step 1: Content Type & Upload */}
               {currentStep === 1 && (
@@ -330,24 +697,67 @@ const Generate = () => {
                     </div>
                   </div>
 
+                  {/* Model */}
+                  <div>
+                    <p className="block text-sm font-medium text-gray-300 mb-3">
+                      Model
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {models.map((option) => (
+                        <label
+                          key={option.model}
+                          className={option.available ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'}
+                        >
+                          <input
+                            type="radio"
+                            {...register('model')}
+                            value={option.model}
+                            disabled={!option.available}
+                            className="sr-only"
+                          />
+                          <div className={`p-3 rounded-lg border-2 transition-all min-h-[70px] ${
+                            model === option.model
+                              ? 'border-neural-cyan bg-neural-cyan/10 text-neural-cyan'
+                              : 'border-bg-tertiary hover:border-neural-cyan/50'
+                          }`}>
+                            <div className="flex items-center space-x-2">
+                              <Cpu className="w-4 h-4 flex-shrink-0" />
+                              <p className="text-sm font-medium">{option.label}</p>
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">
+                              {describeDurations(option.durations)} • {option.aspect_ratios.join(', ')}
+                              {option.image_conditioning ? ' • image input' : ' • text only'}
+                            </p>
+                            {!option.available && (
+                              <p className="text-xs text-yellow-400 mt-1">Currently unavailable</p>
+                            )}
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
                   {/* Image Upload Area */}
                   <div 
                     role="button"
-                    tabIndex={0}
-                    className={`relative border-2 border-dashed rounded-xl p-4 sm:p-8 transition-all cursor-pointer ${
-                      dragActive 
+                    tabIndex={capabilities.image_conditioning ? 0 : -1}
+                    aria-disabled={!capabilities.image_conditioning}
+                    className={`relative border-2 border-dashed rounded-xl p-4 sm:p-8 transition-all ${
+                      !capabilities.image_conditioning
+                        ? 'border-bg-tertiary opacity-50 cursor-not-allowed'
+                        : dragActive 
                         ? 'border-neural-cyan bg-neural-cyan/10' 
                         : imagePreview 
                           ? 'border-green-500 bg-green-500/10' 
-                          : 'border-bg-tertiary hover:border-neural-cyan/50'
+                          : 'border-bg-tertiary hover:border-neural-cyan/50 cursor-pointer'
                     }`}
                     onDragEnter={handleDrag}
                     onDragLeave={handleDrag}
                     onDragOver={handleDrag}
                     onDrop={handleDrop}
-                    onClick={() => fileInputRef.current?.click()}
+                    onClick={() => capabilities.image_conditioning && fileInputRef.current?.click()}
                     onKeyDown={(e) => {
-                      if (e.key === 'Enter' || e.key === ' ') {
+                      if (capabilities.image_conditioning && (e.key === 'Enter' || e.key === ' ')) {
                         fileInputRef.current?.click();
                       }
                     }}
@@ -380,7 +790,9 @@ const Generate = () => {
                         </div>
                         <h4 className="text-base sm:text-lg font-medium mb-2">Upload Starting Image</h4>
                         <p className="text-gray-400 mb-4 text-sm sm:text-base">
-                          Drag & drop an image here, or click to browse
+                          {capabilities.image_conditioning
+                            ? 'Drag & drop an image here, or click to browse'
+                            : `${capabilities.label} generates from text only - pick a model with image input to start from a picture`}
                         </p>
                         <div className="text-xs sm:text-sm text-gray-500">
                           <p>Supports: JPG, PNG, WebP • Max size: 10MB</p>
@@ -403,7 +815,8 @@ const Generate = () => {
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
                     <button
                       type="button"
-                      className={`p-3 sm:p-4 rounded-xl border-2 transition-all min-h-[80px] sm:min-h-[100px] ${
+                      disabled={!capabilities.image_conditioning}
+                      className={`p-3 sm:p-4 rounded-xl border-2 transition-all min-h-[80px] sm:min-h-[100px] disabled:opacity-50 disabled:cursor-not-allowed ${
                         imagePreview 
                           ? 'border-neural-cyan bg-neural-cyan/10 text-neural-cyan' 
                           : 'border-bg-tertiary hover:border-neural-cyan/50'
@@ -459,41 +872,112 @@ const Generate = () => {
                     </div>
                   </div>
 
-                  {/* Prompt Input */}
-                  <div>
-                    <label htmlFor="prompt-input" className="block text-sm font-medium text-gray-300 mb-2">
-                      Video Description *
-                    </label>
-                    <textarea
-                      id="prompt-input"
-                      {...register('prompt', { 
-                        required: 'Please describe your video',
-                        minLength: { value: 10, message: 'Description must be at least 10 characters' }
-                      })}
-                      rows={4}
-                      className="w-full px-4 py-3 bg-bg-tertiary border border-bg-quaternary rounded-lg focus:border-neural-cyan focus:ring-1 focus:ring-neural-cyan outline-none transition-colors text-white placeholder-gray-500 resize-none"
-                      placeholder={imagePreview 
-                        ? "Describe what should happen in the video. For example: 'The camera slowly zooms in on the subject while soft music plays in the background. The lighting becomes warmer as the scene progresses.'"
-                        : "Describe your video scene in detail. Include camera movements, lighting, characters, actions, and mood. For example: 'A serene sunset over calm ocean waters, with gentle waves lapping the shore. The camera slowly pans right as seabirds fly across the golden sky.'"
-                      }
+                  {/* Template Variables */}
+                  {activeTemplate && (
+                    <TemplateVariablesForm
+                      template={activeTemplate}
+                      values={templateValues}
+                      onChange={updateTemplateValues}
+                      showErrors={showTemplateErrors}
                     />
-                    {errors.prompt && (
-                      <p className="mt-2 text-sm text-red-400 flex items-center space-x-1">
-                        <AlertCircle className="w-4 h-4" />
-                        <span>{errors.prompt.message}</span>
-                      </p>
-                    )}
-                    <div className="flex justify-between items-center mt-2">
-                      <p className="text-xs text-gray-500">
-                        {prompt?.length || 0} / 500 characters
-                      </p>
-                      <button
-                        type="button"
-                        className="text-xs text-neural-cyan hover:text-neural-light transition-colors"
-                      >
-                        ✨ Enhance with AI
-                      </button>
+                  )}
+
+                  {/* Prompt Input, with the workbench alongside when open */}
+                  <div className={showWorkbench ? 'grid grid-cols-1 xl:grid-cols-5 gap-4 items-start' : undefined}>
+                    <div className={showWorkbench ? 'xl:col-span-3' : undefined}>
+                      <div className="flex items-center justify-between mb-2">
+                        <label htmlFor="prompt-input" className="block text-sm font-medium text-gray-300">
+                          Video Description *
+                        </label>
+                        <div
+                          role="group"
+                          aria-label="Prompt editor mode"
+                          title={activeTemplate ? 'Detach the template to edit the prompt by its parts' : undefined}
+                          className="flex rounded-lg bg-bg-tertiary p-0.5 text-xs"
+                        >
+                          {([['raw', 'Free text'], ['structured', 'Shot builder']] as const).map(([mode, label]) => (
+                            <button
+                              key={mode}
+                              type="button"
+                              aria-pressed={shotBuilder.mode === mode}
+                              disabled={mode === 'structured' && Boolean(activeTemplate)}
+                              onClick={() => shotBuilder.setMode(mode)}
+                              className={`px-3 py-1 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                                shotBuilder.mode === mode ? 'bg-neural-cyan text-white' : 'text-gray-400 hover:text-white'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      {shotBuilder.mode === 'structured' && (
+                        <div className="mb-4">
+                          <ShotBuilder fields={shotBuilder.fields} onChange={shotBuilder.setField} />
+                        </div>
+                      )}
+                      <textarea
+                        id="prompt-input"
+                        {...register('prompt', { 
+                          required: 'Please describe your video',
+                          minLength: { value: 10, message: 'Description must be at least 10 characters' },
+                          maxLength: {
+                            value: PROMPT_LENGTH_LIMITS.MAX,
+                            message: `Description must be less than ${PROMPT_LENGTH_LIMITS.MAX} characters`
+                          },
+                          validate: (value) => !hasUnfilledPlaceholders(value) || 'Replace every {placeholder} before continuing'
+                        })}
+                        rows={4}
+                        readOnly={shotBuilder.mode === 'structured'}
+                        aria-describedby={shotBuilder.mode === 'structured' ? 'prompt-composed-hint' : undefined}
+                        className="w-full px-4 py-3 bg-bg-tertiary border border-bg-quaternary rounded-lg focus:border-neural-cyan focus:ring-1 focus:ring-neural-cyan outline-none transition-colors text-white placeholder-gray-500 resize-none read-only:opacity-75"
+                        placeholder={imagePreview 
+                          ? "Describe what should happen in the video. For example: 'The camera slowly zooms in on the subject while soft music plays in the background. The lighting becomes warmer as the scene progresses.'"
+                          : "Describe your video scene in detail. Include camera movements, lighting, characters, actions, and mood. For example: 'A serene sunset over calm ocean waters, with gentle waves lapping the shore. The camera slowly pans right as seabirds fly across the golden sky.'"
+                        }
+                      />
+                      {shotBuilder.mode === 'structured' && (
+                        <p id="prompt-composed-hint" className="mt-1 text-xs text-gray-500">
+                          Composed from the parts above - switch to free text to edit it directly
+                        </p>
+                      )}
+                      {errors.prompt && (
+                        <p className="mt-2 text-sm text-red-400 flex items-center space-x-1">
+                          <AlertCircle className="w-4 h-4" />
+                          <span>{errors.prompt.message}</span>
+                        </p>
+                      )}
+                      <div className="flex justify-between items-center mt-2">
+                        <p className="text-xs text-gray-500">
+                          {prompt?.length || 0} / {PROMPT_LENGTH_LIMITS.MAX} characters
+                        </p>
+                        <button
+                          type="button"
+                          onClick={() => setShowWorkbench(!showWorkbench)}
+                          aria-expanded={showWorkbench}
+                          className="text-xs text-neural-cyan hover:text-neural-light transition-colors"
+                        >
+                          ✨ Enhance with AI
+                        </button>
+                      </div>
+                      <PromptLintPanel warnings={lintWarnings} onFix={applyLintFix} />
+                      <label className="flex items-center space-x-2 cursor-pointer mt-3">
+                        <input
+                          type="checkbox"
+                          {...register('enhance_prompt')}
+                          className="rounded border-bg-quaternary bg-bg-tertiary text-neural-cyan focus:ring-neural-cyan"
+                        />
+                        <span className="text-xs text-gray-400">
+                          Let the backend enhance this prompt when generating (turned off when you accept an enhancement)
+                        </span>
+                      </label>
                     </div>
+
+                    {showWorkbench && (
+                      <div className="xl:col-span-2">
+                        <PromptWorkbench workbench={workbench} onClose={() => setShowWorkbench(false)} />
+                      </div>
+                    )}
                   </div>
 
                   {/* Style Selection */}
@@ -534,15 +1018,14 @@ const Generate = () => {
                       Aspect Ratio
                     </p>
                     <div className="grid grid-cols-3 gap-3">
-                      {[
-                        { value: '16:9', label: 'Landscape', desc: '1920×1080' },
-                        { value: '9:16', label: 'Portrait', desc: '1080×1920' },
-                        { value: '1:1', label: 'Square', desc: '1080×1080' }
-                      ].map((ratio) => (
+                      {capabilities.aspect_ratios.map((value) => ({ value, ...ASPECT_RATIO_OPTIONS[value] })).map((ratio) => (
                         <label key={ratio.value} className="cursor-pointer">
                           <input
                             type="radio"
-                            {...register('aspect_ratio')}
+                            {...register('aspect_ratio', {
+                              validate: (value) => capabilities.aspect_ratios.includes(value as AspectRatio)
+                                || `${capabilities.label} doesn't support ${value}`
+                            })}
                             value={ratio.value}
                             className="sr-only"
                           />
@@ -551,10 +1034,9 @@ const Generate = () => {
                               ? 'border-neural-cyan bg-neural-cyan/10 text-neural-cyan'
                               : 'border-bg-tertiary hover:border-neural-cyan/50'
                           }`}>
-                            <div className={`w-8 h-6 mx-auto mb-2 rounded border-2 ${
-                              ratio.value === '16:9' ? 'w-8 h-5' :
-                              ratio.value === '9:16' ? 'w-5 h-8' : 'w-6 h-6'
-                            } ${watchedValues.aspect_ratio === ratio.value ? 'border-neural-cyan' : 'border-gray-400'}`} />
+                            <div className={`mx-auto mb-2 rounded border-2 ${ratio.shape} ${
+                              watchedValues.aspect_ratio === ratio.value ? 'border-neural-cyan' : 'border-gray-400'
+                            }`} />
                             <p className="text-sm font-medium">{ratio.label}</p>
                             <p className="text-xs text-gray-400">{ratio.desc}</p>
                           </div>
@@ -611,17 +1093,31 @@ const Generate = () => {
                     <input
                       id="duration-range"
                       type="range"
-                      {...register('duration')}
-                      min="3"
-                      max="10"
+                      {...register('duration', {
+                        validate: (value) => capabilities.durations.includes(Number(value))
+                          || `${capabilities.label} supports ${describeDurations(capabilities.durations)} clips`
+                      })}
+                      min={capabilities.durations[0]}
+                      max={capabilities.durations[capabilities.durations.length - 1]}
                       step="1"
                       className="w-full accent-neural-cyan"
                     />
                     <div className="flex justify-between text-xs text-gray-400 mt-1">
-                      <span>3s</span>
-                      <span>5s</span>
-                      <span>10s</span>
+                      {capabilities.durations.length === 1 ? (
+                        <span>{capabilities.label} always renders {capabilities.durations[0]}s clips</span>
+                      ) : (
+                        <>
+                          <span>{capabilities.durations[0]}s</span>
+                          <span>{capabilities.durations[capabilities.durations.length - 1]}s</span>
+                        </>
+                      )}
                     </div>
+                    {errors.duration && (
+                      <p className="mt-2 text-sm text-red-400 flex items-center space-x-1">
+                        <AlertCircle className="w-4 h-4" />
+                        <span>{errors.duration.message}</span>
+                      </p>
+                    )}
                   </div>
 
                   {/* Quality Level */}
@@ -681,17 +1177,164 @@ const Generate = () => {
                         exit={{ opacity: 0, height: 0 }}
                         className="space-y-4 border-t border-bg-tertiary pt-4"
                       >
-                        <div>
-                          <label htmlFor="negative-prompt-input" className="block text-sm font-medium text-gray-300 mb-2">
-                            Negative Prompt (Optional)
+                        {capabilities.negative_prompt ? (
+                          <div>
+                            <label htmlFor="negative-prompt-input" className="block text-sm font-medium text-gray-300 mb-2">
+                              Negative Prompt (Optional)
+                            </label>
+                            <input
+                              id="negative-prompt-input"
+                              {...register('negativePrompt')}
+                              type="text"
+                              className="w-full px-4 py-2 bg-bg-tertiary border border-bg-quaternary rounded-lg focus:border-neural-cyan focus:ring-1 focus:ring-neural-cyan outline-none transition-colors text-white placeholder-gray-500"
+                              placeholder="What to avoid in the video (e.g., blurry, distorted, text)"
+                            />
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-400">{capabilities.label} doesn't accept a negative prompt</p>
+                        )}
+
+                        {/* Seed */}
+                        {capabilities.seed ? (
+                          <div>
+                            <label htmlFor="seed-input" className="block text-sm font-medium text-gray-300 mb-2">
+                              Seed
+                            </label>
+                            <div className="flex items-center gap-2">
+                              <input
+                                id="seed-input"
+                                {...register('seed', {
+                                  setValueAs: optionalNumber,
+                                  validate: (value, values) => !values.seedLocked || isSeed(value)
+                                    || `Seed must be a whole number from 0 to ${MAX_SEED}`,
+                                  onChange: (event) => setValue('seedLocked', event.target.value !== '')
+                                })}
+                                type="number"
+                                min={0}
+                                max={MAX_SEED}
+                                step={1}
+                                className="flex-1 min-w-0 px-4 py-2 bg-bg-tertiary border border-bg-quaternary rounded-lg focus:border-neural-cyan focus:ring-1 focus:ring-neural-cyan outline-none transition-colors text-white placeholder-gray-500 font-mono"
+                                placeholder="Random for each generation"
+                              />
+                              <button
+                                type="button"
+                                onClick={seedLocked ? unlockSeed : lockSeed}
+                                aria-pressed={Boolean(seedLocked)}
+                                title={seedLocked ? 'Unlock seed - draw a new one for each generation' : 'Lock seed - reuse it to reproduce a result'}
+                                className={`flex items-center space-x-1 px-3 py-2 rounded-lg border transition-colors min-h-[44px] ${
+                                  seedLocked
+                                    ? 'border-neural-cyan bg-neural-cyan/10 text-neural-cyan'
+                                    : 'border-bg-quaternary text-gray-300 hover:border-neural-cyan/50'
+                                }`}
+                              >
+                                {seedLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                                <span className="text-sm">{seedLocked ? 'Locked' : 'Lock'}</span>
+                              </button>
+                              <button
+                                type="button"
+                                onClick={randomiseSeed}
+                                title="Randomise seed - try a different variation"
+                                className="flex items-center space-x-1 px-3 py-2 rounded-lg border border-bg-quaternary text-gray-300 hover:border-neural-cyan/50 transition-colors min-h-[44px]"
+                              >
+                                <Dices className="w-4 h-4" />
+                                <span className="text-sm">Randomise</span>
+                              </button>
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">
+                              {seedLocked
+                                ? 'The same seed and settings reproduce the same result'
+                                : 'A new seed is drawn for each generation and recorded in your history'}
+                            </p>
+                            {errors.seed && (
+                              <p className="mt-2 text-sm text-red-400 flex items-center space-x-1">
+                                <AlertCircle className="w-4 h-4" />
+                                <span>{errors.seed.message}</span>
+                              </p>
+                            )}
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-400">{capabilities.label} doesn't accept a fixed seed</p>
+                        )}
+
+                        {/* Guidance Scale */}
+                        {capabilities.guidance_scale ? (
+                          <div>
+                            <label htmlFor="guidance-scale-input" className="block text-sm font-medium text-gray-300 mb-2">
+                              Guidance Scale (Optional)
+                            </label>
+                            <input
+                              id="guidance-scale-input"
+                              {...register('guidanceScale', {
+                                setValueAs: optionalNumber,
+                                validate: (value) => {
+                                  const [min, max] = capabilities.guidance_scale || [0, 0];
+                                  return value === undefined || (value >= min && value <= max)
+                                    || `${capabilities.label} accepts a guidance scale from ${min} to ${max}`;
+                                }
+                              })}
+                              type="number"
+                              min={capabilities.guidance_scale[0]}
+                              max={capabilities.guidance_scale[1]}
+                              step={0.5}
+                              className="w-full px-4 py-2 bg-bg-tertiary border border-bg-quaternary rounded-lg focus:border-neural-cyan focus:ring-1 focus:ring-neural-cyan outline-none transition-colors text-white placeholder-gray-500"
+                              placeholder={`Model default (${capabilities.guidance_scale[0]}–${capabilities.guidance_scale[1]})`}
+                            />
+                            <p className="text-xs text-gray-400 mt-1">Higher values follow the prompt more literally</p>
+                            {errors.guidanceScale && (
+                              <p className="mt-2 text-sm text-red-400 flex items-center space-x-1">
+                                <AlertCircle className="w-4 h-4" />
+                                <span>{errors.guidanceScale.message}</span>
+                              </p>
+                            )}
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-400">{capabilities.label} uses a fixed guidance scale</p>
+                        )}
+
+                        <div className="space-y-3">
+                          <label className="flex items-center space-x-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              {...register('autoRetry')}
+                              className="rounded border-bg-quaternary bg-bg-tertiary text-neural-cyan focus:ring-neural-cyan"
+                            />
+                            <span className="text-sm font-medium text-gray-300">Retry automatically if generation fails</span>
                           </label>
-                          <input
-                            id="negative-prompt-input"
-                            {...register('negativePrompt')}
-                            type="text"
-                            className="w-full px-4 py-2 bg-bg-tertiary border border-bg-quaternary rounded-lg focus:border-neural-cyan focus:ring-1 focus:ring-neural-cyan outline-none transition-colors text-white placeholder-gray-500"
-                            placeholder="What to avoid in the video (e.g., blurry, distorted, text)"
-                          />
+
+                          {watchedValues.autoRetry && (
+                            <div className="pl-6 space-y-3">
+                              <div>
+                                <label htmlFor="retry-max-attempts" className="block text-xs text-gray-400 mb-1">
+                                  Maximum attempts
+                                </label>
+                                <select
+                                  id="retry-max-attempts"
+                                  {...register('retryMaxAttempts')}
+                                  className="px-3 py-1.5 bg-bg-tertiary border border-bg-quaternary rounded-lg text-sm text-white focus:border-neural-cyan outline-none"
+                                >
+                                  {[2, 3, 4, 5].map(count => (
+                                    <option key={count} value={count}>{count}</option>
+                                  ))}
+                                </select>
+                              </div>
+                              <div>
+                                <p className="text-xs text-gray-400 mb-1">Retry when the failure is</p>
+                                <div className="flex flex-wrap gap-3">
+                                  {(['transient', 'quota', 'safety_filter'] as FailureClass[]).map(failureClass => (
+                                    <label key={failureClass} className="flex items-center space-x-1.5 cursor-pointer">
+                                      <input
+                                        type="checkbox"
+                                        value={failureClass}
+                                        {...register('retryOn')}
+                                        className="rounded border-bg-quaternary bg-bg-tertiary text-neural-cyan focus:ring-neural-cyan"
+                                      />
+                                      <span className="text-xs text-gray-300">{FAILURE_CLASS_LABELS[failureClass]}</span>
+                                    </label>
+                                  ))}
+                                </div>
+                              </div>
+                            </div>
+                          )}
                         </div>
                       </motion.div>
                     )}
@@ -716,6 +1359,15 @@ const Generate = () => {
                     </div>
                   )}
 
+                  <button
+                    type="button"
+                    onClick={handleCopySettingsLink}
+                    className="flex items-center space-x-2 text-sm text-gray-400 hover:text-white transition-colors"
+                  >
+                    <Link2 className="w-4 h-4" />
+                    <span>Copy settings link</span>
+                  </button>
+
                   {/* Navigation & Submit */}
                   <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
                     <button
@@ -730,7 +1382,12 @@ const Generate = () => {
                       disabled={isGenerating || !prompt}
                       className="w-full sm:flex-1 bg-gradient-to-r from-neural-cyan to-blue-500 hover:from-neural-cyan/90 hover:to-blue-500/90 disabled:from-gray-500 disabled:to-gray-600 text-white font-medium py-3 px-6 rounded-lg transition-all flex items-center justify-center space-x-2 min-h-[44px]"
                     >
-                      {isGenerating ? (
+                      {isGenerating && generateRateLimit.isLimited ? (
+                        <>
+                          <Clock className="w-5 h-5" />
+                          <span>Queued • {generateRateLimit.message}</span>
+                        </>
+                      ) : isGenerating ? (
                         <>
                           <motion.div
                             animate={{ rotate: 360 }}
@@ -748,6 +1405,13 @@ const Generate = () => {
                       )}
                     </button>
                   </div>
+
+                  {generateRateLimit.isLimited && !isGenerating && (
+                    <p className="flex items-center justify-center space-x-2 text-xs text-yellow-400" role="status">
+                      <Clock className="w-4 h-4" />
+                      <span>Rate limit reached. {generateRateLimit.message} - submitting now will queue your video.</span>
+                    </p>
+                  )}
                 </motion.div>
               )}
             </AnimatePresence>
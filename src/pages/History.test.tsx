@@ -212,7 +212,7 @@ describe('History Page', () => {
         expect(screen.getByText('Total Videos')).toBeInTheDocument();
         expect(screen.getByText('Completed')).toBeInTheDocument();
         expect(screen.getByText('Processing')).toBeInTheDocument();
-        expect(screen.getByText('Total Cost')).toBeInTheDocument();
+        expect(screen.getByText('Cost on This Page')).toBeInTheDocument();
       });
     });
 
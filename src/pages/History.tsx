@@ -23,8 +23,9 @@
  * - Mobile-responsive cards on smaller screens
  */
 
-import { useState, useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useQuery, useInfiniteQuery, keepPreviousData } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Search, 
@@ -42,6 +43,7 @@ import {
   Square,
   MoreHorizontal,
   Share2,
+  Link2,
   Eye,
   AlertCircle,
   CheckCircle,
@@ -50,13 +52,38 @@ import {
   DollarSign,
   FileText,
   RotateCcw,
-  BarChart3
+  BarChart3,
+  ScrollText
 } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
+import { useRealtimeRefetchInterval } from '../hooks/useRealtime';
+import { useCancelGeneration } from '../hooks/useVideoGeneration';
+import { isCancellingStatus, isTerminalStatus } from '../api/tracker';
+import { buildRetryChains, classifyFailure, FAILURE_CLASS_LABELS, readRetryLineage, retryScheduler } from '../api/retries';
+import { useGenerationQueue } from '../hooks/useGenerationQueue';
+import { useRateLimitStatus } from '../hooks/useRateLimitStatus';
+import { useAbortSignal } from '../hooks/useAbortSignal';
+import { RATE_LIMITED_ENDPOINTS } from '../api/rateLimits';
 import { api } from '../api/endpoints';
-import type { VideoStatusResponse as VideoJob, AspectRatio } from '../api/types';
+import { isRequestCancelled } from '../api/client';
+import { isOfflineQueued } from '../api/offlineQueue';
+import { modelCapabilities } from '../api/models';
+import type { VideoStatusResponse as VideoJob, AspectRatio, VideoListParams } from '../api/types';
+import { VideoStatus } from '../api/types';
 import { toast } from 'react-hot-toast';
+import { copySettingsLink, settingsFromHistoryItem } from '../services/settingsLink';
+import {
+  hasActiveHistoryFilters,
+  HistoryFilters,
+  readHistoryFilters,
+  toCountParams,
+  toVideoListParams,
+  writeHistoryFilters
+} from '../services/historyQuery';
 import VideoAnalytics from '../components/video/VideoAnalytics';
+import PaginationControls from '../components/video/PaginationControls';
+import ProgressiveImage from '../components/ui/ProgressiveImage';
+import VirtualList from '../components/ui/VirtualList';
 
 // Status color mapping
 const statusColors = {
@@ -76,77 +103,182 @@ const statusIcons = {
   cancelled: X
 };
 
-// Filter types
-interface HistoryFilters {
-  search: string;
-  status: string[];
-  dateRange: string;
-  style: string[];
-  sortBy: string;
-  sortOrder: 'asc' | 'desc';
-}
+// A pending cancellation is shown with the cancelled styling until the server confirms
+const displayStatus = (video: VideoJob): string => (isCancellingStatus(video) ? 'cancelled' : video.status);
+const statusLabel = (video: VideoJob): string => (isCancellingStatus(video) ? 'cancelling' : video.status);
+const canCancel = (video: VideoJob): boolean =>
+  (video.status === 'pending' || video.status === 'processing') && !isCancellingStatus(video);
 
 // View modes
 type ViewMode = 'grid' | 'list';
 
+// Mirrors the grid's md/lg breakpoints so windowed grid rows hold the same number of cards
+const getGridColumns = () => (window.innerWidth >= 1024 ? 3 : window.innerWidth >= 768 ? 2 : 1);
+
 const History = () => {
   const { user } = useAuthStore();
   
-  // Helper function to get video ID
-  const getVideoId = (video: VideoJob): string => {
-    return video.generation_id || video.job_id || getVideoId(video) || '';
-  };
+  // Decoded responses always carry the canonical generation_id
+  const getVideoId = (video: VideoJob): string => video.generation_id;
   
+  // Filters, sorting and paging live in the URL so a filtered view can be bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => readHistoryFilters(searchParams), [searchParams]);
+
   // State management
-  const [filters, setFilters] = useState<HistoryFilters>({
-    search: '',
-    status: [],
-    dateRange: 'all',
-    style: [],
-    sortBy: 'created_at',
-    sortOrder: 'desc'
-  });
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedJobs, setSelectedJobs] = useState<Set<string>>(new Set());
+  const regenerateRateLimit = useRateLimitStatus(RATE_LIMITED_ENDPOINTS.GENERATE);
   const [showFilters, setShowFilters] = useState(false);
-  const [page, setPage] = useState(1);
   const [selectedVideo, setSelectedVideo] = useState<VideoJob | null>(null);
   const [showAnalytics, setShowAnalytics] = useState(false);
+  const cancelGeneration = useCancelGeneration();
+  const getSignal = useAbortSignal(); // downloads stop when leaving the page
+  const { jobs: queuedJobs } = useGenerationQueue();
+  const [expandedChains, setExpandedChains] = useState<Set<string>>(new Set());
+  const [gridColumns, setGridColumns] = useState(getGridColumns);
+  const infinite = filters.scroll === 'infinite';
+
+  useEffect(() => {
+    const update = () => setGridColumns(getGridColumns());
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, []);
 
   // Fetch video history
+  const historyRefetchInterval = useRealtimeRefetchInterval(5000);
   const { 
     data: historyData, 
-    isLoading, 
-    error, 
-    refetch 
+    isLoading: pageLoading, 
+    error: pageError, 
+    refetch: refetchPage 
   } = useQuery({
-    queryKey: ['videoHistory', user?.id, filters, page],
-    queryFn: async () => {
-      if (!user) return { jobs: [], total: 0 };
+    queryKey: ['videoHistory', user?.id, filters],
+    queryFn: async ({ signal }) => {
+      if (!user) return { jobs: [], total: 0, pages: 0 };
       
-      const list = await api.video.getUserVideos();
+      const result = await api.video.getUserVideosPage(toVideoListParams(filters), { signal });
       
-      return { jobs: list, total: list.length };
+      return { jobs: result.videos, total: result.total, pages: result.pages };
     },
-    enabled: !!user,
-    refetchInterval: 5000 // Auto-refresh every 5 seconds for real-time updates
+    enabled: !!user && !infinite,
+    placeholderData: keepPreviousData, // Keep the current page visible while the next one loads
+    refetchInterval: historyRefetchInterval // Pushed over the realtime channel; poll every 5 seconds without it
+  });
+
+  // Continuous scrolling loads pages on demand. It never polls, since that would refetch every loaded page;
+  // realtime pushes and the local queue keep rows current instead.
+  const historyFeed = useInfiniteQuery({
+    queryKey: ['videoHistory', user?.id, 'infinite', { ...filters, page: 1 }],
+    queryFn: ({ pageParam, signal }) =>
+      api.video.getUserVideosPage(toVideoListParams({ ...filters, page: pageParam }), { signal }),
+    initialPageParam: 1,
+    getNextPageParam: lastPage => (lastPage.page < lastPage.pages ? lastPage.page + 1 : undefined),
+    enabled: !!user && infinite
   });
 
-  const videos = historyData?.jobs || [];
-  const totalVideos = historyData?.total || 0;
+  const isLoading = infinite ? historyFeed.isLoading : pageLoading;
+  const error = infinite ? historyFeed.error : pageError;
+  const refetch = infinite ? historyFeed.refetch : refetchPage;
+  const feedPages = historyFeed.data?.pages;
+  const loadedJobs = useMemo(
+    () => (infinite ? feedPages?.flatMap(page => page.videos) || [] : historyData?.jobs || []),
+    [infinite, feedPages, historyData]
+  );
+  const loadedTotal = infinite ? feedPages?.[feedPages.length - 1]?.total || 0 : historyData?.total || 0;
+
+  // Unfinished rows take their live status from the local queue, which tracks them without polling the list
+  const historyJobs = useMemo(() => {
+    const queuedById = new Map(queuedJobs.map(job => [job.generation_id, job]));
+    return loadedJobs.map(video => {
+      const job = queuedById.get(getVideoId(video));
+      return job && !isTerminalStatus(video.status) && job.status !== video.status
+        ? { ...video, status: job.status, progress: job.progress, message: job.message, video_url: job.video_url ?? video.video_url }
+        : video;
+    });
+  }, [loadedJobs, queuedJobs]);
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = historyFeed;
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Collapse retry attempts into one row per logical request, showing the latest attempt
+  const retryChains = useMemo(() => {
+    const lineageById = new Map(queuedJobs.map(job => [job.generation_id, readRetryLineage(job.request?.metadata)]));
+    return buildRetryChains(historyJobs, id => lineageById.get(id) || null);
+  }, [historyJobs, queuedJobs]);
+  const chainByLatestId = useMemo(
+    () => new Map(retryChains.map(chain => [getVideoId(chain.latest), chain])),
+    [retryChains]
+  );
+  const videos = useMemo(() => retryChains.map(chain => chain.latest), [retryChains]);
+  const totalVideos = Math.max(0, loadedTotal - (historyJobs.length - videos.length));
+  const gridRows = useMemo(() => {
+    const rows: VideoJob[][] = [];
+    for (let index = 0; index < videos.length; index += gridColumns) {
+      rows.push(videos.slice(index, index + gridColumns));
+    }
+    return rows;
+  }, [videos, gridColumns]);
+  const scrollRestoreKey = `history:${viewMode}:${writeHistoryFilters({ ...filters, page: 1 }).toString()}`;
+
+  const toggleChain = (rootId: string) => {
+    setExpandedChains(prev => {
+      const next = new Set(prev);
+      if (next.has(rootId)) {
+        next.delete(rootId);
+      } else {
+        next.add(rootId);
+      }
+      return next;
+    });
+  };
+
+  const handleRetry = async (video: VideoJob) => {
+    try {
+      await retryScheduler.retryNow(getVideoId(video), video);
+      toast.success('Retry started');
+      refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry generation');
+    }
+  };
+
+  // Counts across the whole filtered history; the loaded rows are only one page of it.
+  // Three extra requests per refresh, so they follow filter changes and a slow poll only
+  const countsRefetchInterval = useRealtimeRefetchInterval(60000);
+  const { data: statusCounts } = useQuery({
+    queryKey: ['videoHistoryCounts', user?.id, { ...filters, page: 1, scroll: undefined }],
+    queryFn: async ({ signal }) => {
+      const count = async (params: VideoListParams | null) =>
+        params ? (await api.video.getUserVideosPage(params, { signal })).total : 0;
+      const [completed, processing, thisMonth] = await Promise.all([
+        count(toCountParams(filters, [VideoStatus.COMPLETED])),
+        count(toCountParams(filters, [VideoStatus.PENDING, VideoStatus.PROCESSING])),
+        count(toCountParams({ ...filters, dateRange: 'month' }))
+      ]);
+      return { completed, processing, thisMonth };
+    },
+    enabled: !!user,
+    placeholderData: keepPreviousData,
+    staleTime: 60000,
+    refetchInterval: countsRefetchInterval
+  });
 
-  // Calculate statistics
+  // Calculate statistics; costs aren't aggregated by the server, so they cover the loaded rows only
   const statistics = useMemo(() => {
-    if (!videos.length) return { total: 0, completed: 0, processing: 0, failed: 0, totalCost: 0 };
-    
+    const pageCost = videos.reduce((sum: number, v: VideoJob) => sum + (v.cost || v.cost_estimate || 0), 0);
+
     return {
-      total: videos.length,
-      completed: videos.filter((v: VideoJob) => v.status === 'completed').length,
-      processing: videos.filter((v: VideoJob) => v.status === 'processing').length,
-      failed: videos.filter((v: VideoJob) => v.status === 'failed').length,
-      totalCost: videos.reduce((sum: number, v: VideoJob) => sum + (v.cost || v.cost_estimate || 0), 0)
+      total: totalVideos,
+      completed: statusCounts?.completed ?? 0,
+      processing: statusCounts?.processing ?? 0,
+      thisMonth: statusCounts?.thisMonth ?? 0,
+      pageCost,
+      pageAverageCost: videos.length > 0 ? pageCost / videos.length : 0
     };
-  }, [videos]);
+  }, [videos, totalVideos, statusCounts]);
 
   // Bulk operations
   const handleSelectAll = () => {
@@ -182,6 +314,11 @@ const History = () => {
       setSelectedJobs(new Set());
       refetch();
     } catch (error) {
+      if (isOfflineQueued(error)) {
+        toast("You're offline - the deletions will be sent when you reconnect");
+        setSelectedJobs(new Set());
+        return;
+      }
       toast.error('Failed to delete videos');
     }
   };
@@ -201,7 +338,7 @@ const History = () => {
     try {
       for (const job of completedJobs) {
         const jobId = getVideoId(job);
-        const blob = await api.downloadVideo(jobId);
+        const blob = await api.downloadVideo(jobId, { signal: getSignal() });
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -211,6 +348,7 @@ const History = () => {
       }
       toast.success(`Downloaded ${completedJobs.length} videos`);
     } catch (error) {
+      if (isRequestCancelled(error)) return;
       toast.error('Failed to download videos');
     }
   };
@@ -241,6 +379,15 @@ const History = () => {
     }
   };
 
+  const handleCopySettingsLink = async (video: VideoJob) => {
+    try {
+      await copySettingsLink(settingsFromHistoryItem(video));
+      toast.success('Settings link copied');
+    } catch (error) {
+      toast.error('Failed to copy settings link');
+    }
+  };
+
   const handleExportHistory = async (format: 'csv' | 'json') => {
     try {
       const exportData = videos.map(video => ({
@@ -285,21 +432,21 @@ const History = () => {
   };
 
   // Filter handlers
-  const updateFilter = (key: keyof HistoryFilters, value: any) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
-    setPage(1); // Reset to first page when filtering
+  const setFilters = (next: HistoryFilters) => {
+    setSearchParams(writeHistoryFilters(next), { replace: true });
+  };
+
+  const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+    setFilters({ ...filters, [key]: value, page: 1 }); // Reset to first page when filtering
+  };
+
+  const toggleSort = (sortBy: HistoryFilters['sortBy']) => {
+    const sortOrder = filters.sortBy === sortBy && filters.sortOrder === 'desc' ? 'asc' : 'desc';
+    setFilters({ ...filters, sortBy, sortOrder, page: 1 });
   };
 
   const clearFilters = () => {
-    setFilters({
-      search: '',
-      status: [],
-      dateRange: 'all',
-      style: [],
-      sortBy: 'created_at',
-      sortOrder: 'desc'
-    });
-    setPage(1);
+    setFilters({ ...filters, search: '', status: [], dateRange: 'all', style: [], page: 1 });
   };
 
   // Animation variants
@@ -313,6 +460,364 @@ const History = () => {
     visible: { opacity: 1, y: 0 }
   };
 
+  // Row renderers shared by the paged and windowed layouts
+  const renderListRow = (video: VideoJob) => {
+    const StatusIcon = statusIcons[displayStatus(video) as keyof typeof statusIcons];
+    const chain = chainByLatestId.get(getVideoId(video));
+    return (
+      <motion.div
+        key={getVideoId(video)}
+        variants={itemVariants}
+        className="card hover:bg-bg-tertiary/50 transition-colors"
+      >
+        <div className="flex items-center space-x-4">
+          {/* Checkbox */}
+          <div className="w-6">
+            <button type="button" onClick={() => handleSelectJob(getVideoId(video))}>
+              {selectedJobs.has(getVideoId(video)) ? (
+                <CheckSquare className="w-4 h-4 text-neural-cyan" />
+              ) : (
+                <Square className="w-4 h-4 text-gray-400" />
+              )}
+            </button>
+          </div>
+
+          {/* Video Info */}
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center space-x-3">
+              {video.thumbnail_url && (
+                <div className="relative group">
+                  <ProgressiveImage
+                    src={video.thumbnail_url}
+                    alt="Video thumbnail"
+                    className="w-16 h-9 object-cover rounded border border-bg-quaternary transition-transform group-hover:scale-105"
+                  />
+                  {video.status === 'completed' && (
+                    <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity rounded flex items-center justify-center">
+                      <Play className="w-4 h-4 text-white" />
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="text-white font-medium truncate">
+                  {video.title || `Video ${getVideoId(video).slice(0, 8)}`}
+                </p>
+                <p className="text-sm text-gray-400 truncate">
+                  {video.prompt}
+                </p>
+                <div className="flex items-center space-x-4 mt-1 text-xs text-gray-500">
+                  <span>{video.style}</span>
+                  <span>{video.aspect_ratio}</span>
+                  <span>{video.duration_seconds || 5}s</span>
+                  {(video.cost || video.cost_estimate) && (
+                    <span className="text-neural-cyan">
+                      ${(video.cost || video.cost_estimate || 0).toFixed(2)}
+                    </span>
+                  )}
+                  {chain && chain.attempts.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => toggleChain(chain.root_id)}
+                      className="flex items-center space-x-1 text-neural-cyan hover:text-white transition-colors"
+                      aria-expanded={expandedChains.has(chain.root_id)}
+                    >
+                      <RefreshCw className="w-3 h-3" />
+                      <span>{chain.attempts.length} attempts</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Status */}
+          <div className="w-24">
+            <div className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs border ${statusColors[displayStatus(video) as keyof typeof statusColors]}`}>
+              <StatusIcon className="w-3 h-3" />
+              <span className="capitalize">{statusLabel(video)}</span>
+            </div>
+          </div>
+
+          {/* Created Date */}
+          <div className="w-32">
+            <p className="text-sm text-gray-400">
+              {new Date(video.created_at).toLocaleDateString()}
+            </p>
+          </div>
+
+          {/* Actions */}
+          <div className="w-16">
+            <div className="flex items-center space-x-1">
+              {video.status === 'completed' && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      // Quick play functionality - could expand to inline player
+                      if (video.video_url) {
+                        window.open(video.video_url, '_blank');
+                      } else {
+                        setSelectedVideo(video);
+                      }
+                    }}
+                    className="p-1 text-gray-400 hover:text-neural-cyan transition-colors"
+                    title="Play Video"
+                  >
+                    <Play className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedVideo(video)}
+                    className="p-1 text-gray-400 hover:text-white transition-colors"
+                    title="Preview"
+                  >
+                    <Eye className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={async () => {
+                      try {
+                        const blob = await api.downloadVideo(getVideoId(video), { signal: getSignal() });
+                        const url = window.URL.createObjectURL(blob);
+                        const a = document.createElement('a');
+                        a.href = url;
+                        a.download = `video-${getVideoId(video)}.mp4`;
+                        a.click();
+                        window.URL.revokeObjectURL(url);
+                      } catch (error) {
+                        if (!isRequestCancelled(error)) toast.error('Failed to download video');
+                      }
+                    }}
+                    className="p-1 text-gray-400 hover:text-green-400 transition-colors"
+                    title="Download"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              <div className="relative group">
+                <button type="button" className="p-1 text-gray-400 hover:text-white transition-colors" aria-label="More options">
+                  <MoreHorizontal className="w-4 h-4" />
+                </button>
+                {/* Quick actions dropdown */}
+                <div className="absolute right-0 top-full mt-1 bg-bg-secondary border border-bg-tertiary rounded-lg shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10 min-w-[180px]">
+                  <div className="p-1">
+                    {video.status === 'completed' && (
+                      <button
+                        type="button"
+                        onClick={() => setSelectedVideo(video)}
+                        className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-bg-tertiary rounded transition-colors flex items-center space-x-2"
+                      >
+                        <Eye className="w-3 h-3" />
+                        <span>Preview</span>
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => navigator.clipboard.writeText(getVideoId(video))}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-bg-tertiary rounded transition-colors flex items-center space-x-2"
+                    >
+                      <Share2 className="w-3 h-3" />
+                      <span>Copy ID</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleCopySettingsLink(video)}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-bg-tertiary rounded transition-colors flex items-center space-x-2"
+                    >
+                      <Link2 className="w-3 h-3" />
+                      <span>Copy settings link</span>
+                    </button>
+                    {video.status === 'failed' && (
+                      <button
+                        type="button"
+                        onClick={() => handleRetry(video)}
+                        className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-bg-tertiary rounded transition-colors flex items-center space-x-2"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                        <span>Retry</span>
+                      </button>
+                    )}
+                    {canCancel(video) && (
+                      <button
+                        type="button"
+                        onClick={() => cancelGeneration(getVideoId(video))}
+                        className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-bg-tertiary rounded transition-colors flex items-center space-x-2"
+                      >
+                        <X className="w-3 h-3" />
+                        <span>Cancel generation</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Retry Chain */}
+        {chain && chain.attempts.length > 1 && expandedChains.has(chain.root_id) && (
+          <ol className="mt-3 ml-10 space-y-1 border-l border-bg-quaternary pl-4">
+            {chain.attempts.map((attempt, index) => (
+              <li key={getVideoId(attempt)} className="flex items-center space-x-3 text-xs text-gray-400">
+                <span className="text-gray-500">#{index + 1}</span>
+                <span className={`capitalize ${attempt.status === 'failed' ? 'text-red-400' : attempt.status === 'completed' ? 'text-green-400' : ''}`}>
+                  {statusLabel(attempt)}
+                </span>
+                {attempt.status === 'failed' && (
+                  <span title={attempt.error_details || undefined}>
+                    {FAILURE_CLASS_LABELS[classifyFailure(attempt.error_details)]}
+                  </span>
+                )}
+                <span>{new Date(attempt.created_at).toLocaleString()}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </motion.div>
+    );
+  };
+
+  const renderGridCard = (video: VideoJob) => {
+    const StatusIcon = statusIcons[displayStatus(video) as keyof typeof statusIcons];
+    return (
+      <motion.div
+        key={getVideoId(video)}
+        variants={itemVariants}
+        className="card overflow-hidden hover:border-neural-cyan/50 transition-colors"
+      >
+        {/* Video Thumbnail */}
+        <div className="aspect-video bg-bg-tertiary rounded-lg mb-4 relative overflow-hidden">
+          {video.thumbnail_url ? (
+            <ProgressiveImage
+              src={video.thumbnail_url}
+              alt="Video thumbnail"
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center">
+              <Video className="w-12 h-12 text-gray-500" />
+            </div>
+          )}
+          
+          {/* Status Overlay */}
+          <div className="absolute top-2 right-2">
+            <div className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs border backdrop-blur-sm ${statusColors[displayStatus(video) as keyof typeof statusColors]}`}>
+              <StatusIcon className="w-3 h-3" />
+              <span className="capitalize">{statusLabel(video)}</span>
+            </div>
+          </div>
+
+          {/* Play Button for Completed Videos */}
+          {video.status === 'completed' && (
+            <button
+              type="button"
+              onClick={() => setSelectedVideo(video)}
+              className="absolute inset-0 flex items-center justify-center bg-black/50 opacity-0 hover:opacity-100 transition-opacity"
+              aria-label="Play video"
+            >
+              <div className="w-16 h-16 bg-neural-cyan rounded-full flex items-center justify-center">
+                <Play className="w-8 h-8 text-white ml-1" />
+              </div>
+            </button>
+          )}
+
+          {/* Selection Checkbox */}
+          <div className="absolute top-2 left-2">
+            <button type="button" onClick={() => handleSelectJob(getVideoId(video))}>
+              {selectedJobs.has(getVideoId(video)) ? (
+                <CheckSquare className="w-5 h-5 text-neural-cyan" />
+              ) : (
+                <Square className="w-5 h-5 text-white/80" />
+              )}
+            </button>
+          </div>
+        </div>
+
+        {/* Video Details */}
+        <div className="space-y-3">
+          <div>
+            <h3 className="font-semibold text-white truncate">
+              {video.title || `Video ${getVideoId(video).slice(0, 8)}`}
+            </h3>
+            <p className="text-sm text-gray-400 line-clamp-2 mt-1">
+              {video.prompt}
+            </p>
+          </div>
+
+          {/* Meta Info */}
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <div className="flex items-center space-x-2">
+              <span className="capitalize">{video.style}</span>
+              <span>•</span>
+              <span>{video.duration_seconds}s</span>
+              <span>•</span>
+              <span>{video.aspect_ratio}</span>
+            </div>
+            {video.cost && (
+              <span className="text-neural-cyan">${video.cost.toFixed(2)}</span>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">
+              {new Date(video.created_at).toLocaleDateString()}
+            </span>
+            
+            <div className="flex items-center space-x-2">
+              {video.status === 'completed' && (
+                <button
+                  type="button"
+                  onClick={async () => {
+                    try {
+                      const blob = await api.downloadVideo(getVideoId(video), { signal: getSignal() });
+                      const url = window.URL.createObjectURL(blob);
+                      const a = document.createElement('a');
+                      a.href = url;
+                      a.download = `video-${getVideoId(video)}.mp4`;
+                      a.click();
+                      window.URL.revokeObjectURL(url);
+                    } catch (error) {
+                      if (!isRequestCancelled(error)) toast.error('Failed to download video');
+                    }
+                  }}
+                  className="p-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors"
+                  title="Download"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+              )}
+              {canCancel(video) && (
+                <button
+                  type="button"
+                  onClick={() => cancelGeneration(getVideoId(video))}
+                  className="p-2 bg-bg-tertiary hover:bg-bg-quaternary rounded-lg transition-colors"
+                  title="Cancel generation"
+                  aria-label="Cancel generation"
+                >
+                  <X className="w-4 h-4 text-gray-400" />
+                </button>
+              )}
+              <button type="button" className="p-2 bg-bg-tertiary hover:bg-bg-quaternary rounded-lg transition-colors" aria-label="More options">
+                <MoreHorizontal className="w-4 h-4 text-gray-400" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    );
+  };
+
+  const feedFooter = (
+    <p className="py-4 text-center text-sm text-gray-400">
+      {isFetchingNextPage
+        ? 'Loading more videos...'
+        : hasNextPage ? '' : `All ${totalVideos} videos loaded`}
+    </p>
+  );
+
   if (!user) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -366,6 +871,22 @@ const History = () => {
             </button>
           </div>
 
+          {/* Scroll Mode Toggle */}
+          <button
+            type="button"
+            onClick={() => setFilters({ ...filters, scroll: infinite ? 'paged' : 'infinite', page: 1 })}
+            className={`p-2 rounded-lg transition-colors ${
+              infinite
+                ? 'bg-neural-cyan text-white'
+                : 'bg-bg-tertiary text-gray-400 hover:text-white'
+            }`}
+            aria-label="Continuous scroll"
+            aria-pressed={infinite}
+            title={infinite ? 'Switch to pages' : 'Switch to continuous scroll'}
+          >
+            <ScrollText className="w-4 h-4" />
+          </button>
+
           {/* Export and Refresh Buttons */}
           <div className="flex items-center space-x-2">
             {/* Export Dropdown */}
@@ -482,11 +1003,11 @@ const History = () => {
               <DollarSign className="w-5 h-5 text-neural-cyan" />
             </div>
             <div>
-              <p className="text-2xl font-bold text-white">${statistics.totalCost.toFixed(2)}</p>
-              <p className="text-sm text-gray-400">Total Cost</p>
-              {statistics.total > 0 && (
+              <p className="text-2xl font-bold text-white">${statistics.pageCost.toFixed(2)}</p>
+              <p className="text-sm text-gray-400">{infinite ? 'Cost of Loaded Videos' : 'Cost on This Page'}</p>
+              {videos.length > 0 && (
                 <p className="text-xs text-neural-cyan">
-                  ${(statistics.totalCost / statistics.total).toFixed(2)} avg
+                  ${statistics.pageAverageCost.toFixed(2)} avg
                 </p>
               )}
             </div>
@@ -523,7 +1044,7 @@ const History = () => {
             </button>
 
             {/* Clear Filters */}
-            {(filters.search || filters.status.length > 0 || filters.style.length > 0 || filters.dateRange !== 'all') && (
+            {hasActiveHistoryFilters(filters) && (
               <button
                 type="button"
                 onClick={clearFilters}
@@ -573,7 +1094,7 @@ const History = () => {
                 <select
                   id="date-range-filter"
                   value={filters.dateRange}
-                  onChange={(e) => updateFilter('dateRange', e.target.value)}
+                  onChange={(e) => updateFilter('dateRange', e.target.value as HistoryFilters['dateRange'])}
                   className="w-full px-3 py-2 bg-bg-tertiary border border-bg-quaternary rounded-lg focus:border-neural-cyan focus:ring-1 focus:ring-neural-cyan outline-none transition-colors text-white"
                 >
                   <option value="all">All Time</option>
@@ -618,20 +1139,14 @@ const History = () => {
                     </span>
                   </div>
                   <div className="flex justify-between text-gray-400">
-                    <span>Avg. Cost:</span>
+                    <span>{infinite ? 'Avg. Cost (loaded):' : 'Avg. Cost (this page):'}</span>
                     <span className="text-neural-cyan">
-                      ${statistics.total > 0 ? (statistics.totalCost / statistics.total).toFixed(2) : '0.00'}
+                      ${statistics.pageAverageCost.toFixed(2)}
                     </span>
                   </div>
                   <div className="flex justify-between text-gray-400">
                     <span>This Month:</span>
-                    <span className="text-blue-400">
-                      {videos.filter(v => {
-                        const videoDate = new Date(v.created_at);
-                        const now = new Date();
-                        return videoDate.getMonth() === now.getMonth() && videoDate.getFullYear() === now.getFullYear();
-                      }).length}
-                    </span>
+                    <span className="text-blue-400">{statistics.thisMonth}</span>
                   </div>
                 </div>
               </div>
@@ -666,9 +1181,10 @@ const History = () => {
                 type="button"
                 onClick={handleBulkRegenerate}
                 className="px-4 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors flex items-center space-x-2"
+                title={regenerateRateLimit.message ? `Rate limited - regenerations are queued. ${regenerateRateLimit.message}` : undefined}
               >
                 <RotateCcw className="w-4 h-4" />
-                <span>Regenerate</span>
+                <span>{regenerateRateLimit.message ?? 'Regenerate'}</span>
               </button>
               <button
                 type="button"
@@ -691,7 +1207,7 @@ const History = () => {
             <span className="text-gray-400">Loading video history...</span>
           </div>
         </div>
-      ) : error ? (
+      ) : error && videos.length === 0 ? (
         <div className="card text-center">
           <AlertCircle className="w-12 h-12 text-red-400 mx-auto mb-4" />
           <h3 className="text-lg font-semibold text-white mb-2">Failed to load history</h3>
@@ -709,7 +1225,7 @@ const History = () => {
           <Video className="w-12 h-12 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-semibold text-white mb-2">No videos found</h3>
           <p className="text-gray-400 mb-4">
-            {filters.search || filters.status.length > 0 || filters.style.length > 0
+            {hasActiveHistoryFilters(filters)
               ? 'No videos match your current filters.'
               : "You haven't generated any videos yet."
             }
@@ -740,7 +1256,7 @@ const History = () => {
                 <div className="flex-1 min-w-0">
                   <button
                     type="button"
-                    onClick={() => updateFilter('sortBy', 'prompt')}
+                    onClick={() => toggleSort('prompt')}
                     className="flex items-center space-x-1 hover:text-white transition-colors"
                   >
                     <span>Video</span>
@@ -752,7 +1268,7 @@ const History = () => {
                 <div className="w-24">
                   <button
                     type="button"
-                    onClick={() => updateFilter('sortBy', 'status')}
+                    onClick={() => toggleSort('status')}
                     className="flex items-center space-x-1 hover:text-white transition-colors"
                   >
                     <span>Status</span>
@@ -764,7 +1280,7 @@ const History = () => {
                 <div className="w-32">
                   <button
                     type="button"
-                    onClick={() => updateFilter('sortBy', 'created_at')}
+                    onClick={() => toggleSort('created_at')}
                     className="flex items-center space-x-1 hover:text-white transition-colors"
                   >
                     <span>Created</span>
@@ -780,321 +1296,57 @@ const History = () => {
 
           {/* Video Items */}
           {viewMode === 'list' ? (
-            <div className="space-y-2">
-              {videos.map((video: VideoJob) => {
-                const StatusIcon = statusIcons[video.status as keyof typeof statusIcons];
-                return (
-                  <motion.div
-                    key={getVideoId(video)}
-                    variants={itemVariants}
-                    className="card hover:bg-bg-tertiary/50 transition-colors"
-                  >
-                    <div className="flex items-center space-x-4">
-                      {/* Checkbox */}
-                      <div className="w-6">
-                        <button type="button" onClick={() => handleSelectJob(getVideoId(video))}>
-                          {selectedJobs.has(getVideoId(video)) ? (
-                            <CheckSquare className="w-4 h-4 text-neural-cyan" />
-                          ) : (
-                            <Square className="w-4 h-4 text-gray-400" />
-                          )}
-                        </button>
-                      </div>
-
-                      {/* Video Info */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center space-x-3">
-                          {video.thumbnail_url && (
-                            <div className="relative group">
-                              <img
-                                src={video.thumbnail_url}
-                                alt="Video thumbnail"
-                                className="w-16 h-9 object-cover rounded border border-bg-quaternary transition-transform group-hover:scale-105"
-                              />
-                              {video.status === 'completed' && (
-                                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity rounded flex items-center justify-center">
-                                  <Play className="w-4 h-4 text-white" />
-                                </div>
-                              )}
-                            </div>
-                          )}
-                          <div className="min-w-0 flex-1">
-                            <p className="text-white font-medium truncate">
-                              {video.title || `Video ${getVideoId(video).slice(0, 8)}`}
-                            </p>
-                            <p className="text-sm text-gray-400 truncate">
-                              {video.prompt}
-                            </p>
-                            <div className="flex items-center space-x-4 mt-1 text-xs text-gray-500">
-                              <span>{video.style}</span>
-                              <span>{video.aspect_ratio}</span>
-                              <span>{video.duration_seconds || video.duration || 5}s</span>
-                              {(video.cost || video.cost_estimate) && (
-                                <span className="text-neural-cyan">
-                                  ${(video.cost || video.cost_estimate || 0).toFixed(2)}
-                                </span>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-
-                      {/* Status */}
-                      <div className="w-24">
-                        <div className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs border ${statusColors[video.status as keyof typeof statusColors]}`}>
-                          <StatusIcon className="w-3 h-3" />
-                          <span className="capitalize">{video.status}</span>
-                        </div>
-                      </div>
-
-                      {/* Created Date */}
-                      <div className="w-32">
-                        <p className="text-sm text-gray-400">
-                          {new Date(video.created_at).toLocaleDateString()}
-                        </p>
-                      </div>
-
-                      {/* Actions */}
-                      <div className="w-16">
-                        <div className="flex items-center space-x-1">
-                          {video.status === 'completed' && (
-                            <>
-                              <button
-                                type="button"
-                                onClick={() => {
-                                  // Quick play functionality - could expand to inline player
-                                  if (video.video_url) {
-                                    window.open(video.video_url, '_blank');
-                                  } else {
-                                    setSelectedVideo(video);
-                                  }
-                                }}
-                                className="p-1 text-gray-400 hover:text-neural-cyan transition-colors"
-                                title="Play Video"
-                              >
-                                <Play className="w-4 h-4" />
-                              </button>
-                              <button
-                                type="button"
-                                onClick={() => setSelectedVideo(video)}
-                                className="p-1 text-gray-400 hover:text-white transition-colors"
-                                title="Preview"
-                              >
-                                <Eye className="w-4 h-4" />
-                              </button>
-                              <button
-                                type="button"
-                                onClick={async () => {
-                                  try {
-                                    const blob = await api.downloadVideo(getVideoId(video));
-                                    const url = window.URL.createObjectURL(blob);
-                                    const a = document.createElement('a');
-                                    a.href = url;
-                                    a.download = `video-${getVideoId(video)}.mp4`;
-                                    a.click();
-                                    window.URL.revokeObjectURL(url);
-                                  } catch (error) {
-                                    toast.error('Failed to download video');
-                                  }
-                                }}
-                                className="p-1 text-gray-400 hover:text-green-400 transition-colors"
-                                title="Download"
-                              >
-                                <Download className="w-4 h-4" />
-                              </button>
-                            </>
-                          )}
-                          <div className="relative group">
-                            <button type="button" className="p-1 text-gray-400 hover:text-white transition-colors" aria-label="More options">
-                              <MoreHorizontal className="w-4 h-4" />
-                            </button>
-                            {/* Quick actions dropdown */}
-                            <div className="absolute right-0 top-full mt-1 bg-bg-secondary border border-bg-tertiary rounded-lg shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10 min-w-[120px]">
-                              <div className="p-1">
-                                {video.status === 'completed' && (
-                                  <button
-                                    type="button"
-                                    onClick={() => setSelectedVideo(video)}
-                                    className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-bg-tertiary rounded transition-colors flex items-center space-x-2"
-                                  >
-                                    <Eye className="w-3 h-3" />
-                                    <span>Preview</span>
-                                  </button>
-                                )}
-                                <button
-                                  type="button"
-                                  onClick={() => navigator.clipboard.writeText(getVideoId(video))}
-                                  className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-bg-tertiary rounded transition-colors flex items-center space-x-2"
-                                >
-                                  <Share2 className="w-3 h-3" />
-                                  <span>Copy ID</span>
-                                </button>
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  </motion.div>
-                );
-              })}
-            </div>
+            infinite ? (
+              <VirtualList
+                rows={videos}
+                getRowKey={getVideoId}
+                renderRow={renderListRow}
+                estimateRowHeight={96}
+                rowClassName="pb-2"
+                restoreKey={scrollRestoreKey}
+                onEndReached={loadMore}
+                footer={feedFooter}
+              />
+            ) : (
+              <div className="space-y-2">
+                {videos.map(renderListRow)}
+              </div>
+            )
           ) : (
             // Grid View
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {videos.map((video: VideoJob) => {
-                const StatusIcon = statusIcons[video.status as keyof typeof statusIcons];
-                return (
-                  <motion.div
-                    key={getVideoId(video)}
-                    variants={itemVariants}
-                    className="card overflow-hidden hover:border-neural-cyan/50 transition-colors"
-                  >
-                    {/* Video Thumbnail */}
-                    <div className="aspect-video bg-bg-tertiary rounded-lg mb-4 relative overflow-hidden">
-                      {video.thumbnail_url ? (
-                        <img
-                          src={video.thumbnail_url}
-                          alt="Video thumbnail"
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center">
-                          <Video className="w-12 h-12 text-gray-500" />
-                        </div>
-                      )}
-                      
-                      {/* Status Overlay */}
-                      <div className="absolute top-2 right-2">
-                        <div className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs border backdrop-blur-sm ${statusColors[video.status as keyof typeof statusColors]}`}>
-                          <StatusIcon className="w-3 h-3" />
-                          <span className="capitalize">{video.status}</span>
-                        </div>
-                      </div>
-
-                      {/* Play Button for Completed Videos */}
-                      {video.status === 'completed' && (
-                        <button
-                          type="button"
-                          onClick={() => setSelectedVideo(video)}
-                          className="absolute inset-0 flex items-center justify-center bg-black/50 opacity-0 hover:opacity-100 transition-opacity"
-                          aria-label="Play video"
-                        >
-                          <div className="w-16 h-16 bg-neural-cyan rounded-full flex items-center justify-center">
-                            <Play className="w-8 h-8 text-white ml-1" />
-                          </div>
-                        </button>
-                      )}
-
-                      {/* Selection Checkbox */}
-                      <div className="absolute top-2 left-2">
-                        <button type="button" onClick={() => handleSelectJob(getVideoId(video))}>
-                          {selectedJobs.has(getVideoId(video)) ? (
-                            <CheckSquare className="w-5 h-5 text-neural-cyan" />
-                          ) : (
-                            <Square className="w-5 h-5 text-white/80" />
-                          )}
-                        </button>
-                      </div>
-                    </div>
-
-                    {/* Video Details */}
-                    <div className="space-y-3">
-                      <div>
-                        <h3 className="font-semibold text-white truncate">
-                          {video.title || `Video ${getVideoId(video).slice(0, 8)}`}
-                        </h3>
-                        <p className="text-sm text-gray-400 line-clamp-2 mt-1">
-                          {video.prompt}
-                        </p>
-                      </div>
-
-                      {/* Meta Info */}
-                      <div className="flex items-center justify-between text-xs text-gray-500">
-                        <div className="flex items-center space-x-2">
-                          <span className="capitalize">{video.style}</span>
-                          <span>•</span>
-                          <span>{video.duration}s</span>
-                          <span>•</span>
-                          <span>{video.aspect_ratio}</span>
-                        </div>
-                        {video.cost && (
-                          <span className="text-neural-cyan">${video.cost.toFixed(2)}</span>
-                        )}
-                      </div>
-
-                      {/* Actions */}
-                      <div className="flex items-center justify-between">
-                        <span className="text-xs text-gray-500">
-                          {new Date(video.created_at).toLocaleDateString()}
-                        </span>
-                        
-                        <div className="flex items-center space-x-2">
-                          {video.status === 'completed' && (
-                            <button
-                              type="button"
-                              onClick={async () => {
-                                try {
-                                  const blob = await api.downloadVideo(getVideoId(video));
-                                  const url = window.URL.createObjectURL(blob);
-                                  const a = document.createElement('a');
-                                  a.href = url;
-                                  a.download = `video-${getVideoId(video)}.mp4`;
-                                  a.click();
-                                  window.URL.revokeObjectURL(url);
-                                } catch (error) {
-                                  toast.error('Failed to download video');
-                                }
-                              }}
-                              className="p-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors"
-                              title="Download"
-                            >
-                              <Download className="w-4 h-4" />
-                            </button>
-                          )}
-                          <button type="button" className="p-2 bg-bg-tertiary hover:bg-bg-quaternary rounded-lg transition-colors" aria-label="More options">
-                            <MoreHorizontal className="w-4 h-4 text-gray-400" />
-                          </button>
-                        </div>
-                      </div>
-                    </div>
-                  </motion.div>
-                );
-              })}
-            </div>
+            infinite ? (
+              <VirtualList
+                rows={gridRows}
+                getRowKey={(row) => getVideoId(row[0])}
+                renderRow={(row) => (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {row.map(renderGridCard)}
+                  </div>
+                )}
+                estimateRowHeight={420}
+                rowClassName="pb-6"
+                restoreKey={scrollRestoreKey}
+                onEndReached={loadMore}
+                footer={feedFooter}
+              />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {videos.map(renderGridCard)}
+              </div>
+            )
           )}
 
           {/* Pagination */}
-          {totalVideos > 20 && (
-            <div className="flex items-center justify-between">
-              <p className="text-sm text-gray-400">
-                Showing {(page - 1) * 20 + 1}-{Math.min(page * 20, totalVideos)} of {totalVideos} videos
-              </p>
-              
-              <div className="flex items-center space-x-2">
-                <button
-                  type="button"
-                  onClick={() => setPage(p => Math.max(1, p - 1))}
-                  disabled={page === 1}
-                  className="px-4 py-2 bg-bg-tertiary hover:bg-bg-quaternary disabled:opacity-50 disabled:hover:bg-bg-tertiary rounded-lg transition-colors"
-                >
-                  Previous
-                </button>
-                
-                <span className="px-4 py-2 text-sm text-gray-400">
-                  Page {page} of {Math.ceil(totalVideos / 20)}
-                </span>
-                
-                <button
-                  type="button"
-                  onClick={() => setPage(p => p + 1)}
-                  disabled={page >= Math.ceil(totalVideos / 20)}
-                  className="px-4 py-2 bg-bg-tertiary hover:bg-bg-quaternary disabled:opacity-50 disabled:hover:bg-bg-tertiary rounded-lg transition-colors"
-                >
-                  Next
-                </button>
-              </div>
-            </div>
+          {!infinite && (
+            <PaginationControls
+              currentPage={filters.page}
+              totalPages={historyData?.pages || 1}
+              totalItems={totalVideos}
+              pageSize={filters.pageSize}
+              onPageChange={(page) => setFilters({ ...filters, page })}
+              onPageSizeChange={(pageSize) => setFilters({ ...filters, pageSize, page: 1 })}
+              disabled={isLoading}
+            />
           )}
         </motion.div>
       )}
@@ -1120,7 +1372,7 @@ const History = () => {
                 {/* Modal Header */}
                 <div className="flex items-center justify-between mb-6">
                   <h3 className="text-xl font-semibold text-white">
-                    {selectedVideo.title || `Video ${(selectedVideo.generation_id || selectedVideo.job_id || selectedVideo.id || '').slice(0, 8)}`}
+                    {selectedVideo.title || `Video ${selectedVideo.generation_id.slice(0, 8)}`}
                   </h3>
                   <button
                     type="button"
@@ -1169,7 +1421,7 @@ const History = () => {
                       </div>
                       <div className="flex justify-between">
                         <dt className="text-gray-400">Duration:</dt>
-                        <dd className="text-white">{selectedVideo.duration} seconds</dd>
+                        <dd className="text-white">{selectedVideo.duration_seconds} seconds</dd>
                       </div>
                       <div className="flex justify-between">
                         <dt className="text-gray-400">Aspect Ratio:</dt>
@@ -1179,6 +1431,24 @@ const History = () => {
                         <dt className="text-gray-400">Created:</dt>
                         <dd className="text-white">{new Date(selectedVideo.created_at).toLocaleString()}</dd>
                       </div>
+                      {selectedVideo.model && (
+                        <div className="flex justify-between">
+                          <dt className="text-gray-400">Model:</dt>
+                          <dd className="text-white">{modelCapabilities.get(selectedVideo.model).label}</dd>
+                        </div>
+                      )}
+                      {selectedVideo.seed != null && (
+                        <div className="flex justify-between">
+                          <dt className="text-gray-400">Seed:</dt>
+                          <dd className="text-white font-mono">{selectedVideo.seed}</dd>
+                        </div>
+                      )}
+                      {selectedVideo.guidance_scale != null && (
+                        <div className="flex justify-between">
+                          <dt className="text-gray-400">Guidance Scale:</dt>
+                          <dd className="text-white">{selectedVideo.guidance_scale}</dd>
+                        </div>
+                      )}
                       {selectedVideo.cost && (
                         <div className="flex justify-between">
                           <dt className="text-gray-400">Cost:</dt>
@@ -1193,6 +1463,14 @@ const History = () => {
                     <p className="text-gray-300 text-sm leading-relaxed">
                       {selectedVideo.prompt}
                     </p>
+                    {selectedVideo.negative_prompt && (
+                      <>
+                        <h4 className="font-medium text-white mt-4 mb-2">Negative Prompt</h4>
+                        <p className="text-gray-300 text-sm leading-relaxed">
+                          {selectedVideo.negative_prompt}
+                        </p>
+                      </>
+                    )}
                   </div>
                 </div>
 
@@ -1203,8 +1481,8 @@ const History = () => {
                       type="button"
                       onClick={async () => {
                         try {
-                          const videoId = selectedVideo.generation_id || selectedVideo.job_id || selectedVideo.id || '';
-                          const response = await api.downloadVideo(videoId);
+                          const videoId = selectedVideo.generation_id;
+                          const response = await api.downloadVideo(videoId, { signal: getSignal() });
                           const blob = response; // API already returns a Blob
                           const url = window.URL.createObjectURL(blob);
                           const a = document.createElement('a');
@@ -1213,7 +1491,7 @@ const History = () => {
                           a.click();
                           window.URL.revokeObjectURL(url);
                         } catch (error) {
-                          toast.error('Failed to download video');
+                          if (!isRequestCancelled(error)) toast.error('Failed to download video');
                         }
                       }}
                       className="px-4 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors flex items-center space-x-2"
@@ -1222,6 +1500,14 @@ const History = () => {
                       <span>Download</span>
                     </button>
                   )}
+                  <button
+                    type="button"
+                    onClick={() => handleCopySettingsLink(selectedVideo)}
+                    className="px-4 py-2 bg-bg-tertiary text-gray-300 rounded-lg hover:bg-bg-quaternary transition-colors flex items-center space-x-2"
+                  >
+                    <Link2 className="w-4 h-4" />
+                    <span>Copy settings link</span>
+                  </button>
                   <button type="button" className="px-4 py-2 bg-neural-cyan/20 text-neural-cyan rounded-lg hover:bg-neural-cyan/30 transition-colors flex items-center space-x-2">
                     <Share2 className="w-4 h-4" />
                     <span>Share</span>
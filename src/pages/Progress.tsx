@@ -1,8 +1,8 @@
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { api } from '../api/endpoints';
-import type { VideoStatusResponse } from '../api/types';
+import { useGenerationTracking, useCancelGeneration } from '../hooks/useVideoGeneration';
+import { isCancellingStatus, isTerminalStatus } from '../api/tracker';
 
 const containerVariants = {
   initial: { opacity: 0, y: 20 },
@@ -13,42 +13,17 @@ const containerVariants = {
 export default function Progress() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const [status, setStatus] = useState<VideoStatusResponse | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const { status, error } = useGenerationTracking(id);
+  const cancelGeneration = useCancelGeneration();
+  const isCancelling = isCancellingStatus(status);
+  const canCancel = !!id && !!status && !isTerminalStatus(status.status);
 
   useEffect(() => {
-    let cancelled = false;
-
-    async function run() {
-      if (!id) return;
-      try {
-        // Prefer polling for reliability across environments
-        await api.video.pollVideoStatus(
-          id,
-          (s) => {
-            if (cancelled) return;
-            setStatus(s);
-          },
-          3000,
-          15 * 60 * 1000
-        ).then((finalStatus) => {
-          if (cancelled) return;
-          setStatus(finalStatus);
-          // Small delay so user sees 100%
-          setTimeout(() => navigate('/history'), 800);
-        }).catch((e) => {
-          if (cancelled) return;
-          setError(e?.message || 'Failed to get progress');
-        });
-      } catch (e: any) {
-        if (cancelled) return;
-        setError(e?.message || 'Failed to start progress');
-      }
-    }
-
-    run();
-    return () => { cancelled = true; };
-  }, [id, navigate]);
+    if (status?.status !== 'completed' && status?.status !== 'failed' && status?.status !== 'cancelled') return;
+    // Small delay so user sees 100%
+    const timeoutId = setTimeout(() => navigate('/history'), 800);
+    return () => clearTimeout(timeoutId);
+  }, [status?.status, navigate]);
 
   const progressValue = Math.max(0, Math.min(100, status?.progress ?? (status?.status === 'completed' ? 100 : 0)));
 
@@ -77,7 +52,7 @@ export default function Progress() {
             />
           </div>
           <div className="flex items-center justify-between mt-2 text-sm text-gray-400">
-            <span>Status: <span className="capitalize text-gray-300">{status?.status || 'starting'}</span></span>
+            <span>Status: <span className="capitalize text-gray-300">{isCancelling ? 'cancelling' : status?.status || 'starting'}</span></span>
             <span>{progressValue}%</span>
           </div>
         </div>
@@ -104,7 +79,19 @@ export default function Progress() {
         )}
       </div>
 
-      <div className="text-center">
+      <div className="flex items-center justify-center space-x-3">
+        {canCancel && (
+          <button
+            type="button"
+            onClick={() => {
+              void cancelGeneration(id);
+            }}
+            disabled={isCancelling}
+            className="px-4 py-2 bg-bg-tertiary hover:bg-bg-quaternary disabled:opacity-60 text-gray-300 rounded"
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel generation'}
+          </button>
+        )}
         <button
           type="button"
           onClick={() => navigate('/history')}
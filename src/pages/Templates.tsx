@@ -54,6 +54,8 @@ import {
 } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
 import { api } from '../api/endpoints';
+import { isRequestCancelled } from '../api/client';
+import { isOfflineQueued } from '../api/offlineQueue';
 import { SCENE_CATEGORIES, type SceneTemplate } from '../services/sceneTemplates';
 import { toast } from 'react-hot-toast';
 
@@ -159,11 +161,13 @@ const Templates = () => {
   // Enhanced templates data (combining API templates with defaults)
   const { data: apiTemplates, isLoading } = useQuery({
     queryKey: ['templates'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        const response = await api.getTemplates();
+        const response = await api.getTemplates(undefined, { signal });
         return response;
       } catch (error) {
+        // Left the page - let React Query drop the fetch instead of caching the fallback
+        if (isRequestCancelled(error)) throw error;
         // Fallback to default templates if API fails
         return [];
       }
@@ -283,6 +287,15 @@ const Templates = () => {
     }
     setFavorites(newFavorites);
     localStorage.setItem('template-favorites', JSON.stringify(Array.from(newFavorites)));
+
+    // Favorites are kept locally first; offline changes are queued and synced later
+    api.template.setFavorite(templateId, newFavorites.has(templateId)).catch(error => {
+      if (isOfflineQueued(error)) {
+        toast(error.message);
+      } else {
+        console.warn('Failed to sync favorite:', error);
+      }
+    });
   }, [favorites]);
 
   // Use template
@@ -299,10 +312,14 @@ const Templates = () => {
       navigate('/generate', { 
         state: { 
           template: {
+            id: template.id,
+            name: template.name,
             prompt: template.promptTemplate,
             style: template.visualStyle,
             industry: template.industry,
-            cameraMovement: template.cameraMovement
+            cameraMovement: template.cameraMovement,
+            lighting: template.lighting,
+            variables: template.variables
           }
         }
       });
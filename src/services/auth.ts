@@ -27,7 +27,7 @@ class AuthService {
     );
 
     // Store token in client
-    apiClient.setAuthToken(response.data.access_token);
+    apiClient.setAuthToken(response.data.access_token, response.data.refresh_token);
 
     return response.data;
   }
@@ -43,7 +43,7 @@ class AuthService {
     );
 
     // Store token in client
-    apiClient.setAuthToken(response.data.access_token);
+    apiClient.setAuthToken(response.data.access_token, response.data.refresh_token);
 
     return response.data;
   }
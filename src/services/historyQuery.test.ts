@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_HISTORY_FILTERS,
+  getDateRangeStart,
+  hasActiveHistoryFilters,
+  readHistoryFilters,
+  toCountParams,
+  toVideoListParams,
+  writeHistoryFilters
+} from './historyQuery';
+import { buildVideoListQuery } from '../api/endpoints';
+import { VideoStatus } from '../api/types';
+
+describe('History Query', () => {
+  it('should round-trip filters through search params', () => {
+    const filters = {
+      ...DEFAULT_HISTORY_FILTERS,
+      search: 'sunset',
+      status: ['completed', 'failed'],
+      dateRange: 'week' as const,
+      sortBy: 'prompt' as const,
+      sortOrder: 'asc' as const,
+      page: 3,
+      pageSize: 50,
+      scroll: 'infinite' as const
+    };
+    const params = writeHistoryFilters(filters);
+
+    expect(params.toString()).toBe('q=sunset&status=completed%2Cfailed&range=week&sort=prompt&order=asc&page=3&size=50&scroll=infinite');
+    expect(readHistoryFilters(params)).toEqual(filters);
+  });
+
+  it('should omit defaults and ignore malformed values', () => {
+    expect(writeHistoryFilters(DEFAULT_HISTORY_FILTERS).toString()).toBe('');
+    expect(readHistoryFilters(new URLSearchParams('range=decade&sort=cost&order=up&page=-2&size=7')))
+      .toEqual(DEFAULT_HISTORY_FILTERS);
+  });
+
+  it('should only treat narrowing filters as active', () => {
+    expect(hasActiveHistoryFilters({ ...DEFAULT_HISTORY_FILTERS, sortOrder: 'asc', page: 4 })).toBe(false);
+    expect(hasActiveHistoryFilters({ ...DEFAULT_HISTORY_FILTERS, style: ['anime'] })).toBe(true);
+  });
+
+  it('should resolve relative date ranges from local midnight', () => {
+    const now = new Date(2025, 7, 20, 15, 30); // Wednesday
+
+    expect(getDateRangeStart('all', now)).toBeUndefined();
+    expect(getDateRangeStart('today', now)).toBe(new Date(2025, 7, 20).toISOString());
+    expect(getDateRangeStart('week', now)).toBe(new Date(2025, 7, 17).toISOString());
+    expect(getDateRangeStart('month', now)).toBe(new Date(2025, 7, 1).toISOString());
+    expect(getDateRangeStart('quarter', now)).toBe(new Date(2025, 6, 1).toISOString());
+  });
+
+  it('should send filters, sorting and paging to the server', () => {
+    const now = new Date(2025, 7, 20, 15, 30);
+    const query = new URLSearchParams(buildVideoListQuery(toVideoListParams({
+      ...DEFAULT_HISTORY_FILTERS,
+      search: '  city  ',
+      status: ['processing'],
+      dateRange: 'today',
+      style: ['cinematic', 'anime'],
+      page: 2
+    }, now)));
+
+    expect(Object.fromEntries(query)).toEqual({
+      status: 'processing',
+      date_from: new Date(2025, 7, 20).toISOString(),
+      search: 'city',
+      style: 'cinematic,anime',
+      sort_by: 'created_at',
+      sort_order: 'desc',
+      page: '2',
+      page_size: '20'
+    });
+  });
+
+  it('should count one status group within the active filters', () => {
+    const filters = { ...DEFAULT_HISTORY_FILTERS, search: 'city', status: ['pending', 'failed'], page: 4 };
+    const query = new URLSearchParams(buildVideoListQuery(
+      toCountParams(filters, [VideoStatus.PENDING, VideoStatus.PROCESSING])!
+    ));
+
+    expect(query.get('status')).toBe('pending');
+    expect(query.get('search')).toBe('city');
+    expect(query.get('page')).toBe('1');
+    expect(query.get('page_size')).toBe('1');
+    expect(toCountParams(filters, [VideoStatus.COMPLETED])).toBeNull();
+    expect(toCountParams(filters)?.filters?.status).toEqual(['pending', 'failed']);
+  });
+});
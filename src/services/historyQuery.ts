@@ -0,0 +1,176 @@
+/**
+ * History query state - keeps History filters, sorting and paging in the URL
+ * Parses and writes search params so a filtered view can be bookmarked, and maps them to API list params
+ */
+
+import type { SortOrder, VideoListParams, VideoSortField, VideoStatus } from '../api/types';
+
+// ========== TYPES ==========
+
+export type HistoryDateRange = 'all' | 'today' | 'week' | 'month' | 'quarter';
+
+// 'infinite' loads further pages while scrolling a windowed list
+export type HistoryScrollMode = 'paged' | 'infinite';
+
+export interface HistoryFilters {
+  search: string;
+  status: string[];
+  dateRange: HistoryDateRange;
+  style: string[];
+  sortBy: VideoSortField;
+  sortOrder: SortOrder;
+  page: number;
+  pageSize: number;
+  scroll: HistoryScrollMode;
+}
+
+// ========== CONFIGURATION ==========
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  search: '',
+  status: [],
+  dateRange: 'all',
+  style: [],
+  sortBy: 'created_at',
+  sortOrder: 'desc',
+  page: 1,
+  pageSize: 20,
+  scroll: 'paged'
+};
+
+// Short URL keys, matching the compact style of settings links
+const PARAM_KEYS = {
+  search: 'q',
+  status: 'status',
+  dateRange: 'range',
+  style: 'style',
+  sortBy: 'sort',
+  sortOrder: 'order',
+  page: 'page',
+  pageSize: 'size',
+  scroll: 'scroll'
+} as const satisfies Record<keyof HistoryFilters, string>;
+
+const DATE_RANGES: HistoryDateRange[] = ['all', 'today', 'week', 'month', 'quarter'];
+const SORT_FIELDS: VideoSortField[] = ['created_at', 'prompt', 'status'];
+const PAGE_SIZES = [10, 20, 50, 100];
+
+// ========== URL STATE ==========
+
+const readList = (value: string | null): string[] =>
+  value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+
+const readPositiveInt = (value: string | null): number | null => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Filters encoded in the History URL; unknown or malformed values fall back to defaults
+ */
+export const readHistoryFilters = (searchParams: URLSearchParams): HistoryFilters => {
+  const dateRange = searchParams.get(PARAM_KEYS.dateRange) as HistoryDateRange;
+  const sortBy = searchParams.get(PARAM_KEYS.sortBy) as VideoSortField;
+  const sortOrder = searchParams.get(PARAM_KEYS.sortOrder);
+  const pageSize = readPositiveInt(searchParams.get(PARAM_KEYS.pageSize));
+
+  return {
+    search: searchParams.get(PARAM_KEYS.search) || '',
+    status: readList(searchParams.get(PARAM_KEYS.status)),
+    dateRange: DATE_RANGES.includes(dateRange) ? dateRange : DEFAULT_HISTORY_FILTERS.dateRange,
+    style: readList(searchParams.get(PARAM_KEYS.style)),
+    sortBy: SORT_FIELDS.includes(sortBy) ? sortBy : DEFAULT_HISTORY_FILTERS.sortBy,
+    sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : DEFAULT_HISTORY_FILTERS.sortOrder,
+    page: readPositiveInt(searchParams.get(PARAM_KEYS.page)) || DEFAULT_HISTORY_FILTERS.page,
+    pageSize: pageSize && PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_HISTORY_FILTERS.pageSize,
+    scroll: searchParams.get(PARAM_KEYS.scroll) === 'infinite' ? 'infinite' : DEFAULT_HISTORY_FILTERS.scroll
+  };
+};
+
+/**
+ * Search params for the given filters; defaults are omitted to keep links short
+ */
+export const writeHistoryFilters = (filters: HistoryFilters): URLSearchParams => {
+  const searchParams = new URLSearchParams();
+
+  (Object.keys(PARAM_KEYS) as (keyof HistoryFilters)[]).forEach(field => {
+    const value = filters[field];
+    const serialised = Array.isArray(value) ? value.join(',') : String(value).trim();
+    const fallback = DEFAULT_HISTORY_FILTERS[field];
+    const defaultValue = Array.isArray(fallback) ? fallback.join(',') : String(fallback);
+
+    if (serialised && serialised !== defaultValue) {
+      searchParams.set(PARAM_KEYS[field], serialised);
+    }
+  });
+
+  return searchParams;
+};
+
+/**
+ * Whether any filter narrows the result set (sorting and paging do not)
+ */
+export const hasActiveHistoryFilters = (filters: HistoryFilters): boolean =>
+  !!filters.search.trim() || filters.status.length > 0 || filters.style.length > 0 || filters.dateRange !== 'all';
+
+// ========== API PARAMS ==========
+
+/**
+ * ISO start of a relative date range, or undefined for all time
+ */
+export const getDateRangeStart = (range: HistoryDateRange, now: Date = new Date()): string | undefined => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+
+  switch (range) {
+    case 'today':
+      break;
+    case 'week':
+      start.setDate(start.getDate() - start.getDay());
+      break;
+    case 'month':
+      start.setDate(1);
+      break;
+    case 'quarter':
+      start.setMonth(start.getMonth() - (start.getMonth() % 3), 1);
+      break;
+    default:
+      return undefined;
+  }
+
+  return start.toISOString();
+};
+
+/**
+ * List params sent to GET /user/videos for the given filters
+ */
+export const toVideoListParams = (filters: HistoryFilters, now: Date = new Date()): VideoListParams => ({
+  page: filters.page,
+  page_size: filters.pageSize,
+  sort_by: filters.sortBy,
+  sort_order: filters.sortOrder,
+  filters: {
+    status: filters.status as VideoStatus[],
+    date_from: getDateRangeStart(filters.dateRange, now),
+    search: filters.search.trim() || undefined,
+    style: filters.style
+  }
+});
+
+/**
+ * List params whose response total counts the videos matching the filters in the given
+ * statuses; null when the status filter already rules all of them out
+ */
+export const toCountParams = (
+  filters: HistoryFilters,
+  statuses: VideoStatus[] = [],
+  now: Date = new Date()
+): VideoListParams | null => {
+  const allowed = statuses.length === 0
+    ? filters.status as VideoStatus[]
+    : statuses.filter(status => filters.status.length === 0 || filters.status.includes(status));
+  if (statuses.length > 0 && allowed.length === 0) return null;
+
+  const params = toVideoListParams({ ...filters, page: 1 }, now);
+  return { ...params, page_size: 1, filters: { ...params.filters, status: allowed } };
+};
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendSentence,
+  collectBlockedTerms,
+  lintPrompt,
+  removeTerm,
+  type LintWarning
+} from './promptLinter';
+import { PROMPT_LENGTH_LIMITS } from './videos';
+import { AspectRatio, VideoStatus, type VideoStatusResponse } from '../api/types';
+
+const DETAILED = 'A red fox trotting through a snowy birch forest at dawn. Camera: slow tracking shot. Lighting: golden hour.';
+
+const ids = (warnings: LintWarning[]) => warnings.map(warning => warning.id);
+
+const find = (warnings: LintWarning[], id: string) => {
+  const warning = warnings.find(entry => entry.id === id);
+  if (!warning) throw new Error(`No ${id} warning in ${ids(warnings).join(', ')}`);
+  return warning;
+};
+
+const applyFix = (warning: LintWarning, prompt: string) => {
+  if (warning.fix.kind !== 'edit') throw new Error(`${warning.id} has a ${warning.fix.kind} fix`);
+  return warning.fix.apply(prompt);
+};
+
+const failed = (error_details: string, prompt: string): VideoStatusResponse => ({
+  generation_id: `gen-${prompt.length}`,
+  status: VideoStatus.FAILED,
+  message: 'Generation failed',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  error_details,
+  prompt
+});
+
+describe('Prompt Linter', () => {
+  it('should pass a detailed prompt and skip an empty one', () => {
+    expect(lintPrompt(DETAILED, { aspectRatio: AspectRatio.LANDSCAPE, duration: 8 })).toEqual([]);
+    expect(lintPrompt('   ')).toEqual([]);
+  });
+
+  it('should measure length against the backend limits', () => {
+    expect(ids(lintPrompt('ok'))).toEqual(['too-short']);
+    expect(ids(lintPrompt('A fox in snow'))).toEqual(['vague-short']);
+
+    const sentence = 'A red fox trots through the snow under a golden sky while the camera tracks it. ';
+    const long = sentence.repeat(Math.ceil(PROMPT_LENGTH_LIMITS.MAX / sentence.length) + 1);
+    const tooLong = find(lintPrompt(long), 'too-long');
+    expect(tooLong.severity).toBe('error');
+
+    const trimmed = applyFix(tooLong, long);
+    expect(trimmed.length).toBeLessThanOrEqual(PROMPT_LENGTH_LIMITS.MAX);
+    expect(trimmed.endsWith('tracks it.')).toBe(true);
+  });
+
+  it('should ask for camera and lighting direction and add it as a fix', () => {
+    const prompt = 'A red fox trotting through a snowy birch forest at dawn';
+    const warnings = lintPrompt(prompt);
+
+    expect(ids(warnings)).toEqual(['missing-camera', 'missing-lighting']);
+    expect(applyFix(warnings[0], prompt)).toBe(`${prompt}. Camera: slow dolly in.`);
+    expect(applyFix(warnings[1], `${prompt}.`)).toBe(`${prompt}. Lighting: golden hour.`);
+  });
+
+  it('should switch the aspect ratio when the model offers the one the prompt asks for', () => {
+    const prompt = `${DETAILED} Vertical video for TikTok.`;
+
+    const switchable = find(lintPrompt(prompt, {
+      aspectRatio: AspectRatio.LANDSCAPE,
+      aspectRatios: [AspectRatio.LANDSCAPE, AspectRatio.PORTRAIT]
+    }), `aspect-${AspectRatio.PORTRAIT}`);
+    expect(switchable.fix).toMatchObject({ kind: 'aspect_ratio', value: AspectRatio.PORTRAIT });
+
+    const fixed = find(lintPrompt(prompt, {
+      aspectRatio: AspectRatio.LANDSCAPE,
+      aspectRatios: [AspectRatio.LANDSCAPE]
+    }), `aspect-${AspectRatio.PORTRAIT}`);
+    expect(applyFix(fixed, prompt)).toBe(`${DETAILED} for TikTok.`);
+
+    expect(lintPrompt(prompt, { aspectRatio: AspectRatio.PORTRAIT })).toEqual([]);
+  });
+
+  it('should flag contradictions and clips described longer than they are', () => {
+    const prompt = 'A static shot of a lighthouse in broad daylight as the camera pans over the moonlit sea for 30 seconds.';
+    const warnings = lintPrompt(prompt, { duration: 8 });
+
+    expect(ids(warnings)).toEqual(['conflict-time-of-day', 'conflict-camera-motion', 'duration']);
+    expect(applyFix(find(warnings, 'conflict-time-of-day'), prompt)).toBe(
+      'A static shot of a lighthouse in broad daylight as the camera pans over the sea for 30 seconds.'
+    );
+    expect(applyFix(find(warnings, 'duration'), prompt)).toBe(
+      'A static shot of a lighthouse in broad daylight as the camera pans over the moonlit sea.'
+    );
+    expect(ids(lintPrompt(prompt, { duration: 30 }))).not.toContain('duration');
+  });
+
+  it('should block terms from failed history as errors, ahead of everything else', () => {
+    const prompt = 'A fox knocks something over. Camera: slow pan. Lighting: gory red neon.';
+    const warnings = lintPrompt(prompt, { blockedTerms: ['gory', 'weapon'] });
+
+    expect(ids(warnings)).toEqual(['blocked-gory', 'vague-words']);
+    expect(applyFix(warnings[0], prompt)).toBe('A fox knocks something over. Camera: slow pan. Lighting: red neon.');
+  });
+
+  it('should collect terms from safety failures only', () => {
+    expect(collectBlockedTerms([
+      failed('Prompt blocked by safety filter', 'A duel with violence and blood in the rain'),
+      failed('Content policy violation: prohibited terms: gore, decapitation', 'A horror scene'),
+      failed('Request blocked by safety filter for "firearm"', 'A firearm on a table'),
+      failed('Internal server error', 'A weapon on a table'),
+      { ...failed('Prompt blocked by safety filter', 'A gun'), status: VideoStatus.COMPLETED }
+    ])).toEqual(['violence', 'blood', 'gore', 'decapitation', 'firearm']);
+  });
+
+  it('should not mistake apostrophes for quotes in safety errors', () => {
+    expect(collectBlockedTerms([
+      failed("Your prompt didn't pass Google's safety filter", 'A duel with violence in the rain')
+    ])).toEqual(['violence']);
+    expect(collectBlockedTerms([
+      failed("Blocked by safety filter: 'machete' isn't allowed", 'A machete on a table')
+    ])).toEqual(['machete']);
+  });
+
+  it('should tidy up after removing or appending text', () => {
+    expect(removeTerm('Neon, gritty, neon city', 'neon')).toBe('gritty, city');
+    expect(appendSentence('A fox,  ', 'Camera: close-up.')).toBe('A fox. Camera: close-up.');
+    expect(appendSentence('', 'Camera: close-up.')).toBe('Camera: close-up.');
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Prompt linter
+ * Rule-based checks run while a prompt is typed: length against the backend limits, vague
+ * wording, missing camera or lighting direction, contradictory or impossible instructions
+ * and terms that got the user's own earlier generations blocked. Every warning has a quick fix.
+ */
+
+import { classifyFailure } from '../api/retries';
+import { AspectRatio, VideoStatus, type VideoStatusResponse } from '../api/types';
+import { SHOT_VOCABULARY } from './sceneTemplates';
+import { mentionsPart } from './shotBuilder';
+import { PROMPT_LENGTH_LIMITS } from './videos';
+
+// ========== TYPES ==========
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintFix =
+  | { kind: 'edit'; label: string; apply: (prompt: string) => string }
+  | { kind: 'aspect_ratio'; label: string; value: AspectRatio }
+  | { kind: 'workbench'; label: string };
+
+export interface LintWarning {
+  id: string;                   // rule id, suffixed where one rule can fire for several terms
+  severity: LintSeverity;
+  message: string;
+  fix: LintFix;
+}
+
+export interface LintContext {
+  aspectRatio?: string;
+  aspectRatios?: string[];      // ratios the chosen model renders
+  duration?: number;            // clip length in seconds
+  blockedTerms?: string[];      // from collectBlockedTerms
+}
+
+// ========== CONFIGURATION ==========
+
+const VAGUE_LENGTH = 40;        // below this most of the shot is left to the model
+const DEFAULT_CAMERA = SHOT_VOCABULARY.camera[0];       // quick-fix defaults, the first picker terms
+const DEFAULT_LIGHTING = SHOT_VOCABULARY.lighting[0];
+
+const FILLER_PATTERN = /\b(something|stuff|things|some kind of|sort of|kind of|whatever|etc)\b/gi;
+
+// A term quoted in a safety error; single quotes must stand apart from letters so apostrophes
+// ("didn't", "Google's") don't pair up into junk terms
+const QUOTED_TERM = /["“]([^"”]{2,40})["”]|(?<!\p{L})['‘]([^'’]{2,40})['’](?!\p{L})/gu;
+
+// Wording that only makes sense in one frame shape
+const FRAMING_TERMS: Array<{ ratio: AspectRatio; pattern: RegExp }> = [
+  { ratio: AspectRatio.PORTRAIT, pattern: /\b(vertical (?:video|format|frame)|portrait (?:format|orientation|mode)|9:16|tiktok|instagram reels?|youtube shorts)\b/i },
+  { ratio: AspectRatio.LANDSCAPE, pattern: /\b(widescreen|landscape (?:format|orientation)|16:9)\b/i },
+  { ratio: AspectRatio.SQUARE, pattern: /\b(square (?:format|frame|video)|1:1)\b/i },
+  { ratio: AspectRatio.CINEMA, pattern: /\b(cinemascope|anamorphic widescreen|21:9)\b/i }
+];
+
+// Instructions that can't both hold for one clip
+const CONFLICTS: Array<{ id: string; first: RegExp; second: RegExp }> = [
+  {
+    id: 'time-of-day',
+    first: /\b(daytime|midday|noon|broad daylight|sunny day)\b/i,
+    second: /\b(night|nighttime|midnight|moonlit)\b/i
+  },
+  {
+    id: 'camera-motion',
+    first: /\b(static (?:camera|shot|wide shot)|locked-off (?:camera|shot)|still camera)\b/i,
+    second: /\b(pans?|panning|tracking|dolly|orbits?|crane|handheld|zooms?)\b/i
+  },
+  {
+    id: 'speed',
+    first: /\bslow[- ]motion\b/i,
+    second: /\btime[- ]?lapse\b/i
+  },
+  {
+    id: 'colour',
+    first: /\b(black[- ]and[- ]white|monochrome|gr[ae]yscale)\b/i,
+    second: /\b(vibrant colou?rs?|colou?rful|saturated|technicolou?r)\b/i
+  },
+  {
+    id: 'sound',
+    first: /\b(silent|no sound|no audio|in silence)\b/i,
+    second: /\b(music|dialogue|soundtrack|voice-?over|narration)\b/i
+  }
+];
+
+const DURATION_PATTERN = /\b(?:(?:for|over|lasting)\s+)?(\d+(?:\.\d+)?)[- ](seconds?|secs?|minutes?|mins?)(?:\s+long)?\b/gi;
+
+// Checked against failed prompts whose safety error doesn't name the terms it objected to
+const SAFETY_WATCHLIST = [
+  'violence', 'violent', 'gore', 'gory', 'blood', 'bloody', 'weapon', 'weapons', 'gun', 'guns',
+  'kill', 'killing', 'corpse', 'explosion', 'nude', 'nudity', 'drugs'
+];
+
+// ========== TEXT HELPERS ==========
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string) => new RegExp(`(^|[^\\w])${escape(term)}(?=$|[^\\w])`, 'gi');
+
+export const containsTerm = (prompt: string, term: string): boolean => termPattern(term).test(prompt);
+
+// Spacing and punctuation left behind once a word is cut out
+const tidy = (text: string) =>
+  text
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/([,;:])(?=[,.;:!?])/g, '')
+    .replace(/^[\s,.;:]+/, '')
+    .trim();
+
+/**
+ * Prompt with every whole-word occurrence of the term removed
+ */
+export const removeTerm = (prompt: string, term: string): string =>
+  tidy(prompt.replace(termPattern(term), '$1'));
+
+/**
+ * Prompt with a sentence added at the end
+ */
+export const appendSentence = (prompt: string, sentence: string): string => {
+  const body = prompt.trim().replace(/[\s,;:]+$/, '');
+  if (!body) return sentence;
+  return /[.!?]$/.test(body) ? `${body} ${sentence}` : `${body}. ${sentence}`;
+};
+
+// Longest run of whole sentences within the limit, or a hard cut when the first sentence is already too long
+const truncate = (prompt: string, limit: number) => {
+  const head = prompt.slice(0, limit);
+  const lastStop = Math.max(head.lastIndexOf('. '), head.lastIndexOf('! '), head.lastIndexOf('? '));
+  return (lastStop > 0 ? head.slice(0, lastStop + 1) : head).trim();
+};
+
+const removeFix = (term: string): LintFix => ({
+  kind: 'edit',
+  label: `Remove "${term}"`,
+  apply: (prompt) => removeTerm(prompt, term)
+});
+
+// ========== RULES ==========
+
+type Rule = (prompt: string, context: LintContext) => LintWarning[];
+
+const lengthRule: Rule = (prompt) => {
+  const length = prompt.trim().length;
+
+  if (length < PROMPT_LENGTH_LIMITS.MIN) {
+    return [{
+      id: 'too-short',
+      severity: 'error',
+      message: `Prompts need at least ${PROMPT_LENGTH_LIMITS.MIN} characters`,
+      fix: { kind: 'workbench', label: 'Get suggestions' }
+    }];
+  }
+  if (prompt.length > PROMPT_LENGTH_LIMITS.MAX) {
+    return [{
+      id: 'too-long',
+      severity: 'error',
+      message: `${prompt.length - PROMPT_LENGTH_LIMITS.MAX} characters over the ${PROMPT_LENGTH_LIMITS.MAX}-character limit`,
+      fix: {
+        kind: 'edit',
+        label: 'Trim to the limit',
+        apply: (current) => truncate(current, PROMPT_LENGTH_LIMITS.MAX)
+      }
+    }];
+  }
+  if (length < VAGUE_LENGTH) {
+    return [{
+      id: 'vague-short',
+      severity: 'warning',
+      message: 'Short prompts leave most of the shot to chance - describe the subject, setting and action',
+      fix: { kind: 'workbench', label: 'Get suggestions' }
+    }];
+  }
+  return [];
+};
+
+const fillerRule: Rule = (prompt) => {
+  const words = [...new Set((prompt.match(FILLER_PATTERN) || []).map(word => word.toLowerCase()))];
+  if (words.length === 0) return [];
+
+  return [{
+    id: 'vague-words',
+    severity: 'info',
+    message: `${words.map(word => `"${word}"`).join(', ')} gives the model nothing concrete to render`,
+    fix: { kind: 'workbench', label: 'Get specific suggestions' }
+  }];
+};
+
+const directionRule: Rule = (prompt) => {
+  if (prompt.trim().length < VAGUE_LENGTH) return [];
+  const warnings: LintWarning[] = [];
+
+  if (!mentionsPart(prompt, 'camera')) {
+    const sentence = `Camera: ${DEFAULT_CAMERA}.`;
+    warnings.push({
+      id: 'missing-camera',
+      severity: 'warning',
+      message: 'No camera direction - the model will pick the framing and movement',
+      fix: { kind: 'edit', label: `Add "${sentence}"`, apply: (current) => appendSentence(current, sentence) }
+    });
+  }
+  if (!mentionsPart(prompt, 'lighting')) {
+    const sentence = `Lighting: ${DEFAULT_LIGHTING}.`;
+    warnings.push({
+      id: 'missing-lighting',
+      severity: 'info',
+      message: 'No lighting direction - say when or how the scene is lit',
+      fix: { kind: 'edit', label: `Add "${sentence}"`, apply: (current) => appendSentence(current, sentence) }
+    });
+  }
+  return warnings;
+};
+
+const framingRule: Rule = (prompt, { aspectRatio, aspectRatios = [] }) => {
+  if (!aspectRatio) return [];
+
+  return FRAMING_TERMS.flatMap(({ ratio, pattern }) => {
+    const match = pattern.exec(prompt);
+    if (!match || ratio === aspectRatio) return [];
+
+    const term = match[0];
+    return [{
+      id: `aspect-${ratio}`,
+      severity: 'warning' as const,
+      message: `"${term}" asks for a ${ratio} frame but the video is ${aspectRatio}`,
+      fix: aspectRatios.includes(ratio)
+        ? { kind: 'aspect_ratio' as const, label: `Switch to ${ratio}`, value: ratio }
+        : removeFix(term)
+    }];
+  });
+};
+
+const conflictRule: Rule = (prompt) =>
+  CONFLICTS.flatMap(({ id, first, second }) => {
+    const a = first.exec(prompt);
+    const b = second.exec(prompt);
+    if (!a || !b) return [];
+
+    // The later instruction is usually the afterthought
+    const later = a.index > b.index ? a[0] : b[0];
+    return [{
+      id: `conflict-${id}`,
+      severity: 'warning' as const,
+      message: `"${a[0]}" and "${b[0]}" contradict each other`,
+      fix: removeFix(later)
+    }];
+  });
+
+const durationRule: Rule = (prompt, { duration }) => {
+  if (!duration) return [];
+
+  for (const match of prompt.matchAll(DURATION_PATTERN)) {
+    const seconds = Number(match[1]) * (match[2].toLowerCase().startsWith('m') ? 60 : 1);
+    if (seconds > duration) {
+      const phrase = match[0];
+      return [{
+        id: 'duration',
+        severity: 'warning',
+        message: `"${phrase}" won't fit in a ${duration}s clip`,
+        fix: removeFix(phrase)
+      }];
+    }
+  }
+  return [];
+};
+
+const blockedTermRule: Rule = (prompt, { blockedTerms = [] }) =>
+  blockedTerms
+    .filter(term => containsTerm(prompt, term))
+    .map(term => ({
+      id: `blocked-${term}`,
+      severity: 'error' as const,
+      message: `"${term}" got one of your earlier generations blocked by the safety filter`,
+      fix: removeFix(term)
+    }));
+
+const RULES: Rule[] = [lengthRule, blockedTermRule, framingRule, conflictRule, durationRule, directionRule, fillerRule];
+
+// ========== LINTING ==========
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Warnings for a prompt, most severe first. An empty prompt has none: the form's own
+ * required check covers it.
+ */
+export const lintPrompt = (prompt: string, context: LintContext = {}): LintWarning[] => {
+  if (!prompt.trim()) return [];
+
+  return RULES
+    .flatMap(rule => rule(prompt, context))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
+
+/**
+ * Terms the safety filter objected to in the user's failed generations: the ones the error
+ * quotes or lists, or, when it names none, the watchlist words the blocked prompt used
+ */
+export const collectBlockedTerms = (videos: VideoStatusResponse[]): string[] => {
+  const terms = new Set<string>();
+
+  videos
+    .filter(video => video.status === VideoStatus.FAILED && classifyFailure(video.error_details) === 'safety_filter')
+    .forEach(video => {
+      const details = video.error_details || '';
+      const named = [
+        ...[...details.matchAll(QUOTED_TERM)].map(match => match[1] ?? match[2]),
+        ...(/\bterms?:\s*([^.;]+)/i.exec(details)?.[1].split(/,\s*|\s+and\s+/) || [])
+      ].map(term => term.trim().toLowerCase()).filter(Boolean);
+
+      const found = named.length > 0
+        ? named
+        : SAFETY_WATCHLIST.filter(term => containsTerm(video.prompt || '', term));
+      found.forEach(term => terms.add(term));
+    });
+
+  return [...terms];
+};
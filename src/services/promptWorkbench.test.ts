@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeAction,
+  diffWords,
+  insertSuggestion,
+  pushAction,
+  WORKBENCH_UNDO_LIMIT,
+  type WorkbenchAction
+} from './promptWorkbench';
+
+describe('Prompt Workbench', () => {
+  describe('diffWords', () => {
+    it('should mark inserted, removed and unchanged words', () => {
+      expect(diffWords('A red fox runs', 'A sleek red fox sprints at dawn')).toEqual([
+        { type: 'same', text: 'A ' },
+        { type: 'added', text: 'sleek ' },
+        { type: 'same', text: 'red fox ' },
+        { type: 'removed', text: 'runs' },
+        { type: 'added', text: 'sprints at dawn' }
+      ]);
+    });
+
+    it('should ignore whitespace-only changes', () => {
+      expect(diffWords('A  red\nfox', 'A red fox')).toEqual([{ type: 'same', text: 'A red fox' }]);
+    });
+
+    it('should rebuild both prompts from the segments', () => {
+      const original = 'Waves crash on the rocks, seagulls overhead';
+      const enhanced = 'Slow-motion waves crash on jagged rocks at sunset, seagulls wheeling overhead';
+      const segments = diffWords(original, enhanced);
+
+      const rebuild = (skip: string) => segments.filter(segment => segment.type !== skip).map(segment => segment.text).join('');
+      expect(rebuild('removed')).toBe(enhanced);
+      expect(rebuild('added').replace(/\s+/g, ' ').trim()).toBe(original);
+    });
+  });
+
+  describe('insertSuggestion', () => {
+    it('should append fragments as a new clause', () => {
+      expect(insertSuggestion('A lighthouse at dusk.  ', 'golden hour')).toBe('A lighthouse at dusk, golden hour');
+      expect(insertSuggestion('A lighthouse at dusk,', 'golden hour')).toBe('A lighthouse at dusk, golden hour');
+    });
+
+    it('should replace the prompt with suggestions that extend it', () => {
+      expect(insertSuggestion('A lighthouse at dusk', 'A lighthouse at dusk, aerial shot')).toBe('A lighthouse at dusk, aerial shot');
+    });
+
+    it('should leave the prompt alone when it already says it', () => {
+      expect(insertSuggestion('A lighthouse at Golden Hour', 'golden hour')).toBe('A lighthouse at Golden Hour');
+      expect(insertSuggestion('A lighthouse', '  ')).toBe('A lighthouse');
+    });
+  });
+
+  describe('undo stack', () => {
+    const insert = (index: number): WorkbenchAction => ({
+      kind: 'insert',
+      before: `prompt ${index}`,
+      after: `prompt ${index + 1}`,
+      suggestion: `chip ${index}`
+    });
+
+    it('should keep the newest actions up to the limit', () => {
+      const stack = Array.from({ length: WORKBENCH_UNDO_LIMIT + 5 }, (_, index) => insert(index))
+        .reduce(pushAction, [] as WorkbenchAction[]);
+
+      expect(stack).toHaveLength(WORKBENCH_UNDO_LIMIT);
+      expect(stack[stack.length - 1].suggestion).toBe(`chip ${WORKBENCH_UNDO_LIMIT + 4}`);
+      expect(describeAction(stack[0])).toBe('inserted "chip 5"');
+    });
+  });
+});
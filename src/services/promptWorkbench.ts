@@ -0,0 +1,136 @@
+/**
+ * Prompt workbench - reviewing backend prompt enhancements before they replace the user's prompt
+ * Word-level diffs between an original and an enhanced prompt, suggestion insertion and the
+ * undo stack of accept, reject and insert actions
+ */
+
+// ========== TYPES ==========
+
+export type DiffSegmentType = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;                   // words with their trailing whitespace, ready to render inline
+}
+
+// An enhancement under review
+export interface PromptProposal {
+  original: string;
+  enhanced: string;
+  style: string | null;
+  suggestions: string[];          // advice returned with the enhancement
+}
+
+export type WorkbenchActionKind = 'accept' | 'reject' | 'insert';
+
+// One entry on the undo stack; undoing restores `before` and puts the proposal or suggestion back
+export interface WorkbenchAction {
+  kind: WorkbenchActionKind;
+  before: string;
+  after: string;
+  proposal?: PromptProposal;
+  suggestion?: string;
+  enhanceOnGenerate?: boolean;    // the backend enhancement flag before an accept turned it off
+}
+
+// ========== CONFIGURATION ==========
+
+export const WORKBENCH_UNDO_LIMIT = 20;
+
+// Above this many word pairs the diff falls back to a whole-prompt replacement
+const MAX_DIFF_CELLS = 250_000;
+
+// ========== DIFF ==========
+
+const tokenize = (text: string): string[] => text.match(/\S+\s*/g) || [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff: the longest common word sequence is kept, everything else is added or removed.
+ * Whitespace doesn't count towards a word, so reflowing a prompt isn't reported as a change.
+ */
+export const diffWords = (original: string, revised: string): DiffSegment[] => {
+  const before = tokenize(original);
+  const after = tokenize(revised);
+  const segments: DiffSegment[] = [];
+
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    if (original) segments.push({ type: 'removed', text: original });
+    if (revised) segments.push({ type: 'added', text: revised });
+    return segments;
+  }
+
+  const same = (i: number, j: number) => before[i].trimEnd() === after[j].trimEnd();
+
+  // lengths[i][j]: common words between before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(i, j) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (same(i, j)) {
+      pushSegment(segments, 'same', after[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', before[i++]);
+    } else {
+      pushSegment(segments, 'added', after[j++]);
+    }
+  }
+  while (i < before.length) pushSegment(segments, 'removed', before[i++]);
+  while (j < after.length) pushSegment(segments, 'added', after[j++]);
+
+  return segments;
+};
+
+// ========== SUGGESTIONS ==========
+
+/**
+ * Prompt with a suggestion worked in. Suggestions that extend the whole prompt replace it,
+ * fragments are appended as a new clause, and ones already present change nothing.
+ */
+export const insertSuggestion = (prompt: string, suggestion: string): string => {
+  const base = prompt.trim();
+  const addition = suggestion.trim();
+  if (!addition) return prompt;
+  if (!base) return addition;
+
+  const lower = addition.toLowerCase();
+  if (lower.startsWith(base.toLowerCase())) return addition;
+  if (base.toLowerCase().includes(lower)) return prompt;
+
+  return `${base.replace(/[\s,;.]+$/, '')}, ${addition}`;
+};
+
+// ========== UNDO STACK ==========
+
+/**
+ * Stack with the action on top, oldest entries dropped past the limit
+ */
+export const pushAction = (stack: WorkbenchAction[], action: WorkbenchAction): WorkbenchAction[] =>
+  [...stack, action].slice(-WORKBENCH_UNDO_LIMIT);
+
+export const describeAction = (action: WorkbenchAction): string => {
+  switch (action.kind) {
+    case 'accept':
+      return 'accepted enhancement';
+    case 'reject':
+      return 'rejected enhancement';
+    case 'insert':
+      return `inserted "${action.suggestion}"`;
+  }
+};
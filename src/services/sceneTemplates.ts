@@ -136,4 +136,47 @@ export const DEFAULT_SCENE_TEMPLATES: IndustryTemplates = {
       lighting: 'Dramatic, mood-setting lighting'
     }
   ]
+};
+
+// Prompt vocabulary offered by the shot builder's pickers, ahead of terms taken from the templates above
+export const SHOT_VOCABULARY = {
+  camera: [
+    'slow dolly in',
+    'tracking shot',
+    'aerial establishing shot',
+    'handheld',
+    'slow pan',
+    'orbit around the subject',
+    'crane up',
+    'static wide shot',
+    'close-up',
+    'rack focus'
+  ],
+  lighting: [
+    'golden hour',
+    'soft studio lighting',
+    'dramatic low-key lighting',
+    'neon glow',
+    'overcast daylight',
+    'backlit silhouette',
+    'candlelight'
+  ],
+  style: [
+    'cinematic',
+    'photorealistic',
+    'documentary',
+    'anime',
+    'film noir',
+    'vintage 16mm film',
+    'minimalist'
+  ],
+  audio: [
+    'ambient nature sounds',
+    'soft piano score',
+    'upbeat electronic music',
+    'crowd chatter',
+    'narration',
+    'no dialogue',
+    'silence'
+  ]
 };
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSettingsLink,
+  decodeGenerationSettings,
+  encodeGenerationSettings,
+  readSettingsFromParams,
+  settingsFromHistoryItem,
+  type GenerationSettings
+} from './settingsLink';
+import { AspectRatio, VideoModel, VideoStatus } from '../api/types';
+
+const settings: GenerationSettings = {
+  prompt: 'A café at dawn — steam rising from a cup ☕',
+  model: VideoModel.VEO_2_GA,
+  aspect_ratio: AspectRatio.PORTRAIT,
+  duration: 8,
+  style: 'cinematic',
+  costTier: 'standard',
+  qualityLevel: 'production',
+  negativePrompt: 'blurry, text',
+  seed: 42,
+  guidanceScale: 7.5,
+  templateId: 'product-demo-1',
+  templateValues: { product: 'a matte black headphone' },
+  currentStep: 3
+};
+
+describe('Settings Link', () => {
+  it('should round-trip every field, including non-ASCII prompts', () => {
+    const encoded = encodeGenerationSettings(settings);
+
+    expect(encoded).toMatch(/^1\.[A-Za-z0-9_-]+$/);
+    expect(decodeGenerationSettings(encoded)).toEqual(settings);
+  });
+
+  it('should drop empty fields', () => {
+    const decoded = decodeGenerationSettings(encodeGenerationSettings({
+      prompt: 'Waves',
+      negativePrompt: '',
+      seed: NaN,
+      templateValues: {}
+    }));
+
+    expect(decoded).toEqual({ prompt: 'Waves' });
+  });
+
+  it('should reject unknown versions and malformed payloads', () => {
+    const [, payload] = encodeGenerationSettings(settings).split('.');
+
+    expect(decodeGenerationSettings(`2.${payload}`)).toBeNull();
+    expect(decodeGenerationSettings('1.not-json')).toBeNull();
+    expect(decodeGenerationSettings('garbage')).toBeNull();
+    expect(decodeGenerationSettings(null)).toBeNull();
+  });
+
+  it('should ignore invalid field values', () => {
+    const decoded = decodeGenerationSettings(encodeGenerationSettings({
+      ...settings,
+      aspect_ratio: '7:3' as AspectRatio,
+      duration: '8' as unknown as number,
+      templateValues: { product: 42 } as unknown as Record<string, string>
+    }));
+
+    expect(decoded?.aspect_ratio).toBeUndefined();
+    expect(decoded?.duration).toBeUndefined();
+    expect(decoded?.templateValues).toBeUndefined();
+    expect(decoded?.prompt).toBe(settings.prompt);
+  });
+
+  it('should build Generate links readable from the query string', () => {
+    const link = buildSettingsLink(settings, 'https://studio.example.com');
+    const url = new URL(link);
+
+    expect(url.pathname).toBe('/generate');
+    expect(readSettingsFromParams(url.searchParams)).toEqual(settings);
+  });
+
+  it('should rebuild settings from a History item', () => {
+    expect(settingsFromHistoryItem({
+      generation_id: 'gen-1',
+      status: VideoStatus.COMPLETED,
+      message: '',
+      created_at: '',
+      updated_at: '',
+      prompt: 'Waves',
+      aspect_ratio: '1:1',
+      duration_seconds: 6,
+      metadata: { style: 'realistic', negativePrompt: 'people', seed: 7 }
+    })).toEqual({
+      prompt: 'Waves',
+      aspect_ratio: AspectRatio.SQUARE,
+      duration: 6,
+      style: 'realistic',
+      costTier: undefined,
+      qualityLevel: undefined,
+      negativePrompt: 'people',
+      seed: 7,
+      guidanceScale: undefined
+    });
+  });
+
+  it('should prefer the echoed generation parameters over metadata', () => {
+    expect(settingsFromHistoryItem({
+      generation_id: 'gen-2',
+      status: VideoStatus.COMPLETED,
+      message: '',
+      created_at: '',
+      updated_at: '',
+      prompt: 'Waves',
+      model: VideoModel.VEO_2_GA,
+      seed: 1234,
+      guidance_scale: 4,
+      negative_prompt: 'boats',
+      metadata: { negativePrompt: 'people', seed: 7 }
+    })).toMatchObject({ model: VideoModel.VEO_2_GA, seed: 1234, guidanceScale: 4, negativePrompt: 'boats' });
+  });
+
+  it('should bring back the template and its values from History item metadata', () => {
+    expect(settingsFromHistoryItem({
+      generation_id: 'gen-3',
+      status: VideoStatus.COMPLETED,
+      message: '',
+      created_at: '',
+      updated_at: '',
+      prompt: 'A professional product demo of a matte black headphone',
+      metadata: { template_id: 'product-demo-1', template_variables: { product: 'a matte black headphone' } }
+    })).toMatchObject({
+      templateId: 'product-demo-1',
+      templateValues: { product: 'a matte black headphone' }
+    });
+  });
+});
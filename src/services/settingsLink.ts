@@ -0,0 +1,193 @@
+/**
+ * Settings links - encodes Generate page settings into a compact, versioned URL parameter
+ * Used to share a wizard configuration and to re-open settings from a History item
+ */
+
+import { AspectRatio } from '../api/types';
+import type { VideoModel, VideoStatusResponse } from '../api/types';
+import { readTemplateMetadata, type TemplateValues } from './templateInstantiation';
+
+// ========== TYPES ==========
+
+// Generate form fields that survive a round-trip through a link (conditioning images never do)
+export interface GenerationSettings {
+  prompt: string;
+  model?: VideoModel;                // checked against the live capability matrix when applied
+  aspect_ratio?: AspectRatio;
+  duration?: number;
+  style?: string;
+  costTier?: string;
+  qualityLevel?: string;
+  negativePrompt?: string;
+  seed?: number;
+  guidanceScale?: number;
+  templateId?: string;               // a bundled scene template, re-opened with its variable values
+  templateValues?: TemplateValues;
+  currentStep?: number;
+}
+
+// ========== CONFIGURATION ==========
+
+export const SETTINGS_QUERY_PARAM = 's';
+
+const CODEC_VERSION = 1;
+
+// Short keys keep links small enough to paste into chat
+const FIELD_KEYS = {
+  prompt: 'p',
+  model: 'm',
+  aspect_ratio: 'ar',
+  duration: 'd',
+  style: 'st',
+  costTier: 'ct',
+  qualityLevel: 'ql',
+  negativePrompt: 'np',
+  seed: 'sd',
+  guidanceScale: 'gs',
+  templateId: 'tp',
+  templateValues: 'tv',
+  currentStep: 'step'
+} as const satisfies Record<keyof GenerationSettings, string>;
+
+const NUMERIC_FIELDS = new Set<keyof GenerationSettings>(['duration', 'seed', 'guidanceScale', 'currentStep']);
+const RECORD_FIELDS = new Set<keyof GenerationSettings>(['templateValues']);
+
+type FieldValue = string | number | TemplateValues;
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && Object.values(value).every(entry => typeof entry === 'string');
+
+const ASPECT_RATIOS = Object.values(AspectRatio) as string[];
+
+// ========== BASE64URL ==========
+
+const toBase64Url = (text: string): string => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+// ========== CODEC ==========
+
+/**
+ * Serialise settings as `<version>.<base64url JSON>`; empty fields are dropped
+ */
+export const encodeGenerationSettings = (settings: GenerationSettings): string => {
+  const payload: Record<string, FieldValue> = {};
+
+  (Object.keys(FIELD_KEYS) as (keyof GenerationSettings)[]).forEach(field => {
+    const value = settings[field];
+    if (value === undefined || value === null || value === '') return;
+    if (typeof value === 'number' && !Number.isFinite(value)) return;
+    if (typeof value === 'object' && Object.keys(value).length === 0) return;
+    payload[FIELD_KEYS[field]] = value;
+  });
+
+  return `${CODEC_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+};
+
+/**
+ * Parse an encoded value; returns null for unknown versions or malformed input
+ */
+export const decodeGenerationSettings = (encoded: string | null | undefined): GenerationSettings | null => {
+  if (!encoded) return null;
+
+  const separator = encoded.indexOf('.');
+  if (separator < 0 || Number(encoded.slice(0, separator)) !== CODEC_VERSION) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded.slice(separator + 1)));
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+
+  const raw = payload as Record<string, unknown>;
+  if (typeof raw[FIELD_KEYS.prompt] !== 'string') return null;
+
+  const settings: Record<string, FieldValue> = {};
+  (Object.keys(FIELD_KEYS) as (keyof GenerationSettings)[]).forEach(field => {
+    const value = raw[FIELD_KEYS[field]];
+    if (NUMERIC_FIELDS.has(field)) {
+      if (typeof value === 'number' && Number.isFinite(value)) settings[field] = value;
+    } else if (RECORD_FIELDS.has(field)) {
+      if (isStringRecord(value)) settings[field] = value;
+    } else if (typeof value === 'string') {
+      settings[field] = value;
+    }
+  });
+
+  if (settings.aspect_ratio !== undefined && !ASPECT_RATIOS.includes(settings.aspect_ratio as string)) {
+    delete settings.aspect_ratio;
+  }
+
+  return settings as unknown as GenerationSettings;
+};
+
+// ========== LINKS ==========
+
+/**
+ * Absolute Generate page URL that restores the given settings
+ */
+export const buildSettingsLink = (
+  settings: GenerationSettings,
+  origin: string = window.location.origin
+): string => {
+  const params = new URLSearchParams({ [SETTINGS_QUERY_PARAM]: encodeGenerationSettings(settings) });
+  return `${origin}/generate?${params.toString()}`;
+};
+
+/**
+ * Settings carried by a `?s=` parameter, if any
+ */
+export const readSettingsFromParams = (searchParams: URLSearchParams): GenerationSettings | null =>
+  decodeGenerationSettings(searchParams.get(SETTINGS_QUERY_PARAM));
+
+/**
+ * Rebuild settings from a History item; generation parameters come from the echoed request
+ * fields, falling back to metadata for items created before they were first-class. A
+ * template instance brings back its template and variable values.
+ */
+export const settingsFromHistoryItem = (video: VideoStatusResponse): GenerationSettings => {
+  const metadata = (video.metadata || {}) as Record<string, unknown>;
+  const template = readTemplateMetadata(metadata);
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+  const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+  const aspectRatio = video.aspect_ratio && ASPECT_RATIOS.includes(video.aspect_ratio)
+    ? video.aspect_ratio as AspectRatio
+    : undefined;
+
+  return {
+    prompt: video.prompt || '',
+    model: text(video.model) as VideoModel | undefined,
+    aspect_ratio: aspectRatio,
+    duration: number(video.duration_seconds),
+    style: text(video.style) ?? text(metadata.style),
+    costTier: text(metadata.costTier),
+    qualityLevel: text(metadata.qualityLevel),
+    negativePrompt: text(video.negative_prompt) ?? text(metadata.negativePrompt),
+    seed: number(video.seed) ?? number(metadata.seed),
+    guidanceScale: number(video.guidance_scale) ?? number(metadata.guidanceScale),
+    templateId: template?.template_id,
+    templateValues: template && isStringRecord(template.template_variables) ? template.template_variables : undefined
+  };
+};
+
+/**
+ * Copy a settings link to the clipboard and return it
+ */
+export const copySettingsLink = async (settings: GenerationSettings): Promise<string> => {
+  const link = buildSettingsLink(settings);
+  await navigator.clipboard.writeText(link);
+  return link;
+};
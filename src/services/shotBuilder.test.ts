@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  composePrompt,
+  emptyShot,
+  getShotVocabulary,
+  hasTerm,
+  parsePrompt,
+  toggleTerm,
+  type ShotFields
+} from './shotBuilder';
+import { DEFAULT_SCENE_TEMPLATES } from './sceneTemplates';
+
+const shot: ShotFields = {
+  subject: 'a red fox',
+  action: 'trotting and pausing to sniff the air',
+  environment: 'through a snowy birch forest at dawn',
+  details: 'its breath fogs in the cold air',
+  camera: 'slow tracking shot, low angle',
+  lighting: 'golden hour',
+  style: 'cinematic',
+  audio: 'crunching snow, distant birdsong'
+};
+
+describe('Shot Builder', () => {
+  it('should compose the main sentence, details and one labelled clause per part', () => {
+    expect(composePrompt(shot)).toBe(
+      'A red fox trotting and pausing to sniff the air through a snowy birch forest at dawn. ' +
+      'Its breath fogs in the cold air. ' +
+      'Camera: slow tracking shot, low angle. Lighting: golden hour. Style: cinematic. Audio: crunching snow, distant birdsong.'
+    );
+  });
+
+  it('should leave out empty parts', () => {
+    expect(composePrompt({ ...emptyShot(), subject: 'A lighthouse.', lighting: ' moonlight ' }))
+      .toBe('A lighthouse. Lighting: moonlight.');
+    expect(composePrompt(emptyShot())).toBe('');
+  });
+
+  it('should parse a composed prompt back into the same parts', () => {
+    const composed = composePrompt(shot);
+
+    expect(parsePrompt(composed)).toEqual({ ...shot, subject: 'A red fox', details: 'Its breath fogs in the cold air' });
+    expect(composePrompt(parsePrompt(composed))).toBe(composed);
+  });
+
+  it('should place free-text sentences by their wording without dropping any', () => {
+    const fields = parsePrompt(
+      'A lifestyle scene showing a young couple laughing in a sunlit apartment. ' +
+      'Natural lighting with warm tones. The camera slowly follows them. ' +
+      'Soft piano music plays. They share a coffee.'
+    );
+
+    expect(fields).toEqual({
+      subject: 'A lifestyle scene',
+      action: 'showing a young couple laughing',
+      environment: 'in a sunlit apartment',
+      lighting: 'Natural lighting with warm tones',
+      camera: 'The camera slowly follows them',
+      style: '',
+      audio: 'Soft piano music plays',
+      details: 'They share a coffee'
+    });
+  });
+
+  it('should read labelled clauses wherever they appear', () => {
+    expect(parsePrompt('Style: anime. A robot waters plants. Sound: humming servos.')).toMatchObject({
+      subject: 'A robot waters plants',
+      style: 'anime',
+      audio: 'humming servos'
+    });
+  });
+
+  it('should toggle picker terms in a comma-separated part', () => {
+    expect(toggleTerm('', 'golden hour')).toBe('golden hour');
+    expect(toggleTerm('neon glow', 'golden hour')).toBe('neon glow, golden hour');
+    expect(toggleTerm('neon glow, Golden Hour', 'golden hour')).toBe('neon glow');
+    expect(hasTerm('neon glow, golden hour', 'Golden hour')).toBe(true);
+  });
+
+  it('should seed the vocabulary from the scene templates', () => {
+    const vocabulary = getShotVocabulary();
+    const [template] = DEFAULT_SCENE_TEMPLATES.marketing;
+
+    expect(vocabulary.camera).toContain('slow dolly in');
+    expect(vocabulary.camera).toContain(template.cameraMovement.split(',')[0].toLowerCase());
+    expect(vocabulary.lighting).toContain(template.lighting.toLowerCase());
+    expect(new Set(vocabulary.style).size).toBe(vocabulary.style.length);
+  });
+});
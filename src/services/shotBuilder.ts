@@ -0,0 +1,209 @@
+/**
+ * Shot builder - structured prompts
+ * Composes a prompt from its parts (subject, action, environment, camera, lighting, style,
+ * audio) and parses free text back into those parts on a best-effort basis
+ */
+
+import { DEFAULT_SCENE_TEMPLATES, SHOT_VOCABULARY } from './sceneTemplates';
+
+// ========== TYPES ==========
+
+export type ShotField =
+  | 'subject'
+  | 'action'
+  | 'environment'
+  | 'camera'
+  | 'lighting'
+  | 'style'
+  | 'audio'
+  | 'details';
+
+export type ShotFields = Record<ShotField, string>;
+
+// Parts written as labelled clauses ("Camera: slow dolly in.") and offered with vocabulary pickers
+export type LabelledShotField = 'camera' | 'lighting' | 'style' | 'audio';
+
+export interface ShotFieldDefinition {
+  field: ShotField;
+  label: string;
+  placeholder: string;
+}
+
+// ========== CONFIGURATION ==========
+
+// Editor order, which is also the order parts appear in a composed prompt
+export const SHOT_FIELDS: ShotFieldDefinition[] = [
+  { field: 'subject', label: 'Subject', placeholder: 'e.g. A red fox' },
+  { field: 'action', label: 'Action', placeholder: 'e.g. trotting and pausing to sniff the air' },
+  { field: 'environment', label: 'Environment', placeholder: 'e.g. through a snowy birch forest at dawn' },
+  { field: 'details', label: 'Additional Details', placeholder: 'Anything else, e.g. Its breath fogs in the cold air' },
+  { field: 'camera', label: 'Camera Movement', placeholder: 'e.g. slow tracking shot at ground level' },
+  { field: 'lighting', label: 'Lighting', placeholder: 'e.g. soft golden hour light' },
+  { field: 'style', label: 'Visual Style', placeholder: 'e.g. cinematic, shallow depth of field' },
+  { field: 'audio', label: 'Audio', placeholder: 'e.g. crunching snow, distant birdsong' }
+];
+
+const LABELS: Record<string, LabelledShotField> = {
+  camera: 'camera',
+  'camera movement': 'camera',
+  shot: 'camera',
+  lighting: 'lighting',
+  light: 'lighting',
+  style: 'style',
+  'visual style': 'style',
+  look: 'style',
+  audio: 'audio',
+  sound: 'audio',
+  music: 'audio'
+};
+
+const LABEL_OUTPUT: Record<LabelledShotField, string> = {
+  camera: 'Camera',
+  lighting: 'Lighting',
+  style: 'Style',
+  audio: 'Audio'
+};
+
+// Words that place an unlabelled sentence in a part; the earliest match in the sentence wins
+const KEYWORDS: Record<LabelledShotField, RegExp> = {
+  camera: /\b(camera|pans?|panning|dolly|zooms?|tracking|tracks|orbits?|crane|tilts?|handheld|close-up|wide shot|aerial|push-in|pull-back|rotates?|framing)\b/i,
+  lighting: /\b(light|lights|lighting|lit|shadows?|glow|backlit|golden hour|neon|sunlight|daylight|moonlight|moonlit|candlelight)\b/i,
+  style: /\b(style|aesthetic|cinematic|anime|photorealistic|realistic|film grain|vintage|animated|watercolou?r|noir|minimalist)\b/i,
+  audio: /\b(sounds?|music|audio|dialogue|ambient|soundtrack|silence|voice-?over|narration|score)\b/i
+};
+
+// Where the environment starts in the main sentence
+const ENVIRONMENT_PATTERN = /\s(in|inside|on|at|through|across|over|under|beneath|near|along|within|amid|against)\s/i;
+
+// ========== VOCABULARY ==========
+
+const unique = (terms: string[]) => [...new Set(terms.map(term => term.trim().toLowerCase()).filter(Boolean))];
+
+/**
+ * Picker vocabulary per labelled part: the curated terms, then what the scene templates use
+ */
+export const getShotVocabulary = (): Record<LabelledShotField, string[]> => {
+  const templates = Object.values(DEFAULT_SCENE_TEMPLATES).flat();
+  const fromTemplates = (read: (template: typeof templates[number]) => string) =>
+    templates.flatMap(template => read(template).split(/,\s*/));
+
+  return {
+    camera: unique([...SHOT_VOCABULARY.camera, ...fromTemplates(template => template.cameraMovement)]),
+    lighting: unique([...SHOT_VOCABULARY.lighting, ...fromTemplates(template => template.lighting)]),
+    style: unique([...SHOT_VOCABULARY.style, ...fromTemplates(template => template.visualStyle)]),
+    audio: unique(SHOT_VOCABULARY.audio)
+  };
+};
+
+/**
+ * Field value with a picker term added, or removed if it's already there
+ */
+export const toggleTerm = (value: string, term: string): string => {
+  const terms = value.split(/,\s*/).map(part => part.trim()).filter(Boolean);
+  const existing = terms.findIndex(part => part.toLowerCase() === term.toLowerCase());
+  return existing === -1
+    ? [...terms, term].join(', ')
+    : terms.filter((_, index) => index !== existing).join(', ');
+};
+
+export const hasTerm = (value: string, term: string): boolean =>
+  value.split(/,\s*/).some(part => part.trim().toLowerCase() === term.toLowerCase());
+
+// ========== COMPOSING ==========
+
+export const emptyShot = (): ShotFields => ({
+  subject: '',
+  action: '',
+  environment: '',
+  camera: '',
+  lighting: '',
+  style: '',
+  audio: '',
+  details: ''
+});
+
+const clause = (text: string) => text.trim().replace(/[\s.]+$/, '');
+
+const sentence = (text: string) => {
+  const body = clause(text);
+  return body ? `${body.charAt(0).toUpperCase()}${body.slice(1)}.` : '';
+};
+
+/**
+ * Prompt text for the given parts: the main sentence, details, then one labelled clause per part
+ */
+export const composePrompt = (fields: ShotFields): string => {
+  const main = [fields.subject, fields.action, fields.environment].map(clause).filter(Boolean).join(' ');
+  const labelled = (Object.keys(LABEL_OUTPUT) as LabelledShotField[])
+    .filter(field => clause(fields[field]))
+    .map(field => `${LABEL_OUTPUT[field]}: ${clause(fields[field])}.`);
+
+  return [sentence(main), sentence(fields.details), ...labelled].filter(Boolean).join(' ');
+};
+
+// ========== PARSING ==========
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+/).map(clause).filter(Boolean);
+
+const append = (current: string, addition: string) => (current ? `${current}. ${addition}` : addition);
+
+/**
+ * Whether the text says anything about a labelled part, by the same words parsing goes by
+ */
+export const mentionsPart = (text: string, field: LabelledShotField): boolean => KEYWORDS[field].test(text);
+
+const classify = (text: string): LabelledShotField | null => {
+  let best: LabelledShotField | null = null;
+  let bestIndex = Infinity;
+  for (const field of Object.keys(KEYWORDS) as LabelledShotField[]) {
+    const match = KEYWORDS[field].exec(text);
+    if (match && match.index < bestIndex) {
+      best = field;
+      bestIndex = match.index;
+    }
+  }
+  return best;
+};
+
+// Subject up to the first -ing verb, environment from the first place preposition
+const splitMainSentence = (text: string): Pick<ShotFields, 'subject' | 'action' | 'environment'> => {
+  const environmentAt = text.search(ENVIRONMENT_PATTERN);
+  const head = environmentAt === -1 ? text : text.slice(0, environmentAt);
+  const environment = environmentAt === -1 ? '' : text.slice(environmentAt + 1);
+
+  const verb = /\s([a-z]{3,}ing)\b/i.exec(head);
+  return verb
+    ? { subject: head.slice(0, verb.index), action: head.slice(verb.index + 1), environment }
+    : { subject: head, action: '', environment };
+};
+
+/**
+ * Best-effort split of free text into parts. Labelled clauses are read as written, other
+ * sentences after the first go to the part their wording suggests, and nothing is dropped:
+ * whatever can't be placed ends up in details.
+ */
+export const parsePrompt = (prompt: string): ShotFields => {
+  const fields = emptyShot();
+  let mainFound = false;
+
+  splitSentences(prompt).forEach(text => {
+    const label = /^([a-z ]{3,20}):\s*(.+)$/i.exec(text);
+    const labelled = label ? LABELS[label[1].trim().toLowerCase()] : undefined;
+    if (label && labelled) {
+      fields[labelled] = append(fields[labelled], clause(label[2]));
+      return;
+    }
+
+    if (!mainFound) {
+      mainFound = true;
+      Object.assign(fields, splitMainSentence(text));
+      return;
+    }
+
+    const field = classify(text) || 'details';
+    fields[field] = append(fields[field], text);
+  });
+
+  return fields;
+};
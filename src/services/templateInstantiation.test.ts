@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTemplateMetadata,
+  findMissingVariables,
+  findSceneTemplate,
+  getTemplateVariables,
+  hasUnfilledPlaceholders,
+  parsePlaceholders,
+  readTemplateMetadata,
+  renderTemplate,
+  resolveIncomingTemplate
+} from './templateInstantiation';
+import type { SceneTemplate } from './sceneTemplates';
+
+const template: SceneTemplate = {
+  id: 'lifestyle-test',
+  industry: 'marketing',
+  name: 'Lifestyle',
+  description: 'Lifestyle scene',
+  promptTemplate: '{people} using {product} in {environment}, then {people} smile at {mood_shot}.',
+  variables: ['people', 'product', 'environment'],
+  visualStyle: 'Natural',
+  cameraMovement: 'Handheld',
+  lighting: 'Natural'
+};
+
+describe('Template Instantiation', () => {
+  it('should parse placeholders once in order of appearance', () => {
+    expect(parsePlaceholders(template.promptTemplate)).toEqual(['people', 'product', 'environment', 'mood_shot']);
+    expect(parsePlaceholders('No placeholders here')).toEqual([]);
+  });
+
+  it('should include undeclared placeholders as variables', () => {
+    const variables = getTemplateVariables(template);
+
+    expect(variables.map(variable => variable.name)).toEqual(['people', 'product', 'environment', 'mood_shot']);
+    expect(variables[3].label).toBe('Mood shot');
+  });
+
+  it('should render filled values and leave missing placeholders intact', () => {
+    const rendered = renderTemplate(template.promptTemplate, { people: 'Two friends', product: 'a kayak' });
+
+    expect(rendered).toBe('Two friends using a kayak in {environment}, then Two friends smile at {mood_shot}.');
+    expect(hasUnfilledPlaceholders(rendered)).toBe(true);
+  });
+
+  it('should report variables that are empty or whitespace', () => {
+    expect(findMissingVariables(template, {
+      people: 'Two friends',
+      product: '  ',
+      environment: 'a lake'
+    })).toEqual(['product', 'mood_shot']);
+  });
+
+  it('should round-trip template values through request metadata', () => {
+    const metadata = buildTemplateMetadata(template, {
+      people: ' Two friends ',
+      product: 'a kayak',
+      environment: 'a lake',
+      mood_shot: 'the sunset'
+    });
+
+    expect(metadata).toEqual({
+      template_id: 'lifestyle-test',
+      template_variables: {
+        people: 'Two friends',
+        product: 'a kayak',
+        environment: 'a lake',
+        mood_shot: 'the sunset'
+      }
+    });
+    expect(readTemplateMetadata({ style: 'cinematic', ...metadata })).toEqual(metadata);
+    expect(readTemplateMetadata({ style: 'cinematic' })).toBeNull();
+  });
+
+  it('should find bundled scene templates by id', () => {
+    expect(findSceneTemplate('product-demo-1')?.variables).toEqual(['product']);
+    expect(findSceneTemplate('missing')).toBeUndefined();
+  });
+
+  describe('resolveIncomingTemplate', () => {
+    it('should prefer router state from the Templates page', () => {
+      const resolved = resolveIncomingTemplate(
+        { template: { id: 'api-7', name: 'Launch', prompt: 'Unveil {product} on stage', style: 'Cinematic' } },
+        new URLSearchParams('template=product-demo-1')
+      );
+
+      expect(resolved).toEqual(expect.objectContaining({
+        id: 'api-7',
+        name: 'Launch',
+        promptTemplate: 'Unveil {product} on stage',
+        variables: ['product'],
+        visualStyle: 'Cinematic'
+      }));
+    });
+
+    it('should reuse bundled templates when the hand-off matches one', () => {
+      const bundled = findSceneTemplate('product-demo-1')!;
+      const resolved = resolveIncomingTemplate(
+        { template: { id: bundled.id, prompt: bundled.promptTemplate } },
+        new URLSearchParams()
+      );
+
+      expect(resolved).toBe(bundled);
+    });
+
+    it('should fall back to the ?template= deep link', () => {
+      expect(resolveIncomingTemplate(null, new URLSearchParams('template=product-demo-1'))?.id).toBe('product-demo-1');
+      expect(resolveIncomingTemplate(undefined, new URLSearchParams('template=unknown'))).toBeNull();
+      expect(resolveIncomingTemplate(undefined, new URLSearchParams())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Template instantiation - fills `{placeholder}` variables in scene templates
+ * Parses placeholders, renders prompts from values and records them in request metadata
+ */
+
+import { DEFAULT_SCENE_TEMPLATES, SceneTemplate } from './sceneTemplates';
+
+// ========== TYPES ==========
+
+export type TemplateVariableKind = 'text' | 'longtext';
+
+export interface TemplateVariable {
+  name: string;
+  label: string;
+  kind: TemplateVariableKind;
+  placeholder: string;
+}
+
+export type TemplateValues = Record<string, string>;
+
+// Shape stored under VideoGenerationRequest.metadata so a generation can be re-opened
+export interface TemplateMetadata {
+  template_id: string;
+  template_variables: TemplateValues;
+}
+
+// ========== CONFIGURATION ==========
+
+const PLACEHOLDER_PATTERN = /\{([a-zA-Z][\w-]*)\}/g;
+
+// Example values shown as input placeholders; unknown variables fall back to a generic hint
+const VARIABLE_HINTS: Record<string, { placeholder: string; kind?: TemplateVariableKind }> = {
+  product: { placeholder: 'e.g. a matte black wireless headphone' },
+  people: { placeholder: 'e.g. a young couple' },
+  environment: { placeholder: 'e.g. a sunlit city apartment' },
+  process: { placeholder: 'e.g. assembling a bookshelf' },
+  setting: { placeholder: 'e.g. a modern glass boardroom' },
+  message: { placeholder: 'e.g. the quarterly results announcement', kind: 'longtext' },
+  characters: { placeholder: 'e.g. two estranged brothers' },
+  situation: { placeholder: 'e.g. a tense reunion at a rainy train station', kind: 'longtext' }
+};
+
+// ========== PARSING ==========
+
+/**
+ * Placeholder names in order of first appearance
+ */
+export const parsePlaceholders = (template: string): string[] => {
+  const names: string[] = [];
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+};
+
+const toLabel = (name: string): string =>
+  name
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/^\w/, char => char.toUpperCase());
+
+/**
+ * Input definitions for a template: declared variables plus any undeclared placeholders
+ */
+export const getTemplateVariables = (template: SceneTemplate): TemplateVariable[] => {
+  const names = [...(template.variables || [])];
+  parsePlaceholders(template.promptTemplate).forEach(name => {
+    if (!names.includes(name)) names.push(name);
+  });
+
+  return names.map(name => ({
+    name,
+    label: toLabel(name),
+    kind: VARIABLE_HINTS[name]?.kind || 'text',
+    placeholder: VARIABLE_HINTS[name]?.placeholder || `Describe the ${toLabel(name).toLowerCase()}`
+  }));
+};
+
+// ========== RENDERING ==========
+
+/**
+ * Substitute filled values; unfilled placeholders are left in place
+ */
+export const renderTemplate = (template: string, values: TemplateValues): string =>
+  template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : placeholder;
+  });
+
+/**
+ * Variables that still need a value
+ */
+export const findMissingVariables = (template: SceneTemplate, values: TemplateValues): string[] =>
+  getTemplateVariables(template)
+    .map(variable => variable.name)
+    .filter(name => !values[name]?.trim());
+
+/**
+ * Whether a rendered prompt still contains `{placeholder}` markers
+ */
+export const hasUnfilledPlaceholders = (prompt: string): boolean => parsePlaceholders(prompt).length > 0;
+
+// ========== LOOKUP & METADATA ==========
+
+export const findSceneTemplate = (templateId: string): SceneTemplate | undefined =>
+  Object.values(DEFAULT_SCENE_TEMPLATES).flat().find(template => template.id === templateId);
+
+export const buildTemplateMetadata = (template: SceneTemplate, values: TemplateValues): TemplateMetadata => ({
+  template_id: template.id,
+  template_variables: Object.fromEntries(
+    getTemplateVariables(template).map(({ name }) => [name, values[name]?.trim() || ''])
+  )
+});
+
+/**
+ * Read template metadata back from a stored generation request
+ */
+export const readTemplateMetadata = (metadata: unknown): TemplateMetadata | null => {
+  if (!metadata || typeof metadata !== 'object') return null;
+  const { template_id, template_variables } = metadata as Partial<TemplateMetadata>;
+  if (typeof template_id !== 'string' || !template_variables || typeof template_variables !== 'object') {
+    return null;
+  }
+  return { template_id, template_variables };
+};
+
+// ========== HAND-OFF ==========
+
+// Router state sent by the Templates page when a template is picked
+export interface TemplateHandoffState {
+  template?: {
+    id?: string;
+    name?: string;
+    prompt: string;
+    style?: string;
+    industry?: string;
+    cameraMovement?: string;
+    lighting?: string;
+    variables?: string[];
+  };
+}
+
+export const TEMPLATE_QUERY_PARAM = 'template';
+
+/**
+ * Resolve a template handed to the Generate page, preferring router state over `?template=<id>`
+ */
+export const resolveIncomingTemplate = (
+  state: unknown,
+  searchParams: URLSearchParams
+): SceneTemplate | null => {
+  const handoff = (state as TemplateHandoffState | null)?.template;
+
+  if (handoff?.prompt) {
+    const bundled = handoff.id ? findSceneTemplate(handoff.id) : undefined;
+    if (bundled && bundled.promptTemplate === handoff.prompt) return bundled;
+
+    return {
+      id: handoff.id || 'shared-template',
+      industry: handoff.industry || 'general',
+      name: handoff.name || 'Shared template',
+      description: '',
+      promptTemplate: handoff.prompt,
+      variables: handoff.variables || parsePlaceholders(handoff.prompt),
+      visualStyle: handoff.style || '',
+      cameraMovement: handoff.cameraMovement || '',
+      lighting: handoff.lighting || ''
+    };
+  }
+
+  const templateId = searchParams.get(TEMPLATE_QUERY_PARAM);
+  return templateId ? findSceneTemplate(templateId) || null : null;
+};
@@ -4,6 +4,7 @@
  */
 
 import { api } from '../api/endpoints';
+import { generationTracker } from '../api/tracker';
 import {
   VideoGenerationRequest,
   VideoStatusResponse,
@@ -12,12 +13,8 @@ import {
 } from '../api/types';
 
 export interface VideoGenerationOptions {
-  /** Enable real-time progress updates */
+  /** Enable real-time progress updates (the tracker falls back to polling) */
   enableRealTimeProgress?: boolean;
-  /** Polling interval in milliseconds (fallback) */
-  pollingInterval?: number;
-  /** Timeout for generation in milliseconds */
-  timeout?: number;
   /** Callback for progress updates */
   onProgress?: (status: VideoStatusResponse) => void;
   /** Callback for status changes */
@@ -37,7 +34,6 @@ export interface BatchGenerationOptions extends VideoGenerationOptions {
 
 export class VideoGenerationService {
   private activeGenerations = new Map<string, AbortController>();
-  private eventSources = new Map<string, EventSource>();
 
   /**
    * Generate a single video with comprehensive progress tracking
@@ -48,8 +44,6 @@ export class VideoGenerationService {
   ): Promise<VideoStatusResponse> {
     const {
       enableRealTimeProgress = true,
-      pollingInterval = 2000,
-      timeout = 300000, // 5 minutes
       onProgress,
       onStatusChange,
       onComplete,
@@ -70,8 +64,6 @@ export class VideoGenerationService {
         generationId,
         {
           enableRealTimeProgress,
-          pollingInterval,
-          timeout,
           onProgress,
           onStatusChange,
           abortController
@@ -245,7 +237,7 @@ export class VideoGenerationService {
   }
 
   /**
-   * Internal progress tracking with SSE and polling fallback
+   * Internal progress tracking via the shared generation tracker
    */
   private async trackProgress(
     generationId: string,
@@ -255,145 +247,29 @@ export class VideoGenerationService {
   ): Promise<VideoStatusResponse> {
     const {
       enableRealTimeProgress = true,
-      pollingInterval = 2000,
-      timeout = 300000,
       onProgress,
       onStatusChange,
       abortController
     } = options;
 
-    // Try Server-Sent Events first
-    if (enableRealTimeProgress) {
-      try {
-        const result = await this.trackWithSSE(generationId, {
-          onProgress,
-          onStatusChange,
-          timeout,
-          abortController
-        });
-        return result;
-      } catch (error) {
-        console.warn('SSE tracking failed, falling back to polling:', error);
-      }
-    }
-
-    // Fallback to polling
-    return this.trackWithPolling(generationId, {
-      pollingInterval,
-      timeout,
-      onProgress,
-      onStatusChange,
-      abortController
-    });
-  }
-
-  /**
-   * Track progress using Server-Sent Events
-   */
-  private async trackWithSSE(
-    generationId: string,
-    options: {
-      onProgress?: (status: VideoStatusResponse) => void;
-      onStatusChange?: (status: VideoStatus) => void;
-      timeout: number;
-      abortController?: AbortController;
-    }
-  ): Promise<VideoStatusResponse> {
-    const { onProgress, onStatusChange, timeout, abortController } = options;
-
-    return new Promise((resolve, reject) => {
-      const eventSource = api.video.createProgressStream(generationId);
-      
-      if (!eventSource) {
-        reject(new Error('Failed to create SSE connection'));
-        return;
-      }
-
-      this.eventSources.set(generationId, eventSource);
-
-      // Set up timeout
-      const timeoutId = setTimeout(() => {
-        eventSource.close();
-        reject(new Error('Progress tracking timeout'));
-      }, timeout);
-
-      // Handle abort
-      abortController?.signal.addEventListener('abort', () => {
-        eventSource.close();
-        clearTimeout(timeoutId);
-        reject(new Error('Generation aborted'));
-      });
-
-      // Handle progress events
-      eventSource.addEventListener('progress', (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          const status: VideoStatusResponse = {
-            generation_id: data.generation_id,
-            status: data.status,
-            progress: data.progress,
-            message: data.message,
-            created_at: data.timestamp,
-            updated_at: data.timestamp,
-            video_url: data.video_url,
-            thumbnail_url: data.thumbnail_url,
-            duration_seconds: data.duration_seconds,
-            resolution: data.resolution,
-            file_size_bytes: data.file_size_bytes,
-            completed_at: data.completed_at,
-            error_details: data.error_details
-          };
-
-          onProgress?.(status);
-          onStatusChange?.(status.status);
-
-          // Check if completed
-          if (['completed', 'failed', 'cancelled'].includes(status.status)) {
-            eventSource.close();
-            clearTimeout(timeoutId);
-            resolve(status);
-          }
-        } catch (error) {
-          console.error('Failed to parse SSE data:', error);
-        }
-      });
-
-      eventSource.addEventListener('error', () => {
-        eventSource.close();
-        clearTimeout(timeoutId);
-        reject(new Error('SSE connection failed'));
-      });
-    });
-  }
-
-  /**
-   * Track progress using polling
-   */
-  private async trackWithPolling(
-    generationId: string,
-    options: {
-      pollingInterval: number;
-      timeout: number;
-      onProgress?: (status: VideoStatusResponse) => void;
-      onStatusChange?: (status: VideoStatus) => void;
-      abortController?: AbortController;
-    }
-  ): Promise<VideoStatusResponse> {
-    return api.video.pollVideoStatus(
+    return generationTracker.track(
       generationId,
       (status) => {
-        options.onProgress?.(status);
-        options.onStatusChange?.(status.status);
+        onProgress?.(status);
+        onStatusChange?.(status.status);
       },
-      options.pollingInterval,
-      options.timeout
+      {
+        realTime: enableRealTimeProgress,
+        signal: abortController?.signal
+      }
     );
   }
 
   /**
-   * Cancel an active generation
+   * Cancel an active generation on the server, then stop waiting for it locally
    */
   async cancelGeneration(generationId: string): Promise<void> {
+    await api.video.cancelGeneration(generationId);
     const abortController = this.activeGenerations.get(generationId);
     if (abortController) {
       abortController.abort();
@@ -421,13 +297,6 @@ export class VideoGenerationService {
    * Clean up resources for a generation
    */
   private cleanup(generationId: string): void {
-    // Close event source
-    const eventSource = this.eventSources.get(generationId);
-    if (eventSource) {
-      eventSource.close();
-      this.eventSources.delete(generationId);
-    }
-
     // Remove abort controller
     this.activeGenerations.delete(generationId);
   }
@@ -436,13 +305,7 @@ export class VideoGenerationService {
    * Clean up all resources
    */
   dispose(): void {
-    // Close all event sources
-    for (const eventSource of this.eventSources.values()) {
-      eventSource.close();
-    }
-    this.eventSources.clear();
-
-    // Abort all active generations
+    // Abort all active generations (releases their tracker subscriptions)
     for (const abortController of this.activeGenerations.values()) {
       abortController.abort();
     }
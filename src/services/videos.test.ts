@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { videoService } from './videos';
+import { generationTracker } from '@/api/tracker';
+import { generationQueue } from '@/api/queue';
 import { apiClient, fileToBase64 } from '@/api/client';
 import type { VideoGenerationRequest, VideoStatusResponse } from '@/api/types';
 import { VideoStatus } from '@/api/types';
@@ -13,6 +15,7 @@ vi.mock('@/api/client', () => ({
     downloadFile: vi.fn(),
     getBaseUrl: vi.fn(() => 'https://api.example.com/api/v1'),
     getAuthToken: vi.fn(() => 'mock-token' as string | null),
+    createEventSource: vi.fn(() => null as EventSource | null),
   },
   fileToBase64: vi.fn(),
 }));
@@ -42,6 +45,8 @@ describe('Video Service', () => {
   afterEach(() => {
     vi.useRealTimers();
     videoService.cleanup();
+    generationQueue.suspend();
+    generationTracker.dispose();
   });
 
   describe('generateVideo', () => {
@@ -74,7 +79,9 @@ describe('Video Service', () => {
 
       const result = await videoService.generateVideo(mockRequest);
 
-      expect(mockApiClient.post).toHaveBeenCalledWith('/videos/generate', mockRequest);
+      expect(mockApiClient.post).toHaveBeenCalledWith('/videos/generate', mockRequest, {
+        headers: { 'Idempotency-Key': expect.any(String) }
+      });
       expect(result).toEqual(mockStatus);
     });
 
@@ -208,19 +215,16 @@ describe('Video Service', () => {
   });
 
   describe('Progress Tracking', () => {
-    it('should start SSE progress tracking', async () => {
+    it('should start SSE progress tracking through the shared tracker', async () => {
       const progressCallback = vi.fn();
       const generationId = 'test-gen-123';
 
       // Mock EventSource
       const mockEventSource = {
-        onmessage: null,
-        onerror: null,
         addEventListener: vi.fn(),
         close: vi.fn(),
       };
-      const EventSourceMock = vi.fn(() => mockEventSource);
-      (global.EventSource as any) = EventSourceMock;
+      mockApiClient.createEventSource.mockReturnValue(mockEventSource as any);
 
       // Setup API mocks
       mockApiClient.post.mockResolvedValue(createMockApiResponse({ generation_id: generationId }));
@@ -233,10 +237,8 @@ describe('Video Service', () => {
         enableRealTime: true,
       });
 
-      expect(EventSourceMock).toHaveBeenCalledWith(
-        'https://api.example.com/api/v1/events/test-gen-123',
-        { withCredentials: true }
-      );
+      expect(mockApiClient.createEventSource).toHaveBeenCalledWith('/events/test-gen-123');
+      expect(generationTracker.getTransport(generationId)).toBe('sse');
     });
 
     it('should fall back to polling when SSE fails', async () => {
@@ -245,10 +247,14 @@ describe('Video Service', () => {
       // Mock console.warn to suppress expected error output
       const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
       
-      // Mock EventSource that fails
-      (global.EventSource as any) = vi.fn(() => {
-        throw new Error('SSE not supported');
-      });
+      // Mock EventSource that errors immediately after opening
+      const listeners: Record<string, () => void> = {};
+      mockApiClient.createEventSource.mockReturnValue({
+        addEventListener: vi.fn((type: string, handler: () => void) => {
+          listeners[type] = handler;
+        }),
+        close: vi.fn(),
+      } as any);
 
       mockApiClient.post.mockResolvedValue(createMockApiResponse({ generation_id: 'test' }));
       mockApiClient.get.mockResolvedValue(createMockApiResponse({
@@ -257,18 +263,22 @@ describe('Video Service', () => {
 
       await videoService.generateVideo({ prompt: 'test', duration: 5 }, {
         onProgress: progressCallback,
-        pollInterval: 100,
       });
+
+      listeners.error();
       
       // Verify the warning was logged
-      expect(consoleWarnSpy).toHaveBeenCalledWith('SSE not supported, falling back to polling:', expect.any(Error));
+      expect(consoleWarnSpy).toHaveBeenCalledWith('SSE connection error for test, falling back to polling');
       
       consoleWarnSpy.mockRestore();
 
-      // Advance timers to trigger polling
-      vi.advanceTimersByTime(150);
+      expect(generationTracker.getTransport('test')).toBe('polling');
+
+      mockApiClient.get.mockClear();
+      await vi.advanceTimersByTimeAsync(0);
 
-      expect(mockApiClient.get).toHaveBeenCalledWith('/videos/test/status');
+      expect(mockApiClient.get).toHaveBeenCalledWith('/videos/test/status', { signal: expect.any(AbortSignal) });
+      expect(progressCallback).toHaveBeenCalledWith(expect.objectContaining({ progress: 50 }));
     });
 
     it('should implement exponential backoff in polling', async () => {
@@ -289,20 +299,21 @@ describe('Video Service', () => {
 
       await videoService.generateVideo({ prompt: 'test', duration: 5 }, {
         onProgress: progressCallback,
-        pollInterval: 1000,
         enableRealTime: false,
       });
 
-      // First poll (at initial interval: 1000ms)
-      await vi.advanceTimersByTimeAsync(1000);
+      // First poll fires immediately
+      await vi.advanceTimersByTimeAsync(0);
       
-      // Second poll (with backoff: 1000 * 1.5 = 1500ms)
-      await vi.advanceTimersByTimeAsync(1500);
+      // Second poll (at initial interval: 3000ms)
+      await vi.advanceTimersByTimeAsync(3000);
       
-      // Third poll (with more backoff: 1500 * 1.5 = 2250ms) - this will return completed
-      await vi.advanceTimersByTimeAsync(2250);
+      // Third poll (with backoff: 3000 * 1.5 = 4500ms) - this will return completed
+      await vi.advanceTimersByTimeAsync(4500);
 
-      expect(mockApiClient.get).toHaveBeenCalledTimes(4); // Initial + 3 polls
+      expect(mockApiClient.get).toHaveBeenCalledTimes(4); // Initial status + 3 polls
+      expect(progressCallback).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'completed' }));
+      expect(generationTracker.isTracking('test')).toBe(false);
     });
   });
 
@@ -395,31 +406,77 @@ describe('Video Service', () => {
     it('should stop tracking on generation cancellation', async () => {
       const generationId = 'test-cancel';
       
+      mockApiClient.delete.mockResolvedValue(createMockApiResponse({ generation_id: generationId }));
+
+      await videoService.cancelGeneration(generationId);
+
+      expect(mockApiClient.delete).toHaveBeenCalledWith(`/videos/${generationId}/cancel`, {
+        headers: { 'Idempotency-Key': expect.any(String) }
+      });
+      expect(generationTracker.getSnapshot(generationId)?.status).toBe(VideoStatus.CANCELLED);
+    });
+
+    it('should fall back to the POST cancel endpoint when DELETE is not routed', async () => {
+      const generationId = 'test-cancel-post';
+
+      mockApiClient.delete.mockRejectedValue(Object.assign(new Error('Not Found'), { status: 404 }));
       mockApiClient.post.mockResolvedValue(createMockApiResponse({ generation_id: generationId }));
 
       await videoService.cancelGeneration(generationId);
 
-      expect(mockApiClient.post).toHaveBeenCalledWith(`/videos/cancel/${generationId}`);
+      expect(mockApiClient.post).toHaveBeenCalledWith(`/videos/cancel/${generationId}`, undefined, {
+        headers: { 'Idempotency-Key': expect.any(String) }
+      });
+      expect(generationTracker.getSnapshot(generationId)?.status).toBe(VideoStatus.CANCELLED);
+    });
+
+    it('should keep the previous status when the server refuses to cancel', async () => {
+      const generationId = 'test-cancel-refused';
+
+      generationTracker.ingest({ generation_id: generationId, status: VideoStatus.PROCESSING, progress: 60 });
+      const refusal = Object.assign(new Error('Generation already finishing'), { status: 409 });
+      mockApiClient.delete.mockRejectedValue(refusal);
+      mockApiClient.post.mockRejectedValue(refusal);
+
+      await expect(videoService.cancelGeneration(generationId)).rejects.toThrow('Generation already finishing');
+
+      // A refusal is final - the other endpoint shape is only tried for unrouted requests
+      expect(mockApiClient.delete.mock.calls.length + mockApiClient.post.mock.calls.length).toBe(1);
+      expect(generationTracker.getSnapshot(generationId)).toEqual(expect.objectContaining({
+        status: VideoStatus.PROCESSING,
+        progress: 60
+      }));
     });
   });
 
   describe('Cleanup', () => {
-    it('should clean up all active connections', () => {
+    it('should clean up all active connections', async () => {
       const mockEventSource = {
+        addEventListener: vi.fn(),
         close: vi.fn(),
       };
-      
-      // Simulate active event source
-      (videoService as any).activeEventSources.set('test-1', mockEventSource);
-      
-      const mockTimeout = setTimeout(() => {}, 1000);
-      (videoService as any).activePolls.set('test-2', mockTimeout);
+      mockApiClient.createEventSource.mockReturnValue(mockEventSource as any);
+      mockApiClient.post.mockResolvedValue(createMockApiResponse({ generation_id: 'test-1' }));
+      mockApiClient.get.mockResolvedValue(createMockApiResponse({
+        generation_id: 'test-1', status: 'processing', progress: 10
+      }));
+
+      await videoService.generateVideo({ prompt: 'test', duration: 5 }, {
+        onProgress: vi.fn(),
+      });
+
+      expect(generationTracker.isTracking('test-1')).toBe(true);
 
       videoService.cleanup();
 
+      expect((videoService as any).activeSubscriptions.size).toBe(0);
+
+      // The persistent queue keeps the job tracked until it is suspended too
+      expect(generationTracker.isTracking('test-1')).toBe(true);
+      generationQueue.suspend();
+
       expect(mockEventSource.close).toHaveBeenCalled();
-      expect((videoService as any).activeEventSources.size).toBe(0);
-      expect((videoService as any).activePolls.size).toBe(0);
+      expect(generationTracker.isTracking('test-1')).toBe(false);
     });
   });
-});
\ No newline at end of file
+});
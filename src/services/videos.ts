@@ -4,6 +4,11 @@
  */
 
 import { apiClient, fileToBase64 } from '../api/client';
+import { generationTracker, isTerminalStatus } from '../api/tracker';
+import { generationQueue } from '../api/queue';
+import { videoApi } from '../api/endpoints';
+import { idempotencyKeys, readOriginalGeneration, requestScope } from '../api/idempotency';
+import { decodeVideoList, decodeVideoStatus, responseContext } from '../api/decoders';
 import { 
   VideoGenerationRequest, 
   VideoGenerationResponse,
@@ -11,27 +16,14 @@ import {
   VideoStatus,
   UserVideosResponse,
   VideoListParams,
-  ApiResponse,
   UploadProgress 
 } from '../api/types';
 import { trackGenerateStart, trackGenerateComplete } from '../lib/analytics';
 
-// ========== CONFIGURATION ==========
-
-const POLLING_CONFIG = {
-  DEFAULT_INTERVAL: 10000,     // 10 seconds - optimized for Veo generation latency (60-90s typical)
-  MAX_INTERVAL: 30000,         // 30 seconds max - balances responsiveness with server load
-  BACKOFF_MULTIPLIER: 1.5,     // Gradual backoff - proven effective, unchanged
-  MAX_POLLING_TIME: 900000,    // 15 minutes max - accommodates longest Veo generation scenarios
-  COMPLETION_STATES: ['completed', 'failed', 'cancelled'] as VideoStatus[]
-};
-
 // ========== TYPES ==========
 
 export interface VideoGenerationOptions {
-  enableRealTime?: boolean;     // Use SSE if available
-  pollInterval?: number;        // Polling interval if SSE not available
-  maxPollTime?: number;         // Max time to poll
+  enableRealTime?: boolean;     // Use SSE if available (tracker falls back to polling)
   onProgress?: (progress: VideoStatusResponse) => void;
   onUploadProgress?: (progress: UploadProgress) => void;
 }
@@ -50,11 +42,15 @@ export interface ProgressEventData {
   error_details?: string;
 }
 
+// ========== CONFIGURATION ==========
+
+// Prompt length the backend accepts; the Generate prompt linter measures against the same limits
+export const PROMPT_LENGTH_LIMITS = { MIN: 3, MAX: 5000 } as const;
+
 // ========== VIDEO SERVICE CLASS ==========
 
 class VideoService {
-  private activeEventSources = new Map<string, EventSource>();
-  private activePolls = new Map<string, NodeJS.Timeout>();
+  private activeSubscriptions = new Map<string, () => void>();
   private generationStartTimes = new Map<string, number>();
 
   // ========== GENERATION METHODS ==========
@@ -73,26 +69,26 @@ class VideoService {
       hasImage: !!request.image_base64
     });
 
-    // Start generation
-    const response: ApiResponse<VideoGenerationResponse> = await apiClient.post(
-      '/videos/generate',
-      request
+    // Start generation; resubmitting the same request reuses its idempotency key
+    const response = await idempotencyKeys.submit(
+      requestScope('generate', request),
+      async headers => (await apiClient.post<VideoGenerationResponse>('/videos/generate', request, { headers })).data,
+      readOriginalGeneration
     );
 
-    const generationId = response.data.generation_id;
+    const generationId = response.generation_id;
     
     // Store start time for completion tracking
     this.generationStartTimes.set(generationId, Date.now());
 
     // Start progress tracking if requested
     if (options.onProgress) {
-      if (options.enableRealTime !== false) {
-        this.startProgressTracking(generationId, options);
-      } else {
-        this.startPolling(generationId, options);
-      }
+      this.startProgressTracking(generationId, options);
     }
 
+    // Record in the persistent queue so tracking survives reloads
+    generationQueue.record(generationId, request, response.status);
+
     // Return initial status
     return this.getVideoStatus(generationId);
   }
@@ -176,10 +172,8 @@ class VideoService {
    * Get video generation status
    */
   async getVideoStatus(generationId: string): Promise<VideoStatusResponse> {
-    const response: ApiResponse<VideoStatusResponse> = await apiClient.get(
-      `/videos/${generationId}/status`
-    );
-    return response.data;
+    const response = await apiClient.get<unknown>(`/videos/${generationId}/status`);
+    return decodeVideoStatus(response.data, responseContext('GET /videos/{id}/status', response));
   }
 
 
@@ -202,158 +196,54 @@ class VideoService {
    * Get user's video history with optional filtering
    */
   async getVideoHistory(params?: VideoListParams): Promise<UserVideosResponse> {
-    const response = await apiClient.get<UserVideosResponse>('/user/videos', { params });
-    return response.data;
+    const response = await apiClient.get<unknown>('/user/videos', { params });
+    return decodeVideoList(response.data, responseContext('GET /user/videos', response));
   }
 
   // ========== PROGRESS TRACKING ==========
 
   /**
-   * Start real-time progress tracking via Server-Sent Events
+   * Subscribe to progress updates through the shared generation tracker
    */
   private startProgressTracking(
     generationId: string, 
     options: VideoGenerationOptions
   ): void {
-    const baseUrl = apiClient.getBaseUrl().replace('/api/v1', '');
-    const url = `${baseUrl}/api/v1/events/${generationId}`;
-    
-    try {
-      const eventSource = new EventSource(url, {
-        withCredentials: true
-      });
-
-      // Add auth header if possible (note: EventSource doesn't support custom headers directly)
-      const token = apiClient.getAuthToken();
-      if (token) {
-        // For production, backend should support token via query param or cookie
-        // eventSource.url += `?token=${token}`;
-      }
-
-      eventSource.onmessage = (event) => {
-        try {
-          const data: ProgressEventData = JSON.parse(event.data);
-          
-          // Convert to VideoStatusResponse format for consistent handling
-          const progress: VideoStatusResponse = {
-            generation_id: data.generation_id,
-            status: data.status,
-            progress: data.progress || 0,
-            message: data.message,
-            video_url: data.video_url || null,
-            thumbnail_url: null,
-            duration_seconds: null,
-            resolution: null,
-            file_size_bytes: null,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            completed_at: data.status === 'completed' ? new Date().toISOString() : null,
-            error_details: data.error_details || null
-          };
-          
-          if (options.onProgress) {
-            options.onProgress(progress);
-          }
-
-          // Close connection when complete
-          if (POLLING_CONFIG.COMPLETION_STATES.includes(data.status)) {
-            this.trackCompletionEvent(generationId, progress);
-            this.stopProgressTracking(generationId);
-          }
-        } catch (error) {
-          console.error('Error parsing SSE data:', error);
-        }
-      };
-
-      eventSource.onerror = (error) => {
-        console.warn('SSE connection error, falling back to polling:', error);
-        this.stopProgressTracking(generationId);
-        this.startPolling(generationId, options);
-      };
-
-      this.activeEventSources.set(generationId, eventSource);
-    } catch (error) {
-      console.warn('SSE not supported, falling back to polling:', error);
-      this.startPolling(generationId, options);
-    }
-  }
+    this.stopProgressTracking(generationId);
 
-  /**
-   * Start polling for progress updates (fallback for SSE)
-   */
-  private startPolling(
-    generationId: string, 
-    options: VideoGenerationOptions
-  ): void {
-    const interval = options.pollInterval || POLLING_CONFIG.DEFAULT_INTERVAL;
-    const maxTime = options.maxPollTime || POLLING_CONFIG.MAX_POLLING_TIME;
-    const startTime = Date.now();
-    let currentInterval = interval;
-
-    const poll = async () => {
-      try {
-        const status = await this.getVideoStatus(generationId);
-        
-        if (options.onProgress) {
-          options.onProgress(status);
-        }
+    const unsubscribe = generationTracker.subscribe(
+      generationId,
+      (status) => {
+        options.onProgress?.(status);
 
-        // Stop polling if complete or timed out
-        if (POLLING_CONFIG.COMPLETION_STATES.includes(status.status)) {
+        if (isTerminalStatus(status.status)) {
           this.trackCompletionEvent(generationId, status);
-          this.stopPolling(generationId);
-          return;
+          this.activeSubscriptions.delete(generationId);
         }
-
-        if (Date.now() - startTime > maxTime) {
-          console.warn(`Polling timeout for generation ${generationId}`);
-          this.stopPolling(generationId);
-          return;
+      },
+      {
+        realTime: options.enableRealTime !== false,
+        onError: (error) => {
+          console.warn(`Progress tracking stopped for generation ${generationId}:`, error);
+          this.activeSubscriptions.delete(generationId);
         }
-
-        // Gradual backoff for longer operations
-        currentInterval = Math.min(
-          currentInterval * POLLING_CONFIG.BACKOFF_MULTIPLIER,
-          POLLING_CONFIG.MAX_INTERVAL
-        );
-
-        // Schedule next poll
-        const timeoutId = setTimeout(poll, currentInterval);
-        this.activePolls.set(generationId, timeoutId);
-      } catch (error) {
-        console.error('Polling error:', error);
-        this.stopPolling(generationId);
       }
-    };
+    );
 
-    // Start first poll
-    const timeoutId = setTimeout(poll, interval);
-    this.activePolls.set(generationId, timeoutId);
+    // Terminal snapshots are delivered synchronously, so only keep live subscriptions
+    if (generationTracker.isTracking(generationId)) {
+      this.activeSubscriptions.set(generationId, unsubscribe);
+    }
   }
 
   /**
    * Stop progress tracking for a generation
    */
   stopProgressTracking(generationId: string): void {
-    // Stop SSE
-    const eventSource = this.activeEventSources.get(generationId);
-    if (eventSource) {
-      eventSource.close();
-      this.activeEventSources.delete(generationId);
-    }
-
-    // Stop polling
-    this.stopPolling(generationId);
-  }
-
-  /**
-   * Stop polling for a generation
-   */
-  private stopPolling(generationId: string): void {
-    const timeoutId = this.activePolls.get(generationId);
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-      this.activePolls.delete(generationId);
+    const unsubscribe = this.activeSubscriptions.get(generationId);
+    if (unsubscribe) {
+      unsubscribe();
+      this.activeSubscriptions.delete(generationId);
     }
   }
 
@@ -380,25 +270,24 @@ class VideoService {
   }
 
   /**
-   * Cancel video generation
+   * Cancel video generation; tracking continues if the server refuses
    */
   async cancelGeneration(generationId: string): Promise<void> {
-    // Stop tracking first
+    await videoApi.cancelGeneration(generationId);
     this.stopProgressTracking(generationId);
-    
-    // Send cancel request to backend
-    await apiClient.post(`/videos/cancel/${generationId}`);
   }
 
   /**
    * Retry failed generation
    */
   async retryGeneration(generationId: string): Promise<VideoStatusResponse> {
-    const response: ApiResponse<VideoGenerationResponse> = await apiClient.post(
-      `/videos/retry/${generationId}`
+    const response = await idempotencyKeys.submit(
+      requestScope('retry', generationId),
+      async headers => (await apiClient.post<VideoGenerationResponse>(`/videos/retry/${generationId}`, undefined, { headers })).data,
+      readOriginalGeneration
     );
     
-    return this.getVideoStatus(response.data.generation_id);
+    return this.getVideoStatus(response.generation_id);
   }
 
   // ========== UTILITIES ==========
@@ -407,13 +296,9 @@ class VideoService {
    * Clean up all active connections
    */
   cleanup(): void {
-    // Close all event sources
-    this.activeEventSources.forEach(eventSource => eventSource.close());
-    this.activeEventSources.clear();
-
-    // Clear all polls
-    this.activePolls.forEach(timeoutId => clearTimeout(timeoutId));
-    this.activePolls.clear();
+    // Release all tracker subscriptions
+    this.activeSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.activeSubscriptions.clear();
     
     // Clear generation start times
     this.generationStartTimes.clear();
@@ -433,12 +318,12 @@ class VideoService {
   validateRequest(request: VideoGenerationRequest): string[] {
     const errors: string[] = [];
 
-    if (!request.prompt || request.prompt.length < 3) {
-      errors.push('Prompt must be at least 3 characters long');
+    if (!request.prompt || request.prompt.length < PROMPT_LENGTH_LIMITS.MIN) {
+      errors.push(`Prompt must be at least ${PROMPT_LENGTH_LIMITS.MIN} characters long`);
     }
 
-    if (request.prompt && request.prompt.length > 5000) {
-      errors.push('Prompt must be less than 5000 characters');
+    if (request.prompt && request.prompt.length > PROMPT_LENGTH_LIMITS.MAX) {
+      errors.push(`Prompt must be less than ${PROMPT_LENGTH_LIMITS.MAX} characters`);
     }
 
     if (request.duration && (request.duration < 5 || request.duration > 8)) {
@@ -459,7 +344,7 @@ class VideoService {
    * Check if generation is complete
    */
   isGenerationComplete(status: VideoStatus): boolean {
-    return POLLING_CONFIG.COMPLETION_STATES.includes(status);
+    return isTerminalStatus(status);
   }
 }
 
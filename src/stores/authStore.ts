@@ -24,7 +24,10 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { api, type LoginCredentials, type RegisterData } from '../services/api';
-import { TokenManager } from '../api/client';
+import { apiClient, TokenManager } from '../api/client';
+import { offlineQueue } from '../api/offlineQueue';
+import { scopedStorageKey } from '../api/environments';
+import { clearApiCache } from '../lib/serviceWorker';
 import { toast } from 'react-hot-toast';
 
 // === ENHANCED USER INTERFACE ===
@@ -91,15 +94,15 @@ export const useAuthStore = create<AuthState>()(
         
         try {
           const response = await api.login(credentials);
-          const { access_token, user } = response;
+          const { access_token, refresh_token, user } = response;
           
           // Calculate session expiry
           const expiry = rememberMe 
             ? Date.now() + (7 * 24 * 60 * 60 * 1000) // 7 days
             : Date.now() + (30 * 60 * 1000); // 30 minutes
           
-          // Store token using unified token manager
-          TokenManager.setToken(access_token);
+          // Store tokens through the client so it can refresh them silently
+          apiClient.setAuthToken(access_token, refresh_token);
           
           set({
             isAuthenticated: true,
@@ -168,9 +171,9 @@ export const useAuthStore = create<AuthState>()(
         
         try {
           const response = await api.register(data);
-          const { access_token, user } = response;
+          const { access_token, refresh_token, user } = response;
           
-          TokenManager.setToken(access_token);
+          apiClient.setAuthToken(access_token, refresh_token);
           
           set({
             isAuthenticated: true,
@@ -213,7 +216,12 @@ export const useAuthStore = create<AuthState>()(
 
       // === LOGOUT ACTION ===
       logout: () => {
-        TokenManager.removeToken();
+        // Changes queued offline and cached responses must never reach whoever signs in next
+        const userId = get().user?.id;
+        if (userId) void offlineQueue.discardOwnedBy(userId);
+        clearApiCache();
+
+        apiClient.clearAuthToken();
         set({
           isAuthenticated: false,
           user: null,
@@ -277,11 +285,13 @@ export const useAuthStore = create<AuthState>()(
       },
 
       // === REFRESH TOKEN ACTION ===
+      // Queued behind any refresh already in flight; a failed refresh ends the session via onSessionExpired
       refreshToken: async () => {
         try {
-          await get().checkAuth();
+          const token = await apiClient.refreshAccessToken();
+          set({ token });
         } catch {
-          get().logout();
+          // Session state is cleared by the onSessionExpired listener below
         }
       },
 
@@ -344,7 +354,8 @@ export const useAuthStore = create<AuthState>()(
       clearError: () => set({ error: null })
     }),
     {
-      name: 'veo3-auth-store',
+      // Sessions are per environment, like the tokens in TokenManager
+      name: scopedStorageKey('veo3-auth-store'),
       storage: createJSONStorage(() => localStorage),
       partialize: (state) => ({
         isAuthenticated: state.isAuthenticated,
@@ -378,6 +389,22 @@ export const useAuthActions = () => {
   return { login, logout, register, clearError };
 };
 
+// === SESSION EXPIRY ===
+// The client only gives up once a token refresh fails. Clearing the session lets
+// ProtectedRoute send the user to /auth with a returnTo, without a full page reload.
+apiClient.onSessionExpired(() => {
+  if (!useAuthStore.getState().isAuthenticated) return;
+  clearApiCache();
+  useAuthStore.setState({
+    isAuthenticated: false,
+    user: null,
+    token: null,
+    sessionExpiry: null,
+    isLoading: false
+  });
+  toast.error('Your session has expired - please sign in again');
+});
+
 // === AUTO-INITIALIZE ===
 // Check auth status on store creation (browser only)
 if (typeof window !== 'undefined') {
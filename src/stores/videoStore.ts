@@ -17,6 +17,8 @@ import {
   UploadProgress
 } from '../api/types';
 import { api } from '../api/endpoints';
+import { generationTracker, isTerminalStatus } from '../api/tracker';
+import { retryScheduler } from '../api/retries';
 
 // === Types ===
 
@@ -119,6 +121,38 @@ export interface VideoStoreActions {
 
 type VideoStore = VideoStoreState & VideoStoreActions;
 
+// === Tracking Helpers ===
+
+// Tracker subscriptions owned by the store, keyed by generation_id
+const activeSubscriptions = new Map<string, () => void>();
+
+const stopTracking = (generationId: string) => {
+  activeSubscriptions.get(generationId)?.();
+  activeSubscriptions.delete(generationId);
+};
+
+const stopAllTracking = () => {
+  activeSubscriptions.forEach(unsubscribe => unsubscribe());
+  activeSubscriptions.clear();
+};
+
+const toGenerationState = (status: VideoStatusResponse): VideoGenerationState => ({
+  generation_id: status.generation_id,
+  status: status.status,
+  progress: status.progress ?? 0,
+  message: status.message,
+  video_url: status.video_url,
+  thumbnail_url: status.thumbnail_url,
+  error_details: status.error_details,
+  created_at: status.created_at,
+  updated_at: status.updated_at,
+  completed_at: status.completed_at,
+  duration_seconds: status.duration_seconds,
+  resolution: status.resolution,
+  file_size_bytes: status.file_size_bytes,
+  isGenerating: !isTerminalStatus(status.status)
+});
+
 // === Store Implementation ===
 
 export const useVideoStore = create<VideoStore>()(
@@ -162,25 +196,6 @@ export const useVideoStore = create<VideoStore>()(
           
           const result = await api.video.generateVideo(mergedRequest);
           
-          // If real-time updates are enabled, start polling
-          if (store.enableRealTimeUpdates && options.onProgress) {
-            // Start polling for progress updates
-            const pollInterval = setInterval(async () => {
-              try {
-                const status = await api.video.getVideoStatus(result.generation_id);
-                options.onProgress?.(status);
-                
-                if (['completed', 'failed', 'cancelled'].includes(status.status)) {
-                  clearInterval(pollInterval);
-                  set({ isGenerating: false });
-                  get().refreshVideoHistory();
-                }
-              } catch (error) {
-                console.error('Polling error:', error);
-              }
-            }, 2000);
-          }
-
           set({
             currentGeneration: {
               generation_id: result.generation_id,
@@ -193,6 +208,37 @@ export const useVideoStore = create<VideoStore>()(
             }
           });
 
+          // Follow the generation through the shared tracker
+          stopTracking(result.generation_id);
+          const unsubscribe = generationTracker.subscribe(
+            result.generation_id,
+            (status) => {
+              options.onProgress?.(status);
+              set(state => ({
+                currentGeneration: state.currentGeneration?.generation_id === status.generation_id
+                  ? toGenerationState(status)
+                  : state.currentGeneration
+              }));
+
+              if (isTerminalStatus(status.status)) {
+                activeSubscriptions.delete(status.generation_id);
+                set({ isGenerating: false });
+                get().refreshVideoHistory();
+              }
+            },
+            {
+              realTime: store.enableRealTimeUpdates,
+              onError: (error) => {
+                console.error('Generation tracking error:', error);
+                activeSubscriptions.delete(result.generation_id);
+                set({ isGenerating: false });
+              }
+            }
+          );
+          if (generationTracker.isTracking(result.generation_id)) {
+            activeSubscriptions.set(result.generation_id, unsubscribe);
+          }
+
           return result;
 
         } catch (error) {
@@ -300,16 +346,58 @@ export const useVideoStore = create<VideoStore>()(
           };
           const results = await api.video.generateBatch(batchRequest);
 
-          // Poll each generation for completion
+          // Fetch the initial status of each generation
           const statusPromises = results.generation_ids.map(async (generation_id) => {
             const status = await api.video.getVideoStatus(generation_id);
             return status;
           });
           
           const videoStatuses = await Promise.all(statusPromises);
+          set({ batchGenerations: videoStatuses.map(toGenerationState) });
+
+          // Follow every generation through the shared tracker until all settle
+          const pending = new Set(results.generation_ids);
+          const settle = (generationId: string) => {
+            activeSubscriptions.delete(generationId);
+            pending.delete(generationId);
+            if (pending.size === 0) {
+              set({ isGenerating: false });
+              get().refreshVideoHistory();
+            }
+          };
 
-          set({ isGenerating: false });
-          get().refreshVideoHistory();
+          results.generation_ids.forEach(generationId => {
+            stopTracking(generationId);
+            const unsubscribe = generationTracker.subscribe(
+              generationId,
+              (status) => {
+                set(state => {
+                  const batchGenerations = state.batchGenerations.map(generation =>
+                    generation.generation_id === status.generation_id ? toGenerationState(status) : generation
+                  );
+                  return {
+                    batchGenerations,
+                    batchProgress: {
+                      total: state.batchProgress.total,
+                      completed: batchGenerations.filter(g => g.status === VideoStatus.COMPLETED).length,
+                      failed: batchGenerations.filter(g => g.status === VideoStatus.FAILED).length
+                    }
+                  };
+                });
+
+                if (isTerminalStatus(status.status)) {
+                  settle(generationId);
+                }
+              },
+              {
+                realTime: get().enableRealTimeUpdates,
+                onError: () => settle(generationId)
+              }
+            );
+            if (generationTracker.isTracking(generationId)) {
+              activeSubscriptions.set(generationId, unsubscribe);
+            }
+          });
 
           return videoStatuses;
 
@@ -320,14 +408,12 @@ export const useVideoStore = create<VideoStore>()(
       },
 
       cancelGeneration: async (generationId) => {
-        if (generationId) {
-          await api.video.cancelGeneration(generationId);
-        } else {
-          // Cancel current generation
-          const current = get().currentGeneration;
-          if (current) {
-            await api.video.cancelGeneration(current.generation_id);
-          }
+        // Cancel the given generation, or the current one
+        const targetId = generationId || get().currentGeneration?.generation_id;
+        if (targetId) {
+          // Subscriptions stay open so a refused cancel rolls back to live tracking
+          await api.video.cancelGeneration(targetId);
+          stopTracking(targetId);
         }
         
         set({
@@ -337,6 +423,7 @@ export const useVideoStore = create<VideoStore>()(
       },
 
       cancelAllGenerations: async () => {
+        stopAllTracking();
         await api.video.cancelAllGenerations();
         set({
           isGenerating: false,
@@ -458,19 +545,11 @@ export const useVideoStore = create<VideoStore>()(
       },
 
       retryGeneration: async (generationId) => {
+        // Re-submits the original request and links the new attempt into its retry chain
         const video = get().getGenerationById(generationId);
-        if (!video) {
-          throw new Error('Video not found in history');
-        }
-
-        // Reconstruct the original request (limited info available)
-        const request: VideoGenerationRequest = {
-          prompt: 'Retry generation', // Would need to store original prompt
-          // Use current default settings
-          ...get().defaultSettings
-        };
-
-        return get().generateVideo(request);
+        const response = await retryScheduler.retryNow(generationId, video || undefined);
+        get().refreshVideoHistory();
+        return response;
       }
     }),
     {
@@ -499,6 +578,7 @@ export const useDefaultSettings = () => useVideoStore(state => state.defaultSett
 
 if (typeof window !== 'undefined') {
   window.addEventListener('beforeunload', () => {
+    stopAllTracking();
     videoService.dispose();
   });
 }
\ No newline at end of file
@@ -0,0 +1,482 @@
+/**
+ * Service Worker for Veo3 Video Generator
+ * Implements aggressive caching strategy for optimal performance
+ * Features: Static asset precaching, API response caching, offline support, update hand-off
+ *
+ * Source file - the build (plugins/serviceWorkerManifest.ts) emits dist/sw.js with the
+ * manifest below filled in. Not served in development.
+ */
+
+// Hashed files to precache, cache version and API rules - injected at build time
+const BUILD_MANIFEST = self.__SW_MANIFEST;
+
+const CACHE_VERSION = BUILD_MANIFEST.version;
+const STATIC_CACHE = `veo3-static-${CACHE_VERSION}`;
+const API_CACHE = `veo3-api-${CACHE_VERSION}`;
+const VIDEO_CACHE = `veo3-videos-${CACHE_VERSION}`;
+
+// Static assets to cache immediately
+const STATIC_ASSETS = BUILD_MANIFEST.precache;
+
+// Base URL + API prefix of every backend the app may talk to
+const API_ROOTS = BUILD_MANIFEST.api.roots;
+
+// API routes (relative to an API root) that can be served from cache when offline
+const CACHEABLE_APIS = BUILD_MANIFEST.api.offline_readable;
+
+// API routes that should never be cached
+const NEVER_CACHE_APIS = BUILD_MANIFEST.api.never_cached;
+
+// Sent by the app when the user accepts the update prompt (see src/lib/serviceWorker.ts)
+const SKIP_WAITING_MESSAGE = 'SKIP_WAITING';
+
+// Sent by the app on sign-out - cached profile and history belong to that account
+const CLEAR_API_CACHE_MESSAGE = 'CLEAR_API_CACHE';
+
+/**
+ * Install event - cache critical assets
+ */
+self.addEventListener('install', (event) => {
+  console.log('[SW] Installing service worker...');
+  
+  event.waitUntil(
+    caches.open(STATIC_CACHE).then((cache) => {
+      console.log('[SW] Caching static assets');
+      return cache.addAll(STATIC_ASSETS);
+    })
+  );
+  // An update waits until the app asks it to take over, so open tabs don't mix versions
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === SKIP_WAITING_MESSAGE) {
+    self.skipWaiting();
+  }
+  
+  if (event.data && event.data.type === CLEAR_API_CACHE_MESSAGE) {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+/**
+ * Activate event - clean old caches
+ */
+self.addEventListener('activate', (event) => {
+  console.log('[SW] Activating service worker...');
+  
+  event.waitUntil(
+    caches.keys().then((cacheNames) => {
+      return Promise.all(
+        cacheNames.map((cacheName) => {
+          if (cacheName.startsWith('veo3-') && !cacheName.includes(CACHE_VERSION)) {
+            console.log('[SW] Deleting old cache:', cacheName);
+            return caches.delete(cacheName);
+          }
+        })
+      );
+    }).then(() => {
+      // Take control of all clients
+      return self.clients.claim();
+    })
+  );
+});
+
+/**
+ * Fetch event - implement caching strategies
+ */
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  
+  // Skip non-GET requests
+  if (request.method !== 'GET') {
+    return;
+  }
+  
+  const apiRoute = getAPIRoute(url);
+  
+  // Skip cross-origin requests (except for API backends and known CDNs)
+  if (url.origin !== self.location.origin && apiRoute === null && !isTrustedDomain(url.origin)) {
+    return;
+  }
+  
+  // Handle different types of requests
+  if (apiRoute !== null) {
+    event.respondWith(handleAPIRequest(request, apiRoute));
+  } else if (isStaticAsset(url.pathname)) {
+    event.respondWith(handleStaticAsset(request));
+  } else if (isVideoAsset(url.pathname)) {
+    event.respondWith(handleVideoAsset(request));
+  } else {
+    event.respondWith(handleGenericRequest(request));
+  }
+});
+
+/**
+ * Handle static assets (CSS, JS, images)
+ * Strategy: Cache First with fallback to network
+ */
+async function handleStaticAsset(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cachedResponse = await cache.match(request);
+  
+  if (cachedResponse) {
+    console.log('[SW] Serving cached static asset:', request.url);
+    return cachedResponse;
+  }
+  
+  try {
+    const networkResponse = await fetch(request);
+    
+    // Cache successful responses
+    if (networkResponse.ok) {
+      console.log('[SW] Caching static asset:', request.url);
+      cache.put(request, networkResponse.clone());
+    }
+    
+    return networkResponse;
+  } catch (error) {
+    console.error('[SW] Failed to fetch static asset:', request.url, error);
+    
+    // Return offline fallback for critical assets
+    if (request.url.includes('.html')) {
+      return cache.match('/index.html');
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Handle API requests
+ * Strategy: Network First with cache fallback for specific endpoints
+ */
+async function handleAPIRequest(request, route) {
+  const pathname = new URL(request.url).pathname;
+  
+  // Never cache authentication or generation requests
+  if (matchesRoute(route, NEVER_CACHE_APIS)) {
+    console.log('[SW] Bypassing cache for:', pathname);
+    return fetch(request);
+  }
+  
+  const cache = await caches.open(API_CACHE);
+  
+  try {
+    // Try network first
+    const networkResponse = await fetch(request);
+    
+    if (networkResponse.ok) {
+      // Cache successful responses for cacheable endpoints
+      if (matchesRoute(route, CACHEABLE_APIS)) {
+        console.log('[SW] Caching API response:', pathname);
+        cache.put(request, networkResponse.clone());
+      }
+      
+      return networkResponse;
+    }
+    
+    throw new Error(`HTTP ${networkResponse.status}`);
+    
+  } catch (error) {
+    console.log('[SW] Network failed, trying cache for:', pathname);
+    
+    const cachedResponse = await cache.match(request);
+    if (cachedResponse) {
+      console.log('[SW] Serving cached API response:', pathname);
+      
+      // Cached responses have immutable headers - copy them to mark the data as stale
+      const headers = new Headers(cachedResponse.headers);
+      headers.set('X-Served-By', 'ServiceWorker');
+      headers.set('X-Cache-Status', 'STALE');
+      
+      return new Response(cachedResponse.body, {
+        status: cachedResponse.status,
+        statusText: cachedResponse.statusText,
+        headers
+      });
+    }
+    
+    // Return offline response for critical endpoints
+    if (matchesRoute(route, ['/user'])) {
+      return new Response(
+        JSON.stringify({ error: 'Offline', message: 'This data is not available offline' }),
+        {
+          status: 503,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Handle video assets
+ * Strategy: Cache with size limits
+ */
+async function handleVideoAsset(request) {
+  const cache = await caches.open(VIDEO_CACHE);
+  const cachedResponse = await cache.match(request);
+  
+  if (cachedResponse) {
+    console.log('[SW] Serving cached video:', request.url);
+    return cachedResponse;
+  }
+  
+  try {
+    const networkResponse = await fetch(request);
+    
+    if (networkResponse.ok) {
+      // Only cache small videos (< 10MB) to avoid storage issues
+      const contentLength = networkResponse.headers.get('content-length');
+      const fileSize = contentLength ? parseInt(contentLength) : 0;
+      
+      if (fileSize < 10 * 1024 * 1024) { // 10MB limit
+        console.log('[SW] Caching video asset:', request.url);
+        cache.put(request, networkResponse.clone());
+      } else {
+        console.log('[SW] Video too large to cache:', request.url, fileSize);
+      }
+    }
+    
+    return networkResponse;
+  } catch (error) {
+    console.error('[SW] Failed to fetch video:', request.url, error);
+    throw error;
+  }
+}
+
+/**
+ * Handle generic requests
+ * Strategy: Network First
+ */
+async function handleGenericRequest(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    // Fallback to cache for navigation requests
+    if (request.mode === 'navigate') {
+      const cache = await caches.open(STATIC_CACHE);
+      return cache.match('/index.html');
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Utility functions
+ */
+function isStaticAsset(pathname) {
+  return /\.(js|css|png|jpg|jpeg|gif|svg|ico|woff2?|ttf|eot)$/.test(pathname) || 
+         pathname === '/' || pathname === '/index.html';
+}
+
+/**
+ * Route relative to the matching API root (e.g. '/user/videos'), or null for non-API requests
+ */
+function getAPIRoute(url) {
+  const href = `${url.origin}${url.pathname}`;
+  const root = API_ROOTS.find((apiRoot) => href === apiRoot || href.startsWith(`${apiRoot}/`));
+  return root === undefined ? null : href.slice(root.length) || '/';
+}
+
+function matchesRoute(route, routes) {
+  return routes.some((candidate) => route === candidate || route.startsWith(`${candidate}/`));
+}
+
+function isVideoAsset(pathname) {
+  return /\.(mp4|webm|ogg|mov)$/.test(pathname) || pathname.includes('video');
+}
+
+function isTrustedDomain(origin) {
+  const trustedDomains = [
+    'https://fonts.googleapis.com',
+    'https://fonts.gstatic.com',
+    'https://cdn.jsdelivr.net',
+    'https://unpkg.com',
+  ];
+  
+  return trustedDomains.includes(origin);
+}
+
+/**
+ * Background sync for failed API requests
+ * Mutations queued while offline live in IndexedDB (see src/api/offlineQueue.ts - keep the
+ * database layout in step). The worker only sends them and records each answer; the app
+ * applies the outcome and resolves conflicts next time it is open.
+ */
+const OFFLINE_DB_NAME = 'veo3-offline';
+const OFFLINE_DB_VERSION = 2;
+const OFFLINE_STORE = 'mutations';
+const OFFLINE_SESSION_STORE = 'session';
+const OFFLINE_OWNER_KEY = 'owner';
+const OFFLINE_QUEUE_MESSAGE = 'offline-queue-updated';
+
+// Answers worth sending again later rather than recording (401: the app replays with a fresh token)
+const RETRY_LATER_STATUSES = [401, 408, 429];
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === 'retry-api-requests') {
+    event.waitUntil(retryFailedRequests());
+  }
+});
+
+function openOfflineDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(OFFLINE_STORE)) {
+        request.result.createObjectStore(OFFLINE_STORE, { keyPath: 'id' });
+      }
+      if (!request.result.objectStoreNames.contains(OFFLINE_SESSION_STORE)) {
+        request.result.createObjectStore(OFFLINE_SESSION_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Read-modify-write one queued mutation in a single transaction; `change` returns null to skip
+ */
+function updateMutation(database, id, change) {
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(OFFLINE_STORE, 'readwrite');
+    const store = transaction.objectStore(OFFLINE_STORE);
+    let next = null;
+    const read = store.get(id);
+    read.onsuccess = () => {
+      next = read.result ? change(read.result) : null;
+      if (next) store.put(next);
+    };
+    transaction.oncomplete = () => resolve(next);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function readMutations(database) {
+  return new Promise((resolve, reject) => {
+    const request = database.transaction(OFFLINE_STORE, 'readonly').objectStore(OFFLINE_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Id of the signed-in user, recorded by the app; null when nobody is signed in
+ */
+function readOwner(database) {
+  return new Promise((resolve, reject) => {
+    const request = database.transaction(OFFLINE_SESSION_STORE, 'readonly').objectStore(OFFLINE_SESSION_STORE).get(OFFLINE_OWNER_KEY);
+    request.onsuccess = () => resolve(request.result ? request.result.user_id : null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function retryFailedRequests() {
+  console.log('[SW] Retrying failed requests...');
+
+  const database = await openOfflineDatabase();
+  // Only the signed-in user's mutations - anyone else's wait until they sign in again
+  const owner = await readOwner(database);
+  if (!owner) return;
+
+  const mutations = (await readMutations(database))
+    .filter((mutation) => mutation.state === 'pending' && mutation.background && mutation.owner === owner)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  let retryLater = false;
+  let changed = false;
+
+  for (const queued of mutations) {
+    // Claim it so an open tab doesn't send the same mutation at the same time
+    const mutation = await updateMutation(database, queued.id, (current) => current.state === 'pending' && current.owner === owner
+      ? { ...current, state: 'replaying', attempts: current.attempts + 1, updated_at: new Date().toISOString() }
+      : null);
+    if (!mutation) continue;
+    changed = true;
+
+    const headers = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'Idempotency-Key': mutation.idempotency_key,
+    };
+    if (mutation.authorization) {
+      headers.Authorization = `Bearer ${mutation.authorization}`;
+    }
+
+    let response = null;
+    try {
+      response = await fetch(mutation.url, {
+        method: mutation.method,
+        headers,
+        body: mutation.method === 'DELETE' ? undefined : JSON.stringify(mutation.body),
+      });
+    } catch (error) {
+      console.log('[SW] Still offline, keeping queued requests:', error);
+    }
+
+    if (!response || response.status >= 500 || RETRY_LATER_STATUSES.includes(response.status)) {
+      await updateMutation(database, mutation.id, (current) => ({ ...current, state: 'pending', updated_at: new Date().toISOString() }));
+      if (!response || response.status >= 500) {
+        // Later mutations would fail the same way
+        retryLater = true;
+        break;
+      }
+      continue;
+    }
+
+    const body = await response.json().catch(() => null);
+    await updateMutation(database, mutation.id, (current) => ({
+      ...current,
+      state: 'settled',
+      outcome: { status: response.status, body },
+      updated_at: new Date().toISOString(),
+    }));
+  }
+
+  if (changed) {
+    const clients = await self.clients.matchAll({ type: 'window' });
+    clients.forEach((client) => client.postMessage({ type: OFFLINE_QUEUE_MESSAGE }));
+  }
+
+  // Rejecting makes the browser schedule the sync again
+  if (retryLater) {
+    throw new Error('Queued requests could not be sent yet');
+  }
+}
+
+/**
+ * Push notification handling (for future features)
+ */
+self.addEventListener('push', (event) => {
+  if (event.data) {
+    const data = event.data.json();
+    
+    event.waitUntil(
+      self.registration.showNotification(data.title, {
+        body: data.body,
+        icon: '/icon-192.png',
+        badge: '/badge-72.png',
+        tag: 'veo3-notification',
+      })
+    );
+  }
+});
+
+/**
+ * Notification click handling
+ */
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  
+  event.waitUntil(
+    self.clients.openWindow('/')
+  );
+});
+
+console.log('[SW] Service worker loaded successfully');
\ No newline at end of file
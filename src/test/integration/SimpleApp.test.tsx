@@ -1,38 +1,52 @@
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import App from '../../App';
+import { apiClient } from '@/api/client';
+import { sandboxBackend, setSandboxEnabled, SANDBOX_DEMO_ACCOUNT } from '@/api/sandbox';
+import { useAuthStore } from '@/stores/authStore';
 
-// Minimal mocks
-vi.mock('@/stores/authStore', () => ({
-  useAuthStore: () => ({
-    user: { email: 'test@example.com', tier: 'pro' },
-    isAuthenticated: true,
-    checkAuth: vi.fn(),
-  }),
-}));
+// Served by the sandbox adapter rather than a mocked client
+const storage: Record<string, string> = {};
 
-vi.mock('@/api/client', () => ({
-  apiClient: {
-    get: vi.fn(() => Promise.resolve({ data: { jobs: [] } })),
-    post: vi.fn(() => Promise.resolve({ data: { generation_id: 'test' } })),
-  },
-}));
+const renderApp = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter initialEntries={['/generate']}>
+        <App />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+};
 
 describe('Simple App Loading Test', () => {
-  it('should render the app without crashing', async () => {
-    const queryClient = new QueryClient({
-      defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  beforeEach(async () => {
+    Object.keys(storage).forEach(key => delete storage[key]);
+    vi.mocked(localStorage.getItem).mockImplementation((key: string) => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
     });
+    vi.mocked(localStorage.removeItem).mockImplementation((key: string) => {
+      delete storage[key];
+    });
+    setSandboxEnabled(true);
+    sandboxBackend.reset();
+    sandboxBackend.failureRate = 0;
+    await useAuthStore.getState().login(SANDBOX_DEMO_ACCOUNT, true);
+  });
+
+  afterEach(() => {
+    apiClient.clearAuthToken();
+    setSandboxEnabled(false);
+  });
 
-    render(
-      <QueryClientProvider client={queryClient}>
-        <MemoryRouter initialEntries={['/generate']}>
-          <App />
-        </MemoryRouter>
-      </QueryClientProvider>
-    );
+  it('should render the app without crashing', async () => {
+    renderApp();
 
     // Just check if the app renders something
     await waitFor(() => {
@@ -44,25 +58,9 @@ describe('Simple App Loading Test', () => {
   });
 
   it('should render generate page', async () => {
-    const queryClient = new QueryClient({
-      defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
-    });
+    renderApp();
 
-    render(
-      <QueryClientProvider client={queryClient}>
-        <MemoryRouter initialEntries={['/generate']}>
-          <App />
-        </MemoryRouter>
-      </QueryClientProvider>
-    );
-
-    // Look for the specific textarea with the expected label
-    await waitFor(() => {
-      expect(
-        screen.getByLabelText(/video description/i) || 
-        screen.getByRole('textbox') ||
-        screen.getByPlaceholderText(/describe your video/i)
-      ).toBeInTheDocument();
-    }, { timeout: 2000 });
+    fireEvent.click(await screen.findByRole('button', { name: /continue to prompt/i }, { timeout: 5000 }));
+    expect(await screen.findByLabelText(/video description/i)).toBeInTheDocument();
   });
-});
\ No newline at end of file
+});
@@ -19,6 +19,7 @@ export enum ErrorType {
   FILE_TOO_LARGE = 'FILE_TOO_LARGE',
   UNSUPPORTED_FORMAT = 'UNSUPPORTED_FORMAT',
   GENERATION_FAILED = 'GENERATION_FAILED',
+  SAFETY_FILTER = 'SAFETY_FILTER',
   UNKNOWN = 'UNKNOWN'
 }
 
@@ -111,6 +112,22 @@ export class ErrorClassifier {
       };
     }
     
+    // Quota exhausted (sent as 403 or 429 with a QUOTA_EXCEEDED code)
+    if (code === 'QUOTA_EXCEEDED') {
+      return {
+        type: ErrorType.QUOTA_EXCEEDED,
+        severity: ErrorSeverity.MEDIUM,
+        message: error.message,
+        userMessage: 'Generation quota was exhausted. Try again once your quota resets.',
+        code,
+        requestId: error.request_id,
+        timestamp,
+        recoveryActions: [
+          { label: 'Retry Later', action: 'retry' }
+        ]
+      };
+    }
+
     // Authorization errors
     if (status === 403) {
       return {
@@ -266,6 +283,74 @@ export class ErrorClassifier {
   }
   
   private static classifyStringError(error: string, timestamp: string): ErrorDetails {
+    const message = error.toLowerCase();
+
+    // Failure reasons reported in a generation's error_details
+    if (/quota|resource.?exhausted|insufficient credits|limit reached/.test(message)) {
+      return {
+        type: ErrorType.QUOTA_EXCEEDED,
+        severity: ErrorSeverity.MEDIUM,
+        message: error,
+        userMessage: 'Generation quota was exhausted. Try again once your quota resets.',
+        timestamp,
+        recoveryActions: [
+          { label: 'Retry Later', action: 'retry' }
+        ]
+      };
+    }
+
+    if (/safety|content policy|responsible ai|prohibited|blocked|filtered/.test(message)) {
+      return {
+        type: ErrorType.SAFETY_FILTER,
+        severity: ErrorSeverity.LOW,
+        message: error,
+        userMessage: 'The prompt or output was blocked by the safety filter. Try rewording your prompt.',
+        timestamp,
+        recoveryActions: [
+          { label: 'Modify Prompt', action: 'custom' }
+        ]
+      };
+    }
+
+    if (/rate limit|too many requests|\b429\b/.test(message)) {
+      return {
+        type: ErrorType.RATE_LIMIT,
+        severity: ErrorSeverity.MEDIUM,
+        message: error,
+        userMessage: 'Too many requests. Please wait a moment and try again.',
+        timestamp,
+        recoveryActions: [
+          { label: 'Wait and Retry', action: 'retry' }
+        ]
+      };
+    }
+
+    if (/timeout|timed out|deadline/.test(message)) {
+      return {
+        type: ErrorType.TIMEOUT,
+        severity: ErrorSeverity.MEDIUM,
+        message: error,
+        userMessage: 'The request timed out. Please try again.',
+        timestamp,
+        recoveryActions: [
+          { label: 'Retry', action: 'retry' }
+        ]
+      };
+    }
+
+    if (/unavailable|internal error|server error|backend|temporar|try again|\b50[0234]\b/.test(message)) {
+      return {
+        type: ErrorType.SERVER,
+        severity: ErrorSeverity.HIGH,
+        message: error,
+        userMessage: 'Server error occurred. Please try again.',
+        timestamp,
+        recoveryActions: [
+          { label: 'Retry', action: 'retry' }
+        ]
+      };
+    }
+
     return {
       type: ErrorType.UNKNOWN,
       severity: ErrorSeverity.LOW,
@@ -530,6 +615,8 @@ export function getErrorIcon(type: ErrorType): string {
       return '🔧';
     case ErrorType.GENERATION_FAILED:
       return '🎬';
+    case ErrorType.SAFETY_FILTER:
+      return '🛡️';
     default:
       return '❌';
   }
@@ -4,6 +4,8 @@ interface ImportMetaEnv {
   readonly VITE_API_URL: string
   readonly VITE_APP_NAME: string
   readonly VITE_APP_VERSION: string
+  readonly VITE_STAGING_API_URL?: string
+  readonly VITE_SANDBOX?: string
 }
 
 interface ImportMeta {
@@ -1,10 +1,13 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { visualizer } from 'rollup-plugin-visualizer';
+import { serviceWorkerManifest } from './plugins/serviceWorkerManifest';
 
 export default defineConfig({
   plugins: [
     react(),
+    // Emits sw.js with the hashed precache manifest and API cache rules
+    serviceWorkerManifest(),
     // Bundle analyzer for production builds
     process.env.ANALYZE && visualizer({
       filename: 'dist/bundle-analysis.html',